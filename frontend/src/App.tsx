@@ -13,7 +13,9 @@ import {
   Link,
   Chip,
   Badge,
-  Grid
+  Grid,
+  Tooltip,
+  Alert
 } from "@mui/material";
 import HistoryViewer from './components/HistoryViewer';
 import { 
@@ -22,18 +24,24 @@ import {
   Tune as ControlIcon,
   BugReport as DebugIcon,
   History as HistoryIcon,
+  Dns as FleetIcon,
   NavigateNext as NavigateNextIcon
 } from '@mui/icons-material';
 import { ThemeProvider } from "./context/ThemeContext";
 import { AuthProvider, useAuth } from "./context/AuthContext";
+import { ServerProvider, useServers } from "./context/ServerContext";
+import { LiveUpdatesProvider, useLiveUpdates } from "./context/LiveUpdatesContext";
 import { NotificationProvider } from "./components/NotificationProvider";
 import ActionsMenu from "./components/ActionsMenu";
 import Dashboard from "./components/Dashboard";
 import HistoryChart from "./components/HistoryChart";
 import Controls from "./components/Controls";
 import Terminal from "./components/DebugTerminal";
+import SystemLogBrowser from "./components/SystemLogBrowser";
 import InformationCard from "./components/InformationCard";
 import PowerCard from "./components/PowerCard";
+import EnergyCard from "./components/EnergyCard";
+import StorageCard from "./components/StorageCard";
 import SensorsHealthOverview from "./components/SensorsHealthOverview";
 import RecentActivity from "./components/RecentActivity";
 import SplashScreen from "./components/SplashScreen";
@@ -44,6 +52,8 @@ import SettingsDialog from "./components/SettingsDialog";
 import AccountsDialog from "./components/AccountsDialog";
 import SessionTimeoutWarning from "./components/SessionTimeoutWarning";
 import AppFooter from "./components/AppFooter";
+import FleetOverview from "./components/FleetOverview";
+import ServerSwitcher from "./components/ServerSwitcher";
 import { SPACING } from "./constants/spacing";
 
 interface TabPanelProps {
@@ -135,6 +145,16 @@ const OverviewTabContent = React.memo<{}>(function OverviewTabContent() {
           </Grid>
         </Grid>
       </Box>
+
+      {/* Fourth Row - Smart Array controllers and drive health */}
+      <Box sx={{ mb: SPACING.ROW }}>
+        <StorageCard />
+      </Box>
+
+      {/* Fifth Row - Power draw, energy use and cost */}
+      <Box sx={{ mb: SPACING.ROW }}>
+        <EnergyCard />
+      </Box>
     </Box>
   );
 });
@@ -174,7 +194,7 @@ const ControlTabContent = React.memo<ControlTabContentProps>(function ControlTab
 });
 
 interface LogsTabContentProps {
-  // No props needed since Terminal component fetches its own data
+  // No props needed since the log components fetch their own data
 }
 
 const LogsTabContent = React.memo<LogsTabContentProps>(function LogsTabContent() {
@@ -185,8 +205,11 @@ const LogsTabContent = React.memo<LogsTabContentProps>(function LogsTabContent()
       aria-describedby="tab-desc-3"
     >
       <div id="tab-desc-3" className="sr-only">
-        Backend application logs and system messages
+        Integrated Management Log and iLO Event Log of the server, backend application logs and system messages
       </div>
+      <Box sx={{ mb: SPACING.ROW }}>
+        <SystemLogBrowser />
+      </Box>
       <Terminal />
     </Box>
   );
@@ -207,7 +230,9 @@ function AppContent() {
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [accountsOpen, setAccountsOpen] = useState(false);
   
-  const { user } = useAuth();
+  const { user, hasRole } = useAuth();
+  const { selectedServerId, selectServer } = useServers();
+  const { connected: liveConnected } = useLiveUpdates();
 
   const handleTabChange = (event: React.SyntheticEvent<Element, Event>, newValue: number) => {
     setTabValue(newValue);
@@ -238,7 +263,12 @@ function AppContent() {
     { 
       label: 'Logs', 
       icon: <DebugIcon sx={{ fontSize: { xs: 18, sm: 20 } }} />, 
-      description: 'Backend logs and system messages'
+      description: 'iLO logs and backend logs'
+    },
+    { 
+      label: 'Fleet', 
+      icon: <FleetIcon sx={{ fontSize: { xs: 18, sm: 20 } }} />, 
+      description: 'Health of every registered server'
     }
   ];
 
@@ -369,6 +399,23 @@ function AppContent() {
             minWidth: 200,
             justifyContent: 'flex-end'
           }}>
+            {/* Server Switcher */}
+            <ServerSwitcher />
+
+            {/* Live Updates Status */}
+            <Tooltip title={liveConnected ? 'Receiving live updates' : 'Live updates unavailable, refreshing every 30 seconds'}>
+              <Chip
+                size="small"
+                label={liveConnected ? 'Live' : 'Polling'}
+                color={liveConnected ? 'success' : 'default'}
+                variant="outlined"
+                sx={{ 
+                  fontSize: '0.75rem',
+                  display: { xs: 'none', md: 'flex' }
+                }}
+              />
+            </Tooltip>
+
             {/* User Info Chip */}
             {user && (
               <Chip
@@ -487,7 +534,8 @@ function AppContent() {
           }}
         >
           {/* Accessible Tab Content with Proper ARIA Labels - All content rendered for performance */}
-          <Box sx={{ flex: 1, pt: { xs: 1, sm: 2 } }}>
+          {/* Keyed on the selected server so every tab refetches after switching */}
+          <Box key={selectedServerId} sx={{ flex: 1, pt: { xs: 1, sm: 2 } }}>
             <TabPanel value={tabValue} index={0}>
               <OverviewTabContent />
             </TabPanel>
@@ -501,12 +549,23 @@ function AppContent() {
             </TabPanel>
 
             <TabPanel value={tabValue} index={3}>
-              <HistoryViewer />
+              {/* The raw database holds audit records and session metadata */}
+              {hasRole('admin') ? (
+                <HistoryViewer />
+              ) : (
+                <Alert severity="info" sx={{ borderRadius: 2 }}>
+                  The database viewer is available to administrators.
+                </Alert>
+              )}
             </TabPanel>
 
             <TabPanel value={tabValue} index={4}>
               <LogsTabContent />
             </TabPanel>
+
+            <TabPanel value={tabValue} index={5}>
+              <FleetOverview onOpenServer={(serverId) => { selectServer(serverId); setTabValue(0); }} />
+            </TabPanel>
           </Box>
         </Container>
       </Box>
@@ -553,13 +612,17 @@ function App() {
   return (
     <ThemeProvider>
       <AuthProvider>
-        <NotificationProvider>
-          {showSplash ? (
-            <SplashScreen onSplashComplete={handleSplashComplete} />
-          ) : (
-            <AuthenticatedApp />
-          )}
-        </NotificationProvider>
+        <ServerProvider>
+          <LiveUpdatesProvider>
+            <NotificationProvider>
+              {showSplash ? (
+                <SplashScreen onSplashComplete={handleSplashComplete} />
+              ) : (
+                <AuthenticatedApp />
+              )}
+            </NotificationProvider>
+          </LiveUpdatesProvider>
+        </ServerProvider>
       </AuthProvider>
     </ThemeProvider>
   );
@@ -53,10 +53,10 @@ api.interceptors.response.use(
 const cache = new Map<string, { data: any; timestamp: number; ttl: number }>();
 
 const CACHE_TTL = {
-  sensors: 3 * 60 * 1000,      // 3 minutes to match backend
-  fans: 3 * 60 * 1000,         // 3 minutes
-  systemInfo: 3 * 60 * 1000,   // 3 minutes to match backend
-  power: 3 * 60 * 1000,        // 3 minutes to match backend
+  sensors: 30 * 1000,          // Thermal polling interval of the backend
+  fans: 30 * 1000,             // Thermal polling interval
+  systemInfo: 3 * 60 * 1000,   // 3 minutes, the backend polls it far less often
+  power: 60 * 1000,            // Power polling interval of the backend
   history: 60000       // 1 minute
 };
 
@@ -213,6 +213,18 @@ const get = async (endpoint: string, cacheKey?: string, ttl?: number) => {
   }
 };
 
+// Data the backend collects in the background answers 202 with only an error message until it
+// has been read once, that resolves as null so it is neither cached nor mistaken for the data
+const getCollected = async <T>(endpoint: string, cacheKey: string, ttl: number): Promise<T | null> => {
+  const cached = getCachedData(cacheKey);
+  if (cached) return cached;
+
+  const res = await api.get(`/api${endpoint}`);
+  if (res.status === 202) return null;
+  setCachedData(cacheKey, res.data, ttl);
+  return res.data;
+};
+
 // Helper function for POST requests with optional timeout override
 const post = async (endpoint: string, data?: any, timeout?: number) => {
   const config = timeout ? { timeout } : {};
@@ -220,8 +232,56 @@ const post = async (endpoint: string, data?: any, timeout?: number) => {
   return res.data;
 };
 
+// Server the dashboard is showing, chosen in the server switcher. The default server
+// keeps its original routes, any other server is read through /api/servers/:serverId.
+export const DEFAULT_SERVER_ID = 'default';
+let activeServerId = DEFAULT_SERVER_ID;
+
+export const getActiveServerId = (): string => activeServerId;
+export const setActiveServerId = (serverId: string) => {
+  if (serverId === activeServerId) return;
+  activeServerId = serverId;
+  invalidateCache();
+};
+
+const forActiveServer = (endpoint: string, scopedEndpoint: string) =>
+  activeServerId === DEFAULT_SERVER_ID
+    ? endpoint
+    : `/servers/${encodeURIComponent(activeServerId)}${scopedEndpoint}`;
+
+const historyPath = (path: string) => forActiveServer(`/api/history${path}`, `/history${path}`);
+
+// Live updates (Server-Sent Events). Read through fetch rather than EventSource,
+// which cannot send the Authorization header.
+export const openEventStream = (serverId: string, signal: AbortSignal): Promise<Response> => {
+  const token = getAuthToken();
+  return fetch(`${API_BASE}/api/events?serverId=${encodeURIComponent(serverId)}`, {
+    headers: {
+      'Accept': 'text/event-stream',
+      'Authorization': token ? `Bearer ${token}` : ''
+    },
+    signal
+  });
+};
+
+// Cache entries filled by pushed events, so components mounting later skip the request
+const LIVE_CACHE: Record<string, { key: string; ttl: number }> = {
+  sensors: { key: 'sensors', ttl: CACHE_TTL.sensors },
+  fans: { key: 'fans', ttl: CACHE_TTL.fans },
+  systemInfo: { key: 'systemInfo', ttl: CACHE_TTL.systemInfo },
+  power: { key: 'power', ttl: CACHE_TTL.power },
+  systemLogs: { key: 'systemlogs', ttl: 30000 }
+};
+
+export const cacheLiveData = (type: string, data: any): void => {
+  const entry = LIVE_CACHE[type];
+  if (entry) {
+    setCachedData(entry.key, data, entry.ttl);
+  }
+};
+
 // Sensor API (with caching optimization)
-export const getSensors = () => get('/sensors', 'sensors', CACHE_TTL.sensors);
+export const getSensors = () => get(forActiveServer('/sensors', '/sensors'), 'sensors', CACHE_TTL.sensors);
 export const getAvailableSensors = () => get('/sensors/available');
 export const getActivePids = () => get('/sensors/active-pids');
 export const getAllPids = () => get('/sensors/pids');
@@ -236,7 +296,7 @@ export const resetSensors = () => {
 };
 
 // Fan API (with caching optimization and extended timeouts for SSH operations)
-export const getFans = () => get('/fans', 'fans', CACHE_TTL.fans);
+export const getFans = () => get(forActiveServer('/fans', '/fans'), 'fans', CACHE_TTL.fans);
 export const getFansFresh = () => {
   // Force fresh data by bypassing cache
   invalidateCache(['fans']);
@@ -263,6 +323,16 @@ export const setPidLowLimit = (pidId: number, lowLimit: number) =>
 export const getFanInfo = () => get('/fans/info');
 export const getFanPidInfo = () => get('/fans/pid-info');
 export const getFanGroupInfo = () => get('/fans/group-info');
+
+export interface FanGroup {
+  id: number;
+  algorithm: string;
+  output: number;
+  sensors: number[];
+  drivingSensor: number | null;
+}
+
+export const getFanGroups = (): Promise<FanGroup[]> => get('/fans/groups');
 export const setSensorLowLimit = (sensorId: number, lowLimit: number) => 
   post('/sensors/set-low-limit', { sensorId, lowLimit });
 export const invalidateFanCache = () => {
@@ -280,12 +350,104 @@ export interface SystemInformation {
 }
 
 export const getSystemInformation = (): Promise<SystemInformation> => 
-  get('/api/system/info', 'systemInfo', CACHE_TTL.systemInfo);
+  get(forActiveServer('/api/system/info', '/system/info'), 'systemInfo', CACHE_TTL.systemInfo);
 export const refreshSystemInformation = (): Promise<SystemInformation> => {
   invalidateCache(['systemInfo']);
+  if (activeServerId !== DEFAULT_SERVER_ID) {
+    return serversAPI.refresh(activeServerId).then(() => getSystemInformation());
+  }
   return post('/api/system/info/refresh');
 };
 
+// Hardware inventory, collected by the backend on the system information cadence
+export interface ProcessorInventory {
+  socket: string;
+  model: string;
+  cores: number | null;
+  threads: number | null;
+  speedMHz: number | null;
+  health: string;
+}
+
+export interface MemoryDimm {
+  slot: string;
+  populated: boolean;
+  sizeMB: number | null;
+  speedMHz: number | null;
+  type: string | null;
+  manufacturer: string | null;
+  partNumber: string | null;
+  health: string;
+}
+
+export interface PciDevice {
+  name: string;
+  location: string;
+  deviceType: string | null;
+  vendorId: string | null;
+  deviceId: string | null;
+}
+
+export interface HardwareInventory {
+  processors: ProcessorInventory[];
+  memory: MemoryDimm[];
+  pciDevices: PciDevice[];
+  source: 'redfish' | 'clp';
+  collectedAt: string;
+}
+
+// Null while the backend has not collected it yet
+export const getHardwareInventory = (): Promise<HardwareInventory | null> =>
+  getCollected(forActiveServer('/system/inventory', '/system/inventory'), 'inventory', CACHE_TTL.systemInfo);
+
+// Smart Array storage, read by the backend from the iLO's Redfish SmartStorage resources
+export interface LogicalDrive {
+  number: number | null;
+  name: string;
+  raidLevel: string | null;
+  capacityMiB: number | null;
+  health: string;
+  statusReasons: string[];
+}
+
+export interface PhysicalDrive {
+  name: string;
+  location: string;
+  model: string | null;
+  serialNumber: string | null;
+  mediaType: string | null;
+  interfaceType: string | null;
+  capacityMiB: number | null;
+  temperatureCelsius: number | null;
+  maxTemperatureCelsius: number | null;
+  ssdEndurancePercent: number | null;
+  failurePredicted: boolean;
+  health: string;
+  statusReasons: string[];
+}
+
+export interface StorageController {
+  location: string;
+  model: string;
+  serialNumber: string | null;
+  firmwareVersion: string | null;
+  health: string;
+  cacheSizeMiB: number | null;
+  cacheStatus: string | null;
+  batteryStatus: string | null;
+  logicalDrives: LogicalDrive[];
+  physicalDrives: PhysicalDrive[];
+}
+
+export interface SmartStorageStatus {
+  controllers: StorageController[];
+  collectedAt: string;
+}
+
+// Null while the backend has not collected it yet
+export const getStorageStatus = (): Promise<SmartStorageStatus | null> =>
+  getCollected(forActiveServer('/system/storage', '/system/storage'), 'storage', CACHE_TTL.systemInfo);
+
 // Backend Logs API
 export interface LogEntry {
   timestamp: string;
@@ -306,7 +468,7 @@ export const clearBackendLogs = () => {
 export interface ILoConfig {
   host: string;
   username: string;
-  password?: string;
+  passwordSet?: boolean; // The password itself is never returned
   configured: boolean;
 }
 
@@ -318,16 +480,79 @@ export const testILoConnection = (host: string, username: string, password: stri
 export const getILoStatus = (): Promise<{ configured: boolean }> => get('/api/ilo/status');
 
 // App Configuration API
+export interface MqttConfig {
+  enabled: boolean;
+  brokerUrl: string;
+  username: string;
+  password?: string; // Only sent when changing it, blank keeps the stored one
+  passwordSet?: boolean;
+  baseTopic: string;
+  discoveryPrefix: string;
+  allowCommands: boolean;
+}
+
+export interface MqttStatus {
+  enabled: boolean;
+  connected: boolean;
+  brokerUrl: string;
+  allowCommands: boolean;
+  lastError?: string;
+}
+
+// How long each resolution of sensor and fan history is kept
+export interface RetentionConfig {
+  rawHours: number;
+  fiveMinuteDays: number;
+  hourlyDays: number;
+}
+
 export interface AppConfig {
   port: number;
   sessionTimeout: number;
+  mqtt: MqttConfig;
+  retention: RetentionConfig;
 }
 
-export const getAppConfig = (): Promise<AppConfig> => get('/api/app/config');
+export const getAppConfig = (): Promise<AppConfig> => api.get('/api/app/config').then(response => response.data);
 export const saveAppConfig = (config: AppConfig): Promise<void> => post('/api/app/config', config);
+export const getMqttStatus = (): Promise<MqttStatus> => api.get('/api/app/mqtt/status').then(response => response.data);
+
+// A setting in use by the server and where it came from, secrets are redacted
+export interface EffectiveSetting {
+  key: string;
+  value: string | number | boolean | null;
+  source: 'default' | 'file' | 'env';
+  envVar?: string;
+  secret?: boolean;
+}
+
+export const getEffectiveConfig = (): Promise<EffectiveSetting[]> => api.get('/api/app/effective-config').then(response => response.data);
+export const testMqttConnection = (mqtt: MqttConfig): Promise<{ success: boolean; message: string }> => 
+  post('/api/app/mqtt/test', mqtt, 30000);
 export const restartServerWithConfig = (port?: number): Promise<void> => post('/api/app/restart', { port });
 
 // Authentication API
+export interface UserSession {
+  id: string;
+  createdAt: string;
+  lastSeen: string;
+  expiresAt: string;
+  userAgent?: string;
+  ipAddress?: string;
+  current: boolean;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL
+}
+
 export const authAPI = {
   login: async (username: string, password: string) => {
     const response = await post('/api/auth/login', { username, password });
@@ -336,6 +561,13 @@ export const authAPI = {
     }
     return response;
   },
+  loginMfa: async (mfaToken: string, code: string) => {
+    const response = await post('/api/auth/login/mfa', { mfaToken, code });
+    if (response.token) {
+      setAuthToken(response.token);
+    }
+    return response;
+  },
   logout: async () => {
     try {
       await post('/api/auth/logout');
@@ -344,12 +576,24 @@ export const authAPI = {
     }
   },
   setup: (username: string, password: string) => post('/api/auth/setup', { username, password }),
-  getStatus: () => get('/api/auth/status'),
-  getCurrentUser: () => get('/api/auth/me'),
-  createUser: (username: string, password: string) => post('/api/auth/users', { username, password }),
-  getAllUsers: () => get('/api/auth/users'),
+  getStatus: () => api.get('/api/auth/status').then(response => response.data),
+  getCurrentUser: () => api.get('/api/auth/me').then(response => response.data),
+  createUser: (username: string, password: string, role: string) => post('/api/auth/users', { username, password, role }),
+  getAllUsers: () => api.get('/api/auth/users').then(response => response.data),
   changePassword: (oldPassword: string, newPassword: string) => post('/api/auth/change-password', { oldPassword, newPassword }),
   deleteUser: (userId: string) => api.delete(`/api/auth/users/${userId}`).then(response => response.data),
+  updateUserRole: (userId: string, role: string) => api.put(`/api/auth/users/${userId}/role`, { role }).then(response => response.data),
+  unlockUser: (userId: string) => post(`/api/auth/users/${userId}/unlock`),
+  refreshSession: (): Promise<{ success: boolean; expiresAt: number }> => post('/api/auth/refresh'),
+  getSessions: (): Promise<UserSession[]> => api.get('/api/auth/sessions').then(response => response.data),
+  revokeSession: (sessionId: string) => api.delete(`/api/auth/sessions/${sessionId}`).then(response => response.data),
+  revokeOtherSessions: () => api.delete('/api/auth/sessions', { params: { keepCurrent: true } }).then(response => response.data),
+  getMfaStatus: (): Promise<MfaStatus> => api.get('/api/auth/mfa').then(response => response.data),
+  enrollMfa: (): Promise<MfaEnrollment> => post('/api/auth/mfa/enroll'),
+  verifyMfaEnrollment: (code: string): Promise<{ success: boolean; recoveryCodes: string[] }> => post('/api/auth/mfa/verify', { code }),
+  regenerateRecoveryCodes: (code: string): Promise<{ success: boolean; recoveryCodes: string[] }> => post('/api/auth/mfa/recovery-codes', { code }),
+  disableMfa: (password: string) => api.delete('/api/auth/mfa', { data: { password } }).then(response => response.data),
+  resetUserMfa: (userId: string) => api.delete(`/api/auth/users/${userId}/mfa`).then(response => response.data),
 };
 
 // Auth API for admin setup
@@ -372,6 +616,29 @@ export interface PowerInformation {
   warningDuration: number;
   powerMicroVersion: string;
   autoPowerRestore: string;
+  powerState: PowerState;
+}
+
+export type PowerState = 'On' | 'Off' | 'Unknown';
+export type PowerAction = 'on' | 'shutdown' | 'force-off' | 'reset';
+
+export interface PowerActionConfirmation {
+  confirmationToken: string;
+  expiresAt: number;
+  action: PowerAction;
+  label: string;
+  server: string;
+}
+
+export interface PowerActionRecord {
+  action: PowerAction;
+  username: string;
+  ipAddress?: string;
+  previousState: PowerState;
+  // null when the iLO never answered, the action may or may not have been carried out
+  success: boolean | null;
+  error?: string;
+  timestamp: string;
 }
 
 export interface SystemLogRecord {
@@ -383,14 +650,115 @@ export interface SystemLogRecord {
 }
 
 export const getPowerInformation = (): Promise<PowerInformation> => 
-  get('/api/power/info', 'power', CACHE_TTL.power);
+  get(forActiveServer('/api/power/info', '/power/info'), 'power', CACHE_TTL.power);
 export const refreshPowerInformation = (): Promise<PowerInformation> => {
   invalidateCache(['power']);
+  if (activeServerId !== DEFAULT_SERVER_ID) {
+    return serversAPI.refresh(activeServerId).then(() => getPowerInformation());
+  }
   return post('/api/power/refresh');
 };
 
+// Power supplies from the Redfish Power resource, redundant is null with a single supply bay
+export interface PowerSupply {
+  name: string;
+  bay: number | null;
+  present: boolean;
+  model: string | null;
+  serialNumber: string | null;
+  firmwareVersion: string | null;
+  capacityWatts: number | null;
+  inputVoltage: number | null;
+  outputWatts: number | null;
+  health: string;
+}
+
+export interface PowerSupplyStatus {
+  supplies: PowerSupply[];
+  redundant: boolean | null;
+  redundancyMode: string | null;
+  collectedAt: string;
+}
+
+// Null while the backend has not collected them yet
+export const getPowerSupplies = (): Promise<PowerSupplyStatus | null> =>
+  getCollected(forActiveServer('/power/supplies', '/power/supplies'), 'powerSupplies', CACHE_TTL.power);
+
+export type PowerRegulatorMode = 'dynamic' | 'static-low' | 'static-high' | 'os';
+export type PowerWarningType = 'disabled' | 'peak' | 'average';
+
+// Only the fields present are changed, a powerCap of 0 removes the cap
+export interface PowerSettingsUpdate {
+  regulatorMode?: PowerRegulatorMode;
+  powerCap?: number;
+  warning?: { type: PowerWarningType; threshold: number; duration: number };
+}
+
+// Power actions are two-step: request a one-time confirmation token, then send it back with the action
+const powerPath = (path: string) => `/api/servers/${encodeURIComponent(activeServerId)}/power${path}`;
+
+export const powerControlAPI = {
+  confirm: (action: PowerAction): Promise<PowerActionConfirmation> => post(powerPath('/confirm'), { action }),
+  execute: (action: PowerAction, confirmationToken: string): Promise<{ success: boolean; message: string; record: PowerActionRecord }> => {
+    invalidateCache(['power']);
+    return post(powerPath('/actions'), { action, confirmationToken }, 60000); // The iLO waits for the host to acknowledge
+  },
+  getLog: (limit = 20): Promise<PowerActionRecord[]> => 
+    api.get(powerPath('/actions'), { params: { limit } }).then(response => response.data),
+  updateSettings: (update: PowerSettingsUpdate): Promise<PowerInformation> => {
+    invalidateCache(['power']);
+    return api.put(powerPath('/settings'), update, { timeout: 60000 }).then(response => response.data); // Refreshes the readings before answering
+  },
+};
+
 export const getRecentSystemLogs = (options?: { signal?: AbortSignal }): Promise<SystemLogRecord[]> => 
-  get('/systemlog/recent', 'systemlogs', 30000); // 30 second cache
+  get(forActiveServer('/systemlog/recent', '/systemlog/recent'), 'systemlogs', 30000); // 30 second cache
+
+// The full IML and iLO Event Log archived by the backend, acknowledgement is kept by the app and not written back to the iLO
+export type EventLogKind = 'iml' | 'iel';
+
+export interface ArchivedLogRecord extends SystemLogRecord {
+  serverId: string;
+  generation: number; // Goes up each time the log is cleared on the iLO
+  timestamp: number | null; // null when the iLO had no valid clock for the entry
+  firstSeen: number;
+  acknowledgedAt: number | null;
+  acknowledgedBy: string | null;
+}
+
+// Record numbers repeat across generations, so a record is identified by both
+export interface LogRecordRef {
+  generation: number;
+  number: number;
+}
+
+export interface LogRecordFilters {
+  severity?: SystemLogRecord['severity'][];
+  from?: number;
+  to?: number;
+  search?: string;
+  acknowledged?: boolean;
+}
+
+const systemLogPath = (log: EventLogKind, path = '') => 
+  `/api/servers/${encodeURIComponent(activeServerId)}/systemlog/${log}${path}`;
+
+const logRecordParams = (filters: LogRecordFilters) => ({
+  severity: filters.severity?.length ? filters.severity.join(',') : undefined,
+  from: filters.from,
+  to: filters.to,
+  search: filters.search || undefined,
+  acknowledged: filters.acknowledged
+});
+
+export const eventLogAPI = {
+  getRecords: (log: EventLogKind, filters: LogRecordFilters, page = 1, pageSize = 50): Promise<{ records: ArchivedLogRecord[]; total: number; page: number; pageSize: number }> => 
+    api.get(systemLogPath(log), { params: { ...logRecordParams(filters), page, pageSize } }).then(response => response.data),
+  acknowledge: (log: EventLogKind, records: LogRecordRef[], acknowledged = true): Promise<{ success: boolean; updated: number }> => 
+    post(systemLogPath(log, '/acknowledge'), { records, acknowledged }),
+  export: (log: EventLogKind, filters: LogRecordFilters, format: 'csv' | 'json'): Promise<Blob> => 
+    api.get(systemLogPath(log, '/export'), { params: { ...logRecordParams(filters), format }, responseType: 'blob' }).then(response => response.data),
+};
 
 // Historical Data API
 export interface TimeRange {
@@ -436,35 +804,35 @@ export const historyAPI = {
   // Get sensor readings for a time range
   getSensorReadings: (timeRange: number, sensorName?: string): Promise<SensorReading[]> => {
     const params = sensorName ? `?timeRange=${timeRange}&sensorName=${sensorName}` : `?timeRange=${timeRange}`;
-    return get(`/api/history/sensors${params}`);
+    return get(historyPath(`/sensors${params}`));
   },
   
   // Get fan readings for a time range
   getFanReadings: (timeRange: number, fanName?: string): Promise<FanReading[]> => {
     const params = fanName ? `?timeRange=${timeRange}&fanName=${fanName}` : `?timeRange=${timeRange}`;
-    return get(`/api/history/fans${params}`);
+    return get(historyPath(`/fans${params}`));
   },
   
   // Get historical data by type
   getHistoricalData: (type: string, timeRange: number): Promise<HistoricalDataPoint[]> => 
-    get(`/api/history/data/${type}?timeRange=${timeRange}`),
+    get(historyPath(`/data/${type}?timeRange=${timeRange}`)),
   
   // Get latest readings for dashboard
-  getLatestSensorReadings: (): Promise<SensorReading[]> => get('/api/history/latest/sensors'),
-  getLatestFanReadings: (): Promise<FanReading[]> => get('/api/history/latest/fans'),
+  getLatestSensorReadings: (): Promise<SensorReading[]> => get(historyPath('/latest/sensors')),
+  getLatestFanReadings: (): Promise<FanReading[]> => get(historyPath('/latest/fans')),
   getLatestHistoricalData: (type: string): Promise<HistoricalDataPoint | null> => 
-    get(`/api/history/latest/${type}`),
+    get(historyPath(`/latest/${type}`)),
   
   // Get chart data formatted for Chart.js
   getChartSensorData: (timeRange: number): Promise<any> => 
-    get(`/api/history/chart/sensors?timeRange=${timeRange}`),
+    get(historyPath(`/chart/sensors?timeRange=${timeRange}`)),
   getChartFanData: (timeRange: number): Promise<any> => 
-    get(`/api/history/chart/fans?timeRange=${timeRange}`),
+    get(historyPath(`/chart/fans?timeRange=${timeRange}`)),
   
   // Get aggregated data
   getAggregatedSensorData: (timeRange: number, interval?: number): Promise<any[]> => {
     const params = interval ? `?timeRange=${timeRange}&interval=${interval}` : `?timeRange=${timeRange}`;
-    return get(`/api/history/aggregated/sensors${params}`);
+    return get(historyPath(`/aggregated/sensors${params}`));
   },
 
   // Database viewer endpoints for History Tab
@@ -491,4 +859,190 @@ export const historyAPI = {
       return response.blob();
     });
   }
-};
\ No newline at end of file
+};
+
+// Server registry API
+export interface ServerSummary {
+  id: string;
+  name: string;
+  host: string;
+  username: string;
+  isDefault: boolean;
+  passwordSet: boolean;
+  fetcherRunning: boolean;
+  lastUpdated: string;
+}
+
+export type FleetStatus = 'ok' | 'warning' | 'critical' | 'unreachable' | 'stopped';
+
+export interface FleetServer extends ServerSummary {
+  status: FleetStatus;
+  errors: string[];
+  systemInfo: SystemInformation | null;
+  power: { presentPower: number; averagePower: number } | null;
+  thermal: {
+    sensorCount: number;
+    criticalSensors: number;
+    degradedSensors: number;
+    hottest: { name: string; reading: number; critical?: number } | null;
+  };
+  fans: {
+    count: number;
+    averageSpeed: number | null;
+  };
+}
+
+export interface ServerInput {
+  name: string;
+  host: string;
+  username: string;
+  password?: string; // Omit to keep the stored password for the same host
+}
+
+export const serversAPI = {
+  list: (): Promise<ServerSummary[]> => api.get('/api/servers').then(response => response.data),
+  getOverview: (): Promise<FleetServer[]> => api.get('/api/servers/overview').then(response => response.data),
+  create: (server: ServerInput): Promise<ServerSummary> => post('/api/servers', server),
+  update: (serverId: string, server: ServerInput): Promise<ServerSummary> => 
+    api.put(`/api/servers/${encodeURIComponent(serverId)}`, server).then(response => response.data),
+  remove: (serverId: string, purgeHistory = false) => 
+    api.delete(`/api/servers/${encodeURIComponent(serverId)}`, { params: purgeHistory ? { purgeHistory: true } : undefined }).then(response => response.data),
+  test: (server: ServerInput): Promise<{ success: boolean; message: string }> => post('/api/servers/test', server),
+  testExisting: (serverId: string, server: Partial<ServerInput>): Promise<{ success: boolean; message: string }> => 
+    post(`/api/servers/${encodeURIComponent(serverId)}/test`, server),
+  refresh: (serverId: string): Promise<{ success: boolean; lastUpdated: string }> => 
+    post(`/api/servers/${encodeURIComponent(serverId)}/refresh`, undefined, 60000), // A full fetch cycle runs several SSH commands
+};
+
+// Energy usage and electricity tariff API
+export type EnergyPeriod = 'day' | 'week' | 'month';
+
+export interface TimeOfUseRate {
+  name: string;
+  days: number[]; // 0 = Sunday
+  startHour: number;
+  endHour: number; // Exclusive, may wrap past midnight
+  rate: number;
+}
+
+export interface EnergyTariff {
+  currency: string;
+  baseRate: number;
+  timeOfUse: TimeOfUseRate[];
+}
+
+export interface EnergyBucket {
+  start: number;
+  end: number;
+  energyKwh: number;
+  cost: number;
+  coverage: number; // Share of the period backed by readings, 0-1
+  avgWatts: number;
+  peakWatts: number;
+}
+
+export interface EnergyReport {
+  period: EnergyPeriod;
+  currency: string;
+  buckets: EnergyBucket[];
+  totals: { energyKwh: number; cost: number };
+  byRate: { name: string; rate: number; energyKwh: number; cost: number }[];
+}
+
+const serverHistoryPath = (path: string) => `/api/servers/${encodeURIComponent(activeServerId)}/history${path}`;
+
+export const energyAPI = {
+  getPowerChart: (timeRange: number): Promise<{ datasets: any[]; timeRange: number }> => 
+    api.get(serverHistoryPath('/chart/power'), { params: { timeRange } }).then(response => response.data),
+  getReport: (period: EnergyPeriod, count?: number): Promise<EnergyReport> => 
+    api.get(serverHistoryPath('/energy'), { params: { period, count } }).then(response => response.data),
+  getTariff: (): Promise<EnergyTariff> => api.get('/api/energy/tariff').then(response => response.data),
+  saveTariff: (tariff: EnergyTariff): Promise<EnergyTariff> => 
+    api.put('/api/energy/tariff', tariff).then(response => response.data),
+};
+
+// Alert rules and notification channels API
+export type AlertRuleType = 'sensor_threshold' | 'fan_health' | 'power_above' | 'psu_health' | 'psu_redundancy' | 'critical_log' | 'ilo_unreachable';
+export type AlertSeverity = 'warning' | 'critical';
+export type AlertChannelId = 'email' | 'webhook' | 'syslog';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  serverId: string | null; // null applies the rule to every server
+  severity: AlertSeverity;
+  params: {
+    sensor?: string;
+    fan?: string;
+    supply?: string;
+    threshold?: number;
+    watts?: number;
+    durationMinutes?: number;
+  };
+  channels: AlertChannelId[];
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface ActiveAlert {
+  alertKey: string;
+  ruleId: string;
+  serverId: string;
+  subject: string;
+  severity: AlertSeverity;
+  message: string;
+  value: number | null;
+  firingSince: number;
+}
+
+export interface AlertEvent {
+  id: number;
+  ruleId: string;
+  ruleName: string;
+  serverId: string;
+  alertKey: string;
+  subject: string;
+  state: 'firing' | 'resolved';
+  severity: AlertSeverity;
+  message: string;
+  value: number | null;
+  timestamp: number;
+  deliveries: { channel: AlertChannelId; success: boolean; error?: string }[];
+}
+
+export interface AlertChannelsConfig {
+  email: {
+    enabled: boolean;
+    host: string;
+    port: number;
+    secure: boolean;
+    username: string;
+    password?: string; // Only sent when changing it, blank keeps the stored one
+    passwordSet?: boolean;
+    from: string;
+    to: string[];
+  };
+  webhook: { enabled: boolean; url: string };
+  syslog: { enabled: boolean; host: string; port: number; facility: number };
+}
+
+export const alertsAPI = {
+  getRules: (): Promise<AlertRule[]> => api.get('/api/alerts/rules').then(response => response.data),
+  createRule: (rule: AlertRuleInput): Promise<AlertRule> => post('/api/alerts/rules', rule),
+  updateRule: (ruleId: string, rule: AlertRuleInput): Promise<AlertRule> => 
+    api.put(`/api/alerts/rules/${encodeURIComponent(ruleId)}`, rule).then(response => response.data),
+  deleteRule: (ruleId: string) => 
+    api.delete(`/api/alerts/rules/${encodeURIComponent(ruleId)}`).then(response => response.data),
+  getActive: (): Promise<ActiveAlert[]> => api.get('/api/alerts/active').then(response => response.data),
+  getHistory: (limit = 50, offset = 0): Promise<{ events: AlertEvent[]; total: number }> => 
+    api.get('/api/alerts/history', { params: { limit, offset } }).then(response => response.data),
+  getChannels: (): Promise<AlertChannelsConfig> => api.get('/api/alerts/channels').then(response => response.data),
+  saveChannels: (config: AlertChannelsConfig): Promise<AlertChannelsConfig> => 
+    api.put('/api/alerts/channels', config).then(response => response.data),
+  testChannel: (channel: AlertChannelId, config: AlertChannelsConfig): Promise<{ success: boolean }> => 
+    post(`/api/alerts/channels/${channel}/test`, config, 30000),
+};
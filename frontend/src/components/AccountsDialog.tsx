@@ -23,7 +23,11 @@ import {
   TableHead,
   TableRow,
   Paper,
-  Chip
+  Chip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem
 } from '@mui/material';
 import { 
   Close as CloseIcon,
@@ -32,9 +36,15 @@ import {
   Visibility,
   VisibilityOff,
   Delete as DeleteIcon,
-  Add as AddIcon
+  Add as AddIcon,
+  Devices as DevicesIcon,
+  Logout as LogoutIcon,
+  LockOpen as LockOpenIcon,
+  PhonelinkLock as PhonelinkLockIcon,
+  PhonelinkErase as PhonelinkEraseIcon
 } from '@mui/icons-material';
-import { useAuth } from '../context/AuthContext';
+import { useAuth, Role, ROLES } from '../context/AuthContext';
+import { authAPI, UserSession, MfaStatus, MfaEnrollment } from '../api';
 
 interface AccountsDialogProps {
   open: boolean;
@@ -42,12 +52,13 @@ interface AccountsDialogProps {
 }
 
 export default function AccountsDialog({ open, onClose }: AccountsDialogProps) {
-  const [activeTab, setActiveTab] = useState<'change-password' | 'users'>('change-password');
+  const [activeTab, setActiveTab] = useState<'change-password' | 'sessions' | 'mfa' | 'users'>('change-password');
   const [oldPassword, setOldPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [newUsername, setNewUsername] = useState('');
   const [newUserPassword, setNewUserPassword] = useState('');
+  const [newUserRole, setNewUserRole] = useState<Role>('viewer');
   const [showOldPassword, setShowOldPassword] = useState(false);
   const [showNewPassword, setShowNewPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
@@ -57,18 +68,164 @@ export default function AccountsDialog({ open, onClose }: AccountsDialogProps) {
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
 
-  const { user, changePassword, createUser, deleteUser, getAllUsers, logout } = useAuth();
+  const { user, changePassword, createUser, deleteUser, updateUserRole, getAllUsers, hasRole, logout } = useAuth();
+  const isAdmin = hasRole('admin');
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
 
   const [users, setUsers] = useState<any[]>([]);
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [mfaStatus, setMfaStatus] = useState<MfaStatus | null>(null);
+  const [mfaEnrollment, setMfaEnrollment] = useState<MfaEnrollment | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
+  const [mfaPassword, setMfaPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
 
   React.useEffect(() => {
     if (open && activeTab === 'users') {
       loadUsers();
     }
+    if (open && activeTab === 'sessions') {
+      loadSessions();
+    }
+    if (open && activeTab === 'mfa') {
+      loadMfaStatus();
+    }
   }, [open, activeTab]);
 
+  const loadMfaStatus = async () => {
+    try {
+      setMfaStatus(await authAPI.getMfaStatus());
+    } catch (error) {
+      console.error('Failed to load MFA status:', error);
+      setError('Failed to load two-factor status');
+    }
+  };
+
+  const handleStartMfaEnrollment = async () => {
+    setLoading(true);
+    setError('');
+    setRecoveryCodes([]);
+
+    try {
+      setMfaEnrollment(await authAPI.enrollMfa());
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to start two-factor setup');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleConfirmMfaEnrollment = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await authAPI.verifyMfaEnrollment(mfaCode.trim());
+      setRecoveryCodes(response.recoveryCodes);
+      setMfaEnrollment(null);
+      setMfaCode('');
+      setSuccess('Two-factor authentication enabled. Store your recovery codes somewhere safe.');
+      loadMfaStatus();
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to verify code');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRegenerateRecoveryCodes = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await authAPI.regenerateRecoveryCodes(mfaCode.trim());
+      setRecoveryCodes(response.recoveryCodes);
+      setMfaCode('');
+      setSuccess('New recovery codes generated, the old ones no longer work');
+      loadMfaStatus();
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to generate recovery codes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDisableMfa = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      await authAPI.disableMfa(mfaPassword);
+      setMfaPassword('');
+      setRecoveryCodes([]);
+      setSuccess('Two-factor authentication disabled');
+      loadMfaStatus();
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to disable two-factor authentication');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResetUserMfa = async (userId: string, username: string) => {
+    if (!window.confirm(`Reset two-factor authentication for "${username}"? They will be able to sign in with their password alone.`)) return;
+
+    setLoading(true);
+    setError('');
+
+    try {
+      await authAPI.resetUserMfa(userId);
+      setSuccess('Two-factor authentication reset');
+      loadUsers();
+    } catch (error: any) {
+      setError(error.message || 'Failed to reset two-factor authentication');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadSessions = async () => {
+    try {
+      setSessions(await authAPI.getSessions());
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+      setError('Failed to load sessions');
+    }
+  };
+
+  const handleRevokeSession = async (sessionId: string) => {
+    setLoading(true);
+    setError('');
+
+    try {
+      await authAPI.revokeSession(sessionId);
+      setSuccess('Session revoked');
+      loadSessions();
+    } catch (error: any) {
+      setError(error.message || 'Failed to revoke session');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevokeOtherSessions = async () => {
+    if (!window.confirm('Sign out all other sessions?')) return;
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await authAPI.revokeOtherSessions();
+      setSuccess(`Revoked ${response.revoked} session(s)`);
+      loadSessions();
+    } catch (error: any) {
+      setError(error.message || 'Failed to revoke sessions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const loadUsers = async () => {
     try {
       const usersList = await getAllUsers();
@@ -86,6 +243,11 @@ export default function AccountsDialog({ open, onClose }: AccountsDialogProps) {
     setConfirmPassword('');
     setNewUsername('');
     setNewUserPassword('');
+    setNewUserRole('viewer');
+    setMfaEnrollment(null);
+    setMfaCode('');
+    setMfaPassword('');
+    setRecoveryCodes([]);
     setError('');
     setSuccess('');
     setLoading(false);
@@ -185,10 +347,11 @@ export default function AccountsDialog({ open, onClose }: AccountsDialogProps) {
     setError('');
 
     try {
-      await createUser(newUsername, newUserPassword);
+      await createUser(newUsername, newUserPassword, newUserRole);
       setSuccess('User created successfully');
       setNewUsername('');
       setNewUserPassword('');
+      setNewUserRole('viewer');
       loadUsers();
     } catch (error: any) {
       setError(error.message || 'Failed to create user');
@@ -197,8 +360,8 @@ export default function AccountsDialog({ open, onClose }: AccountsDialogProps) {
     }
   };
 
-  const handleDeleteUser = async (username: string) => {
-    if (username === user?.username) {
+  const handleDeleteUser = async (userId: string, username: string) => {
+    if (userId === user?.id) {
       setError('Cannot delete your own account');
       return;
     }
@@ -208,7 +371,7 @@ export default function AccountsDialog({ open, onClose }: AccountsDialogProps) {
       setError('');
 
       try {
-        await deleteUser(username);
+        await deleteUser(userId);
         setSuccess('User deleted successfully');
         loadUsers();
       } catch (error: any) {
@@ -219,6 +382,38 @@ export default function AccountsDialog({ open, onClose }: AccountsDialogProps) {
     }
   };
 
+  const handleUnlockUser = async (userId: string) => {
+    setLoading(true);
+    setError('');
+
+    try {
+      await authAPI.unlockUser(userId);
+      setSuccess('Account unlocked');
+      loadUsers();
+    } catch (error: any) {
+      setError(error.message || 'Failed to unlock account');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRoleChange = async (userId: string, role: Role) => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const updated = await updateUserRole(userId, role);
+      if (!updated) {
+        setError('Failed to change role. At least one admin must remain.');
+        return;
+      }
+      setSuccess('User role updated successfully');
+      loadUsers();
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <Dialog 
       open={open} 
@@ -276,21 +471,55 @@ export default function AccountsDialog({ open, onClose }: AccountsDialogProps) {
             Change Password
           </Button>
           <Button
-            onClick={() => setActiveTab('users')}
+            onClick={() => setActiveTab('sessions')}
+            variant="text"
+            sx={{
+              flex: 1,
+              borderRadius: 0,
+              textTransform: 'none',
+              fontWeight: activeTab === 'sessions' ? 600 : 400,
+              color: activeTab === 'sessions' ? 'primary.main' : 'text.secondary',
+              borderBottom: activeTab === 'sessions' ? `2px solid ${theme.palette.primary.main}` : 'none',
+              py: 2
+            }}
+            startIcon={<DevicesIcon />}
+          >
+            Sessions
+          </Button>
+          <Button
+            onClick={() => setActiveTab('mfa')}
             variant="text"
             sx={{
               flex: 1,
               borderRadius: 0,
               textTransform: 'none',
-              fontWeight: activeTab === 'users' ? 600 : 400,
-              color: activeTab === 'users' ? 'primary.main' : 'text.secondary',
-              borderBottom: activeTab === 'users' ? `2px solid ${theme.palette.primary.main}` : 'none',
+              fontWeight: activeTab === 'mfa' ? 600 : 400,
+              color: activeTab === 'mfa' ? 'primary.main' : 'text.secondary',
+              borderBottom: activeTab === 'mfa' ? `2px solid ${theme.palette.primary.main}` : 'none',
               py: 2
             }}
-            startIcon={<PeopleIcon />}
+            startIcon={<PhonelinkLockIcon />}
           >
-            Users
+            Two-Factor
           </Button>
+          {isAdmin && (
+            <Button
+              onClick={() => setActiveTab('users')}
+              variant="text"
+              sx={{
+                flex: 1,
+                borderRadius: 0,
+                textTransform: 'none',
+                fontWeight: activeTab === 'users' ? 600 : 400,
+                color: activeTab === 'users' ? 'primary.main' : 'text.secondary',
+                borderBottom: activeTab === 'users' ? `2px solid ${theme.palette.primary.main}` : 'none',
+                py: 2
+              }}
+              startIcon={<PeopleIcon />}
+            >
+              Users
+            </Button>
+          )}
         </Box>
 
         {/* Content */}
@@ -419,7 +648,227 @@ export default function AccountsDialog({ open, onClose }: AccountsDialogProps) {
             </Stack>
           )}
 
-          {activeTab === 'users' && (
+          {activeTab === 'sessions' && (
+            <Stack spacing={3}>
+              <Typography variant="h6" sx={{ fontWeight: 600, color: 'text.primary' }}>
+                Active Sessions
+              </Typography>
+              
+              <TableContainer 
+                component={Paper} 
+                elevation={0}
+                sx={{ 
+                  border: `1px solid ${theme.palette.divider}`,
+                  borderRadius: 2
+                }}
+              >
+                <Table>
+                  <TableHead>
+                    <TableRow sx={{ bgcolor: 'grey.50' }}>
+                      <TableCell sx={{ fontWeight: 600, color: 'text.primary' }}>Client</TableCell>
+                      <TableCell sx={{ fontWeight: 600, color: 'text.primary' }}>Last Active</TableCell>
+                      <TableCell sx={{ fontWeight: 600, color: 'text.primary' }}>Expires</TableCell>
+                      <TableCell sx={{ fontWeight: 600, color: 'text.primary' }} align="center">Actions</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {sessions.map((session) => (
+                      <TableRow 
+                        key={session.id}
+                        sx={{ 
+                          '&:hover': { bgcolor: 'grey.50' },
+                          '&:last-child td': { borderBottom: 0 }
+                        }}
+                      >
+                        <TableCell sx={{ color: 'text.primary' }}>
+                          <Typography variant="body2" noWrap sx={{ maxWidth: 260 }} title={session.userAgent}>
+                            {session.userAgent || 'Unknown client'}
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            {session.ipAddress || 'Unknown address'}
+                          </Typography>
+                          {session.current && (
+                            <Chip 
+                              label="This Session" 
+                              size="small" 
+                              color="primary" 
+                              variant="outlined"
+                              sx={{ ml: 1 }}
+                            />
+                          )}
+                        </TableCell>
+                        <TableCell sx={{ color: 'text.primary' }}>
+                          {new Date(session.lastSeen).toLocaleString()}
+                        </TableCell>
+                        <TableCell sx={{ color: 'text.primary' }}>
+                          {new Date(session.expiresAt).toLocaleString()}
+                        </TableCell>
+                        <TableCell align="center">
+                          <IconButton
+                            onClick={() => handleRevokeSession(session.id)}
+                            disabled={session.current || loading}
+                            size="small"
+                            color="error"
+                            sx={{
+                              '&.Mui-disabled': {
+                                color: 'grey.400'
+                              }
+                            }}
+                          >
+                            <LogoutIcon />
+                          </IconButton>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    {sessions.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={4} align="center" sx={{ py: 4, color: 'text.secondary' }}>
+                          No active sessions
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Stack>
+          )}
+
+          {activeTab === 'mfa' && (
+            <Stack spacing={3}>
+              <Typography variant="h6" sx={{ fontWeight: 600, color: 'text.primary' }}>
+                Two-Factor Authentication
+              </Typography>
+
+              {mfaStatus && !mfaStatus.enabled && !mfaEnrollment && (
+                <Box>
+                  <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    Require a code from an authenticator app (such as Google Authenticator, Aegis or 1Password) in addition to your password. Codes are generated on your device, no internet access is needed.
+                  </Typography>
+                  <Button
+                    variant="contained"
+                    onClick={handleStartMfaEnrollment}
+                    disabled={loading}
+                    startIcon={<PhonelinkLockIcon />}
+                  >
+                    Set Up Two-Factor
+                  </Button>
+                </Box>
+              )}
+
+              {mfaEnrollment && (
+                <Stack spacing={2}>
+                  <Typography variant="body2" color="text.secondary">
+                    Scan this QR code with your authenticator app, or enter the secret manually, then enter the 6-digit code it shows.
+                  </Typography>
+                  <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+                    <Box component="img" src={mfaEnrollment.qrCode} alt="Authenticator QR code" sx={{ width: 200, height: 200 }} />
+                  </Box>
+                  <Typography variant="body2" sx={{ fontFamily: 'monospace', textAlign: 'center', wordBreak: 'break-all' }}>
+                    {mfaEnrollment.secret}
+                  </Typography>
+                  <TextField
+                    label="Authentication Code"
+                    value={mfaCode}
+                    onChange={(e) => setMfaCode(e.target.value)}
+                    fullWidth
+                    size="small"
+                    autoComplete="one-time-code"
+                  />
+                  <Box sx={{ display: 'flex', gap: 2, justifyContent: 'flex-end' }}>
+                    <Button onClick={() => { setMfaEnrollment(null); setMfaCode(''); }} color="inherit">
+                      Cancel
+                    </Button>
+                    <Button
+                      variant="contained"
+                      onClick={handleConfirmMfaEnrollment}
+                      disabled={loading || mfaCode.trim().length < 6}
+                    >
+                      Verify and Enable
+                    </Button>
+                  </Box>
+                </Stack>
+              )}
+
+              {recoveryCodes.length > 0 && (
+                <Alert severity="warning">
+                  <Typography variant="body2" sx={{ fontWeight: 600, mb: 1 }}>
+                    Recovery codes - each one can be used once if you lose your device. They will not be shown again.
+                  </Typography>
+                  <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: 0.5, fontFamily: 'monospace' }}>
+                    {recoveryCodes.map(code => (
+                      <Typography key={code} variant="body2" sx={{ fontFamily: 'monospace' }}>
+                        {code}
+                      </Typography>
+                    ))}
+                  </Box>
+                </Alert>
+              )}
+
+              {mfaStatus?.enabled && (
+                <Stack spacing={3}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Chip label="Enabled" size="small" color="success" variant="outlined" />
+                    <Typography variant="body2" color="text.secondary">
+                      {mfaStatus.recoveryCodesRemaining} recovery code(s) remaining
+                    </Typography>
+                  </Box>
+
+                  <Divider />
+
+                  <Box>
+                    <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 2, color: 'text.primary' }}>
+                      New Recovery Codes
+                    </Typography>
+                    <Stack direction={isMobile ? 'column' : 'row'} spacing={2}>
+                      <TextField
+                        label="Current Authentication Code"
+                        value={mfaCode}
+                        onChange={(e) => setMfaCode(e.target.value)}
+                        fullWidth
+                        size="small"
+                        autoComplete="one-time-code"
+                      />
+                      <Button
+                        variant="outlined"
+                        onClick={handleRegenerateRecoveryCodes}
+                        disabled={loading || mfaCode.trim().length < 6}
+                        sx={{ whiteSpace: 'nowrap' }}
+                      >
+                        Generate
+                      </Button>
+                    </Stack>
+                  </Box>
+
+                  <Box>
+                    <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 2, color: 'text.primary' }}>
+                      Disable Two-Factor
+                    </Typography>
+                    <Stack direction={isMobile ? 'column' : 'row'} spacing={2}>
+                      <TextField
+                        label="Current Password"
+                        type="password"
+                        value={mfaPassword}
+                        onChange={(e) => setMfaPassword(e.target.value)}
+                        fullWidth
+                        size="small"
+                      />
+                      <Button
+                        variant="outlined"
+                        color="error"
+                        onClick={handleDisableMfa}
+                        disabled={loading || !mfaPassword}
+                        sx={{ whiteSpace: 'nowrap' }}
+                      >
+                        Disable
+                      </Button>
+                    </Stack>
+                  </Box>
+                </Stack>
+              )}
+            </Stack>
+          )}
+
+          {activeTab === 'users' && isAdmin && (
             <Stack spacing={3}>
               <Typography variant="h6" sx={{ fontWeight: 600, color: 'text.primary' }}>
                 User Management
@@ -461,6 +910,18 @@ export default function AccountsDialog({ open, onClose }: AccountsDialogProps) {
                       ),
                     }}
                   />
+                  <FormControl fullWidth size="small">
+                    <InputLabel>Role</InputLabel>
+                    <Select
+                      label="Role"
+                      value={newUserRole}
+                      onChange={(e) => setNewUserRole(e.target.value as Role)}
+                    >
+                      <MenuItem value="viewer">Viewer - read-only dashboards</MenuItem>
+                      <MenuItem value="operator">Operator - fan and automation control</MenuItem>
+                      <MenuItem value="admin">Admin - iLO settings and user management</MenuItem>
+                    </Select>
+                  </FormControl>
                   
                   {newUserPassword && (
                     <Box>
@@ -513,6 +974,7 @@ export default function AccountsDialog({ open, onClose }: AccountsDialogProps) {
                     <TableHead>
                       <TableRow sx={{ bgcolor: 'grey.50' }}>
                         <TableCell sx={{ fontWeight: 600, color: 'text.primary' }}>Username</TableCell>
+                        <TableCell sx={{ fontWeight: 600, color: 'text.primary' }}>Role</TableCell>
                         <TableCell sx={{ fontWeight: 600, color: 'text.primary' }}>Status</TableCell>
                         <TableCell sx={{ fontWeight: 600, color: 'text.primary' }} align="center">Actions</TableCell>
                       </TableRow>
@@ -520,7 +982,7 @@ export default function AccountsDialog({ open, onClose }: AccountsDialogProps) {
                     <TableBody>
                       {users.map((userItem) => (
                         <TableRow 
-                          key={userItem.username}
+                          key={userItem.id}
                           sx={{ 
                             '&:hover': { bgcolor: 'grey.50' },
                             '&:last-child td': { borderBottom: 0 }
@@ -539,16 +1001,60 @@ export default function AccountsDialog({ open, onClose }: AccountsDialogProps) {
                             )}
                           </TableCell>
                           <TableCell>
-                            <Chip 
-                              label={userItem.username === user?.username ? 'Current User' : 'Active'} 
-                              size="small" 
-                              color={userItem.username === user?.username ? 'primary' : 'success'}
-                              variant="outlined"
-                            />
+                            <Select
+                              value={userItem.role}
+                              onChange={(e) => handleRoleChange(userItem.id, e.target.value as Role)}
+                              disabled={userItem.id === user?.id || loading}
+                              size="small"
+                              variant="standard"
+                            >
+                              {ROLES.map(role => (
+                                <MenuItem key={role} value={role} sx={{ textTransform: 'capitalize' }}>
+                                  {role}
+                                </MenuItem>
+                              ))}
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            {userItem.lockedUntil ? (
+                              <Chip 
+                                label={`Locked until ${new Date(userItem.lockedUntil).toLocaleTimeString()}`} 
+                                size="small" 
+                                color="error"
+                                variant="outlined"
+                              />
+                            ) : (
+                              <Chip 
+                                label={userItem.username === user?.username ? 'Current User' : 'Active'} 
+                                size="small" 
+                                color={userItem.username === user?.username ? 'primary' : 'success'}
+                                variant="outlined"
+                              />
+                            )}
                           </TableCell>
                           <TableCell align="center">
+                            {userItem.mfaEnabled && (
+                              <IconButton
+                                onClick={() => handleResetUserMfa(userItem.id, userItem.username)}
+                                disabled={loading}
+                                size="small"
+                                title="Reset two-factor authentication"
+                              >
+                                <PhonelinkEraseIcon />
+                              </IconButton>
+                            )}
+                            {userItem.lockedUntil && (
+                              <IconButton
+                                onClick={() => handleUnlockUser(userItem.id)}
+                                disabled={loading}
+                                size="small"
+                                color="primary"
+                              >
+                                <LockOpenIcon />
+                              </IconButton>
+                            )}
                             <IconButton
-                              onClick={() => handleDeleteUser(userItem.username)}
+                              onClick={() => handleDeleteUser(userItem.id, userItem.username)}
                               disabled={userItem.username === user?.username || userItem.isDefault || loading}
                               size="small"
                               color="error"
@@ -565,7 +1071,7 @@ export default function AccountsDialog({ open, onClose }: AccountsDialogProps) {
                       ))}
                       {users.length === 0 && (
                         <TableRow>
-                          <TableCell colSpan={3} align="center" sx={{ py: 4, color: 'text.secondary' }}>
+                          <TableCell colSpan={4} align="center" sx={{ py: 4, color: 'text.secondary' }}>
                             No users found
                           </TableCell>
                         </TableRow>
@@ -596,6 +1102,16 @@ export default function AccountsDialog({ open, onClose }: AccountsDialogProps) {
           >
             {loading ? 'Changing...' : 'Change Password'}
           </Button>
+        ) : activeTab === 'sessions' ? (
+          <Button
+            variant="contained"
+            color="error"
+            onClick={handleRevokeOtherSessions}
+            disabled={loading || sessions.filter(session => !session.current).length === 0}
+            startIcon={loading ? <CircularProgress size={20} /> : <LogoutIcon />}
+          >
+            Sign Out Other Sessions
+          </Button>
         ) : activeTab === 'users' ? (
           <Button
             variant="contained"
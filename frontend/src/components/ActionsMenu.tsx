@@ -46,7 +46,7 @@ const ActionsMenu: React.FC<ActionsMenuProps> = ({ onSettingsClick, onAccountsCl
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
   
-  const { logout } = useAuth();
+  const { logout, hasRole } = useAuth();
   const { mode, setMode } = useCustomTheme();
   const isDarkMode = mode === 'dark' || (mode === 'system' && theme.palette.mode === 'dark');
 
@@ -162,19 +162,21 @@ const ActionsMenu: React.FC<ActionsMenuProps> = ({ onSettingsClick, onAccountsCl
           />
         </MenuItem>
 
-        {/* System Settings */}
-        <MenuItem onClick={handleSettingsClick}>
-          <ListItemIcon sx={{ color: 'text.secondary', minWidth: 36 }}>
-            <SettingsIcon fontSize="small" />
-          </ListItemIcon>
-          <ListItemText 
-            primary="System Settings"
-            primaryTypographyProps={{
-              fontSize: '0.875rem',
-              fontWeight: 500
-            }}
-          />
-        </MenuItem>
+        {/* System Settings - admin only */}
+        {hasRole('admin') && (
+          <MenuItem onClick={handleSettingsClick}>
+            <ListItemIcon sx={{ color: 'text.secondary', minWidth: 36 }}>
+              <SettingsIcon fontSize="small" />
+            </ListItemIcon>
+            <ListItemText 
+              primary="System Settings"
+              primaryTypographyProps={{
+                fontSize: '0.875rem',
+                fontWeight: 500
+              }}
+            />
+          </MenuItem>
+        )}
 
         {/* Theme Toggle */}
         <MenuItem onClick={handleThemeToggle}>
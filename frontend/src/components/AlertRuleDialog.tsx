@@ -0,0 +1,331 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+  IconButton,
+  Alert,
+  Stack,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormGroup,
+  FormControlLabel,
+  Checkbox,
+  Switch,
+  CircularProgress,
+  useTheme
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  NotificationsActive as AlertIcon
+} from '@mui/icons-material';
+import { alertsAPI, AlertRule, AlertRuleInput, AlertRuleType, AlertChannelId } from '../api';
+import { useServers } from '../context/ServerContext';
+
+export const RULE_TYPE_LABELS: Record<AlertRuleType, string> = {
+  sensor_threshold: 'Temperature above threshold',
+  fan_health: 'Fan health not OK',
+  power_above: 'Power draw above limit',
+  psu_health: 'Power supply health not OK',
+  psu_redundancy: 'Power supply redundancy lost',
+  critical_log: 'New Critical iLO log record',
+  ilo_unreachable: 'iLO unreachable'
+};
+
+const TARGET_LABELS: Partial<Record<AlertRuleType, string>> = {
+  sensor_threshold: 'Sensor',
+  fan_health: 'Fan',
+  psu_health: 'Power supply'
+};
+
+const TARGET_PLACEHOLDERS: Partial<Record<AlertRuleType, string>> = {
+  sensor_threshold: '02-CPU 1',
+  fan_health: 'Fan 1',
+  psu_health: 'Power Supply 1'
+};
+
+const CHANNEL_LABELS: Record<AlertChannelId, string> = {
+  email: 'Email',
+  webhook: 'Webhook',
+  syslog: 'Syslog'
+};
+
+const ALL_SERVERS = '__all__';
+
+interface AlertRuleDialogProps {
+  open: boolean;
+  rule?: AlertRule | null; // Edit this rule, create a new one when omitted
+  onClose: () => void;
+  onSaved: (rule: AlertRule) => void;
+}
+
+export default function AlertRuleDialog({ open, rule, onClose, onSaved }: AlertRuleDialogProps) {
+  const theme = useTheme();
+  const { servers } = useServers();
+  const [name, setName] = useState('');
+  const [type, setType] = useState<AlertRuleType>('sensor_threshold');
+  const [serverId, setServerId] = useState<string>(ALL_SERVERS);
+  const [severity, setSeverity] = useState<AlertRule['severity']>('warning');
+  const [target, setTarget] = useState(''); // Sensor, fan or power supply name, blank for all of them
+  const [threshold, setThreshold] = useState(70);
+  const [watts, setWatts] = useState(500);
+  const [durationMinutes, setDurationMinutes] = useState(5);
+  const [channels, setChannels] = useState<AlertChannelId[]>([]);
+  const [enabled, setEnabled] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setName(rule?.name ?? '');
+      setType(rule?.type ?? 'sensor_threshold');
+      setServerId(rule?.serverId ?? ALL_SERVERS);
+      setSeverity(rule?.severity ?? 'warning');
+      setTarget(rule?.params.sensor ?? rule?.params.fan ?? rule?.params.supply ?? '');
+      setThreshold(rule?.params.threshold ?? 70);
+      setWatts(rule?.params.watts ?? 500);
+      setDurationMinutes(rule?.params.durationMinutes ?? 5);
+      setChannels(rule?.channels ?? []);
+      setEnabled(rule?.enabled ?? true);
+      setError('');
+    }
+  }, [open, rule]);
+
+  const toggleChannel = (channel: AlertChannelId) => {
+    setChannels(current => current.includes(channel)
+      ? current.filter(c => c !== channel)
+      : [...current, channel]);
+  };
+
+  const buildParams = (): AlertRuleInput['params'] => {
+    switch (type) {
+      case 'sensor_threshold':
+        return { sensor: target.trim() || undefined, threshold, durationMinutes };
+      case 'fan_health':
+        return { fan: target.trim() || undefined };
+      case 'psu_health':
+        return { supply: target.trim() || undefined };
+      case 'power_above':
+        return { watts, durationMinutes };
+      case 'ilo_unreachable':
+        return { durationMinutes };
+      default:
+        return {};
+    }
+  };
+
+  const handleSave = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const input: AlertRuleInput = {
+        name: name.trim(),
+        type,
+        serverId: serverId === ALL_SERVERS ? null : serverId,
+        severity,
+        params: buildParams(),
+        channels,
+        enabled
+      };
+      const saved = rule
+        ? await alertsAPI.updateRule(rule.id, input)
+        : await alertsAPI.createRule(input);
+      onSaved(saved);
+      onClose();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save alert rule');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const hasDuration = type === 'sensor_threshold' || type === 'power_above' || type === 'ilo_unreachable';
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{ sx: { borderRadius: 3 } }}
+    >
+      <DialogTitle sx={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        borderBottom: `1px solid ${theme.palette.divider}`,
+        pb: 2
+      }}>
+        <Typography variant="h5" component="h2" sx={{ fontWeight: 600 }}>
+          {rule ? `Edit ${rule.name}` : 'Add Alert Rule'}
+        </Typography>
+        <IconButton onClick={onClose}>
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent sx={{ p: 4 }}>
+        <Stack spacing={3} sx={{ pt: 3 }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError('')}>
+              {error}
+            </Alert>
+          )}
+
+          <TextField
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. CPU too hot"
+            fullWidth
+            size="small"
+            disabled={loading}
+          />
+
+          <FormControl fullWidth size="small">
+            <InputLabel>Condition</InputLabel>
+            <Select
+              value={type}
+              onChange={(e) => setType(e.target.value as AlertRuleType)}
+              label="Condition"
+              disabled={loading}
+            >
+              {(Object.keys(RULE_TYPE_LABELS) as AlertRuleType[]).map(ruleType => (
+                <MenuItem key={ruleType} value={ruleType}>{RULE_TYPE_LABELS[ruleType]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl fullWidth size="small">
+            <InputLabel>Server</InputLabel>
+            <Select
+              value={serverId}
+              onChange={(e) => setServerId(e.target.value)}
+              label="Server"
+              disabled={loading}
+            >
+              <MenuItem value={ALL_SERVERS}>All servers</MenuItem>
+              {servers.map(server => (
+                <MenuItem key={server.id} value={server.id}>{server.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          {(type === 'sensor_threshold' || type === 'fan_health' || type === 'psu_health') && (
+            <TextField
+              label={TARGET_LABELS[type]}
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              placeholder={TARGET_PLACEHOLDERS[type]}
+              helperText="Exact name as shown on the dashboard, leave blank to watch all of them"
+              fullWidth
+              size="small"
+              disabled={loading}
+            />
+          )}
+
+          {type === 'sensor_threshold' && (
+            <TextField
+              label="Threshold (°C)"
+              type="number"
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              fullWidth
+              size="small"
+              disabled={loading}
+              inputProps={{ min: 0, max: 150 }}
+            />
+          )}
+
+          {type === 'power_above' && (
+            <TextField
+              label="Power limit (W)"
+              type="number"
+              value={watts}
+              onChange={(e) => setWatts(Number(e.target.value))}
+              fullWidth
+              size="small"
+              disabled={loading}
+              inputProps={{ min: 1, max: 10000 }}
+            />
+          )}
+
+          {hasDuration && (
+            <TextField
+              label="For at least (minutes)"
+              type="number"
+              value={durationMinutes}
+              onChange={(e) => setDurationMinutes(Number(e.target.value))}
+              helperText="Readings are collected every few minutes, 0 alerts on the first breach"
+              fullWidth
+              size="small"
+              disabled={loading}
+              inputProps={{ min: 0, max: 1440 }}
+            />
+          )}
+
+          <FormControl fullWidth size="small">
+            <InputLabel>Severity</InputLabel>
+            <Select
+              value={severity}
+              onChange={(e) => setSeverity(e.target.value as AlertRule['severity'])}
+              label="Severity"
+              disabled={loading}
+            >
+              <MenuItem value="warning">Warning</MenuItem>
+              <MenuItem value="critical">Critical</MenuItem>
+            </Select>
+          </FormControl>
+
+          <FormControl>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>Notify via</Typography>
+            <FormGroup row>
+              {(Object.keys(CHANNEL_LABELS) as AlertChannelId[]).map(channel => (
+                <FormControlLabel
+                  key={channel}
+                  control={
+                    <Checkbox
+                      checked={channels.includes(channel)}
+                      onChange={() => toggleChannel(channel)}
+                      disabled={loading}
+                    />
+                  }
+                  label={CHANNEL_LABELS[channel]}
+                />
+              ))}
+            </FormGroup>
+          </FormControl>
+
+          <FormControlLabel
+            control={<Switch checked={enabled} onChange={(e) => setEnabled(e.target.checked)} disabled={loading} />}
+            label="Enabled"
+          />
+        </Stack>
+      </DialogContent>
+
+      <DialogActions sx={{
+        p: 3,
+        borderTop: `1px solid ${theme.palette.divider}`,
+        justifyContent: 'space-between'
+      }}>
+        <Button onClick={onClose} color="inherit">
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={loading || !name.trim()}
+          startIcon={loading ? <CircularProgress size={20} /> : <AlertIcon />}
+        >
+          {loading ? 'Saving...' : rule ? 'Save Changes' : 'Add Rule'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,520 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Stack,
+  Typography,
+  Button,
+  IconButton,
+  TextField,
+  Switch,
+  FormControlLabel,
+  Chip,
+  Divider,
+  Alert,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Send as TestIcon,
+  Save as SaveIcon
+} from '@mui/icons-material';
+import { alertsAPI, AlertRule, ActiveAlert, AlertEvent, AlertChannelsConfig, AlertChannelId } from '../api';
+import { useServers } from '../context/ServerContext';
+import { useNotifications } from './NotificationProvider';
+import AlertRuleDialog, { RULE_TYPE_LABELS } from './AlertRuleDialog';
+
+const HISTORY_PAGE_SIZE = 20;
+
+function describeRule(rule: AlertRule): string {
+  const { sensor, fan, supply, threshold, watts, durationMinutes } = rule.params;
+  const forDuration = durationMinutes ? ` for ${durationMinutes} min` : '';
+  switch (rule.type) {
+    case 'sensor_threshold':
+      return `${sensor || 'Any sensor'} above ${threshold}°C${forDuration}`;
+    case 'fan_health':
+      return `${fan || 'Any fan'} not OK`;
+    case 'power_above':
+      return `Power above ${watts} W${forDuration}`;
+    case 'psu_health':
+      return `${supply || 'Any power supply'} not OK`;
+    case 'ilo_unreachable':
+      return `iLO unreachable${forDuration}`;
+    default:
+      return RULE_TYPE_LABELS[rule.type];
+  }
+}
+
+// Alerts tab of the settings dialog: rules, notification channels, and what fired recently
+export default function AlertSettings() {
+  const { servers } = useServers();
+  const { showNotification } = useNotifications();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [active, setActive] = useState<ActiveAlert[]>([]);
+  const [history, setHistory] = useState<AlertEvent[]>([]);
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [channels, setChannels] = useState<AlertChannelsConfig | null>(null);
+  const [recipients, setRecipients] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [savingChannels, setSavingChannels] = useState(false);
+  const [testingChannel, setTestingChannel] = useState<AlertChannelId | null>(null);
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
+  const [ruleDialogOpen, setRuleDialogOpen] = useState(false);
+  const [error, setError] = useState('');
+
+  const serverName = (serverId: string | null) => serverId === null
+    ? 'All servers'
+    : servers.find(server => server.id === serverId)?.name ?? serverId;
+
+  const loadAll = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [ruleList, activeList, historyPage, channelConfig] = await Promise.all([
+        alertsAPI.getRules(),
+        alertsAPI.getActive(),
+        alertsAPI.getHistory(HISTORY_PAGE_SIZE),
+        alertsAPI.getChannels()
+      ]);
+      setRules(ruleList);
+      setActive(activeList);
+      setHistory(historyPage.events);
+      setHistoryTotal(historyPage.total);
+      setChannels(channelConfig);
+      setRecipients(channelConfig.email.to.join(', '));
+      setError('');
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to load alert settings');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAll();
+  }, [loadAll]);
+
+  const loadMoreHistory = async () => {
+    try {
+      const page = await alertsAPI.getHistory(HISTORY_PAGE_SIZE, history.length);
+      setHistory(current => [...current, ...page.events]);
+      setHistoryTotal(page.total);
+    } catch (err: any) {
+      showNotification('error', err.response?.data?.error || 'Failed to load alert history');
+    }
+  };
+
+  const handleRuleSaved = (saved: AlertRule) => {
+    setRules(current => current.some(rule => rule.id === saved.id)
+      ? current.map(rule => rule.id === saved.id ? saved : rule)
+      : [...current, saved]);
+    // Saving a rule clears the alerts it had raised
+    alertsAPI.getActive().then(setActive).catch(() => {});
+    showNotification('success', `Alert rule ${saved.name} saved`);
+  };
+
+  const handleToggleRule = async (rule: AlertRule) => {
+    try {
+      const { id, createdAt, updatedAt, ...input } = rule;
+      handleRuleSaved(await alertsAPI.updateRule(id, { ...input, enabled: !rule.enabled }));
+    } catch (err: any) {
+      showNotification('error', err.response?.data?.error || 'Failed to update alert rule');
+    }
+  };
+
+  const handleDeleteRule = async (rule: AlertRule) => {
+    if (!window.confirm(`Delete the alert rule "${rule.name}"? Alerts it raised are cleared.`)) return;
+    try {
+      await alertsAPI.deleteRule(rule.id);
+      setRules(current => current.filter(r => r.id !== rule.id));
+      setActive(current => current.filter(alert => alert.ruleId !== rule.id));
+      showNotification('success', `Alert rule ${rule.name} deleted`);
+    } catch (err: any) {
+      showNotification('error', err.response?.data?.error || 'Failed to delete alert rule');
+    }
+  };
+
+  const channelsToSave = (): AlertChannelsConfig => ({
+    ...channels!,
+    email: {
+      ...channels!.email,
+      to: recipients.split(/[,;\s]+/).map(address => address.trim()).filter(Boolean)
+    }
+  });
+
+  const handleSaveChannels = async () => {
+    setSavingChannels(true);
+    try {
+      const saved = await alertsAPI.saveChannels(channelsToSave());
+      setChannels(saved);
+      setRecipients(saved.email.to.join(', '));
+      showNotification('success', 'Notification channels saved');
+    } catch (err: any) {
+      showNotification('error', err.response?.data?.error || 'Failed to save notification channels');
+    } finally {
+      setSavingChannels(false);
+    }
+  };
+
+  const handleTestChannel = async (channel: AlertChannelId) => {
+    setTestingChannel(channel);
+    try {
+      await alertsAPI.testChannel(channel, channelsToSave());
+      showNotification('success', `Test notification sent via ${channel}`);
+    } catch (err: any) {
+      showNotification('error', err.response?.data?.error || `Test notification via ${channel} failed`);
+    } finally {
+      setTestingChannel(null);
+    }
+  };
+
+  const updateChannel = <K extends keyof AlertChannelsConfig>(channel: K, changes: Partial<AlertChannelsConfig[K]>) => {
+    setChannels(current => current && { ...current, [channel]: { ...current[channel], ...changes } });
+  };
+
+  const testButton = (channel: AlertChannelId) => (
+    <Button
+      size="small"
+      onClick={() => handleTestChannel(channel)}
+      disabled={testingChannel !== null || savingChannels}
+      startIcon={testingChannel === channel ? <CircularProgress size={16} /> : <TestIcon />}
+    >
+      Send Test
+    </Button>
+  );
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <Typography variant="h6" sx={{ mb: 2, fontWeight: 600 }}>
+        Alerts
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Rules are checked after every data collection cycle and notify once when an alert fires and once when it resolves
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      <Stack spacing={4}>
+        {/* Active Alerts Section */}
+        <Box>
+          <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 2, color: 'text.primary' }}>
+            Active Alerts
+          </Typography>
+          {active.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">Nothing is firing right now</Typography>
+          ) : (
+            <Stack spacing={1}>
+              {active.map(alert => (
+                <Alert key={alert.alertKey} severity={alert.severity === 'critical' ? 'error' : 'warning'}>
+                  <strong>{serverName(alert.serverId)}:</strong> {alert.message}
+                  <Typography variant="caption" display="block" color="text.secondary">
+                    Since {new Date(alert.firingSince).toLocaleString()}
+                  </Typography>
+                </Alert>
+              ))}
+            </Stack>
+          )}
+        </Box>
+
+        <Divider />
+
+        {/* Rules Section */}
+        <Box>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+            <Typography variant="subtitle1" sx={{ fontWeight: 600, color: 'text.primary' }}>
+              Rules
+            </Typography>
+            <Button
+              size="small"
+              variant="outlined"
+              startIcon={<AddIcon />}
+              onClick={() => { setEditingRule(null); setRuleDialogOpen(true); }}
+            >
+              Add Rule
+            </Button>
+          </Box>
+          {rules.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">No alert rules yet</Typography>
+          ) : (
+            <Stack spacing={1}>
+              {rules.map(rule => (
+                <Box
+                  key={rule.id}
+                  sx={{ display: 'flex', alignItems: 'center', gap: 1, p: 1.5, border: 1, borderColor: 'divider', borderRadius: 2 }}
+                >
+                  <Switch size="small" checked={rule.enabled} onChange={() => handleToggleRule(rule)} />
+                  <Box sx={{ flex: 1, minWidth: 0 }}>
+                    <Typography variant="body2" sx={{ fontWeight: 600 }}>{rule.name}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {describeRule(rule)} · {serverName(rule.serverId)}
+                      {rule.channels.length > 0 ? ` · ${rule.channels.join(', ')}` : ' · no notifications'}
+                    </Typography>
+                  </Box>
+                  <Chip
+                    size="small"
+                    label={rule.severity}
+                    color={rule.severity === 'critical' ? 'error' : 'warning'}
+                    variant="outlined"
+                  />
+                  <Tooltip title="Edit">
+                    <IconButton size="small" onClick={() => { setEditingRule(rule); setRuleDialogOpen(true); }}>
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Delete">
+                    <IconButton size="small" onClick={() => handleDeleteRule(rule)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              ))}
+            </Stack>
+          )}
+        </Box>
+
+        <Divider />
+
+        {/* Notification Channels Section */}
+        {channels && (
+          <Box>
+            <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 2, color: 'text.primary' }}>
+              Notification Channels
+            </Typography>
+
+            <Stack spacing={3}>
+              <Box>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                  <FormControlLabel
+                    control={<Switch checked={channels.email.enabled} onChange={(e) => updateChannel('email', { enabled: e.target.checked })} />}
+                    label="Email (SMTP)"
+                  />
+                  {testButton('email')}
+                </Box>
+                {channels.email.enabled && (
+                  <Stack spacing={2} sx={{ mt: 1 }}>
+                    <Box sx={{ display: 'flex', gap: 2 }}>
+                      <TextField
+                        label="SMTP Host"
+                        value={channels.email.host}
+                        onChange={(e) => updateChannel('email', { host: e.target.value })}
+                        size="small"
+                        sx={{ flex: 2 }}
+                      />
+                      <TextField
+                        label="Port"
+                        type="number"
+                        value={channels.email.port}
+                        onChange={(e) => updateChannel('email', { port: Number(e.target.value) })}
+                        size="small"
+                        sx={{ flex: 1 }}
+                      />
+                    </Box>
+                    <FormControlLabel
+                      control={<Switch checked={channels.email.secure} onChange={(e) => updateChannel('email', { secure: e.target.checked })} />}
+                      label="Use TLS from the start (port 465), otherwise STARTTLS when the server offers it"
+                    />
+                    <Box sx={{ display: 'flex', gap: 2 }}>
+                      <TextField
+                        label="Username"
+                        value={channels.email.username}
+                        onChange={(e) => updateChannel('email', { username: e.target.value })}
+                        size="small"
+                        sx={{ flex: 1 }}
+                      />
+                      <TextField
+                        label="Password"
+                        type="password"
+                        value={channels.email.password ?? ''}
+                        onChange={(e) => updateChannel('email', { password: e.target.value })}
+                        placeholder={channels.email.passwordSet ? 'Saved - leave blank to keep' : ''}
+                        size="small"
+                        sx={{ flex: 1 }}
+                      />
+                    </Box>
+                    <TextField
+                      label="From"
+                      value={channels.email.from}
+                      onChange={(e) => updateChannel('email', { from: e.target.value })}
+                      placeholder="smart-ilo@example.com"
+                      size="small"
+                      fullWidth
+                    />
+                    <TextField
+                      label="Recipients"
+                      value={recipients}
+                      onChange={(e) => setRecipients(e.target.value)}
+                      placeholder="ops@example.com, oncall@example.com"
+                      helperText="Separate addresses with commas"
+                      size="small"
+                      fullWidth
+                    />
+                  </Stack>
+                )}
+              </Box>
+
+              <Box>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                  <FormControlLabel
+                    control={<Switch checked={channels.webhook.enabled} onChange={(e) => updateChannel('webhook', { enabled: e.target.checked })} />}
+                    label="Webhook"
+                  />
+                  {testButton('webhook')}
+                </Box>
+                {channels.webhook.enabled && (
+                  <TextField
+                    label="URL"
+                    value={channels.webhook.url}
+                    onChange={(e) => updateChannel('webhook', { url: e.target.value })}
+                    placeholder="https://hooks.example.com/ilo"
+                    helperText="Receives a JSON POST for every alert that fires or resolves"
+                    size="small"
+                    fullWidth
+                    sx={{ mt: 1 }}
+                  />
+                )}
+              </Box>
+
+              <Box>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                  <FormControlLabel
+                    control={<Switch checked={channels.syslog.enabled} onChange={(e) => updateChannel('syslog', { enabled: e.target.checked })} />}
+                    label="Syslog (UDP)"
+                  />
+                  {testButton('syslog')}
+                </Box>
+                {channels.syslog.enabled && (
+                  <Box sx={{ display: 'flex', gap: 2, mt: 1 }}>
+                    <TextField
+                      label="Host"
+                      value={channels.syslog.host}
+                      onChange={(e) => updateChannel('syslog', { host: e.target.value })}
+                      size="small"
+                      sx={{ flex: 2 }}
+                    />
+                    <TextField
+                      label="Port"
+                      type="number"
+                      value={channels.syslog.port}
+                      onChange={(e) => updateChannel('syslog', { port: Number(e.target.value) })}
+                      size="small"
+                      sx={{ flex: 1 }}
+                    />
+                    <TextField
+                      label="Facility"
+                      type="number"
+                      value={channels.syslog.facility}
+                      onChange={(e) => updateChannel('syslog', { facility: Number(e.target.value) })}
+                      helperText="16 = local0"
+                      size="small"
+                      sx={{ flex: 1 }}
+                      inputProps={{ min: 0, max: 23 }}
+                    />
+                  </Box>
+                )}
+              </Box>
+
+              <Box>
+                <Button
+                  variant="contained"
+                  onClick={handleSaveChannels}
+                  disabled={savingChannels}
+                  startIcon={savingChannels ? <CircularProgress size={20} /> : <SaveIcon />}
+                >
+                  {savingChannels ? 'Saving...' : 'Save Channels'}
+                </Button>
+              </Box>
+            </Stack>
+          </Box>
+        )}
+
+        <Divider />
+
+        {/* History Section */}
+        <Box>
+          <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 2, color: 'text.primary' }}>
+            History
+          </Typography>
+          {history.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">No alerts have fired yet</Typography>
+          ) : (
+            <>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Time</TableCell>
+                    <TableCell>State</TableCell>
+                    <TableCell>Server</TableCell>
+                    <TableCell>Message</TableCell>
+                    <TableCell>Delivered</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {history.map(event => (
+                    <TableRow key={event.id}>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>{new Date(event.timestamp).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <Chip
+                          size="small"
+                          label={event.state}
+                          color={event.state === 'resolved' ? 'success' : event.severity === 'critical' ? 'error' : 'warning'}
+                        />
+                      </TableCell>
+                      <TableCell>{serverName(event.serverId)}</TableCell>
+                      <TableCell>
+                        <Typography variant="body2">{event.message}</Typography>
+                        <Typography variant="caption" color="text.secondary">{event.ruleName}</Typography>
+                      </TableCell>
+                      <TableCell>
+                        {event.deliveries.length === 0 ? '—' : event.deliveries.map(delivery => (
+                          <Tooltip key={delivery.channel} title={delivery.error ?? 'Delivered'}>
+                            <Chip
+                              size="small"
+                              variant="outlined"
+                              label={delivery.channel}
+                              color={delivery.success ? 'success' : 'error'}
+                              sx={{ mr: 0.5 }}
+                            />
+                          </Tooltip>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {history.length < historyTotal && (
+                <Button size="small" onClick={loadMoreHistory} sx={{ mt: 1 }}>
+                  Load more ({historyTotal - history.length} older)
+                </Button>
+              )}
+            </>
+          )}
+        </Box>
+      </Stack>
+
+      <AlertRuleDialog
+        open={ruleDialogOpen}
+        rule={editingRule}
+        onClose={() => setRuleDialogOpen(false)}
+        onSaved={handleRuleSaved}
+      />
+    </Box>
+  );
+}
@@ -3,17 +3,32 @@ import {
   Typography, 
   Grid, 
   Box,
+  Alert,
   useTheme
 } from "@mui/material";
 import { SPACING } from '../constants/spacing';
 import { FanPresets, FanControlCard, SensorConfiguration } from './FanControls';
+import { useAuth } from '../context/AuthContext';
+import { useServers } from '../context/ServerContext';
 
 // Main Controls component with proper two-row layout
 function Controls() {
   const theme = useTheme();
+  const { hasRole } = useAuth();
+  const { isDefaultServer, selectedServer } = useServers();
   
   return (
     <Box component="section" role="main" aria-label="System Controls">
+      {!hasRole('operator') && (
+        <Alert severity="info" sx={{ mb: SPACING.ROW }}>
+          Your account has the viewer role. Fan and sensor controls require the operator role.
+        </Alert>
+      )}
+      {!isDefaultServer && (
+        <Alert severity="warning" sx={{ mb: SPACING.ROW }}>
+          Fan controls, presets and sensor configuration apply to the primary server only, not to {selectedServer?.name ?? 'the selected server'}.
+        </Alert>
+      )}
       {/* Controls Layout with System-Wide Consistency */}
       <Grid container spacing={SPACING.CARD} rowSpacing={SPACING.ROW} sx={{ width: '100%' }}>
         {/* First Row - Quick Presets (full width) */}
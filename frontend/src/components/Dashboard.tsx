@@ -30,6 +30,7 @@ import ClearIcon from '@mui/icons-material/Clear';
 import { searchInRow } from '../utils/searchUtils';
 import DataTable, { StatusIndicator, ProgressBar } from './DataTable';
 import { SPACING } from '../constants/spacing';
+import { useLiveUpdates, useLiveEvent } from '../context/LiveUpdatesContext';
 
 // Circular progress component for gauges (memoized for performance)
 const CircularGauge = React.memo((props: {
@@ -436,6 +437,16 @@ function Dashboard() {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
   const isTablet = useMediaQuery(theme.breakpoints.down('md'));
+  const { connected } = useLiveUpdates();
+
+  useLiveEvent<any[]>('sensors', data => {
+    setSensors(data);
+    setLastUpdate(new Date());
+  });
+  useLiveEvent<any[]>('fans', data => {
+    setFans(data);
+    setLastUpdate(new Date());
+  });
 
   // Memoize the fetch function to prevent unnecessary recreations
   const fetchData = useCallback(async () => {
@@ -455,12 +466,17 @@ function Dashboard() {
 
   useEffect(() => {
     fetchData();
+  }, [fetchData]);
+
+  // Poll only while the live updates stream is down
+  useEffect(() => {
+    if (connected) return;
     const interval = setInterval(() => {
       // Don't show loading on updates, just update data silently
       fetchData();
     }, 30000); // Update every 30 seconds for responsive UI
     return () => clearInterval(interval);
-  }, [fetchData]);
+  }, [connected, fetchData]);
 
   const convertTemperature = useCallback((celsius: number) => {
     return showFahrenheit ? Math.round((celsius * 9/5) + 32) : celsius;
@@ -18,6 +18,9 @@ import { getRecentBackendLogs, clearBackendLogs, LogEntry } from "../api";
 import { useNotifications } from './NotificationProvider';
 import { CARD_STYLES, getCardContainerProps } from '../constants/cardStyles';
 import { SPACING } from '../constants/spacing';
+import { useLiveUpdates, useLiveEvent } from '../context/LiveUpdatesContext';
+
+const MAX_LINES = 100;
 
 function Terminal() {
   const [logs, setLogs] = useState<LogEntry[]>([]);
@@ -26,12 +29,18 @@ function Terminal() {
   const theme = useTheme();
   const { showNotification } = useNotifications();
   const scrollRef = useRef<HTMLDivElement>(null);
+  const { connected } = useLiveUpdates();
+
+  // Backend console lines arrive one at a time while the live updates stream is up
+  useLiveEvent<LogEntry>('console', entry => {
+    setLogs(prev => [...prev, entry].slice(-MAX_LINES));
+  });
 
   const fetchLogs = async (showRefreshState = false) => {
     try {
       if (showRefreshState) setRefreshing(true);
       
-      const backendLogs = await getRecentBackendLogs(100); // Get last 100 logs
+      const backendLogs = await getRecentBackendLogs(MAX_LINES);
       setLogs(backendLogs);
       
       if (showRefreshState) {
@@ -70,16 +79,19 @@ function Terminal() {
     }
   }, [logs]);
 
-  // Initial fetch and auto-refresh every 30 seconds
+  // Initial fetch, then auto-refresh every 30 seconds while the live updates stream is down
   useEffect(() => {
     fetchLogs();
-    
+  }, []);
+
+  useEffect(() => {
+    if (connected) return;
     const interval = setInterval(() => {
       fetchLogs();
     }, 30000);
     
     return () => clearInterval(interval);
-  }, []);
+  }, [connected]);
 
   const formatTimestamp = (timestamp: string) => {
     return new Date(timestamp).toLocaleTimeString();
@@ -0,0 +1,279 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  CircularProgress,
+  IconButton,
+  Tooltip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  Grid,
+  useTheme
+} from '@mui/material';
+import {
+  BoltOutlined as BoltIcon,
+  Refresh as RefreshIcon,
+  RequestQuote as TariffIcon
+} from '@mui/icons-material';
+import { Line, Bar } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  BarElement,
+  Title,
+  Tooltip as ChartTooltip,
+  Legend,
+  TimeScale
+} from 'chart.js';
+import 'chartjs-adapter-date-fns';
+import { energyAPI, EnergyPeriod, EnergyReport } from '../api';
+import { CARD_STYLES, getChartOptions } from '../constants/cardStyles';
+import { useAuth } from '../context/AuthContext';
+import { useServers } from '../context/ServerContext';
+import EnergyTariffDialog from './EnergyTariffDialog';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, BarElement, Title, ChartTooltip, Legend, TimeScale);
+
+// Raw readings cover the configured raw retention, longer ranges are drawn from hourly averages
+const POWER_TIME_RANGES = [
+  { value: 60, label: '1 hour' },
+  { value: 360, label: '6 hours' },
+  { value: 1440, label: '1 day' },
+  { value: 4320, label: '3 days' },
+  { value: 10080, label: '7 days' },
+  { value: 43200, label: '30 days' }
+];
+
+const PERIOD_LABELS: Record<EnergyPeriod, { current: string; bucket: (start: Date) => string }> = {
+  day: { current: 'Today', bucket: start => start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }) },
+  week: { current: 'This week', bucket: start => `Wk of ${start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}` },
+  month: { current: 'This month', bucket: start => start.toLocaleDateString(undefined, { month: 'short', year: '2-digit' }) }
+};
+
+const EnergyCard: React.FC = () => {
+  const theme = useTheme();
+  const isAdmin = useAuth().hasRole('admin');
+  const { selectedServerId } = useServers();
+  const [timeRange, setTimeRange] = useState(1440);
+  const [period, setPeriod] = useState<EnergyPeriod>('day');
+  const [powerChart, setPowerChart] = useState<{ datasets: any[] } | null>(null);
+  const [report, setReport] = useState<EnergyReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [tariffOpen, setTariffOpen] = useState(false);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [chart, energy] = await Promise.all([
+        energyAPI.getPowerChart(timeRange),
+        energyAPI.getReport(period)
+      ]);
+      setPowerChart(chart);
+      setReport(energy);
+    } catch (error) {
+      console.error('Error loading energy data:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [timeRange, period]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData, selectedServerId]);
+
+  const formatCost = (cost: number) => {
+    try {
+      return cost.toLocaleString(undefined, { style: 'currency', currency: report?.currency || 'EUR' });
+    } catch {
+      return `${cost.toFixed(2)} ${report?.currency ?? ''}`;
+    }
+  };
+
+  const current = report?.buckets[report.buckets.length - 1];
+  const summary = report && current ? [
+    { label: PERIOD_LABELS[period].current, value: `${current.energyKwh.toFixed(2)} kWh`, detail: formatCost(current.cost) },
+    { label: `Last ${report.buckets.length} ${period}s`, value: `${report.totals.energyKwh.toFixed(2)} kWh`, detail: formatCost(report.totals.cost) },
+    ...report.byRate.map(rate => ({
+      label: rate.name,
+      value: `${rate.energyKwh.toFixed(2)} kWh`,
+      detail: `${formatCost(rate.cost)} at ${formatCost(rate.rate)}/kWh`
+    }))
+  ] : [];
+
+  const baseOptions = getChartOptions('Power (W)', timeRange);
+  const powerOptions = {
+    ...baseOptions,
+    scales: {
+      ...baseOptions.scales,
+      x: { ...baseOptions.scales.x, ticks: { ...baseOptions.scales.x.ticks, color: theme.palette.text.secondary } },
+      y: { ...baseOptions.scales.y, ticks: { color: theme.palette.text.secondary }, grid: { color: theme.palette.divider } }
+    },
+    plugins: { ...baseOptions.plugins, legend: { position: 'top' as const, labels: { color: theme.palette.text.primary } } }
+  };
+
+  const energyData = {
+    labels: report?.buckets.map(bucket => PERIOD_LABELS[period].bucket(new Date(bucket.start))) ?? [],
+    datasets: [{
+      label: 'Energy (kWh)',
+      data: report?.buckets.map(bucket => bucket.energyKwh) ?? [],
+      backgroundColor: 'rgba(255, 159, 64, 0.6)',
+      borderColor: 'rgb(255, 159, 64)',
+      borderWidth: 1
+    }]
+  };
+
+  const energyOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: { ticks: { color: theme.palette.text.secondary }, grid: { display: false } },
+      y: {
+        beginAtZero: true,
+        title: { display: true, text: 'kWh', color: theme.palette.text.primary },
+        ticks: { color: theme.palette.text.secondary },
+        grid: { color: theme.palette.divider }
+      }
+    },
+    plugins: {
+      legend: { display: false },
+      tooltip: {
+        callbacks: {
+          // Partial periods (gaps in readings) are flagged so low totals are not misread
+          afterLabel: (context: any) => {
+            const bucket = report?.buckets[context.dataIndex];
+            if (!bucket) return '';
+            const lines = [`Cost: ${formatCost(bucket.cost)}`];
+            if (bucket.coverage < 0.95) lines.push(`Readings cover ${Math.round(bucket.coverage * 100)}% of this ${period}`);
+            return lines;
+          }
+        }
+      }
+    }
+  };
+
+  return (
+    <Card
+      variant={CARD_STYLES.CONTAINER.variant}
+      sx={{ ...CARD_STYLES.CONTAINER.sx(theme), display: 'flex', flexDirection: 'column' }}
+    >
+      <CardContent sx={{ ...CARD_STYLES.CONTENT.sx, height: '100%' }}>
+        <Box {...CARD_STYLES.HEADER}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <BoltIcon {...CARD_STYLES.HEADER_ICON} />
+            <Typography {...CARD_STYLES.TITLE}>
+              Power &amp; Energy
+            </Typography>
+          </Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            {isAdmin && (
+              <Tooltip title="Electricity tariff">
+                <IconButton onClick={() => setTariffOpen(true)} {...CARD_STYLES.REFRESH_BUTTON}>
+                  <TariffIcon {...CARD_STYLES.REFRESH_ICON} />
+                </IconButton>
+              </Tooltip>
+            )}
+            <Tooltip title="Refresh energy data">
+              <IconButton onClick={loadData} disabled={loading} {...CARD_STYLES.REFRESH_BUTTON}>
+                <RefreshIcon {...CARD_STYLES.REFRESH_ICON} />
+              </IconButton>
+            </Tooltip>
+          </Box>
+        </Box>
+
+        {loading && !report ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: 300 }}>
+            <CircularProgress size={40} />
+          </Box>
+        ) : (
+          <Grid container spacing={3}>
+            <Grid item xs={12} md={7}>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+                <Typography variant="subtitle2" color="text.secondary">Power draw</Typography>
+                <FormControl size={CARD_STYLES.TIME_RANGE_SELECTOR.size} sx={CARD_STYLES.TIME_RANGE_SELECTOR.sx}>
+                  <InputLabel>Time Range</InputLabel>
+                  <Select
+                    value={timeRange}
+                    label="Time Range"
+                    onChange={(e) => setTimeRange(e.target.value as number)}
+                  >
+                    {POWER_TIME_RANGES.map(range => (
+                      <MenuItem key={range.value} value={range.value}>{range.label}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Box>
+              <Box sx={{ ...CARD_STYLES.CHART_CONTAINER.sx, height: { xs: 250, md: 300 } }}>
+                {powerChart && powerChart.datasets.some(dataset => dataset.data.length > 0) ? (
+                  <Line data={{ datasets: powerChart.datasets }} options={powerOptions} />
+                ) : (
+                  <Typography color="text.secondary" sx={{ textAlign: 'center', pt: 10 }}>
+                    No power readings recorded for this range yet
+                  </Typography>
+                )}
+              </Box>
+            </Grid>
+
+            <Grid item xs={12} md={5}>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+                <Typography variant="subtitle2" color="text.secondary">Energy used</Typography>
+                <ToggleButtonGroup
+                  value={period}
+                  exclusive
+                  size="small"
+                  onChange={(_e, value) => value && setPeriod(value)}
+                >
+                  <ToggleButton value="day">Daily</ToggleButton>
+                  <ToggleButton value="week">Weekly</ToggleButton>
+                  <ToggleButton value="month">Monthly</ToggleButton>
+                </ToggleButtonGroup>
+              </Box>
+              <Box sx={{ height: { xs: 180, md: 200 } }}>
+                <Bar data={energyData} options={energyOptions} />
+              </Box>
+              <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: 1, mt: 2 }}>
+                {summary.map(item => (
+                  <Box
+                    key={item.label}
+                    sx={{
+                      p: 1.5,
+                      borderRadius: 2,
+                      backgroundColor: theme.palette.mode === 'dark' ? 'rgba(255, 255, 255, 0.05)' : theme.palette.grey[50],
+                      border: `1px solid ${theme.palette.mode === 'dark' ? 'rgba(255, 255, 255, 0.1)' : theme.palette.grey[200]}`
+                    }}
+                  >
+                    <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block' }}>
+                      {item.label}
+                    </Typography>
+                    <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                      {item.value}
+                    </Typography>
+                    <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                      {item.detail}
+                    </Typography>
+                  </Box>
+                ))}
+              </Box>
+            </Grid>
+          </Grid>
+        )}
+      </CardContent>
+
+      <EnergyTariffDialog
+        open={tariffOpen}
+        onClose={() => setTariffOpen(false)}
+        onSaved={loadData}
+      />
+    </Card>
+  );
+};
+
+export default EnergyCard;
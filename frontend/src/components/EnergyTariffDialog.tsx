@@ -0,0 +1,244 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+  IconButton,
+  Alert,
+  Stack,
+  Box,
+  Chip,
+  CircularProgress,
+  useTheme
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Save as SaveIcon
+} from '@mui/icons-material';
+import { energyAPI, EnergyTariff, TimeOfUseRate } from '../api';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface EnergyTariffDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSaved: (tariff: EnergyTariff) => void;
+}
+
+export default function EnergyTariffDialog({ open, onClose, onSaved }: EnergyTariffDialogProps) {
+  const theme = useTheme();
+  const [tariff, setTariff] = useState<EnergyTariff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setError('');
+    setTariff(null);
+    energyAPI.getTariff()
+      .then(setTariff)
+      .catch((err: any) => setError(err.response?.data?.error || 'Failed to load the tariff'));
+  }, [open]);
+
+  const updatePeriod = (index: number, changes: Partial<TimeOfUseRate>) => {
+    setTariff(current => current && {
+      ...current,
+      timeOfUse: current.timeOfUse.map((period, i) => i === index ? { ...period, ...changes } : period)
+    });
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = tariff!.timeOfUse[index].days;
+    updatePeriod(index, { days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort((a, b) => a - b) });
+  };
+
+  const addPeriod = () => {
+    setTariff(current => current && {
+      ...current,
+      timeOfUse: [...current.timeOfUse, { name: 'Off-peak', days: [0, 1, 2, 3, 4, 5, 6], startHour: 22, endHour: 6, rate: current.baseRate }]
+    });
+  };
+
+  const removePeriod = (index: number) => {
+    setTariff(current => current && { ...current, timeOfUse: current.timeOfUse.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = async () => {
+    if (!tariff) return;
+    setLoading(true);
+    setError('');
+    try {
+      onSaved(await energyAPI.saveTariff(tariff));
+      onClose();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save the tariff');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="md"
+      fullWidth
+      PaperProps={{ sx: { borderRadius: 3 } }}
+    >
+      <DialogTitle sx={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        borderBottom: `1px solid ${theme.palette.divider}`,
+        pb: 2
+      }}>
+        <Typography variant="h5" component="h2" sx={{ fontWeight: 600 }}>
+          Electricity Tariff
+        </Typography>
+        <IconButton onClick={onClose}>
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent sx={{ p: 4 }}>
+        <Stack spacing={3} sx={{ pt: 3 }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError('')}>
+              {error}
+            </Alert>
+          )}
+
+          {!tariff ? (
+            !error && <Box sx={{ display: 'flex', justifyContent: 'center' }}><CircularProgress /></Box>
+          ) : (
+            <>
+              <Stack direction="row" spacing={2}>
+                <TextField
+                  label="Currency"
+                  value={tariff.currency}
+                  onChange={(e) => setTariff({ ...tariff, currency: e.target.value.toUpperCase() })}
+                  size="small"
+                  disabled={loading}
+                  inputProps={{ maxLength: 3 }}
+                  sx={{ width: 120 }}
+                />
+                <TextField
+                  label="Base rate per kWh"
+                  type="number"
+                  value={tariff.baseRate}
+                  onChange={(e) => setTariff({ ...tariff, baseRate: Number(e.target.value) })}
+                  helperText="Charged for every hour no time-of-use rate covers"
+                  size="small"
+                  disabled={loading}
+                  inputProps={{ min: 0, step: 0.01 }}
+                  fullWidth
+                />
+              </Stack>
+
+              <Box>
+                <Typography variant="subtitle2" sx={{ mb: 1 }}>Time-of-use rates</Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                  Whole hours in the server's time zone. An end hour before the start hour wraps past midnight, the first matching rate wins.
+                </Typography>
+
+                <Stack spacing={2}>
+                  {tariff.timeOfUse.map((period, index) => (
+                    <Box
+                      key={index}
+                      sx={{ p: 2, borderRadius: 2, border: `1px solid ${theme.palette.divider}` }}
+                    >
+                      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} sx={{ mb: 1.5 }}>
+                        <TextField
+                          label="Name"
+                          value={period.name}
+                          onChange={(e) => updatePeriod(index, { name: e.target.value })}
+                          size="small"
+                          disabled={loading}
+                          fullWidth
+                        />
+                        <TextField
+                          label="From hour"
+                          type="number"
+                          value={period.startHour}
+                          onChange={(e) => updatePeriod(index, { startHour: Number(e.target.value) })}
+                          size="small"
+                          disabled={loading}
+                          inputProps={{ min: 0, max: 23 }}
+                          sx={{ minWidth: 110 }}
+                        />
+                        <TextField
+                          label="To hour"
+                          type="number"
+                          value={period.endHour}
+                          onChange={(e) => updatePeriod(index, { endHour: Number(e.target.value) })}
+                          size="small"
+                          disabled={loading}
+                          inputProps={{ min: 1, max: 24 }}
+                          sx={{ minWidth: 110 }}
+                        />
+                        <TextField
+                          label="Rate per kWh"
+                          type="number"
+                          value={period.rate}
+                          onChange={(e) => updatePeriod(index, { rate: Number(e.target.value) })}
+                          size="small"
+                          disabled={loading}
+                          inputProps={{ min: 0, step: 0.01 }}
+                          sx={{ minWidth: 130 }}
+                        />
+                        <IconButton onClick={() => removePeriod(index)} disabled={loading} color="error">
+                          <DeleteIcon />
+                        </IconButton>
+                      </Stack>
+                      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                        {WEEKDAYS.map((label, day) => (
+                          <Chip
+                            key={label}
+                            label={label}
+                            size="small"
+                            color={period.days.includes(day) ? 'primary' : 'default'}
+                            variant={period.days.includes(day) ? 'filled' : 'outlined'}
+                            onClick={() => toggleDay(index, day)}
+                            disabled={loading}
+                          />
+                        ))}
+                      </Box>
+                    </Box>
+                  ))}
+                </Stack>
+
+                <Button startIcon={<AddIcon />} onClick={addPeriod} disabled={loading} sx={{ mt: 2 }}>
+                  Add Rate
+                </Button>
+              </Box>
+            </>
+          )}
+        </Stack>
+      </DialogContent>
+
+      <DialogActions sx={{
+        p: 3,
+        borderTop: `1px solid ${theme.palette.divider}`,
+        justifyContent: 'space-between'
+      }}>
+        <Button onClick={onClose} color="inherit">
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={loading || !tariff}
+          startIcon={loading ? <CircularProgress size={20} /> : <SaveIcon />}
+        >
+          {loading ? 'Saving...' : 'Save Tariff'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -35,8 +35,10 @@ import {
 } from "@mui/material";
 import { Refresh as RefreshIcon } from "@mui/icons-material";
 import { useNotifications } from './NotificationProvider';
+import { useAuth } from '../context/AuthContext';
 import { SPACING } from '../constants/spacing';
 import { CARD_STYLES, getCardContainerProps, getNestedCardProps } from '../constants/cardStyles';
+import { useLiveUpdates, useLiveEvent } from '../context/LiveUpdatesContext';
 
 // Quick Presets Component - Separate card for preset buttons
 function FanPresets() {
@@ -45,30 +47,40 @@ function FanPresets() {
   const [globalSpeed, setGlobalSpeed] = useState(25);
   const [loading, setLoading] = useState(false);
   const { showNotification } = useNotifications();
+  const canControl = useAuth().hasRole('operator');
   
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const { connected } = useLiveUpdates();
 
   useEffect(() => {
     fetchFans();
-    
-    // Set up automatic refresh every 30 seconds for responsive UI
+  }, []);
+
+  // Automatic refresh every 30 seconds, only while the live updates stream is down
+  useEffect(() => {
+    if (connected) return;
     const interval = setInterval(() => {
       fetchFans();
     }, 30000);
     
     return () => clearInterval(interval);
-  }, []);
+  }, [connected]);
+
+  const applyFanData = (data: any[]) => {
+    setFans(data);
+    const speeds: Record<string, number> = {};
+    data.forEach((fan: any) => {
+      speeds[fan.name] = Math.max(10, fan.speed);
+    });
+    setFanSpeeds(speeds);
+  };
+
+  useLiveEvent<any[]>('fans', applyFanData);
 
   const fetchFans = async (bustCache = false) => {
     try {
-      const data = bustCache ? await getFansFresh() : await getFans();
-      setFans(data);
-      const speeds: Record<string, number> = {};
-      data.forEach((fan: any) => {
-        speeds[fan.name] = Math.max(10, fan.speed);
-      });
-      setFanSpeeds(speeds);
+      applyFanData(bustCache ? await getFansFresh() : await getFans());
     } catch (error) {
       console.error('Failed to fetch fans:', error);
     }
@@ -145,7 +157,7 @@ function FanPresets() {
               variant="outlined"
               size={isMobile ? "medium" : "large"}
               color="info"
-              disabled={loading}
+              disabled={loading || !canControl}
               sx={{ 
                 borderRadius: 2,
                 textTransform: 'none',
@@ -167,7 +179,7 @@ function FanPresets() {
               variant="outlined"
               size={isMobile ? "medium" : "large"}
               color="success"
-              disabled={loading}
+              disabled={loading || !canControl}
               sx={{ 
                 borderRadius: 2,
                 textTransform: 'none',
@@ -189,7 +201,7 @@ function FanPresets() {
               variant="outlined"
               size={isMobile ? "medium" : "large"}
               color="error"
-              disabled={loading}
+              disabled={loading || !canControl}
               sx={{ 
                 borderRadius: 2,
                 textTransform: 'none',
@@ -227,18 +239,25 @@ function FanControlCard() {
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
   const isTablet = useMediaQuery(theme.breakpoints.down('md'));
   const { showNotification } = useNotifications();
+  const canControl = useAuth().hasRole('operator');
+  const { connected } = useLiveUpdates();
 
   useEffect(() => {
     fetchFans().finally(() => setLoading(false));
-    
-    // Set up automatic refresh every 30 seconds for responsive UI
+  }, []);
+
+  // Automatic refresh every 30 seconds, only while the live updates stream is down
+  useEffect(() => {
+    if (connected) return;
     const interval = setInterval(() => {
       // Don't show loading on automatic updates, just update data silently
       fetchFans();
     }, 30000);
     
     return () => clearInterval(interval);
-  }, []);
+  }, [connected]);
+
+  useLiveEvent<any[]>('fans', data => applyFanData(data));
 
   const handleFanSpeedChange = (fanName: string, speed: number) => {
     if (editAllMode) {
@@ -347,49 +366,52 @@ function FanControlCard() {
   const fetchFans = async (bustCache = false, isAfterUpdate = false) => {
     try {
       // Use fresh data API when cache busting is requested
-      const data = bustCache ? await getFansFresh() : await getFans();
-      setFans(data);
-      
-      const speeds: Record<string, number> = {};
+      applyFanData(bustCache ? await getFansFresh() : await getFans(), isAfterUpdate);
+    } catch (error) {
+      console.error('Failed to fetch fans:', error);
+    }
+  };
+
+  const applyFanData = (data: any[], isAfterUpdate = false) => {
+    setFans(data);
+    
+    const speeds: Record<string, number> = {};
+    data.forEach((fan: any) => {
+      // Only update fan speed if user is not currently interacting with that fan's slider
+      if (userInteracting[fan.name]) {
+        // Preserve the current slider value while user is interacting
+        speeds[fan.name] = fanSpeeds[fan.name] || Math.max(10, fan.speed);
+      } else {
+        // Update with fresh data when user is not interacting
+        speeds[fan.name] = Math.max(10, fan.speed);
+      }
+    });
+    
+    // If this refresh is after an update and we're in Edit All mode,
+    // we should make sure all sliders show the same value
+    if (isAfterUpdate && editAllMode) {
+      // In Edit All mode after update, set all fan speeds to match the global speed
+      // This prevents the "drift" issue where one slider shows different value
       data.forEach((fan: any) => {
-        // Only update fan speed if user is not currently interacting with that fan's slider
-        if (userInteracting[fan.name]) {
-          // Preserve the current slider value while user is interacting
-          speeds[fan.name] = fanSpeeds[fan.name] || Math.max(10, fan.speed);
-        } else {
-          // Update with fresh data when user is not interacting
-          speeds[fan.name] = Math.max(10, fan.speed);
+        // Only sync non-interacting sliders
+        if (!userInteracting[fan.name]) {
+          speeds[fan.name] = globalSpeed;
         }
       });
-      
-      // If this refresh is after an update and we're in Edit All mode,
-      // we should make sure all sliders show the same value
-      if (isAfterUpdate && editAllMode) {
-        // In Edit All mode after update, set all fan speeds to match the global speed
-        // This prevents the "drift" issue where one slider shows different value
-        data.forEach((fan: any) => {
-          // Only sync non-interacting sliders
-          if (!userInteracting[fan.name]) {
-            speeds[fan.name] = globalSpeed;
-          }
-        });
-      }
-      
-      setFanSpeeds(speeds);
-      
-      // Update global speed to match if all fans are at the same speed (excluding interacting ones)
-      const nonInteractingSpeeds = Object.entries(speeds)
-        .filter(([fanName]) => !userInteracting[fanName])
-        .map(([, speed]) => speed);
-      
-      if (nonInteractingSpeeds.length > 0) {
-        const uniqueSpeeds = Array.from(new Set(nonInteractingSpeeds));
-        if (uniqueSpeeds.length === 1) {
-          setGlobalSpeed(uniqueSpeeds[0]);
-        }
+    }
+    
+    setFanSpeeds(speeds);
+    
+    // Update global speed to match if all fans are at the same speed (excluding interacting ones)
+    const nonInteractingSpeeds = Object.entries(speeds)
+      .filter(([fanName]) => !userInteracting[fanName])
+      .map(([, speed]) => speed);
+    
+    if (nonInteractingSpeeds.length > 0) {
+      const uniqueSpeeds = Array.from(new Set(nonInteractingSpeeds));
+      if (uniqueSpeeds.length === 1) {
+        setGlobalSpeed(uniqueSpeeds[0]);
       }
-    } catch (error) {
-      console.error('Failed to fetch fans:', error);
     }
   };
 
@@ -568,7 +590,7 @@ function FanControlCard() {
             <Button
               variant="outlined"
               onClick={handleUnlock}
-              disabled={loading}
+              disabled={loading || !canControl}
               size="large"
               sx={{ 
                 borderRadius: 2,
@@ -584,7 +606,7 @@ function FanControlCard() {
             <Button
               variant="contained"
               onClick={handleUpdate}
-              disabled={loading}
+              disabled={loading || !canControl}
               size="large"
               sx={{ 
                 borderRadius: 2,
@@ -615,6 +637,7 @@ function SafeSensorLimits({ onDebugLog }: { onDebugLog?: (message: string) => vo
   const [selectedSensor, setSelectedSensor] = useState("");
   const [lowLimit, setLowLimit] = useState(20);
   const { showNotification } = useNotifications();
+  const canControl = useAuth().hasRole('operator');
 
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
@@ -767,7 +790,7 @@ function SafeSensorLimits({ onDebugLog }: { onDebugLog?: (message: string) => vo
               <Button
                 variant="contained"
                 onClick={handleSetLowLimit}
-                disabled={!selectedSensor}
+                disabled={!selectedSensor || !canControl}
                 fullWidth
                 size="large"
                 sx={{ 
@@ -0,0 +1,261 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Grid,
+  Chip,
+  Button,
+  IconButton,
+  Tooltip,
+  Alert,
+  CircularProgress,
+  Divider,
+  useTheme
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Refresh as RefreshIcon,
+  Dns as ServerIcon,
+  OpenInNew as OpenIcon,
+  Thermostat as TempIcon,
+  Air as FanIcon,
+  BoltOutlined as PowerIcon
+} from '@mui/icons-material';
+import { serversAPI, FleetServer, FleetStatus, ServerSummary } from '../api';
+import { useAuth } from '../context/AuthContext';
+import { useServers } from '../context/ServerContext';
+import { useNotifications } from './NotificationProvider';
+import ServerDialog from './ServerDialog';
+import { CARD_STYLES } from '../constants/cardStyles';
+import { SPACING } from '../constants/spacing';
+
+const STATUS_CHIPS: Record<FleetStatus, { label: string; color: 'success' | 'warning' | 'error' | 'default' }> = {
+  ok: { label: 'Healthy', color: 'success' },
+  warning: { label: 'Warning', color: 'warning' },
+  critical: { label: 'Critical', color: 'error' },
+  unreachable: { label: 'Unreachable', color: 'error' },
+  stopped: { label: 'Not collecting', color: 'default' }
+};
+
+interface FleetOverviewProps {
+  onOpenServer: (serverId: string) => void;
+}
+
+const Metric = ({ icon, label, value }: { icon: React.ReactNode; label: string; value: string }) => (
+  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+    {icon}
+    <Box>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', lineHeight: 1.2 }}>
+        {label}
+      </Typography>
+      <Typography variant="body2" sx={{ fontWeight: 600 }}>
+        {value}
+      </Typography>
+    </Box>
+  </Box>
+);
+
+// One card per registered server with its health at a glance
+const FleetOverview: React.FC<FleetOverviewProps> = ({ onOpenServer }) => {
+  const theme = useTheme();
+  const { hasRole } = useAuth();
+  const { selectedServerId, refreshServers } = useServers();
+  const { showNotification } = useNotifications();
+  const [fleet, setFleet] = useState<FleetServer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<ServerSummary | null>(null);
+
+  const isAdmin = hasRole('admin');
+
+  const fetchFleet = useCallback(async () => {
+    try {
+      setFleet(await serversAPI.getOverview());
+      setError(null);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to load fleet overview');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchFleet();
+    const interval = setInterval(fetchFleet, 60000); // Thermals are polled every 30s, power every minute
+    return () => clearInterval(interval);
+  }, [fetchFleet]);
+
+  const handleSaved = (server: ServerSummary) => {
+    showNotification('success', `Server ${server.name} saved`);
+    refreshServers();
+    fetchFleet();
+  };
+
+  const handleRemove = async (server: FleetServer) => {
+    if (!window.confirm(`Remove "${server.name}" (${server.host}) from the fleet?`)) return;
+    const purgeHistory = window.confirm(`Also delete the stored history of "${server.name}"?`);
+
+    try {
+      await serversAPI.remove(server.id, purgeHistory);
+      showNotification('success', `Server ${server.name} removed`);
+      refreshServers();
+      fetchFleet();
+    } catch (err: any) {
+      showNotification('error', err.response?.data?.error || 'Failed to remove server');
+    }
+  };
+
+  const openDialog = (server: ServerSummary | null) => {
+    setEditing(server);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Box>
+      <ServerDialog
+        open={dialogOpen}
+        server={editing}
+        onClose={() => setDialogOpen(false)}
+        onSaved={handleSaved}
+      />
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: SPACING.ROW }}>
+        <Box>
+          <Typography variant="h6" sx={{ fontWeight: 600 }}>
+            Fleet
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {fleet.length} server{fleet.length === 1 ? '' : 's'} monitored
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Tooltip title="Refresh">
+            <IconButton {...CARD_STYLES.REFRESH_BUTTON} onClick={fetchFleet}>
+              <RefreshIcon {...CARD_STYLES.REFRESH_ICON} />
+            </IconButton>
+          </Tooltip>
+          {isAdmin && (
+            <Button variant="contained" startIcon={<AddIcon />} onClick={() => openDialog(null)}>
+              Add Server
+            </Button>
+          )}
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+          <CircularProgress />
+        </Box>
+      ) : fleet.length === 0 ? (
+        <Box {...CARD_STYLES.EMPTY_STATE} sx={{ ...CARD_STYLES.EMPTY_STATE.sx, py: 6 }}>
+          <ServerIcon {...CARD_STYLES.EMPTY_STATE_ICON} />
+          <Typography {...CARD_STYLES.EMPTY_STATE_TEXT}>No servers configured</Typography>
+        </Box>
+      ) : (
+        <Grid container spacing={SPACING.CARD}>
+          {fleet.map(server => {
+            const chip = STATUS_CHIPS[server.status];
+            const hottest = server.thermal.hottest;
+
+            return (
+              <Grid item xs={12} md={6} lg={4} key={server.id}>
+                <Card
+                  variant={CARD_STYLES.CONTAINER.variant}
+                  sx={{ ...CARD_STYLES.CONTAINER.sx(theme), display: 'flex', flexDirection: 'column' }}
+                >
+                  <CardContent {...CARD_STYLES.CONTENT}>
+                    <Box {...CARD_STYLES.HEADER}>
+                      <Box sx={{ minWidth: 0 }}>
+                        <Typography {...CARD_STYLES.TITLE} noWrap>
+                          {server.name}
+                          {server.id === selectedServerId && (
+                            <Chip label="Selected" size="small" variant="outlined" sx={{ ml: 1 }} />
+                          )}
+                        </Typography>
+                        <Typography {...CARD_STYLES.SUBTITLE} noWrap>
+                          {server.host}{server.systemInfo ? ` · ${server.systemInfo.model}` : ''}
+                        </Typography>
+                      </Box>
+                      <Chip label={chip.label} color={chip.color} size="small" />
+                    </Box>
+
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 2, mb: 2 }}>
+                      <Metric
+                        icon={<TempIcon {...CARD_STYLES.HEADER_ICON} />}
+                        label={hottest ? hottest.name : 'Hottest sensor'}
+                        value={hottest ? `${hottest.reading}°C` : '—'}
+                      />
+                      <Metric
+                        icon={<FanIcon {...CARD_STYLES.HEADER_ICON} />}
+                        label="Avg fan"
+                        value={server.fans.averageSpeed !== null ? `${server.fans.averageSpeed}%` : '—'}
+                      />
+                      <Metric
+                        icon={<PowerIcon {...CARD_STYLES.HEADER_ICON} />}
+                        label="Power"
+                        value={server.power ? `${server.power.presentPower} W` : '—'}
+                      />
+                    </Box>
+
+                    {server.errors.length > 0 && (
+                      <Alert severity="warning" sx={{ mb: 2, py: 0 }}>
+                        {server.errors[0]}
+                      </Alert>
+                    )}
+
+                    <Box sx={{ mt: 'auto' }}>
+                      <Divider sx={{ mb: 1 }} />
+                      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                        <Typography variant="caption" color="text.secondary">
+                          {new Date(server.lastUpdated).getTime() > 0
+                            ? `Updated ${new Date(server.lastUpdated).toLocaleTimeString()}`
+                            : 'Waiting for first update'}
+                        </Typography>
+                        <Box>
+                          {isAdmin && (
+                            <>
+                              <Tooltip title="Edit">
+                                <IconButton size="small" onClick={() => openDialog(server)}>
+                                  <EditIcon fontSize="small" />
+                                </IconButton>
+                              </Tooltip>
+                              {!server.isDefault && (
+                                <Tooltip title="Remove">
+                                  <IconButton size="small" onClick={() => handleRemove(server)}>
+                                    <DeleteIcon fontSize="small" />
+                                  </IconButton>
+                                </Tooltip>
+                              )}
+                            </>
+                          )}
+                          <Tooltip title="Open dashboard">
+                            <IconButton size="small" color="primary" onClick={() => onOpenServer(server.id)}>
+                              <OpenIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        </Box>
+                      </Box>
+                    </Box>
+                  </CardContent>
+                </Card>
+              </Grid>
+            );
+          })}
+        </Grid>
+      )}
+    </Box>
+  );
+};
+
+export default FleetOverview;
@@ -8,20 +8,59 @@ import {
   IconButton,
   Tooltip,
   Alert,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Chip,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
   useTheme
 } from '@mui/material';
-import { Refresh as RefreshIcon, Info as InfoIcon } from '@mui/icons-material';
-import { getSystemInformation, refreshSystemInformation, historyAPI, type SystemInformation } from '../api';
+import { Refresh as RefreshIcon, Info as InfoIcon, ExpandMore as ExpandMoreIcon } from '@mui/icons-material';
+import {
+  getSystemInformation,
+  refreshSystemInformation,
+  getHardwareInventory,
+  invalidateCache,
+  historyAPI,
+  type SystemInformation,
+  type HardwareInventory
+} from '../api';
 import { CARD_STYLES, getGridCardContainerProps } from '../constants/cardStyles';
+import { healthColor } from '../utils/health';
+
+const formatSize = (sizeMB: number | null) =>
+  sizeMB === null ? '—' : sizeMB >= 1024 ? `${(sizeMB / 1024).toFixed(sizeMB % 1024 ? 1 : 0)} GB` : `${sizeMB} MB`;
+
+const formatSpeed = (speedMHz: number | null) => speedMHz === null ? '—' : `${speedMHz} MHz`;
 
 const InformationCard: React.FC = () => {
   const [systemInfo, setSystemInfo] = useState<SystemInformation | null>(null);
+  const [inventory, setInventory] = useState<HardwareInventory | null>(null);
+  const [inventoryError, setInventoryError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
   const theme = useTheme();
 
+  // The inventory is optional, a failure only shows up in its own section
+  const fetchInventory = async (isRefresh = false) => {
+    try {
+      if (isRefresh) invalidateCache(['inventory']);
+      const data = await getHardwareInventory();
+      setInventory(data);
+      setInventoryError(data ? null : 'Hardware inventory is still being collected.');
+    } catch (err) {
+      console.error('Error fetching hardware inventory:', err);
+      setInventory(null);
+      setInventoryError('Failed to load the hardware inventory.');
+    }
+  };
+
   const fetchSystemInfo = async (isRefresh = false) => {
     try {
       if (isRefresh) {
@@ -80,6 +119,7 @@ const InformationCard: React.FC = () => {
   // Initial fetch
   useEffect(() => {
     fetchSystemInfo();
+    fetchInventory();
   }, []);
 
   // Listen for setup completion events
@@ -88,6 +128,7 @@ const InformationCard: React.FC = () => {
       console.log('Setup completion event received, fetching system info...');
       setTimeout(() => {
         fetchSystemInfo();
+        fetchInventory();
       }, 2000); // Give setup time to complete
     };
 
@@ -111,6 +152,7 @@ const InformationCard: React.FC = () => {
 
   const handleRefresh = () => {
     fetchSystemInfo(true);
+    fetchInventory(true);
   };
 
   const renderInfoRow = (label: string, value: string) => (
@@ -152,6 +194,145 @@ const InformationCard: React.FC = () => {
     </Box>
   );
 
+  const renderHealth = (health: string) => (
+    <Chip label={health} size="small" color={healthColor(health)} variant="outlined" />
+  );
+
+  const renderSection = (title: string, summary: string, content: React.ReactNode) => (
+    <Accordion
+      disableGutters
+      elevation={0}
+      sx={{
+        backgroundColor: 'transparent',
+        borderTop: `1px solid ${theme.palette.divider}`,
+        '&:before': { display: 'none' }
+      }}
+    >
+      <AccordionSummary expandIcon={<ExpandMoreIcon />} sx={{ px: 0 }}>
+        <Typography variant="body2" sx={{ fontWeight: 500, flex: 1 }}>
+          {title}
+        </Typography>
+        <Typography variant="body2" sx={{ color: 'text.secondary', mr: 1 }}>
+          {summary}
+        </Typography>
+      </AccordionSummary>
+      <AccordionDetails sx={{ px: 0, pt: 0, overflowX: 'auto' }}>
+        {content}
+      </AccordionDetails>
+    </Accordion>
+  );
+
+  const renderInventory = () => {
+    if (!inventory) {
+      return inventoryError && (
+        <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block', mt: 2 }}>
+          {inventoryError}
+        </Typography>
+      );
+    }
+
+    const populated = inventory.memory.filter(dimm => dimm.populated);
+    const totalMB = populated.reduce((total, dimm) => total + (dimm.sizeMB ?? 0), 0);
+    const cores = inventory.processors.reduce((total, cpu) => total + (cpu.cores ?? 0), 0);
+
+    return (
+      <Box sx={{ mt: 2 }}>
+        {renderSection(
+          'Processors',
+          `${inventory.processors.length} installed${cores ? `, ${cores} cores` : ''}`,
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Socket</TableCell>
+                <TableCell>Model</TableCell>
+                <TableCell align="right">Cores / Threads</TableCell>
+                <TableCell align="right">Speed</TableCell>
+                <TableCell>Status</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {inventory.processors.map(cpu => (
+                <TableRow key={cpu.socket}>
+                  <TableCell>{cpu.socket}</TableCell>
+                  <TableCell>{cpu.model}</TableCell>
+                  <TableCell align="right">{cpu.cores ?? '—'} / {cpu.threads ?? '—'}</TableCell>
+                  <TableCell align="right">{formatSpeed(cpu.speedMHz)}</TableCell>
+                  <TableCell>{renderHealth(cpu.health)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {renderSection(
+          'Memory',
+          `${formatSize(totalMB)} in ${populated.length}${inventory.source === 'redfish' ? ` of ${inventory.memory.length}` : ''} slots`,
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Slot</TableCell>
+                <TableCell align="right">Size</TableCell>
+                <TableCell align="right">Speed</TableCell>
+                <TableCell>Type</TableCell>
+                <TableCell>Part Number</TableCell>
+                <TableCell>Status</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {inventory.memory.map(dimm => (
+                <TableRow key={dimm.slot} sx={dimm.populated ? undefined : { '& td': { color: 'text.disabled' } }}>
+                  <TableCell>{dimm.slot}</TableCell>
+                  <TableCell align="right">{dimm.populated ? formatSize(dimm.sizeMB) : 'Empty'}</TableCell>
+                  <TableCell align="right">{formatSpeed(dimm.speedMHz)}</TableCell>
+                  <TableCell>{dimm.type ?? '—'}</TableCell>
+                  <TableCell>{[dimm.manufacturer, dimm.partNumber].filter(Boolean).join(' ') || '—'}</TableCell>
+                  <TableCell>{dimm.populated ? renderHealth(dimm.health) : null}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {renderSection(
+          'PCI Devices',
+          inventory.source === 'clp' ? 'Needs Redfish' : `${inventory.pciDevices.length} devices`,
+          inventory.pciDevices.length === 0 ? (
+            <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+              {inventory.source === 'clp'
+                ? 'This iLO firmware does not list PCI devices over the CLP.'
+                : 'No PCI devices reported.'}
+            </Typography>
+          ) : (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Device</TableCell>
+                  <TableCell>Location</TableCell>
+                  <TableCell>Type</TableCell>
+                  <TableCell>Vendor / Device ID</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {inventory.pciDevices.map((device, index) => (
+                  <TableRow key={`${device.location}-${index}`}>
+                    <TableCell>{device.name}</TableCell>
+                    <TableCell>{device.location || '—'}</TableCell>
+                    <TableCell>{device.deviceType ?? '—'}</TableCell>
+                    <TableCell>{device.vendorId && device.deviceId ? `${device.vendorId}:${device.deviceId}` : '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )
+        )}
+
+        <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block', mt: 1 }}>
+          Collected over {inventory.source === 'redfish' ? 'Redfish' : 'the CLP'} at {new Date(inventory.collectedAt).toLocaleString()}
+        </Typography>
+      </Box>
+    );
+  };
+
   // Show loading state
   if (loading) {
     return (
@@ -260,6 +441,7 @@ const InformationCard: React.FC = () => {
               {renderInfoRow('iLO Generation', systemInfo.iloGeneration || 'N/A')}
               {renderInfoRow('System ROM', systemInfo.systemRom || 'N/A')}
               {renderInfoRow('iLO Firmware', systemInfo.iloFirmware || 'N/A')}
+              {renderInventory()}
             </Box>
           ) : (
             <Alert severity="info" sx={{ borderRadius: 2 }}>
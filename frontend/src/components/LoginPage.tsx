@@ -14,7 +14,7 @@ import {
   Stack,
   Paper
 } from '@mui/material';
-import { Lock as LockIcon, Person as PersonIcon } from '@mui/icons-material';
+import { Lock as LockIcon, Person as PersonIcon, PhonelinkLock as PhonelinkLockIcon } from '@mui/icons-material';
 import SystemLogo from './SystemLogo';
 import { useAuth } from '../context/AuthContext';
 import { formatVersion, getVersionInfo } from '../utils/version';
@@ -22,10 +22,11 @@ import { formatVersion, getVersionInfo } from '../utils/version';
 export default function LoginPage() {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [mfaCode, setMfaCode] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   
-  const { login } = useAuth();
+  const { login, verifyMfaLogin, cancelMfaLogin, mfaPending } = useAuth();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
 
@@ -41,17 +42,49 @@ export default function LoginPage() {
     setLoading(true);
     
     try {
-      const success = await login(username.trim(), password);
-      if (!success) {
+      const result = await login(username.trim(), password);
+      if (result === 'failed') {
         setError('Invalid username or password');
       }
-    } catch (error) {
-      setError('An error occurred during login');
+    } catch (error: any) {
+      setError(error.message || 'An error occurred during login');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    
+    if (!mfaCode.trim()) {
+      setError('Please enter the code from your authenticator app');
+      return;
+    }
+
+    setLoading(true);
+    
+    try {
+      const success = await verifyMfaLogin(mfaCode.trim());
+      if (!success) {
+        setError('Invalid authentication code');
+        setMfaCode('');
+      }
+    } catch (error: any) {
+      setError(error.message || 'An error occurred during login');
+      setMfaCode('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMfaCancel = () => {
+    cancelMfaLogin();
+    setMfaCode('');
+    setPassword('');
+    setError('');
+  };
+
   return (
     <Box sx={{
       minHeight: '100vh',
@@ -106,7 +139,7 @@ export default function LoginPage() {
                   fontSize: { xs: '1.25rem', sm: '1.5rem' }
                 }}
               >
-                Sign In
+                {mfaPending ? 'Two-Factor Authentication' : 'Sign In'}
               </Typography>
               <Typography
                 variant="body2"
@@ -115,7 +148,9 @@ export default function LoginPage() {
                   fontSize: { xs: '0.8rem', sm: '0.875rem' }
                 }}
               >
-                Enter your credentials to access the dashboard
+                {mfaPending
+                  ? 'Enter the 6-digit code from your authenticator app, or one of your recovery codes'
+                  : 'Enter your credentials to access the dashboard'}
               </Typography>
             </Box>
 
@@ -134,106 +169,169 @@ export default function LoginPage() {
               </Alert>
             )}
 
-            <Box component="form" onSubmit={handleSubmit} noValidate>
-              <Stack spacing={3}>
-                <TextField
-                  label="Username"
-                  type="text"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
-                  required
-                  fullWidth
-                  autoComplete="username"
-                  autoFocus
-                  disabled={loading}
-                  variant="outlined"
-                  InputProps={{
-                    startAdornment: (
-                      <PersonIcon sx={{ 
-                        color: 'text.secondary', 
-                        mr: 1, 
-                        fontSize: 20 
-                      }} />
-                    ),
-                  }}
-                  sx={{
-                    '& .MuiOutlinedInput-root': {
-                      borderRadius: 2,
-                      '&:hover .MuiOutlinedInput-notchedOutline': {
-                        borderColor: theme.palette.primary.main,
-                      },
-                      '&.Mui-focused .MuiOutlinedInput-notchedOutline': {
-                        borderWidth: 2,
+            {mfaPending ? (
+              <Box component="form" onSubmit={handleMfaSubmit} noValidate>
+                <Stack spacing={3}>
+                  <TextField
+                    label="Authentication Code"
+                    type="text"
+                    value={mfaCode}
+                    onChange={(e) => setMfaCode(e.target.value)}
+                    required
+                    fullWidth
+                    autoComplete="one-time-code"
+                    autoFocus
+                    disabled={loading}
+                    variant="outlined"
+                    inputProps={{ inputMode: 'text', maxLength: 11 }}
+                    InputProps={{
+                      startAdornment: (
+                        <PhonelinkLockIcon sx={{ 
+                          color: 'text.secondary', 
+                          mr: 1, 
+                          fontSize: 20 
+                        }} />
+                      ),
+                    }}
+                    sx={{
+                      '& .MuiOutlinedInput-root': {
+                        borderRadius: 2
                       }
-                    }
-                  }}
-                />
+                    }}
+                  />
 
-                <TextField
-                  label="Password"
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
-                  fullWidth
-                  autoComplete="current-password"
-                  disabled={loading}
-                  variant="outlined"
-                  InputProps={{
-                    startAdornment: (
-                      <LockIcon sx={{ 
-                        color: 'text.secondary', 
-                        mr: 1, 
-                        fontSize: 20 
-                      }} />
-                    ),
-                  }}
-                  sx={{
-                    '& .MuiOutlinedInput-root': {
+                  <Stack direction="row" spacing={2}>
+                    <Button
+                      variant="outlined"
+                      size="large"
+                      onClick={handleMfaCancel}
+                      disabled={loading}
+                      sx={{ borderRadius: 2, textTransform: 'none', fontWeight: 600, py: 1.5 }}
+                    >
+                      Back
+                    </Button>
+                    <Button
+                      type="submit"
+                      variant="contained"
+                      size="large"
+                      disabled={loading}
+                      fullWidth
+                      sx={{ borderRadius: 2, textTransform: 'none', fontWeight: 600, py: 1.5, boxShadow: 2 }}
+                    >
+                      {loading ? (
+                        <>
+                          <CircularProgress size={20} sx={{ mr: 1, color: 'inherit' }} />
+                          Verifying...
+                        </>
+                      ) : (
+                        'Verify'
+                      )}
+                    </Button>
+                  </Stack>
+                </Stack>
+              </Box>
+            ) : (
+              <Box component="form" onSubmit={handleSubmit} noValidate>
+                <Stack spacing={3}>
+                  <TextField
+                    label="Username"
+                    type="text"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    required
+                    fullWidth
+                    autoComplete="username"
+                    autoFocus
+                    disabled={loading}
+                    variant="outlined"
+                    InputProps={{
+                      startAdornment: (
+                        <PersonIcon sx={{ 
+                          color: 'text.secondary', 
+                          mr: 1, 
+                          fontSize: 20 
+                        }} />
+                      ),
+                    }}
+                    sx={{
+                      '& .MuiOutlinedInput-root': {
+                        borderRadius: 2,
+                        '&:hover .MuiOutlinedInput-notchedOutline': {
+                          borderColor: theme.palette.primary.main,
+                        },
+                        '&.Mui-focused .MuiOutlinedInput-notchedOutline': {
+                          borderWidth: 2,
+                        }
+                      }
+                    }}
+                  />
+
+                  <TextField
+                    label="Password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    fullWidth
+                    autoComplete="current-password"
+                    disabled={loading}
+                    variant="outlined"
+                    InputProps={{
+                      startAdornment: (
+                        <LockIcon sx={{ 
+                          color: 'text.secondary', 
+                          mr: 1, 
+                          fontSize: 20 
+                        }} />
+                      ),
+                    }}
+                    sx={{
+                      '& .MuiOutlinedInput-root': {
+                        borderRadius: 2,
+                        '&:hover .MuiOutlinedInput-notchedOutline': {
+                          borderColor: theme.palette.primary.main,
+                        },
+                        '&.Mui-focused .MuiOutlinedInput-notchedOutline': {
+                          borderWidth: 2,
+                        }
+                      }
+                    }}
+                  />
+
+                  <Button
+                    type="submit"
+                    variant="contained"
+                    size="large"
+                    disabled={loading}
+                    fullWidth
+                    sx={{
                       borderRadius: 2,
-                      '&:hover .MuiOutlinedInput-notchedOutline': {
-                        borderColor: theme.palette.primary.main,
+                      textTransform: 'none',
+                      fontWeight: 600,
+                      py: 1.5,
+                      fontSize: { xs: '0.9rem', sm: '1rem' },
+                      boxShadow: 2,
+                      '&:hover': {
+                        boxShadow: 4,
+                        transform: 'translateY(-1px)',
                       },
-                      '&.Mui-focused .MuiOutlinedInput-notchedOutline': {
-                        borderWidth: 2,
+                      '&:disabled': {
+                        transform: 'none'
                       }
-                    }
-                  }}
-                />
-
-                <Button
-                  type="submit"
-                  variant="contained"
-                  size="large"
-                  disabled={loading}
-                  fullWidth
-                  sx={{
-                    borderRadius: 2,
-                    textTransform: 'none',
-                    fontWeight: 600,
-                    py: 1.5,
-                    fontSize: { xs: '0.9rem', sm: '1rem' },
-                    boxShadow: 2,
-                    '&:hover': {
-                      boxShadow: 4,
-                      transform: 'translateY(-1px)',
-                    },
-                    '&:disabled': {
-                      transform: 'none'
-                    }
-                  }}
-                >
-                  {loading ? (
-                    <>
-                      <CircularProgress size={20} sx={{ mr: 1, color: 'inherit' }} />
-                      Signing In...
-                    </>
-                  ) : (
-                    'Sign In'
-                  )}
-                </Button>
-              </Stack>
-            </Box>
+                    }}
+                  >
+                    {loading ? (
+                      <>
+                        <CircularProgress size={20} sx={{ mr: 1, color: 'inherit' }} />
+                        Signing In...
+                      </>
+                    ) : (
+                      'Sign In'
+                    )}
+                  </Button>
+                </Stack>
+              </Box>
+            )}
           </CardContent>
 
           {/* Footer Section */}
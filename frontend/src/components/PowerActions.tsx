@@ -0,0 +1,193 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Typography,
+  Alert,
+  CircularProgress,
+  List,
+  ListItem,
+  ListItemText,
+  Chip,
+  useTheme
+} from '@mui/material';
+import {
+  PowerSettingsNew as PowerOnIcon,
+  PowerOff as ShutdownIcon,
+  OfflineBolt as ForceOffIcon,
+  RestartAlt as ResetIcon
+} from '@mui/icons-material';
+import { powerControlAPI, PowerAction, PowerActionConfirmation, PowerActionRecord, PowerState } from '../api';
+import { useAuth } from '../context/AuthContext';
+import { useServers } from '../context/ServerContext';
+import { useNotifications } from './NotificationProvider';
+
+const ACTIONS: { action: PowerAction; label: string; icon: React.ReactElement; color: 'success' | 'warning' | 'error' }[] = [
+  { action: 'on', label: 'Power On', icon: <PowerOnIcon />, color: 'success' },
+  { action: 'shutdown', label: 'Shutdown', icon: <ShutdownIcon />, color: 'warning' },
+  { action: 'force-off', label: 'Force Off', icon: <ForceOffIcon />, color: 'error' },
+  { action: 'reset', label: 'Reset', icon: <ResetIcon />, color: 'error' }
+];
+
+const ACTION_DESCRIPTIONS: Record<PowerAction, string> = {
+  on: 'The server will power on and boot.',
+  shutdown: 'The operating system is asked to shut down cleanly, like a short press of the power button.',
+  'force-off': 'Power is cut immediately without shutting down the operating system. Unsaved data will be lost.',
+  reset: 'The server is cold reset immediately without shutting down the operating system. Unsaved data will be lost.'
+};
+
+const RECENT_ACTIONS = 5;
+
+interface PowerActionsProps {
+  powerState: PowerState;
+  onActionComplete: () => void;
+}
+
+export default function PowerActions({ powerState, onActionComplete }: PowerActionsProps) {
+  const theme = useTheme();
+  const canControl = useAuth().hasRole('operator');
+  const { selectedServerId } = useServers();
+  const { showNotification } = useNotifications();
+  const [pending, setPending] = useState<PowerActionConfirmation | null>(null);
+  const [requesting, setRequesting] = useState<PowerAction | null>(null);
+  const [executing, setExecuting] = useState(false);
+  const [log, setLog] = useState<PowerActionRecord[]>([]);
+
+  const loadLog = useCallback(async () => {
+    try {
+      setLog(await powerControlAPI.getLog(RECENT_ACTIONS));
+    } catch (err) {
+      console.error('Error loading power action log:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLog();
+  }, [loadLog, selectedServerId]);
+
+  const isAvailable = (action: PowerAction) => {
+    if (powerState === 'Unknown') return true;
+    return action === 'on' ? powerState === 'Off' : powerState === 'On';
+  };
+
+  const handleRequest = async (action: PowerAction) => {
+    setRequesting(action);
+    try {
+      setPending(await powerControlAPI.confirm(action));
+    } catch (err: any) {
+      showNotification('error', err.response?.data?.error || 'Failed to start power action');
+    } finally {
+      setRequesting(null);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!pending) return;
+    setExecuting(true);
+    try {
+      const result = await powerControlAPI.execute(pending.action, pending.confirmationToken);
+      showNotification('success', result.message);
+      setPending(null);
+      onActionComplete();
+    } catch (err: any) {
+      // The token is spent either way, a retry has to be confirmed again
+      setPending(null);
+      showNotification('error', err.response?.data?.error || 'Power action failed');
+    } finally {
+      setExecuting(false);
+      loadLog();
+    }
+  };
+
+  const pendingDestructive = pending && pending.action !== 'on';
+
+  return (
+    <Box sx={{ mt: 2, pt: 2, borderTop: `1px solid ${theme.palette.divider}` }}>
+      {canControl && (
+        <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: 1, mb: 2 }}>
+          {ACTIONS.map(({ action, label, icon, color }) => (
+            <Button
+              key={action}
+              variant="outlined"
+              size="small"
+              color={color}
+              startIcon={requesting === action ? <CircularProgress size={16} /> : icon}
+              onClick={() => handleRequest(action)}
+              disabled={!isAvailable(action) || requesting !== null || executing}
+            >
+              {label}
+            </Button>
+          ))}
+        </Box>
+      )}
+
+      <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block', mb: 0.5 }}>
+        Recent power actions
+      </Typography>
+      {log.length === 0 ? (
+        <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+          No power actions recorded
+        </Typography>
+      ) : (
+        <List dense disablePadding>
+          {log.map(record => (
+            <ListItem key={`${record.timestamp}-${record.action}`} disableGutters sx={{ py: 0 }}>
+              <ListItemText
+                primary={`${ACTIONS.find(a => a.action === record.action)?.label ?? record.action} by ${record.username}`}
+                secondary={`${new Date(record.timestamp).toLocaleString()}${record.error ? ` — ${record.error}` : ''}`}
+                primaryTypographyProps={{ variant: 'body2' }}
+                secondaryTypographyProps={{ variant: 'caption' }}
+              />
+              <Chip
+                label={record.success ? 'Sent' : record.success === null ? 'Unknown' : 'Failed'}
+                size="small"
+                color={record.success ? 'success' : record.success === null ? 'warning' : 'error'}
+                variant="outlined"
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      <Dialog
+        open={!!pending}
+        onClose={() => !executing && setPending(null)}
+        maxWidth="xs"
+        fullWidth
+        PaperProps={{ sx: { borderRadius: 3 } }}
+      >
+        <DialogTitle sx={{ fontWeight: 600 }}>
+          {pending?.label} {pending?.server}?
+        </DialogTitle>
+        <DialogContent>
+          {pending && (
+            <Alert severity={pendingDestructive ? 'warning' : 'info'}>
+              {ACTION_DESCRIPTIONS[pending.action]}
+            </Alert>
+          )}
+          <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block', mt: 2 }}>
+            This confirmation expires after one minute and is recorded with your username.
+          </Typography>
+        </DialogContent>
+        <DialogActions sx={{ p: 3, justifyContent: 'space-between' }}>
+          <Button onClick={() => setPending(null)} color="inherit" disabled={executing}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            color={pendingDestructive ? 'error' : 'primary'}
+            onClick={handleConfirm}
+            disabled={executing}
+            startIcon={executing ? <CircularProgress size={20} /> : undefined}
+          >
+            {executing ? 'Sending...' : pending?.label}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
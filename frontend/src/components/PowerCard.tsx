@@ -17,21 +17,46 @@ import {
   Refresh as RefreshIcon, 
   PowerSettingsNew as PowerIcon,  
   BoltOutlined as BoltIcon,
-  ThermostatOutlined as TempIcon 
+  ThermostatOutlined as TempIcon,
+  Tune as TuneIcon
 } from '@mui/icons-material';
-import { getPowerInformation, refreshPowerInformation, getILoStatus, historyAPI, type PowerInformation } from '../api';
+import {
+  getPowerInformation,
+  refreshPowerInformation,
+  getPowerSupplies,
+  invalidateCache,
+  getILoStatus,
+  historyAPI,
+  type PowerInformation,
+  type PowerSupplyStatus
+} from '../api';
 import { CARD_STYLES, getGridCardContainerProps } from '../constants/cardStyles';
+import { useLiveUpdates, useLiveEvent } from '../context/LiveUpdatesContext';
+import PowerActions from './PowerActions';
+import PowerSettingsDialog from './PowerSettingsDialog';
+import { useAuth } from '../context/AuthContext';
+import { healthColor } from '../utils/health';
 
 const PowerCard: React.FC = () => {
   const [powerInfo, setPowerInfo] = useState<PowerInformation | null>(null);
+  const [powerSupplies, setPowerSupplies] = useState<PowerSupplyStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isIloConfigured, setIsIloConfigured] = useState<boolean>(false);
   const [retryCount, setRetryCount] = useState(0);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const canControl = useAuth().hasRole('operator');
   
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const { connected } = useLiveUpdates();
+
+  useLiveEvent<PowerInformation>('power', data => {
+    setPowerInfo(data);
+    setError(null);
+    setLoading(false);
+  });
 
   const checkIloStatus = async (): Promise<boolean> => {
     try {
@@ -43,6 +68,19 @@ const PowerCard: React.FC = () => {
     }
   };
 
+  // Supplies are read over Redfish apart from the CLP power readings, a failure only hides their section
+  const fetchPowerSupplies = async (isRefresh = false) => {
+    try {
+      if (isRefresh) invalidateCache(['powerSupplies']);
+      const data = await getPowerSupplies();
+      // Keep what is shown while the backend is still collecting them
+      if (data) setPowerSupplies(data);
+    } catch (err) {
+      console.error('Error fetching power supplies:', err);
+      setPowerSupplies(null);
+    }
+  };
+
   const fetchPowerInfo = async (isRefresh = false) => {
     console.log(`${isRefresh ? 'Refreshing' : 'Fetching'} power information...`);
     
@@ -84,6 +122,7 @@ const PowerCard: React.FC = () => {
       
       setPowerInfo(data);
       setRetryCount(0);
+      fetchPowerSupplies(isRefresh);
       return true;
       
     } catch (err) {
@@ -131,16 +170,16 @@ const PowerCard: React.FC = () => {
     }
   }, [retryCount, isIloConfigured, powerInfo, error, loading]);
 
-  // Auto-refresh every 30 seconds when configured
+  // Auto-refresh every 30 seconds when configured and the live updates stream is down
   useEffect(() => {
-    if (!isIloConfigured || !powerInfo) return;
+    if (!isIloConfigured || !powerInfo || connected) return;
 
     const interval = setInterval(() => {
       fetchPowerInfo(true);
     }, 30000); // Refresh every 30 seconds for responsive UI
 
     return () => clearInterval(interval);
-  }, [isIloConfigured, powerInfo]);
+  }, [isIloConfigured, powerInfo, connected]);
 
   // Listen for setup completion events
   useEffect(() => {
@@ -294,6 +333,71 @@ const PowerCard: React.FC = () => {
     );
   };
 
+  const renderPowerSupplies = () => {
+    if (!powerSupplies || powerSupplies.supplies.length === 0) return null;
+
+    return (
+      <Box sx={{ mb: 2 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="body2" sx={{ fontWeight: 500, color: 'text.secondary' }}>
+            Power Supplies
+          </Typography>
+          {powerSupplies.redundant !== null && (
+            <Tooltip title={powerSupplies.redundancyMode ? `Redundancy mode: ${powerSupplies.redundancyMode}` : ''}>
+              <Chip
+                label={powerSupplies.redundant ? 'Redundant' : 'Not redundant'}
+                size="small"
+                color={powerSupplies.redundant ? 'success' : 'error'}
+                variant="outlined"
+                sx={{ fontWeight: 500, fontSize: '0.75rem' }}
+              />
+            </Tooltip>
+          )}
+        </Box>
+        {powerSupplies.supplies.map(supply => (
+          <Box
+            key={supply.name}
+            sx={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              gap: 1,
+              py: 1,
+              opacity: supply.present ? 1 : 0.6,
+              '&:not(:last-child)': { borderBottom: `1px solid ${theme.palette.divider}10` }
+            }}
+          >
+            <Box sx={{ minWidth: 0 }}>
+              <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                {supply.name}
+              </Typography>
+              <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block' }}>
+                {supply.present
+                  ? [supply.model, supply.capacityWatts !== null && `${supply.capacityWatts}W`].filter(Boolean).join(' · ') || 'Installed'
+                  : 'Empty bay'}
+              </Typography>
+            </Box>
+            {supply.present && (
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, flexShrink: 0 }}>
+                <Box sx={{ textAlign: 'right' }}>
+                  <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                    {supply.outputWatts !== null ? `${supply.outputWatts}W` : '—'}
+                  </Typography>
+                  {supply.inputVoltage !== null && (
+                    <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                      {supply.inputVoltage}V in
+                    </Typography>
+                  )}
+                </Box>
+                <Chip label={supply.health} size="small" color={healthColor(supply.health)} variant="outlined" />
+              </Box>
+            )}
+          </Box>
+        ))}
+      </Box>
+    );
+  };
+
   // Show loading state
   if (loading) {
     return (
@@ -431,6 +535,15 @@ const PowerCard: React.FC = () => {
             </Typography>
           </Box>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            {powerInfo?.powerState && powerInfo.powerState !== 'Unknown' && (
+              <Chip
+                label={`Power ${powerInfo.powerState}`}
+                size="small"
+                color={powerInfo.powerState === 'On' ? 'success' : 'default'}
+                variant="outlined"
+                sx={{ fontWeight: 500, fontSize: '0.75rem' }}
+              />
+            )}
             <Chip
               label={powerInfo?.powerRegulation || 'N/A'}
               size="small"
@@ -441,6 +554,16 @@ const PowerCard: React.FC = () => {
                 fontSize: '0.75rem'
               }}
             />
+            {canControl && (
+              <Tooltip title="Power settings">
+                <IconButton
+                  onClick={() => setSettingsOpen(true)}
+                  {...CARD_STYLES.REFRESH_BUTTON}
+                >
+                  <TuneIcon {...CARD_STYLES.REFRESH_ICON} />
+                </IconButton>
+              </Tooltip>
+            )}
             <Tooltip title="Refresh power information">
               <IconButton
                 onClick={handleRefresh}
@@ -455,6 +578,7 @@ const PowerCard: React.FC = () => {
 
         {renderPowerMeter()}
         {renderPowerMetrics()}
+        {renderPowerSupplies()}
 
         {/* Warning section if there are any power warnings */}
         {powerInfo?.warningType !== 'disabled' && (powerInfo?.warningThreshold || 0) > 0 && (
@@ -464,7 +588,21 @@ const PowerCard: React.FC = () => {
             </Typography>
           </Box>
         )}
+
+        <PowerActions
+          powerState={powerInfo?.powerState ?? 'Unknown'}
+          onActionComplete={handleRefresh}
+        />
       </CardContent>
+
+      {powerInfo && (
+        <PowerSettingsDialog
+          open={settingsOpen}
+          powerInfo={powerInfo}
+          onClose={() => setSettingsOpen(false)}
+          onSaved={setPowerInfo}
+        />
+      )}
     </Card>
   );
 };
@@ -0,0 +1,262 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+  IconButton,
+  Alert,
+  Stack,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Switch,
+  CircularProgress,
+  useTheme
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Tune as TuneIcon
+} from '@mui/icons-material';
+import { powerControlAPI, PowerInformation, PowerRegulatorMode, PowerSettingsUpdate, PowerWarningType } from '../api';
+
+const REGULATOR_LABELS: Record<PowerRegulatorMode, string> = {
+  dynamic: 'Dynamic power savings',
+  'static-low': 'Static low power',
+  'static-high': 'Static high performance',
+  os: 'OS control'
+};
+
+// iLO reports the mode by its CLP value
+const toRegulatorMode = (powerRegulation: string): PowerRegulatorMode => {
+  switch (powerRegulation.trim().toLowerCase()) {
+    case 'min': return 'static-low';
+    case 'max': return 'static-high';
+    case 'os': return 'os';
+    default: return 'dynamic';
+  }
+};
+
+const toWarningType = (warningType: string): PowerWarningType => {
+  const type = warningType.trim().toLowerCase();
+  return type === 'peak' || type === 'average' ? type : 'disabled';
+};
+
+interface PowerSettingsDialogProps {
+  open: boolean;
+  powerInfo: PowerInformation;
+  onClose: () => void;
+  onSaved: (powerInfo: PowerInformation) => void;
+}
+
+export default function PowerSettingsDialog({ open, powerInfo, onClose, onSaved }: PowerSettingsDialogProps) {
+  const theme = useTheme();
+  const [regulatorMode, setRegulatorMode] = useState<PowerRegulatorMode>('dynamic');
+  const [capEnabled, setCapEnabled] = useState(false);
+  const [powerCap, setPowerCap] = useState(0);
+  const [warningType, setWarningType] = useState<PowerWarningType>('disabled');
+  const [warningThreshold, setWarningThreshold] = useState(0);
+  const [warningDuration, setWarningDuration] = useState(5);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const { serverMinPower, serverMaxPower } = powerInfo;
+  const hasLimits = serverMaxPower > 0 && serverMinPower <= serverMaxPower;
+
+  useEffect(() => {
+    if (open) {
+      setRegulatorMode(toRegulatorMode(powerInfo.powerRegulation));
+      setCapEnabled(powerInfo.powerCap > 0);
+      setPowerCap(powerInfo.powerCap > 0 ? powerInfo.powerCap : serverMaxPower);
+      setWarningType(toWarningType(powerInfo.warningType));
+      setWarningThreshold(powerInfo.warningThreshold > 0 ? powerInfo.warningThreshold : serverMaxPower);
+      setWarningDuration(powerInfo.warningDuration > 0 ? powerInfo.warningDuration : 5);
+      setError('');
+    }
+  }, [open, powerInfo, serverMaxPower]);
+
+  const inRange = (watts: number) => watts >= serverMinPower && watts <= serverMaxPower;
+  const capError = capEnabled && !inRange(powerCap);
+  const thresholdError = warningType !== 'disabled' && !inRange(warningThreshold);
+  const durationError = warningType !== 'disabled'
+    && (warningDuration < 5 || warningDuration > 240 || warningDuration % 5 !== 0);
+
+  // Only send what changed, each setting is a separate CLP command
+  const buildUpdate = (): PowerSettingsUpdate => {
+    const update: PowerSettingsUpdate = {};
+    if (regulatorMode !== toRegulatorMode(powerInfo.powerRegulation)) {
+      update.regulatorMode = regulatorMode;
+    }
+    const cap = capEnabled ? powerCap : 0;
+    if (cap !== powerInfo.powerCap) {
+      update.powerCap = cap;
+    }
+    const currentWarningType = toWarningType(powerInfo.warningType);
+    const warningChanged = warningType !== currentWarningType || (warningType !== 'disabled'
+      && (warningThreshold !== powerInfo.warningThreshold || warningDuration !== powerInfo.warningDuration));
+    if (warningChanged) {
+      update.warning = { type: warningType, threshold: warningThreshold, duration: warningDuration };
+    }
+    return update;
+  };
+
+  const update = buildUpdate();
+  const hasChanges = Object.keys(update).length > 0;
+
+  const handleSave = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      onSaved(await powerControlAPI.updateSettings(update));
+      onClose();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to apply power settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const rangeText = hasLimits ? `Between ${serverMinPower}W and ${serverMaxPower}W` : 'Server power range not reported yet';
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{ sx: { borderRadius: 3 } }}
+    >
+      <DialogTitle sx={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        borderBottom: `1px solid ${theme.palette.divider}`,
+        pb: 2
+      }}>
+        <Typography variant="h5" component="h2" sx={{ fontWeight: 600 }}>
+          Power Settings
+        </Typography>
+        <IconButton onClick={onClose}>
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent sx={{ p: 4 }}>
+        <Stack spacing={3} sx={{ pt: 3 }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError('')}>
+              {error}
+            </Alert>
+          )}
+
+          <FormControl fullWidth size="small">
+            <InputLabel>Power Regulator</InputLabel>
+            <Select
+              value={regulatorMode}
+              onChange={(e) => setRegulatorMode(e.target.value as PowerRegulatorMode)}
+              label="Power Regulator"
+              disabled={loading}
+            >
+              {(Object.keys(REGULATOR_LABELS) as PowerRegulatorMode[]).map(mode => (
+                <MenuItem key={mode} value={mode}>{REGULATOR_LABELS[mode]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <Stack spacing={1}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={capEnabled}
+                  onChange={(e) => setCapEnabled(e.target.checked)}
+                  disabled={loading || (!hasLimits && !capEnabled)}
+                />
+              }
+              label="Limit power consumption"
+            />
+            {capEnabled && (
+              <TextField
+                label="Power cap (W)"
+                type="number"
+                value={powerCap}
+                onChange={(e) => setPowerCap(Number(e.target.value))}
+                error={capError}
+                helperText={rangeText}
+                fullWidth
+                size="small"
+                disabled={loading}
+                inputProps={{ min: serverMinPower, max: serverMaxPower }}
+              />
+            )}
+          </Stack>
+
+          <FormControl fullWidth size="small">
+            <InputLabel>Power Warning</InputLabel>
+            <Select
+              value={warningType}
+              onChange={(e) => setWarningType(e.target.value as PowerWarningType)}
+              label="Power Warning"
+              disabled={loading}
+            >
+              <MenuItem value="disabled">Disabled</MenuItem>
+              <MenuItem value="peak">Peak power above threshold</MenuItem>
+              <MenuItem value="average">Average power above threshold</MenuItem>
+            </Select>
+          </FormControl>
+
+          {warningType !== 'disabled' && (
+            <Stack direction="row" spacing={2}>
+              <TextField
+                label="Threshold (W)"
+                type="number"
+                value={warningThreshold}
+                onChange={(e) => setWarningThreshold(Number(e.target.value))}
+                error={thresholdError}
+                helperText={rangeText}
+                fullWidth
+                size="small"
+                disabled={loading}
+                inputProps={{ min: serverMinPower, max: serverMaxPower }}
+              />
+              <TextField
+                label="Duration (minutes)"
+                type="number"
+                value={warningDuration}
+                onChange={(e) => setWarningDuration(Number(e.target.value))}
+                error={durationError}
+                helperText="5 to 240, in steps of 5"
+                fullWidth
+                size="small"
+                disabled={loading}
+                inputProps={{ min: 5, max: 240, step: 5 }}
+              />
+            </Stack>
+          )}
+        </Stack>
+      </DialogContent>
+
+      <DialogActions sx={{
+        p: 3,
+        borderTop: `1px solid ${theme.palette.divider}`,
+        justifyContent: 'space-between'
+      }}>
+        <Button onClick={onClose} color="inherit">
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={loading || !hasChanges || capError || thresholdError || durationError}
+          startIcon={loading ? <CircularProgress size={20} /> : <TuneIcon />}
+        >
+          {loading ? 'Applying...' : 'Apply'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -22,6 +22,7 @@ import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import HistoryIcon from '@mui/icons-material/History';
 import { useNotifications } from './NotificationProvider';
 import { CARD_STYLES } from '../constants/cardStyles';
+import { useLiveUpdates, useLiveEvent } from '../context/LiveUpdatesContext';
 
 // Activity item component following HPE design patterns
 interface ActivityItemProps {
@@ -149,6 +150,13 @@ const RecentActivity: React.FC = () => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
   const { showNotification } = useNotifications();
+  const { connected } = useLiveUpdates();
+
+  useLiveEvent<SystemLogRecord[]>('systemLogs', data => {
+    setLogs(data);
+    setError(null);
+    setLoading(false);
+  });
 
   const fetchLogs = useCallback(async (showRefreshingState = false) => {
     try {
@@ -201,16 +209,18 @@ const RecentActivity: React.FC = () => {
       fetchLogs();
     }, 2000); // 2 second delay
     
-    // Set up auto-refresh every 30 seconds for responsive UI
+    return () => clearTimeout(initialDelay);
+  }, [fetchLogs]);
+
+  // Auto-refresh every 30 seconds, only while the live updates stream is down
+  useEffect(() => {
+    if (connected) return;
     const interval = setInterval(() => {
       fetchLogs(true); // Show refreshing state for auto-refresh
     }, 30000); // 30 seconds
     
-    return () => {
-      clearTimeout(initialDelay);
-      clearInterval(interval);
-    };
-  }, [fetchLogs]);
+    return () => clearInterval(interval);
+  }, [connected, fetchLogs]);
 
   const handleManualRefresh = () => {
     fetchLogs(true);
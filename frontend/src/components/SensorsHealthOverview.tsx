@@ -11,6 +11,7 @@ import {
   Stack
 } from "@mui/material";
 import { CARD_STYLES, getGridCardContainerProps } from '../constants/cardStyles';
+import { useLiveUpdates, useLiveEvent } from '../context/LiveUpdatesContext';
 
 // System Health Gauge with Pie Chart Component following System design guidelines
 function SystemHealthGauge({ 
@@ -217,6 +218,10 @@ const SensorsHealthOverview: React.FC = () => {
   
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const { connected } = useLiveUpdates();
+
+  useLiveEvent<any[]>('sensors', setSensors);
+  useLiveEvent<any[]>('fans', setFans);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -235,9 +240,11 @@ const SensorsHealthOverview: React.FC = () => {
     };
 
     fetchData();
+    // Poll only while the live updates stream is down
+    if (connected) return;
     const interval = setInterval(fetchData, 30000); // Update every 30 seconds for responsive UI
     return () => clearInterval(interval);
-  }, []);
+  }, [connected]);
 
   // Calculate system health overview
   const getSystemHealthStats = () => {
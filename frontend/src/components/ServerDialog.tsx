@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+  IconButton,
+  Alert,
+  Stack,
+  CircularProgress,
+  useTheme
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Dns as ServerIcon,
+  NetworkCheck as TestIcon
+} from '@mui/icons-material';
+import { serversAPI, ServerSummary } from '../api';
+
+interface ServerDialogProps {
+  open: boolean;
+  server?: ServerSummary | null; // Edit this server, add a new one when omitted
+  onClose: () => void;
+  onSaved: (server: ServerSummary) => void;
+}
+
+export default function ServerDialog({ open, server, onClose, onSaved }: ServerDialogProps) {
+  const theme = useTheme();
+  const [name, setName] = useState('');
+  const [host, setHost] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setName(server?.name ?? '');
+      setHost(server?.host ?? '');
+      setUsername(server?.username ?? '');
+      setPassword('');
+      setError('');
+      setSuccess('');
+    }
+  }, [open, server]);
+
+  // The stored password is kept when editing, as long as the host is unchanged
+  const passwordReady = !!password || (!!server?.passwordSet && host.trim() === server.host);
+  const canSubmit = !!name.trim() && !!host.trim() && !!username && passwordReady;
+
+  const handleTest = async () => {
+    setTesting(true);
+    setError('');
+    setSuccess('');
+    try {
+      const input = { name, host, username, password: password || undefined };
+      const result = server
+        ? await serversAPI.testExisting(server.id, input)
+        : await serversAPI.test(input);
+      if (result.success) {
+        setSuccess(result.message);
+      } else {
+        setError(result.message);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Connection test failed');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const input = { name: name.trim(), host: host.trim(), username, password: password || undefined };
+      const saved = server
+        ? await serversAPI.update(server.id, input)
+        : await serversAPI.create(input);
+      onSaved(saved);
+      onClose();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save server');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{ sx: { borderRadius: 3 } }}
+    >
+      <DialogTitle sx={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        borderBottom: `1px solid ${theme.palette.divider}`,
+        pb: 2
+      }}>
+        <Typography variant="h5" component="h2" sx={{ fontWeight: 600 }}>
+          {server ? `Edit ${server.name}` : 'Add Server'}
+        </Typography>
+        <IconButton onClick={onClose}>
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent sx={{ p: 4 }}>
+        <Stack spacing={3} sx={{ pt: 3 }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError('')}>
+              {error}
+            </Alert>
+          )}
+
+          {success && (
+            <Alert severity="success" onClose={() => setSuccess('')}>
+              {success}
+            </Alert>
+          )}
+
+          <TextField
+            label="Display Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Rack 2 - DL380p"
+            fullWidth
+            size="small"
+            disabled={loading}
+          />
+          <TextField
+            label="iLO Host"
+            value={host}
+            onChange={(e) => setHost(e.target.value)}
+            placeholder="192.168.1.100"
+            fullWidth
+            size="small"
+            disabled={loading}
+          />
+          <TextField
+            label="Username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            fullWidth
+            size="small"
+            disabled={loading}
+          />
+          <TextField
+            label="Password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            fullWidth
+            size="small"
+            disabled={loading}
+            helperText={server?.passwordSet ? 'Leave blank to keep the saved password' : undefined}
+          />
+        </Stack>
+      </DialogContent>
+
+      <DialogActions sx={{
+        p: 3,
+        borderTop: `1px solid ${theme.palette.divider}`,
+        justifyContent: 'space-between'
+      }}>
+        <Button
+          onClick={handleTest}
+          disabled={testing || loading || !host.trim() || !username || !passwordReady}
+          startIcon={testing ? <CircularProgress size={20} /> : <TestIcon />}
+        >
+          {testing ? 'Testing...' : 'Test Connection'}
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={loading || !canSubmit}
+          startIcon={loading ? <CircularProgress size={20} /> : <ServerIcon />}
+        >
+          {loading ? 'Saving...' : server ? 'Save Changes' : 'Add Server'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
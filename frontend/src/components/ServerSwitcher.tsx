@@ -0,0 +1,54 @@
+import React from 'react';
+import { FormControl, Select, MenuItem, ListItemText, SelectChangeEvent } from '@mui/material';
+import { Dns as ServerIcon } from '@mui/icons-material';
+import { useServers } from '../context/ServerContext';
+
+// Header dropdown choosing which server the dashboard tabs show, hidden for single-server setups
+const ServerSwitcher: React.FC = () => {
+  const { servers, selectedServerId, selectServer } = useServers();
+
+  if (servers.length < 2) {
+    return null;
+  }
+
+  const handleChange = (event: SelectChangeEvent<string>) => {
+    selectServer(event.target.value);
+  };
+
+  return (
+    <FormControl size="small" sx={{ minWidth: 160, display: { xs: 'none', sm: 'flex' } }}>
+      <Select
+        value={selectedServerId}
+        onChange={handleChange}
+        aria-label="Select server"
+        renderValue={(value) => {
+          const server = servers.find(s => s.id === value);
+          return (
+            <span style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+              <ServerIcon sx={{ fontSize: 16, color: '#01a982' }} />
+              {server?.name ?? value}
+            </span>
+          );
+        }}
+        sx={{
+          fontSize: '0.8rem',
+          '& .MuiSelect-select': { py: 0.75 },
+          '& .MuiOutlinedInput-notchedOutline': { borderColor: '#01a982' }
+        }}
+      >
+        {servers.map(server => (
+          <MenuItem key={server.id} value={server.id}>
+            <ListItemText
+              primary={server.name}
+              secondary={server.host}
+              primaryTypographyProps={{ fontSize: '0.875rem' }}
+              secondaryTypographyProps={{ fontSize: '0.75rem' }}
+            />
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+};
+
+export default ServerSwitcher;
@@ -19,7 +19,14 @@ import {
   useTheme,
   useMediaQuery,
   IconButton,
-  InputAdornment
+  InputAdornment,
+  Switch,
+  FormControlLabel,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow
 } from '@mui/material';
 import { 
   Close as CloseIcon,
@@ -27,10 +34,26 @@ import {
   Router as RouterIcon,
   Visibility,
   VisibilityOff,
-  Cable as TestIcon
+  Cable as TestIcon,
+  NotificationsActive as AlertsIcon
 } from '@mui/icons-material';
 import { useAuth } from '../context/AuthContext';
-import { getILoConfig, saveILoConfig, testILoConnection, getAppConfig, saveAppConfig, restartServerWithConfig } from '../api';
+import {
+  getILoConfig,
+  saveILoConfig,
+  testILoConnection,
+  getAppConfig,
+  saveAppConfig,
+  restartServerWithConfig,
+  getMqttStatus,
+  getEffectiveConfig,
+  testMqttConnection,
+  EffectiveSetting,
+  MqttConfig,
+  RetentionConfig,
+  MqttStatus
+} from '../api';
+import AlertSettings from './AlertSettings';
 
 interface SettingsDialogProps {
   open: boolean;
@@ -38,14 +61,34 @@ interface SettingsDialogProps {
 }
 
 export default function SettingsDialog({ open, onClose }: SettingsDialogProps) {
-  const [activeTab, setActiveTab] = useState<'app-config' | 'ilo'>('app-config');
+  const [activeTab, setActiveTab] = useState<'app-config' | 'ilo' | 'alerts'>('app-config');
   const [sessionTimeout, setSessionTimeout] = useState<number>(30);
   const [appPort, setAppPort] = useState<number>(8443);
   
+  // MQTT / Home Assistant state
+  const [mqtt, setMqtt] = useState<MqttConfig>({
+    enabled: false,
+    brokerUrl: 'mqtt://localhost:1883',
+    username: '',
+    password: '',
+    baseTopic: 'smart-ilo4',
+    discoveryPrefix: 'homeassistant',
+    allowCommands: false
+  });
+  const [mqttStatus, setMqttStatus] = useState<MqttStatus | null>(null);
+  const [testingMqtt, setTestingMqtt] = useState(false);
+  
+  // History retention per resolution
+  const [retention, setRetention] = useState<RetentionConfig>({ rawHours: 72, fiveMinuteDays: 30, hourlyDays: 365 });
+  
+  // What the server actually runs with, env vars override the values saved here
+  const [effectiveConfig, setEffectiveConfig] = useState<EffectiveSetting[]>([]);
+  
   // iLO Configuration state
   const [iloHost, setIloHost] = useState('');
   const [iloUsername, setIloUsername] = useState('');
   const [iloPassword, setIloPassword] = useState('');
+  const [savedIloHost, setSavedIloHost] = useState<string | null>(null);
   const [showIloPassword, setShowIloPassword] = useState(false);
   const [testingConnection, setTestingConnection] = useState(false);
   
@@ -76,6 +119,10 @@ export default function SettingsDialog({ open, onClose }: SettingsDialogProps) {
       const config = await getAppConfig();
       setAppPort(config.port);
       setSessionTimeout(config.sessionTimeout);
+      setMqtt({ ...config.mqtt, password: '' });
+      setRetention(config.retention);
+      setMqttStatus(await getMqttStatus());
+      setEffectiveConfig(await getEffectiveConfig());
     } catch (error) {
       console.error('Failed to load app config:', error);
       setAppPort(8443);
@@ -90,6 +137,7 @@ export default function SettingsDialog({ open, onClose }: SettingsDialogProps) {
         setIloHost(config.host);
         setIloUsername(config.username);
         setIloPassword('');
+        setSavedIloHost(config.passwordSet ? config.host : null);
       }
     } catch (error) {
       console.error('Failed to load iLO config:', error);
@@ -105,6 +153,12 @@ export default function SettingsDialog({ open, onClose }: SettingsDialogProps) {
     }
   }, [open]);
 
+  // Env var that overrides a saved setting, if any
+  const envOverride = (key: string) => {
+    const setting = effectiveConfig.find(s => s.key === key);
+    return setting?.source === 'env' ? setting : undefined;
+  };
+
   const handleSessionTimeoutChange = () => {
     setError('');
     setSuccess('');
@@ -124,8 +178,14 @@ export default function SettingsDialog({ open, onClose }: SettingsDialogProps) {
 
       await saveAppConfig({
         port: appPort,
-        sessionTimeout: sessionTimeout
+        sessionTimeout: sessionTimeout,
+        mqtt,
+        retention
       });
+      setMqtt(current => ({ ...current, password: '', passwordSet: current.passwordSet || !!current.password }));
+      getEffectiveConfig().then(setEffectiveConfig).catch(() => {});
+      // The backend reconnects in the background, give it a moment before showing the new state
+      setTimeout(() => getMqttStatus().then(setMqttStatus).catch(() => {}), 2000);
 
       if (portChanged) {
         setSuccess(`Configuration saved successfully. Server will restart on port ${appPort}.`);
@@ -147,11 +207,14 @@ export default function SettingsDialog({ open, onClose }: SettingsDialogProps) {
     }
   };
 
+  // The server keeps the saved password when the field is left blank, as long as the host is unchanged
+  const iloPasswordReady = !!iloPassword || (savedIloHost !== null && savedIloHost === iloHost);
+
   const handleILoConfigSave = async () => {
     setError('');
     setSuccess('');
 
-    if (!iloHost || !iloUsername || !iloPassword) {
+    if (!iloHost || !iloUsername || !iloPasswordReady) {
       setError('Please fill in all iLO configuration fields');
       return;
     }
@@ -162,6 +225,7 @@ export default function SettingsDialog({ open, onClose }: SettingsDialogProps) {
       await saveILoConfig(iloHost, iloUsername, iloPassword);
       setSuccess('iLO configuration saved successfully');
       setIloPassword('');
+      setSavedIloHost(iloHost);
     } catch (error: any) {
       setError(error.message || 'Failed to save iLO configuration');
     } finally {
@@ -173,7 +237,7 @@ export default function SettingsDialog({ open, onClose }: SettingsDialogProps) {
     setError('');
     setSuccess('');
 
-    if (!iloHost || !iloUsername || !iloPassword) {
+    if (!iloHost || !iloUsername || !iloPasswordReady) {
       setError('Please fill in all iLO configuration fields before testing');
       return;
     }
@@ -195,6 +259,29 @@ export default function SettingsDialog({ open, onClose }: SettingsDialogProps) {
     }
   };
 
+  const handleTestMqtt = async () => {
+    setError('');
+    setSuccess('');
+    setTestingMqtt(true);
+
+    try {
+      const result = await testMqttConnection(mqtt);
+      if (result.success) {
+        setSuccess(result.message);
+      } else {
+        setError(result.message);
+      }
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to test MQTT connection');
+    } finally {
+      setTestingMqtt(false);
+    }
+  };
+
+  const updateMqtt = (changes: Partial<MqttConfig>) => {
+    setMqtt(current => ({ ...current, ...changes }));
+  };
+
   const handleClose = () => {
     setActiveTab('app-config');
     setError('');
@@ -276,6 +363,22 @@ export default function SettingsDialog({ open, onClose }: SettingsDialogProps) {
           >
             iLO Configuration
           </Button>
+          <Button
+            onClick={() => setActiveTab('alerts')}
+            variant="text"
+            sx={{
+              flex: 1,
+              borderRadius: 0,
+              textTransform: 'none',
+              fontWeight: activeTab === 'alerts' ? 600 : 400,
+              color: activeTab === 'alerts' ? 'primary.main' : 'text.secondary',
+              borderBottom: activeTab === 'alerts' ? `2px solid ${theme.palette.primary.main}` : 'none',
+              py: 2
+            }}
+            startIcon={<AlertsIcon />}
+          >
+            Alerts
+          </Button>
         </Box>
 
         {/* Content */}
@@ -353,7 +456,9 @@ export default function SettingsDialog({ open, onClose }: SettingsDialogProps) {
                     size="small"
                     disabled={loading}
                     inputProps={{ min: 1024, max: 65535 }}
-                    helperText="Port number for the application server (1024-65535)"
+                    helperText={envOverride('server.port')
+                      ? `The server uses ${envOverride('server.port')!.value} set by ${envOverride('server.port')!.envVar}, this value applies once it is removed`
+                      : 'Port number for the application server (1024-65535)'}
                   />
 
                   <Alert severity="info" sx={{ borderRadius: 2, mb: 2, mt: 2 }}>
@@ -368,6 +473,195 @@ export default function SettingsDialog({ open, onClose }: SettingsDialogProps) {
                     Default port is 8443.
                   </Typography>
                 </Box>
+
+                <Divider />
+
+                {/* MQTT / Home Assistant Section */}
+                <Box>
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+                    <Typography variant="subtitle1" sx={{ fontWeight: 600, color: 'text.primary' }}>
+                      MQTT / Home Assistant
+                    </Typography>
+                    {mqttStatus?.enabled && (
+                      <Chip
+                        size="small"
+                        label={mqttStatus.connected ? 'Connected' : 'Disconnected'}
+                        color={mqttStatus.connected ? 'success' : 'error'}
+                        variant="outlined"
+                      />
+                    )}
+                  </Box>
+
+                  <FormControlLabel
+                    control={<Switch checked={mqtt.enabled} onChange={(e) => updateMqtt({ enabled: e.target.checked })} disabled={loading} />}
+                    label="Publish readings to an MQTT broker"
+                  />
+
+                  {mqtt.enabled && (
+                    <Stack spacing={2} sx={{ mt: 2 }}>
+                      <TextField
+                        label="Broker URL"
+                        value={mqtt.brokerUrl}
+                        onChange={(e) => updateMqtt({ brokerUrl: e.target.value })}
+                        fullWidth
+                        size="small"
+                        disabled={loading}
+                        placeholder="mqtt://192.168.1.10:1883"
+                        helperText="Use mqtts:// for TLS"
+                      />
+                      <Box sx={{ display: 'flex', gap: 2 }}>
+                        <TextField
+                          label="Username"
+                          value={mqtt.username}
+                          onChange={(e) => updateMqtt({ username: e.target.value })}
+                          size="small"
+                          disabled={loading}
+                          sx={{ flex: 1 }}
+                        />
+                        <TextField
+                          label="Password"
+                          type="password"
+                          value={mqtt.password ?? ''}
+                          onChange={(e) => updateMqtt({ password: e.target.value })}
+                          size="small"
+                          disabled={loading}
+                          placeholder={mqtt.passwordSet ? 'Saved - leave blank to keep' : ''}
+                          sx={{ flex: 1 }}
+                        />
+                      </Box>
+                      <Box sx={{ display: 'flex', gap: 2 }}>
+                        <TextField
+                          label="Base Topic"
+                          value={mqtt.baseTopic}
+                          onChange={(e) => updateMqtt({ baseTopic: e.target.value })}
+                          size="small"
+                          disabled={loading}
+                          sx={{ flex: 1 }}
+                        />
+                        <TextField
+                          label="Discovery Prefix"
+                          value={mqtt.discoveryPrefix}
+                          onChange={(e) => updateMqtt({ discoveryPrefix: e.target.value })}
+                          size="small"
+                          disabled={loading}
+                          sx={{ flex: 1 }}
+                        />
+                      </Box>
+                      <FormControlLabel
+                        control={<Switch checked={mqtt.allowCommands} onChange={(e) => updateMqtt({ allowCommands: e.target.checked })} disabled={loading} />}
+                        label="Accept fan and automation commands over MQTT"
+                      />
+                      {mqtt.allowCommands && (
+                        <Alert severity="warning" sx={{ borderRadius: 2 }}>
+                          <Typography variant="body2">
+                            Anyone who can publish to <code>{mqtt.baseTopic}/+/fans/set</code> can change fan speeds without logging in.
+                            Restrict the topics on your broker.
+                          </Typography>
+                        </Alert>
+                      )}
+                      {mqttStatus?.lastError && (
+                        <Typography variant="body2" color="error">
+                          Last error: {mqttStatus.lastError}
+                        </Typography>
+                      )}
+                      <Box>
+                        <Button
+                          variant="outlined"
+                          onClick={handleTestMqtt}
+                          disabled={testingMqtt || loading || !mqtt.brokerUrl}
+                          startIcon={testingMqtt ? <CircularProgress size={20} /> : <TestIcon />}
+                        >
+                          {testingMqtt ? 'Testing...' : 'Test Connection'}
+                        </Button>
+                      </Box>
+                    </Stack>
+                  )}
+
+                  <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                    Home Assistant discovers temperatures, fan speeds, power draw and health of every server automatically
+                  </Typography>
+                </Box>
+
+                <Divider />
+
+                {/* Data Retention Section */}
+                <Box>
+                  <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 2, color: 'text.primary' }}>
+                    Data Retention
+                  </Typography>
+
+                  <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                    <TextField
+                      label="Raw samples (hours)"
+                      type="number"
+                      value={retention.rawHours}
+                      onChange={(e) => setRetention({ ...retention, rawHours: Number(e.target.value) })}
+                      fullWidth
+                      size="small"
+                      disabled={loading}
+                      helperText={envOverride('storage.retention.rawHours') && `${envOverride('storage.retention.rawHours')!.value} hours set by DATA_RETENTION_HOURS`}
+                      inputProps={{ min: 1, max: 720 }}
+                    />
+                    <TextField
+                      label="5-minute averages (days)"
+                      type="number"
+                      value={retention.fiveMinuteDays}
+                      onChange={(e) => setRetention({ ...retention, fiveMinuteDays: Number(e.target.value) })}
+                      fullWidth
+                      size="small"
+                      disabled={loading}
+                      inputProps={{ min: 1, max: 365 }}
+                    />
+                    <TextField
+                      label="Hourly averages (days)"
+                      type="number"
+                      value={retention.hourlyDays}
+                      onChange={(e) => setRetention({ ...retention, hourlyDays: Number(e.target.value) })}
+                      fullWidth
+                      size="small"
+                      disabled={loading}
+                      inputProps={{ min: 1, max: 3650 }}
+                    />
+                  </Stack>
+
+                  <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                    Every sample is kept for the first window, after that history is kept as 5-minute and then hourly minimum, average and maximum.
+                    Charts switch to the coarser resolution automatically for longer time ranges.
+                  </Typography>
+                </Box>
+
+                <Divider />
+
+                {/* Effective Configuration Section */}
+                <Box>
+                  <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1, color: 'text.primary' }}>
+                    Effective Configuration
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    What the server is running with. Environment variables take precedence over the settings saved here.
+                  </Typography>
+
+                  <Table size="small">
+                    <TableBody>
+                      {effectiveConfig.map(setting => (
+                        <TableRow key={setting.key}>
+                          <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8rem' }}>{setting.key}</TableCell>
+                          <TableCell sx={{ wordBreak: 'break-all' }}>
+                            {setting.value === null ? <Typography variant="body2" color="text.secondary">not set</Typography> : String(setting.value)}
+                          </TableCell>
+                          <TableCell align="right">
+                            <Chip
+                              size="small"
+                              variant="outlined"
+                              label={setting.source === 'env' ? setting.envVar : setting.source === 'file' ? 'saved' : 'default'}
+                              color={setting.source === 'env' ? 'warning' : setting.source === 'file' ? 'primary' : 'default'}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Box>
               </Stack>
             </Box>
           )}
@@ -412,8 +706,10 @@ export default function SettingsDialog({ open, onClose }: SettingsDialogProps) {
                   fullWidth
                   size="small"
                   disabled={loading}
-                  placeholder="Enter iLO password"
-                  helperText="Password will not be displayed after saving for security"
+                  placeholder={savedIloHost !== null ? 'Saved - leave blank to keep' : 'Enter iLO password'}
+                  helperText={savedIloHost !== null && savedIloHost !== iloHost
+                    ? 'Enter the password again when changing the host'
+                    : 'Password is stored encrypted and never displayed after saving'}
                   InputProps={{
                     endAdornment: (
                       <InputAdornment position="end">
@@ -433,7 +729,7 @@ export default function SettingsDialog({ open, onClose }: SettingsDialogProps) {
                   <Button
                     variant="outlined"
                     onClick={handleTestConnection}
-                    disabled={testingConnection || loading || !iloHost || !iloUsername || !iloPassword}
+                    disabled={testingConnection || loading || !iloHost || !iloUsername || !iloPasswordReady}
                     startIcon={testingConnection ? <CircularProgress size={20} /> : <TestIcon />}
                     sx={{ minWidth: 140 }}
                   >
@@ -453,6 +749,8 @@ export default function SettingsDialog({ open, onClose }: SettingsDialogProps) {
               </Stack>
             </Box>
           )}
+
+          {activeTab === 'alerts' && <AlertSettings />}
         </Box>
       </DialogContent>
 
@@ -473,11 +771,11 @@ export default function SettingsDialog({ open, onClose }: SettingsDialogProps) {
           >
             {loading ? 'Saving...' : 'Save Configuration'}
           </Button>
-        ) : (
+        ) : activeTab === 'ilo' && (
           <Button
             variant="contained"
             onClick={handleILoConfigSave}
-            disabled={loading || !iloHost || !iloUsername || !iloPassword}
+            disabled={loading || !iloHost || !iloUsername || !iloPasswordReady}
             startIcon={loading ? <CircularProgress size={20} /> : <RouterIcon />}
           >
             {loading ? 'Saving...' : 'Save iLO Config'}
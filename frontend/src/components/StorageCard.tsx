@@ -0,0 +1,208 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  CircularProgress,
+  IconButton,
+  Tooltip,
+  Alert,
+  Chip,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  useTheme
+} from '@mui/material';
+import { Refresh as RefreshIcon, Storage as StorageIcon } from '@mui/icons-material';
+import { getStorageStatus, invalidateCache, SmartStorageStatus, StorageController } from '../api';
+import { CARD_STYLES } from '../constants/cardStyles';
+import { useServers } from '../context/ServerContext';
+import { healthColor } from '../utils/health';
+
+// Drive capacities are reported in MiB, shown the way drive labels read
+const formatCapacity = (capacityMiB: number | null) => {
+  if (capacityMiB === null) return '—';
+  const gigabytes = (capacityMiB * 1024 * 1024) / 1e9;
+  return gigabytes >= 1000 ? `${(gigabytes / 1000).toFixed(1)} TB` : `${Math.round(gigabytes)} GB`;
+};
+
+const StorageCard: React.FC = () => {
+  const theme = useTheme();
+  const { selectedServerId } = useServers();
+  const [storage, setStorage] = useState<SmartStorageStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStorage = useCallback(async (isRefresh = false) => {
+    setLoading(true);
+    try {
+      if (isRefresh) invalidateCache(['storage']);
+      const data = await getStorageStatus();
+      setStorage(data);
+      setError(data ? null : 'Storage status is still being collected.');
+    } catch (err) {
+      console.error('Error loading storage status:', err);
+      setStorage(null);
+      setError('Failed to load storage status.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStorage();
+  }, [loadStorage, selectedServerId]);
+
+  const renderHealth = (health: string) => (
+    <Chip label={health} size="small" color={healthColor(health)} variant="outlined" />
+  );
+
+  const renderController = (controller: StorageController) => {
+    const details = [
+      controller.firmwareVersion && `Firmware ${controller.firmwareVersion}`,
+      controller.cacheSizeMiB !== null && `Cache ${formatCapacity(controller.cacheSizeMiB)}${controller.cacheStatus ? ` (${controller.cacheStatus})` : ''}`,
+      controller.batteryStatus && `Battery ${controller.batteryStatus}`
+    ].filter(Boolean).join(' · ');
+
+    return (
+      <Box
+        key={controller.location}
+        sx={{ '&:not(:last-child)': { mb: 3, pb: 3, borderBottom: `1px solid ${theme.palette.divider}` } }}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+          <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+            {controller.model}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {controller.location}
+          </Typography>
+          {renderHealth(controller.health)}
+        </Box>
+        {details && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+            {details}
+          </Typography>
+        )}
+
+        {controller.logicalDrives.length > 0 && (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 1.5 }}>
+            {controller.logicalDrives.map(drive => (
+              <Tooltip key={drive.name} title={drive.statusReasons.join(', ') || drive.health}>
+                <Chip
+                  size="small"
+                  color={healthColor(drive.health)}
+                  label={[drive.name, drive.raidLevel && `RAID ${drive.raidLevel}`, formatCapacity(drive.capacityMiB)].filter(Boolean).join(' · ')}
+                />
+              </Tooltip>
+            ))}
+          </Box>
+        )}
+
+        {controller.physicalDrives.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1.5 }}>
+            No physical drives reported.
+          </Typography>
+        ) : (
+          <Box sx={{ overflowX: 'auto', mt: 1.5 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Bay</TableCell>
+                  <TableCell>Model</TableCell>
+                  <TableCell>Type</TableCell>
+                  <TableCell align="right">Capacity</TableCell>
+                  <TableCell align="right">Temperature</TableCell>
+                  <TableCell>Status</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {controller.physicalDrives.map(drive => (
+                  <TableRow key={drive.name}>
+                    <TableCell>{drive.location}</TableCell>
+                    <TableCell>
+                      {drive.model ?? '—'}
+                      {drive.serialNumber && (
+                        <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                          {drive.serialNumber}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {[drive.interfaceType, drive.mediaType].filter(Boolean).join(' ') || '—'}
+                      {drive.ssdEndurancePercent !== null && (
+                        <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                          {drive.ssdEndurancePercent}% endurance used
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">{formatCapacity(drive.capacityMiB)}</TableCell>
+                    <TableCell align="right">
+                      {drive.temperatureCelsius !== null ? `${drive.temperatureCelsius}°C` : '—'}
+                      {drive.maxTemperatureCelsius !== null && (
+                        <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                          max {drive.maxTemperatureCelsius}°C
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                        <Tooltip title={drive.statusReasons.join(', ')}>
+                          {renderHealth(drive.health)}
+                        </Tooltip>
+                        {drive.failurePredicted && <Chip label="Failure predicted" size="small" color="error" />}
+                      </Box>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        )}
+      </Box>
+    );
+  };
+
+  return (
+    <Card
+      variant={CARD_STYLES.CONTAINER.variant}
+      sx={CARD_STYLES.CONTAINER.sx(theme)}
+    >
+      <CardContent {...CARD_STYLES.CONTENT}>
+        <Box {...CARD_STYLES.HEADER}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <StorageIcon {...CARD_STYLES.HEADER_ICON} />
+            <Typography {...CARD_STYLES.TITLE}>
+              Storage
+            </Typography>
+          </Box>
+          <Tooltip title="Refresh storage status">
+            <IconButton onClick={() => loadStorage(true)} disabled={loading} {...CARD_STYLES.REFRESH_BUTTON}>
+              <RefreshIcon {...CARD_STYLES.REFRESH_ICON} />
+            </IconButton>
+          </Tooltip>
+        </Box>
+
+        {loading && !storage ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={40} />
+          </Box>
+        ) : error ? (
+          <Alert severity="info" sx={{ borderRadius: 2 }}>
+            {error}
+          </Alert>
+        ) : storage && storage.controllers.length > 0 ? (
+          storage.controllers.map(renderController)
+        ) : (
+          <Typography color="text.secondary">
+            No Smart Array controllers reported by this iLO.
+          </Typography>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StorageCard;
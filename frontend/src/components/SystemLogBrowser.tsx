@@ -0,0 +1,426 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  Chip,
+  Checkbox,
+  CircularProgress,
+  FormControl,
+  IconButton,
+  InputAdornment,
+  InputLabel,
+  Menu,
+  MenuItem,
+  Select,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  Tabs,
+  TextField,
+  Tooltip,
+  useTheme
+} from '@mui/material';
+import {
+  ListAlt as LogsIcon,
+  Refresh as RefreshIcon,
+  Search as SearchIcon,
+  Download as DownloadIcon,
+  TaskAlt as AcknowledgeIcon,
+  Undo as ReopenIcon
+} from '@mui/icons-material';
+import { eventLogAPI, EventLogKind, LogRecordFilters, LogRecordRef, ArchivedLogRecord, SystemLogRecord } from '../api';
+import { CARD_STYLES } from '../constants/cardStyles';
+import { useAuth } from '../context/AuthContext';
+import { useServers } from '../context/ServerContext';
+import { useNotifications } from './NotificationProvider';
+
+const SEVERITIES: SystemLogRecord['severity'][] = ['Critical', 'Caution', 'Informational', 'OK'];
+
+type AcknowledgedFilter = 'all' | 'open' | 'acknowledged';
+
+const LOGS: Record<EventLogKind, { label: string; name: string }> = {
+  iml: { label: 'Integrated Management Log', name: 'Integrated Management Log' },
+  iel: { label: 'iLO Event Log', name: 'iLO event log' }
+};
+
+// datetime-local inputs work in local time without a zone, which is what Date parses them as
+const toTimestamp = (value: string) => value ? new Date(value).getTime() : undefined;
+
+// Record numbers start over each time the log is cleared, only the generation tells them apart
+const recordKey = (record: LogRecordRef) => `${record.generation}:${record.number}`;
+
+const SystemLogBrowser: React.FC = () => {
+  const theme = useTheme();
+  const canAcknowledge = useAuth().hasRole('operator');
+  const { selectedServerId } = useServers();
+  const { showNotification } = useNotifications();
+  // Filters carry over between the logs, so a time range can be compared across both
+  const [log, setLog] = useState<EventLogKind>('iml');
+  const [records, setRecords] = useState<ArchivedLogRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(25);
+  const [severity, setSeverity] = useState<SystemLogRecord['severity'][]>([]);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [acknowledged, setAcknowledged] = useState<AcknowledgedFilter>('all');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [exportAnchor, setExportAnchor] = useState<HTMLElement | null>(null);
+
+  // Typing in the search box waits for a pause before querying
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 400);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const filters: LogRecordFilters = {
+    severity,
+    from: toTimestamp(from),
+    to: toTimestamp(to),
+    search,
+    acknowledged: acknowledged === 'all' ? undefined : acknowledged === 'acknowledged'
+  };
+  const filtersKey = JSON.stringify(filters);
+
+  useEffect(() => {
+    setPage(0);
+  }, [filtersKey, log]);
+
+  const loadRecords = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await eventLogAPI.getRecords(log, JSON.parse(filtersKey), page + 1, pageSize);
+      setRecords(result.records);
+      setTotal(result.total);
+      setSelected(new Set());
+    } catch (error: any) {
+      console.error(`Error loading ${log.toUpperCase()} records:`, error);
+      showNotification('error', error.response?.data?.error || `Failed to load the ${LOGS[log].name}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [log, filtersKey, page, pageSize, showNotification]);
+
+  useEffect(() => {
+    loadRecords();
+  }, [loadRecords, selectedServerId]);
+
+  const toggleSelected = (key: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = records.length > 0 && records.every(record => selected.has(recordKey(record)));
+
+  const handleAcknowledge = async (refs: LogRecordRef[], value: boolean) => {
+    setUpdating(true);
+    try {
+      const { updated } = await eventLogAPI.acknowledge(log, refs, value);
+      showNotification('success', `${updated} record${updated === 1 ? '' : 's'} ${value ? 'acknowledged' : 'reopened'}`);
+      await loadRecords();
+    } catch (error: any) {
+      showNotification('error', error.response?.data?.error || 'Failed to update the records');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    setExportAnchor(null);
+    try {
+      const blob = await eventLogAPI.export(log, filters, format);
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+      link.download = `${log}-${selectedServerId}-${timestamp}.${format}`;
+
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error(`Error exporting ${log.toUpperCase()} records:`, error);
+      showNotification('error', `Failed to export the ${LOGS[log].name}`);
+    }
+  };
+
+  const severityColor = (value: string) => {
+    switch (value) {
+      case 'Critical':
+        return theme.palette.error.main;
+      case 'Caution':
+        return theme.palette.warning.main;
+      case 'OK':
+        return theme.palette.success.main;
+      default:
+        return theme.palette.info.main;
+    }
+  };
+
+  const selectedRecords: LogRecordRef[] = records
+    .filter(record => selected.has(recordKey(record)))
+    .map(({ generation, number }) => ({ generation, number }));
+
+  return (
+    <Card variant={CARD_STYLES.CONTAINER.variant} sx={CARD_STYLES.CONTAINER.sx(theme)}>
+      <CardContent sx={CARD_STYLES.CONTENT.sx}>
+        <Box {...CARD_STYLES.HEADER}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <LogsIcon {...CARD_STYLES.HEADER_ICON} />
+            <Box>
+              <Typography {...CARD_STYLES.TITLE}>
+                iLO Logs
+              </Typography>
+              <Typography {...CARD_STYLES.SUBTITLE}>
+                {total} record{total === 1 ? '' : 's'} archived from the iLO
+              </Typography>
+            </Box>
+          </Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Tooltip title="Export the filtered records">
+              <IconButton onClick={(e) => setExportAnchor(e.currentTarget)} {...CARD_STYLES.REFRESH_BUTTON}>
+                <DownloadIcon {...CARD_STYLES.REFRESH_ICON} />
+              </IconButton>
+            </Tooltip>
+            <Tooltip title="Refresh">
+              <IconButton onClick={loadRecords} disabled={loading} {...CARD_STYLES.REFRESH_BUTTON}>
+                <RefreshIcon {...CARD_STYLES.REFRESH_ICON} />
+              </IconButton>
+            </Tooltip>
+          </Box>
+        </Box>
+
+        <Tabs
+          value={log}
+          onChange={(_e, value) => setLog(value)}
+          sx={{ mb: 2, borderBottom: `1px solid ${theme.palette.divider}` }}
+        >
+          {(Object.keys(LOGS) as EventLogKind[]).map(value => (
+            <Tab key={value} value={value} label={LOGS[value].label} sx={{ textTransform: 'none' }} />
+          ))}
+        </Tabs>
+
+        <Menu anchorEl={exportAnchor} open={!!exportAnchor} onClose={() => setExportAnchor(null)}>
+          <MenuItem onClick={() => handleExport('csv')}>CSV</MenuItem>
+          <MenuItem onClick={() => handleExport('json')}>JSON</MenuItem>
+        </Menu>
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+          <TextField
+            size="small"
+            placeholder="Search descriptions"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon fontSize="small" />
+                </InputAdornment>
+              )
+            }}
+            sx={{ minWidth: 220, flex: 1 }}
+          />
+          <TextField
+            size="small"
+            type="datetime-local"
+            label="From"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            size="small"
+            type="datetime-local"
+            label="To"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <FormControl size="small" sx={{ minWidth: 150 }}>
+            <InputLabel>Status</InputLabel>
+            <Select
+              value={acknowledged}
+              label="Status"
+              onChange={(e) => setAcknowledged(e.target.value as AcknowledgedFilter)}
+            >
+              <MenuItem value="all">All records</MenuItem>
+              <MenuItem value="open">Open</MenuItem>
+              <MenuItem value="acknowledged">Acknowledged</MenuItem>
+            </Select>
+          </FormControl>
+        </Box>
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1, mb: 2 }}>
+          {SEVERITIES.map(value => {
+            const active = severity.includes(value);
+            return (
+              <Chip
+                key={value}
+                label={value}
+                size="small"
+                variant={active ? 'filled' : 'outlined'}
+                onClick={() => setSeverity(current => active ? current.filter(s => s !== value) : [...current, value])}
+                sx={{
+                  borderColor: severityColor(value),
+                  color: active ? theme.palette.common.white : severityColor(value),
+                  backgroundColor: active ? severityColor(value) : undefined,
+                  '&:hover': { backgroundColor: active ? severityColor(value) : `${severityColor(value)}15` }
+                }}
+              />
+            );
+          })}
+          {canAcknowledge && selected.size > 0 && (
+            <Box sx={{ display: 'flex', gap: 1, ml: 'auto' }}>
+              <Button
+                size="small"
+                variant="contained"
+                startIcon={<AcknowledgeIcon />}
+                disabled={updating}
+                onClick={() => handleAcknowledge(selectedRecords, true)}
+              >
+                Acknowledge {selected.size}
+              </Button>
+              <Button
+                size="small"
+                startIcon={<ReopenIcon />}
+                disabled={updating}
+                onClick={() => handleAcknowledge(selectedRecords, false)}
+              >
+                Reopen
+              </Button>
+            </Box>
+          )}
+        </Box>
+
+        <TableContainer sx={{ position: 'relative' }}>
+          {loading && (
+            <Box sx={{ position: 'absolute', inset: 0, display: 'flex', justifyContent: 'center', alignItems: 'center', zIndex: 1 }}>
+              <CircularProgress size={32} />
+            </Box>
+          )}
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                {canAcknowledge && (
+                  <TableCell padding="checkbox">
+                    <Checkbox
+                      size="small"
+                      checked={allSelected}
+                      indeterminate={selected.size > 0 && !allSelected}
+                      onChange={() => setSelected(allSelected ? new Set() : new Set(records.map(recordKey)))}
+                    />
+                  </TableCell>
+                )}
+                <TableCell sx={{ width: 70 }}>#</TableCell>
+                <TableCell sx={{ width: 120 }}>Severity</TableCell>
+                <TableCell sx={{ width: 170 }}>Date</TableCell>
+                <TableCell>Description</TableCell>
+                <TableCell sx={{ width: 200 }}>Status</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {records.length === 0 && !loading ? (
+                <TableRow>
+                  <TableCell colSpan={canAcknowledge ? 6 : 5} sx={{ textAlign: 'center', py: 4, color: 'text.secondary' }}>
+                    No records match these filters. The log is archived gradually after the first start.
+                  </TableCell>
+                </TableRow>
+              ) : records.map(record => (
+                <TableRow key={recordKey(record)} hover selected={selected.has(recordKey(record))}>
+                  {canAcknowledge && (
+                    <TableCell padding="checkbox">
+                      <Checkbox
+                        size="small"
+                        checked={selected.has(recordKey(record))}
+                        onChange={() => toggleSelected(recordKey(record))}
+                      />
+                    </TableCell>
+                  )}
+                  <TableCell>
+                    <Tooltip title={`Log generation ${record.generation + 1}, a new one starts each time the log is cleared`}>
+                      <span>{record.number}</span>
+                    </Tooltip>
+                  </TableCell>
+                  <TableCell>
+                    <Chip
+                      label={record.severity}
+                      size="small"
+                      sx={{
+                        fontSize: '0.7rem',
+                        height: 20,
+                        backgroundColor: `${severityColor(record.severity)}15`,
+                        color: severityColor(record.severity),
+                        fontWeight: 500
+                      }}
+                    />
+                  </TableCell>
+                  <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                    {record.timestamp !== null ? new Date(record.timestamp).toLocaleString() : `${record.date} ${record.time}`}
+                  </TableCell>
+                  <TableCell>{record.description}</TableCell>
+                  <TableCell>
+                    {record.acknowledgedAt !== null ? (
+                      <Tooltip title={`Acknowledged ${new Date(record.acknowledgedAt).toLocaleString()}`}>
+                        <Chip
+                          icon={<AcknowledgeIcon />}
+                          label={record.acknowledgedBy || 'Acknowledged'}
+                          size="small"
+                          color="success"
+                          variant="outlined"
+                          onDelete={canAcknowledge && !updating ? () => handleAcknowledge([{ generation: record.generation, number: record.number }], false) : undefined}
+                          deleteIcon={<ReopenIcon />}
+                        />
+                      </Tooltip>
+                    ) : canAcknowledge ? (
+                      <Button
+                        size="small"
+                        disabled={updating}
+                        onClick={() => handleAcknowledge([{ generation: record.generation, number: record.number }], true)}
+                      >
+                        Acknowledge
+                      </Button>
+                    ) : (
+                      <Typography variant="caption" color="text.secondary">Open</Typography>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        <TablePagination
+          component="div"
+          count={total}
+          page={page}
+          onPageChange={(_e, value) => setPage(value)}
+          rowsPerPage={pageSize}
+          onRowsPerPageChange={(e) => { setPageSize(parseInt(e.target.value, 10)); setPage(0); }}
+          rowsPerPageOptions={[25, 50, 100]}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SystemLogBrowser;
@@ -1,26 +1,39 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { getILoStatus, authAPI, getAuthToken, setAuthToken } from '../api';
 
+export type Role = 'viewer' | 'operator' | 'admin';
+
+// Roles in ascending order of privilege, mirrors the backend
+export const ROLES: Role[] = ['viewer', 'operator', 'admin'];
+
 interface User {
   id: string;
   username: string;
+  role: Role;
   sessionTimeout: number;
   isDefault?: boolean;
 }
 
+export type LoginResult = 'success' | 'mfa-required' | 'failed';
+
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   needsInitialSetup: boolean;
-  login: (username: string, password: string) => Promise<boolean>;
+  login: (username: string, password: string) => Promise<LoginResult>;
+  verifyMfaLogin: (code: string) => Promise<boolean>;
+  cancelMfaLogin: () => void;
+  mfaPending: boolean;
   logout: () => void;
   setupFirstUser: (username: string, password: string) => Promise<boolean>;
-  createUser: (username: string, password: string) => Promise<boolean>;
+  createUser: (username: string, password: string, role: Role) => Promise<boolean>;
   deleteUser: (userId: string) => Promise<boolean>;
+  updateUserRole: (userId: string, role: Role) => Promise<boolean>;
+  hasRole: (required: Role) => boolean;
   getAllUsers: () => Promise<User[]>;
   changePassword: (oldPassword: string, newPassword: string) => Promise<boolean>;
   updateSessionTimeout: (timeout: number) => void;
-  extendSession: () => void;
+  extendSession: () => Promise<void>;
   timeRemaining: number;
   completeInitialSetup: () => void;
 }
@@ -32,6 +45,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [needsInitialSetup, setNeedsInitialSetup] = useState(false);
   const [timeRemaining, setTimeRemaining] = useState(0);
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
 
   // Check authentication status on startup
   useEffect(() => {
@@ -45,6 +59,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           const currentUser = await authAPI.getCurrentUser();
           setUser(currentUser);
           setIsAuthenticated(true);
+          
+          // Resume the countdown from the persisted session's expiry
+          const refreshed = await authAPI.refreshSession();
+          setTimeRemaining(Math.floor((refreshed.expiresAt - Date.now()) / 1000));
           console.log('Valid session found, user authenticated:', currentUser.username);
         } catch (error) {
           console.log('Token invalid or expired, clearing auth');
@@ -95,43 +113,88 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => clearInterval(timer);
   }, [isAuthenticated, user, timeRemaining]);
 
-  const login = async (username: string, password: string): Promise<boolean> => {
+  // Shared by both login steps once the server has issued a session token
+  const completeLogin = async (response: any) => {
+    setUser(response.user);
+    setIsAuthenticated(true);
+    
+    // Calculate time remaining from expires timestamp
+    const expiresAt = response.expiresAt || (Date.now() + (response.user.sessionTimeout * 60 * 1000));
+    setTimeRemaining(Math.floor((expiresAt - Date.now()) / 1000));
+    
+    // Check if initial setup is still needed
+    try {
+      const iloStatus = await getILoStatus();
+      const needsSetup = !iloStatus.configured || response.user.isDefault;
+      setNeedsInitialSetup(needsSetup);
+    } catch (error) {
+      console.error('Error checking setup status after login:', error);
+      setNeedsInitialSetup(response.user.isDefault || false);
+    }
+    
+    console.log('Login successful for user:', response.user.username);
+  };
+
+  const login = async (username: string, password: string): Promise<LoginResult> => {
     try {
       console.log('Login attempt:', { username });
       
       const response = await authAPI.login(username, password);
       
+      // Password accepted, an authenticator code is still needed
+      if (response.success && response.mfaRequired) {
+        setMfaToken(response.mfaToken);
+        return 'mfa-required';
+      }
+      
       if (response.success && response.user) {
-        setUser(response.user);
-        setIsAuthenticated(true);
-        
-        // Calculate time remaining from expires timestamp
-        const expiresAt = response.expiresAt || (Date.now() + (response.user.sessionTimeout * 60 * 1000));
-        setTimeRemaining(Math.floor((expiresAt - Date.now()) / 1000));
-        
-        // Check if initial setup is still needed
-        try {
-          const authStatus = await authAPI.getStatus();
-          const iloStatus = await getILoStatus();
-          const needsSetup = !iloStatus.configured || response.user.isDefault;
-          setNeedsInitialSetup(needsSetup);
-        } catch (error) {
-          console.error('Error checking setup status after login:', error);
-          setNeedsInitialSetup(response.user.isDefault || false);
-        }
-        
-        console.log('Login successful for user:', response.user.username);
-        return true;
+        await completeLogin(response);
+        return 'success';
       }
       
       console.log('Login failed: Invalid response');
-      return false;
+      return 'failed';
     } catch (error: any) {
       console.error('Login error:', error.message);
+      // Throttled or locked out, let the login page show the server's explanation
+      if (error.response?.status === 429) {
+        throw new Error(error.response.data?.error || 'Too many failed login attempts');
+      }
+      return 'failed';
+    }
+  };
+
+  const verifyMfaLogin = async (code: string): Promise<boolean> => {
+    if (!mfaToken) return false;
+
+    try {
+      const response = await authAPI.loginMfa(mfaToken, code);
+      
+      if (response.success && response.user) {
+        setMfaToken(null);
+        await completeLogin(response);
+        return true;
+      }
+      
+      return false;
+    } catch (error: any) {
+      console.error('MFA login error:', error.message);
+      if (error.response?.status === 429) {
+        throw new Error(error.response.data?.error || 'Too many failed login attempts');
+      }
+      // The challenge expired or ran out of attempts, the password must be entered again
+      if (error.response?.data?.error?.includes('expired')) {
+        setMfaToken(null);
+        throw new Error(error.response.data.error);
+      }
       return false;
     }
   };
 
+  const cancelMfaLogin = () => {
+    setMfaToken(null);
+  };
+
   const logout = async () => {
     try {
       await authAPI.logout();
@@ -164,11 +227,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const createUser = async (username: string, password: string): Promise<boolean> => {
+  const createUser = async (username: string, password: string, role: Role): Promise<boolean> => {
     try {
-      console.log('Creating new user:', { username });
+      console.log('Creating new user:', { username, role });
       
-      const response = await authAPI.createUser(username, password);
+      const response = await authAPI.createUser(username, password, role);
       
       if (response.success) {
         console.log('User created successfully');
@@ -198,6 +261,28 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const updateUserRole = async (userId: string, role: Role): Promise<boolean> => {
+    try {
+      const response = await authAPI.updateUserRole(userId, role);
+      
+      if (response.success) {
+        console.log('User role updated successfully');
+        return true;
+      }
+      
+      return false;
+    } catch (error: any) {
+      console.error('Update user role error:', error.message);
+      return false;
+    }
+  };
+
+  // True when the signed-in user has at least the required role
+  const hasRole = (required: Role): boolean => {
+    if (!user) return false;
+    return ROLES.indexOf(user.role) >= ROLES.indexOf(required);
+  };
+
   const getAllUsers = async (): Promise<User[]> => {
     try {
       return await authAPI.getAllUsers();
@@ -237,12 +322,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const extendSession = () => {
+  const extendSession = async () => {
     if (!user || !isAuthenticated) return;
 
-    // Reset the countdown timer to full session timeout
-    setTimeRemaining(user.sessionTimeout * 60);
-    console.log('Session extended');
+    try {
+      // Slide the server-side expiry and restart the countdown from it
+      const response = await authAPI.refreshSession();
+      setTimeRemaining(Math.floor((response.expiresAt - Date.now()) / 1000));
+      console.log('Session extended');
+    } catch (error: any) {
+      console.error('Extend session error:', error.message);
+      logout();
+    }
   };
 
   const completeInitialSetup = () => {
@@ -256,10 +347,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       isAuthenticated,
       needsInitialSetup,
       login,
+      verifyMfaLogin,
+      cancelMfaLogin,
+      mfaPending: mfaToken !== null,
       logout,
       setupFirstUser,
       createUser,
       deleteUser,
+      updateUserRole,
+      hasRole,
       getAllUsers,
       changePassword,
       updateSessionTimeout,
@@ -0,0 +1,150 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { openEventStream, cacheLiveData, getActiveServerId } from '../api';
+import { useAuth } from './AuthContext';
+import { useServers } from './ServerContext';
+
+export type LiveEventType = 'sensors' | 'fans' | 'power' | 'pids' | 'systemInfo' | 'systemLogs' | 'console';
+
+export interface LiveEvent<T = any> {
+  type: LiveEventType;
+  serverId: string | null;
+  data: T;
+  timestamp: string;
+}
+
+type LiveEventListener = (event: LiveEvent) => void;
+
+interface LiveUpdatesContextType {
+  connected: boolean; // Components poll on their own while this is false
+  subscribe: (type: LiveEventType, listener: LiveEventListener) => () => void;
+}
+
+const RECONNECT_MIN_MS = 2000;
+const RECONNECT_MAX_MS = 60000;
+
+const LiveUpdatesContext = createContext<LiveUpdatesContextType | undefined>(undefined);
+
+// Split a Server-Sent Events body into events, resolving when the server ends the stream
+async function readEventStream(body: ReadableStream<Uint8Array>, onEvent: (event: LiveEvent) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      // The payload carries its own type, so only the data lines matter; comments are heartbeats
+      const data = block
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+      if (data) {
+        onEvent(JSON.parse(data));
+      }
+
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
+
+// One push connection per tab for the selected server, fanned out to subscribed components
+export function LiveUpdatesProvider({ children }: { children: ReactNode }) {
+  const { isAuthenticated } = useAuth();
+  const { selectedServerId } = useServers();
+  const [connected, setConnected] = useState(false);
+  const listeners = useRef(new Map<LiveEventType, Set<LiveEventListener>>());
+
+  const subscribe = useCallback((type: LiveEventType, listener: LiveEventListener) => {
+    let typeListeners = listeners.current.get(type);
+    if (!typeListeners) {
+      typeListeners = new Set();
+      listeners.current.set(type, typeListeners);
+    }
+    typeListeners.add(listener);
+
+    return () => {
+      typeListeners!.delete(listener);
+    };
+  }, []);
+
+  const dispatch = useCallback((event: LiveEvent) => {
+    // Drop anything still in flight from the stream of a previously selected server
+    if (event.serverId !== null && event.serverId !== getActiveServerId()) return;
+
+    cacheLiveData(event.type, event.data);
+    listeners.current.get(event.type)?.forEach(listener => listener(event));
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const controller = new AbortController();
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryDelay = RECONNECT_MIN_MS;
+
+    const connect = async () => {
+      try {
+        const response = await openEventStream(selectedServerId, controller.signal);
+        if (response.status === 401) {
+          // The session is gone, AuthContext takes the user back to the login page
+          return;
+        }
+        if (!response.ok || !response.body) {
+          throw new Error(`Event stream unavailable (HTTP ${response.status})`);
+        }
+
+        setConnected(true);
+        retryDelay = RECONNECT_MIN_MS;
+        await readEventStream(response.body, dispatch);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.warn('Live updates disconnected, falling back to polling:', error);
+      } finally {
+        setConnected(false);
+      }
+
+      if (controller.signal.aborted) return;
+      retryTimer = setTimeout(connect, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, RECONNECT_MAX_MS);
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      clearTimeout(retryTimer);
+    };
+  }, [isAuthenticated, selectedServerId, dispatch]);
+
+  return (
+    <LiveUpdatesContext.Provider value={{ connected, subscribe }}>
+      {children}
+    </LiveUpdatesContext.Provider>
+  );
+}
+
+export function useLiveUpdates() {
+  const context = useContext(LiveUpdatesContext);
+  if (context === undefined) {
+    throw new Error('useLiveUpdates must be used within a LiveUpdatesProvider');
+  }
+  return context;
+}
+
+// Call the listener with the data of every pushed event of one type
+export function useLiveEvent<T = any>(type: LiveEventType, listener: (data: T, event: LiveEvent<T>) => void) {
+  const { subscribe } = useLiveUpdates();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => subscribe(type, event => listenerRef.current(event.data, event)), [subscribe, type]);
+}
@@ -0,0 +1,78 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { serversAPI, setActiveServerId, DEFAULT_SERVER_ID, ServerSummary } from '../api';
+import { useAuth } from './AuthContext';
+
+const STORAGE_KEY = 'selected_server';
+
+interface ServerContextType {
+  servers: ServerSummary[];
+  selectedServerId: string;
+  selectedServer: ServerSummary | undefined;
+  isDefaultServer: boolean;
+  selectServer: (serverId: string) => void;
+  refreshServers: () => Promise<void>;
+}
+
+const ServerContext = createContext<ServerContextType | undefined>(undefined);
+
+export function ServerProvider({ children }: { children: ReactNode }) {
+  const { isAuthenticated } = useAuth();
+  const [servers, setServers] = useState<ServerSummary[]>([]);
+  const [selectedServerId, setSelectedServerId] = useState<string>(() => {
+    const stored = localStorage.getItem(STORAGE_KEY) || DEFAULT_SERVER_ID;
+    // Point the API helpers at the remembered server before the first dashboard request
+    setActiveServerId(stored);
+    return stored;
+  });
+
+  const selectServer = useCallback((serverId: string) => {
+    setActiveServerId(serverId);
+    localStorage.setItem(STORAGE_KEY, serverId);
+    setSelectedServerId(serverId);
+  }, []);
+
+  const refreshServers = useCallback(async () => {
+    try {
+      const list = await serversAPI.list();
+      setServers(list);
+
+      // Fall back to the default server if the remembered one was removed
+      if (!list.some(server => server.id === localStorage.getItem(STORAGE_KEY))) {
+        selectServer(DEFAULT_SERVER_ID);
+      }
+    } catch (error) {
+      console.error('Failed to load servers:', error);
+    }
+  }, [selectServer]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      refreshServers();
+    } else {
+      setServers([]);
+    }
+  }, [isAuthenticated, refreshServers]);
+
+  const selectedServer = servers.find(server => server.id === selectedServerId);
+
+  return (
+    <ServerContext.Provider value={{
+      servers,
+      selectedServerId,
+      selectedServer,
+      isDefaultServer: selectedServerId === DEFAULT_SERVER_ID,
+      selectServer,
+      refreshServers
+    }}>
+      {children}
+    </ServerContext.Provider>
+  );
+}
+
+export function useServers() {
+  const context = useContext(ServerContext);
+  if (context === undefined) {
+    throw new Error('useServers must be used within a ServerProvider');
+  }
+  return context;
+}
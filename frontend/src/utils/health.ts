@@ -0,0 +1,9 @@
+// Chip colour for an iLO health value: Redfish reports OK/Warning/Critical, iLO 4 DIMMs a
+// DIMMStatus such as GoodInUse, Smart Array drives states like Absent
+export const healthColor = (health: string): 'success' | 'warning' | 'error' | 'default' => {
+  const value = health.toLowerCase();
+  if (value === 'ok' || value.startsWith('good')) return 'success';
+  if (value.includes('critical') || value.includes('fail') || value.includes('error')) return 'error';
+  if (value.includes('warning') || value.includes('degraded')) return 'warning';
+  return 'default';
+};
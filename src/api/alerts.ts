@@ -0,0 +1,185 @@
+import { Router } from 'express';
+import { alertEngine, validateAlertRule, AlertRuleInput } from '../services/alerts.js';
+import {
+  ALERT_CHANNEL_IDS,
+  AlertChannelId,
+  AlertChannelsConfig,
+  getAlertChannelsConfig,
+  saveAlertChannelsConfig,
+  testAlertChannel,
+  toPublicChannelsConfig,
+  validateAlertChannelsConfig
+} from '../services/alertChannels.js';
+import { historicalStorage } from '../services/historicalStorage.js';
+import { requireRole } from '../middleware/auth.js';
+
+const router = Router();
+
+function toRuleInput(body: any): AlertRuleInput {
+  return {
+    name: body.name,
+    type: body.type,
+    serverId: body.serverId ?? null,
+    severity: body.severity,
+    params: body.params ?? {},
+    channels: body.channels ?? [],
+    enabled: body.enabled ?? true
+  };
+}
+
+// Channel settings from the request, a blank SMTP password keeps the stored one but only for the
+// SMTP host it belongs to, so changing the host cannot send the saved password somewhere else
+async function toChannelsConfig(body: any): Promise<AlertChannelsConfig> {
+  const current = await getAlertChannelsConfig();
+  const email = body.email ?? {};
+  const webhook = body.webhook ?? {};
+  const syslog = body.syslog ?? {};
+  const emailHost = email.host?.trim() ?? current.email.host;
+  return {
+    email: {
+      enabled: email.enabled ?? current.email.enabled,
+      host: emailHost,
+      port: email.port ?? current.email.port,
+      secure: email.secure ?? current.email.secure,
+      username: email.username ?? current.email.username,
+      password: email.password || (emailHost === current.email.host ? current.email.password : ''),
+      from: email.from?.trim() ?? current.email.from,
+      to: Array.isArray(email.to) ? email.to.map((address: any) => String(address).trim()).filter(Boolean) : current.email.to
+    },
+    webhook: {
+      enabled: webhook.enabled ?? current.webhook.enabled,
+      url: webhook.url?.trim() ?? current.webhook.url
+    },
+    syslog: {
+      enabled: syslog.enabled ?? current.syslog.enabled,
+      host: syslog.host?.trim() ?? current.syslog.host,
+      port: syslog.port ?? current.syslog.port,
+      facility: syslog.facility ?? current.syslog.facility
+    }
+  };
+}
+
+// GET /api/alerts/rules — all alert rules
+router.get('/rules', (_req, res) => {
+  res.json(alertEngine.getRules());
+});
+
+// POST /api/alerts/rules — create a rule
+router.post('/rules', requireRole('admin'), async (req, res) => {
+  const input = toRuleInput(req.body);
+  const validationError = validateAlertRule(input);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  try {
+    const rule = await alertEngine.createRule(input);
+    console.log(`🔔 Alert rule ${rule.name} created by ${(req as any).user?.username}`);
+    res.status(201).json(rule);
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    res.status(500).json({ error: 'Failed to create alert rule' });
+  }
+});
+
+// PUT /api/alerts/rules/:id — replace a rule
+router.put('/rules/:id', requireRole('admin'), async (req, res) => {
+  const input = toRuleInput(req.body);
+  const validationError = validateAlertRule(input);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  try {
+    const rule = await alertEngine.updateRule(req.params.id, input);
+    if (!rule) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+    res.json(rule);
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+    res.status(500).json({ error: 'Failed to update alert rule' });
+  }
+});
+
+// DELETE /api/alerts/rules/:id — remove a rule and its active alerts
+router.delete('/rules/:id', requireRole('admin'), async (req, res) => {
+  try {
+    if (!(await alertEngine.deleteRule(req.params.id))) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    res.status(500).json({ error: 'Failed to delete alert rule' });
+  }
+});
+
+// GET /api/alerts/active — alerts that are currently firing
+router.get('/active', (_req, res) => {
+  res.json(alertEngine.getActiveAlerts());
+});
+
+// GET /api/alerts/history?limit=&offset= — fired and resolved alerts, newest first
+router.get('/history', async (req, res) => {
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 50, 1), 500);
+  const offset = Math.max(parseInt(req.query.offset as string, 10) || 0, 0);
+
+  try {
+    res.json(await historicalStorage.getAlertEvents(limit, offset));
+  } catch (error) {
+    console.error('Error loading alert history:', error);
+    res.status(500).json({ error: 'Failed to load alert history' });
+  }
+});
+
+// GET /api/alerts/channels — notification channel settings without the SMTP password
+router.get('/channels', requireRole('admin'), async (_req, res) => {
+  try {
+    res.json(toPublicChannelsConfig(await getAlertChannelsConfig()));
+  } catch (error) {
+    console.error('Error loading alert channels:', error);
+    res.status(500).json({ error: 'Failed to load notification channels' });
+  }
+});
+
+// PUT /api/alerts/channels — save notification channel settings
+router.put('/channels', requireRole('admin'), async (req, res) => {
+  try {
+    const config = await toChannelsConfig(req.body);
+    const validationError = validateAlertChannelsConfig(config);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    await saveAlertChannelsConfig(config);
+    res.json(toPublicChannelsConfig(config));
+  } catch (error) {
+    console.error('Error saving alert channels:', error);
+    res.status(500).json({ error: 'Failed to save notification channels' });
+  }
+});
+
+// POST /api/alerts/channels/:channel/test — send a test notification with the submitted (or saved) settings
+router.post('/channels/:channel/test', requireRole('admin'), async (req, res) => {
+  const channel = req.params.channel as AlertChannelId;
+  if (!ALERT_CHANNEL_IDS.includes(channel)) {
+    return res.status(404).json({ error: 'Unknown notification channel' });
+  }
+
+  try {
+    const config = await toChannelsConfig(req.body ?? {});
+    const validationError = validateAlertChannelsConfig({ ...config, [channel]: { ...config[channel], enabled: true } });
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    await testAlertChannel(channel, config);
+    res.json({ success: true });
+  } catch (error) {
+    console.error(`Test notification via ${channel} failed:`, error);
+    res.status(502).json({ error: `Test notification failed: ${(error as Error).message}` });
+  }
+});
+
+export default router;
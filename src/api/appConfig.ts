@@ -1,21 +1,70 @@
 import { Router } from 'express';
-import { getAppConfig, saveAppConfig } from '../services/appConfig.js';
+import { getAppConfig, getEffectiveAppConfig, saveAppConfig, toPublicAppConfig, validateMqttConfig, validateRetentionConfig, MqttConfig, RetentionConfig } from '../services/appConfig.js';
+import { historicalStorage } from '../services/historicalStorage.js';
+import { mqttBridge, testMqttConnection } from '../services/mqtt.js';
+import { getEffectiveConfig } from '../services/effectiveConfig.js';
+import { requireRole } from '../middleware/auth.js';
 
 const router = Router();
 
 // Get current app configuration
-router.get('/config', async (req, res) => {
+router.get('/config', requireRole('admin'), async (req, res) => {
   try {
     const config = await getAppConfig();
-    res.json(config);
+    res.json(toPublicAppConfig(config));
   } catch (error) {
     console.error('Error getting app config:', error);
     res.status(500).json({ error: 'Failed to get app configuration' });
   }
 });
 
+// Host and port of a broker URL, null when it does not parse
+function brokerHost(url: string): string | null {
+  try {
+    return new URL(url).host || null;
+  } catch {
+    return null;
+  }
+}
+
+// MQTT settings from the request, a blank password keeps the stored one but only for the
+// broker it belongs to, so changing the broker cannot send the saved password somewhere else
+function toMqttConfig(body: any, current: MqttConfig): MqttConfig {
+  const brokerUrl = body?.brokerUrl?.trim() ?? current.brokerUrl;
+  const sameBroker = brokerHost(brokerUrl) !== null && brokerHost(brokerUrl) === brokerHost(current.brokerUrl);
+  return {
+    enabled: body?.enabled ?? current.enabled,
+    brokerUrl,
+    username: body?.username ?? current.username,
+    password: body?.password || (sameBroker ? current.password : ''),
+    baseTopic: body?.baseTopic?.trim() ?? current.baseTopic,
+    discoveryPrefix: body?.discoveryPrefix?.trim() ?? current.discoveryPrefix,
+    allowCommands: body?.allowCommands ?? current.allowCommands
+  };
+}
+
+// GET /api/app/effective-config — every setting in use and whether it came from an env var,
+// the saved configuration or the default, secrets redacted
+router.get('/effective-config', requireRole('admin'), async (_req, res) => {
+  try {
+    res.json(await getEffectiveConfig());
+  } catch (error) {
+    console.error('Error getting effective config:', error);
+    res.status(500).json({ error: 'Failed to get effective configuration' });
+  }
+});
+
+// Retention settings from the request, omitted ones keep their current value
+function toRetentionConfig(body: any, current: RetentionConfig): RetentionConfig {
+  return {
+    rawHours: body?.rawHours ?? current.rawHours,
+    fiveMinuteDays: body?.fiveMinuteDays ?? current.fiveMinuteDays,
+    hourlyDays: body?.hourlyDays ?? current.hourlyDays
+  };
+}
+
 // Save app configuration
-router.post('/config', async (req, res) => {
+router.post('/config', requireRole('admin'), async (req, res) => {
   try {
     const { port, sessionTimeout } = req.body;
     
@@ -31,8 +80,29 @@ router.post('/config', async (req, res) => {
       return res.status(400).json({ error: 'Session timeout must be between 5 and 480 minutes' });
     }
 
-    const config = { port, sessionTimeout };
+    const current = await getAppConfig();
+    const mqtt = toMqttConfig(req.body.mqtt, current.mqtt);
+    const mqttError = validateMqttConfig(mqtt);
+    if (mqttError) {
+      return res.status(400).json({ error: mqttError });
+    }
+
+    const retention = toRetentionConfig(req.body.retention, current.retention);
+    const retentionError = validateRetentionConfig(retention);
+    if (retentionError) {
+      return res.status(400).json({ error: retentionError });
+    }
+
+    const config = { port, sessionTimeout, mqtt, retention };
     await saveAppConfig(config);
+    historicalStorage.setRetention((await getEffectiveAppConfig()).retention);
+    
+    // Reconnect right away, unlike the port this does not need a server restart
+    if (JSON.stringify(mqtt) !== JSON.stringify(current.mqtt)) {
+      mqttBridge.restart().catch(error => {
+        console.error('Failed to restart MQTT publishing:', error);
+      });
+    }
     
     res.json({ 
       success: true, 
@@ -44,8 +114,29 @@ router.post('/config', async (req, res) => {
   }
 });
 
+// GET /api/app/mqtt/status — whether the MQTT bridge is connected
+router.get('/mqtt/status', requireRole('admin'), (_req, res) => {
+  res.json(mqttBridge.getStatus());
+});
+
+// POST /api/app/mqtt/test — connect to a broker with the submitted (or saved) settings
+router.post('/mqtt/test', requireRole('admin'), async (req, res) => {
+  try {
+    const mqtt = toMqttConfig(req.body, (await getAppConfig()).mqtt);
+    const validationError = validateMqttConfig(mqtt);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    await testMqttConnection(mqtt);
+    res.json({ success: true, message: `Connected to ${mqtt.brokerUrl}` });
+  } catch (error) {
+    res.json({ success: false, message: `Could not connect: ${(error as Error).message}` });
+  }
+});
+
 // Restart server with new configuration
-router.post('/restart', async (req, res) => {
+router.post('/restart', requireRole('admin'), async (req, res) => {
   try {
     const { port } = req.body;
     
@@ -1,162 +1,71 @@
 import { Router, Request, Response } from 'express';
-import bcrypt from 'bcrypt';
-import crypto from 'crypto';
-import fs from 'fs/promises';
-import path from 'path';
+import QRCode from 'qrcode';
+import { validateSession, requireRole } from '../middleware/auth.js';
+import {
+  User,
+  ROLES,
+  getUser,
+  findUserByUsername,
+  listUsers,
+  hasUsers,
+  verifyPassword,
+  setUserPassword,
+  addUser,
+  updateUser,
+  removeUser,
+  countAdmins,
+  readTempPassword,
+  clearTempPassword,
+  createSession,
+  touchSession,
+  listUserSessions,
+  deleteSession,
+  deleteUserSessions,
+  isMfaEnabled,
+  getMfaStatus,
+  beginMfaEnrollment,
+  confirmMfaEnrollment,
+  verifyMfaCode,
+  regenerateRecoveryCodes,
+  disableMfa,
+  createMfaChallenge,
+  getMfaChallengeUser,
+  failMfaChallenge,
+  completeMfaChallenge
+} from '../services/auth.js';
+import { totpProvisioningUri } from '../services/totp.js';
+import { loginThrottle } from '../services/loginThrottle.js';
 
 const router = Router();
 
-interface User {
-  id: string;
-  username: string;
-  createdAt: string;
-  sessionTimeout: number;
-  isDefault?: boolean;
-}
-
-interface Session {
-  userId: string;
-  username: string;
-  expiresAt: number;
-  token: string;
-}
-
-// In-memory storage for demo (in production, use a database)
-let users: Record<string, User> = {};
-let passwords: Record<string, string> = {};
-let sessions: Record<string, Session> = {};
-
-// File paths for persistent storage
-const USERS_FILE = path.join(process.cwd(), 'data', 'users.json');
-const PASSWORDS_FILE = path.join(process.cwd(), 'data', 'passwords.json');
-
-// Ensure data directory exists
-async function ensureDataDirectory() {
-  try {
-    await fs.mkdir(path.dirname(USERS_FILE), { recursive: true });
-  } catch (error) {
-    // Directory already exists
-  }
-}
-
-// Load data from files
-async function loadData() {
-  try {
-    await ensureDataDirectory();
-    
-    try {
-      const usersData = await fs.readFile(USERS_FILE, 'utf8');
-      users = JSON.parse(usersData);
-    } catch (error) {
-      console.log('No existing users file, starting fresh');
-      users = {};
-    }
-    
-    try {
-      const passwordsData = await fs.readFile(PASSWORDS_FILE, 'utf8');
-      passwords = JSON.parse(passwordsData);
-    } catch (error) {
-      console.log('No existing passwords file, starting fresh');
-      passwords = {};
-    }
-    
-    // Create default admin if no users exist
-    if (Object.keys(users).length === 0) {
-      await createDefaultAdmin();
-    }
-  } catch (error) {
-    console.error('Error loading authentication data:', error);
-  }
-}
-
-// Save data to files
-async function saveData() {
-  try {
-    await ensureDataDirectory();
-    await fs.writeFile(USERS_FILE, JSON.stringify(users, null, 2));
-    await fs.writeFile(PASSWORDS_FILE, JSON.stringify(passwords, null, 2));
-  } catch (error) {
-    console.error('Error saving authentication data:', error);
-  }
-}
-
-// Create default admin user
-async function createDefaultAdmin() {
-  const tempPassword = 'TempAdmin!' + Math.random().toString(36).substring(2, 8);
-  const passwordHash = await bcrypt.hash(tempPassword, 12);
-  
-  const defaultUser: User = {
-    id: 'admin',
-    username: 'admin',
-    createdAt: new Date().toISOString(),
-    sessionTimeout: 30,
-    isDefault: true
-  };
-  
-  users['admin'] = defaultUser;
-  passwords['admin'] = passwordHash;
-  
-  await saveData();
-  
-  console.warn('🚨 SECURITY: Default admin created with temporary password:', tempPassword);
-  console.warn('🚨 This password MUST be changed during initial setup!');
-  
-  // Store temp password in a file for initial setup
-  try {
-    await fs.writeFile(path.join(process.cwd(), 'data', 'temp_password.txt'), tempPassword);
-  } catch (error) {
-    console.error('Could not save temporary password file');
-  }
-}
-
-// Generate secure session token
-function generateSessionToken(): string {
-  return crypto.randomBytes(32).toString('hex');
-}
-
-// Middleware to validate session
-function validateSession(req: Request, res: Response, next: Function) {
-  const authHeader = req.headers.authorization;
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return res.status(401).json({ error: 'No valid session token provided' });
-  }
-  
-  const token = authHeader.substring(7);
-  const session = sessions[token];
-  
-  if (!session || session.expiresAt < Date.now()) {
-    if (session) {
-      delete sessions[token];
-    }
-    return res.status(401).json({ error: 'Session expired or invalid' });
-  }
-  
-  // Add user info to request
-  (req as any).user = users[session.userId];
-  (req as any).session = session;
-  next();
-}
+// Create a session for a fully authenticated user and send the login response
+function sendLoginSuccess(req: Request, res: Response, user: User) {
+  const { token, session } = createSession(user, {
+    userAgent: req.get('user-agent'),
+    ipAddress: req.ip
+  });
 
-// Clean up expired sessions
-function cleanupExpiredSessions() {
-  const now = Date.now();
-  Object.keys(sessions).forEach(token => {
-    if (sessions[token].expiresAt < now) {
-      delete sessions[token];
-    }
+  res.json({
+    success: true,
+    token,
+    user: {
+      id: user.id,
+      username: user.username,
+      role: user.role,
+      sessionTimeout: user.sessionTimeout,
+      isDefault: user.isDefault
+    },
+    expiresAt: session.expiresAt
   });
 }
 
-// Clean up expired sessions every 5 minutes
-setInterval(cleanupExpiredSessions, 5 * 60 * 1000);
-
 // Routes
 
 // Get authentication status
 router.get('/status', (req: Request, res: Response) => {
-  res.json({ 
-    hasUsers: Object.keys(users).length > 0,
-    defaultAdminExists: users['admin']?.isDefault === true
+  res.json({
+    hasUsers: hasUsers(),
+    defaultAdminExists: getUser('admin')?.isDefault === true
   });
 });
 
@@ -164,99 +73,125 @@ router.get('/status', (req: Request, res: Response) => {
 router.post('/login', async (req: Request, res: Response) => {
   try {
     const { username, password } = req.body;
-    
+
     if (!username || !password) {
       return res.status(400).json({ error: 'Username and password are required' });
     }
-    
+
+    const ipAddress = req.ip || 'unknown';
+
+    // Refuse attempts while the username or client address is backing off or locked out
+    const decision = await loginThrottle.check(username, ipAddress);
+    if (!decision.allowed) {
+      res.set('Retry-After', String(decision.retryAfterSeconds));
+      return res.status(429).json({
+        error: decision.locked
+          ? 'Account is temporarily locked after too many failed login attempts'
+          : `Too many failed login attempts, try again in ${decision.retryAfterSeconds} seconds`,
+        retryAfter: decision.retryAfterSeconds,
+        locked: decision.locked
+      });
+    }
+
     // Find user
-    const userId = Object.keys(users).find(id => users[id].username === username);
-    if (!userId) {
+    const user = findUserByUsername(username);
+    if (!user) {
+      await loginThrottle.recordFailure(username, ipAddress, 'unknown username');
       return res.status(401).json({ error: 'Invalid credentials' });
     }
-    
-    const user = users[userId];
-    const storedHash = passwords[userId];
-    
-    // For default users, check temp password first
-    if (user.isDefault) {
-      try {
-        const tempPassword = await fs.readFile(path.join(process.cwd(), 'data', 'temp_password.txt'), 'utf8');
-        if (password !== tempPassword.trim()) {
-          return res.status(401).json({ error: 'Invalid credentials' });
-        }
-      } catch (error) {
-        return res.status(401).json({ error: 'Default admin setup required' });
-      }
-    } else {
-      // Verify password with bcrypt
-      const isValid = await bcrypt.compare(password, storedHash);
-      if (!isValid) {
-        return res.status(401).json({ error: 'Invalid credentials' });
-      }
-    }
-    
-    // Create session
-    const token = generateSessionToken();
-    const expiresAt = Date.now() + (user.sessionTimeout * 60 * 1000);
-    
-    sessions[token] = {
-      userId,
-      username: user.username,
-      expiresAt,
-      token
-    };
-    
-    res.json({
-      success: true,
-      token,
-      user: {
-        id: user.id,
-        username: user.username,
-        sessionTimeout: user.sessionTimeout,
-        isDefault: user.isDefault
-      },
-      expiresAt
-    });
+
+    // The default admin can only log in with its temporary password until setup is done
+    if (user.isDefault && (await readTempPassword()) === null) {
+      return res.status(401).json({ error: 'Default admin setup required' });
+    }
+
+    // Verify password with bcrypt, the temporary password is hashed like any other
+    const isValid = await verifyPassword(user.id, password);
+    if (!isValid) {
+      await loginThrottle.recordFailure(username, ipAddress, 'wrong password');
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
+    // With MFA enabled the password only earns a challenge for the second step
+    if (isMfaEnabled(user.id)) {
+      return res.json({ success: true, mfaRequired: true, mfaToken: createMfaChallenge(user.id) });
+    }
+
+    await loginThrottle.recordSuccess(username);
+    sendLoginSuccess(req, res, user);
   } catch (error) {
     console.error('Login error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+// Second login step: TOTP or recovery code for the challenge issued by /login
+router.post('/login/mfa', async (req: Request, res: Response) => {
+  try {
+    const { mfaToken, code } = req.body;
+
+    if (!mfaToken || !code) {
+      return res.status(400).json({ error: 'Challenge token and code are required' });
+    }
+
+    const userId = getMfaChallengeUser(mfaToken);
+    const user = userId ? getUser(userId) : undefined;
+    if (!user) {
+      return res.status(401).json({ error: 'Login challenge expired, sign in again' });
+    }
+
+    const ipAddress = req.ip || 'unknown';
+    const decision = await loginThrottle.check(user.username, ipAddress);
+    if (!decision.allowed) {
+      res.set('Retry-After', String(decision.retryAfterSeconds));
+      return res.status(429).json({
+        error: `Too many failed login attempts, try again in ${decision.retryAfterSeconds} seconds`,
+        retryAfter: decision.retryAfterSeconds,
+        locked: decision.locked
+      });
+    }
+
+    const method = await verifyMfaCode(user.id, String(code));
+    if (!method) {
+      failMfaChallenge(mfaToken);
+      await loginThrottle.recordFailure(user.username, ipAddress, 'wrong MFA code');
+      return res.status(401).json({ error: 'Invalid authentication code' });
+    }
+
+    if (method === 'recovery') {
+      console.warn(`🔐 ${user.username} signed in with a recovery code`);
+    }
+
+    completeMfaChallenge(mfaToken);
+    await loginThrottle.recordSuccess(user.username);
+    sendLoginSuccess(req, res, user);
+  } catch (error) {
+    console.error('MFA login error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Setup first user (change default admin password)
-router.post('/setup', async (req: Request, res: Response) => {
+router.post('/setup', validateSession, requireRole('admin'), async (req: Request, res: Response) => {
   try {
     const { username, password } = req.body;
-    
+
     if (!username || !password) {
       return res.status(400).json({ error: 'Username and password are required' });
     }
-    
+
     // Check if this is for the default admin
-    if (username !== 'admin' || !users['admin']?.isDefault) {
+    if (username !== 'admin' || !getUser('admin')?.isDefault) {
       return res.status(400).json({ error: 'Setup can only be done for default admin user' });
     }
-    
-    // Hash the new password
-    const passwordHash = await bcrypt.hash(password, 12);
-    
-    // Update user
-    users['admin'] = {
-      ...users['admin'],
-      isDefault: false
-    };
-    passwords['admin'] = passwordHash;
-    
-    await saveData();
-    
+
+    // Update user with the new password
+    await setUserPassword('admin', password);
+    await updateUser('admin', { isDefault: false });
+
     // Remove temp password file
-    try {
-      await fs.unlink(path.join(process.cwd(), 'data', 'temp_password.txt'));
-    } catch (error) {
-      // File might not exist
-    }
-    
+    await clearTempPassword();
+
     res.json({ success: true, message: 'Admin password updated successfully' });
   } catch (error) {
     console.error('Setup error:', error);
@@ -267,7 +202,52 @@ router.post('/setup', async (req: Request, res: Response) => {
 // Logout
 router.post('/logout', validateSession, (req: Request, res: Response) => {
   const session = (req as any).session;
-  delete sessions[session.token];
+  deleteSession(session.id);
+  res.json({ success: true });
+});
+
+// Extend the current session by the user's session timeout
+router.post('/refresh', validateSession, (req: Request, res: Response) => {
+  const session = touchSession((req as any).session, (req as any).user, true);
+  res.json({ success: true, expiresAt: session.expiresAt });
+});
+
+// List my active sessions
+router.get('/sessions', validateSession, (req: Request, res: Response) => {
+  const current = (req as any).session;
+  const user = (req as any).user;
+
+  res.json(listUserSessions(user.id).map(session => ({
+    id: session.id,
+    createdAt: new Date(session.createdAt).toISOString(),
+    lastSeen: new Date(session.lastSeen).toISOString(),
+    expiresAt: new Date(session.expiresAt).toISOString(),
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    current: session.id === current.id
+  })));
+});
+
+// Revoke all my sessions, or all but the current one with ?keepCurrent=true
+router.delete('/sessions', validateSession, (req: Request, res: Response) => {
+  const current = (req as any).session;
+  const user = (req as any).user;
+  const keepCurrent = req.query.keepCurrent === 'true';
+
+  const revoked = deleteUserSessions(user.id, keepCurrent ? current.id : undefined);
+  res.json({ success: true, revoked });
+});
+
+// Revoke one of my sessions
+router.delete('/sessions/:sessionId', validateSession, (req: Request, res: Response) => {
+  const user = (req as any).user;
+  const { sessionId } = req.params;
+
+  if (!listUserSessions(user.id).some(session => session.id === sessionId)) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+
+  deleteSession(sessionId);
   res.json({ success: true });
 });
 
@@ -277,48 +257,47 @@ router.get('/me', validateSession, (req: Request, res: Response) => {
   res.json({
     id: user.id,
     username: user.username,
+    role: user.role,
     sessionTimeout: user.sessionTimeout,
     isDefault: user.isDefault
   });
 });
 
 // Create new user
-router.post('/users', validateSession, async (req: Request, res: Response) => {
+router.post('/users', validateSession, requireRole('admin'), async (req: Request, res: Response) => {
   try {
-    const { username, password } = req.body;
+    const { username, password, role = 'viewer' } = req.body;
     const currentUser = (req as any).user;
-    
+
     // Only non-default users can create other users
     if (currentUser.isDefault) {
       return res.status(403).json({ error: 'Complete initial setup first' });
     }
-    
+
     if (!username || !password) {
       return res.status(400).json({ error: 'Username and password are required' });
     }
-    
+
+    if (!ROLES.includes(role)) {
+      return res.status(400).json({ error: `Role must be one of ${ROLES.join(', ')}` });
+    }
+
     // Check if username already exists
-    const existingUser = Object.values(users).find(u => u.username === username);
-    if (existingUser) {
+    if (findUserByUsername(username)) {
       return res.status(400).json({ error: 'Username already exists' });
     }
-    
+
     // Create new user
-    const userId = `user_${Date.now()}`;
-    const passwordHash = await bcrypt.hash(password, 12);
-    
     const newUser: User = {
-      id: userId,
+      id: `user_${Date.now()}`,
       username,
+      role,
       createdAt: new Date().toISOString(),
       sessionTimeout: 30
     };
-    
-    users[userId] = newUser;
-    passwords[userId] = passwordHash;
-    
-    await saveData();
-    
+
+    await addUser(newUser, password);
+
     res.json({ success: true, user: newUser });
   } catch (error) {
     console.error('Create user error:', error);
@@ -327,47 +306,201 @@ router.post('/users', validateSession, async (req: Request, res: Response) => {
 });
 
 // Get all users
-router.get('/users', validateSession, (req: Request, res: Response) => {
+router.get('/users', validateSession, requireRole('admin'), async (req: Request, res: Response) => {
   const currentUser = (req as any).user;
-  
+
   if (currentUser.isDefault) {
     return res.status(403).json({ error: 'Complete initial setup first' });
   }
-  
-  const userList = Object.values(users).map(user => ({
+
+  const userList = await Promise.all(listUsers().map(async user => ({
     id: user.id,
     username: user.username,
+    role: user.role,
     createdAt: user.createdAt,
     sessionTimeout: user.sessionTimeout,
-    isDefault: user.isDefault
-  }));
-  
+    isDefault: user.isDefault,
+    mfaEnabled: isMfaEnabled(user.id),
+    lockedUntil: (await loginThrottle.getLockout(user.username))?.lockedUntil ?? null
+  })));
+
   res.json(userList);
 });
 
+// Clear a lockout or login backoff on an account
+router.post('/users/:userId/unlock', validateSession, requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const user = getUser(req.params.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const unlocked = await loginThrottle.unlock(user.username, (req as any).user.username);
+    res.json({ success: true, unlocked });
+  } catch (error) {
+    console.error('Unlock user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Change a user's role
+router.put('/users/:userId/role', validateSession, requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { role } = req.body;
+    const currentUser = (req as any).user;
+
+    if (currentUser.isDefault) {
+      return res.status(403).json({ error: 'Complete initial setup first' });
+    }
+
+    if (!ROLES.includes(role)) {
+      return res.status(400).json({ error: `Role must be one of ${ROLES.join(', ')}` });
+    }
+
+    const user = getUser(userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (userId === currentUser.id && role !== 'admin') {
+      return res.status(400).json({ error: 'Cannot remove your own admin role' });
+    }
+
+    if (user.role === 'admin' && role !== 'admin' && countAdmins() <= 1) {
+      return res.status(400).json({ error: 'At least one admin must remain' });
+    }
+
+    const updated = await updateUser(userId, { role });
+    res.json({ success: true, user: { id: updated.id, username: updated.username, role: updated.role } });
+  } catch (error) {
+    console.error('Change role error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get my MFA status
+router.get('/mfa', validateSession, (req: Request, res: Response) => {
+  res.json(getMfaStatus((req as any).user.id));
+});
+
+// Start TOTP enrollment, returning the secret and a QR code for authenticator apps
+router.post('/mfa/enroll', validateSession, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    if (isMfaEnabled(user.id)) {
+      return res.status(400).json({ error: 'MFA is already enabled' });
+    }
+
+    const secret = await beginMfaEnrollment(user.id);
+    const otpauthUrl = totpProvisioningUri(secret, user.username);
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+    res.json({ secret, otpauthUrl, qrCode });
+  } catch (error) {
+    console.error('MFA enroll error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Confirm enrollment with a code from the app, returns recovery codes once
+router.post('/mfa/verify', validateSession, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const { code } = req.body;
+
+    if (!code) {
+      return res.status(400).json({ error: 'Code is required' });
+    }
+
+    const recoveryCodes = await confirmMfaEnrollment(user.id, String(code));
+    if (!recoveryCodes) {
+      return res.status(400).json({ error: 'Invalid authentication code' });
+    }
+
+    res.json({ success: true, recoveryCodes });
+  } catch (error) {
+    console.error('MFA verify error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Replace my recovery codes, requires a current code
+router.post('/mfa/recovery-codes', validateSession, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const { code } = req.body;
+
+    if (!isMfaEnabled(user.id)) {
+      return res.status(400).json({ error: 'MFA is not enabled' });
+    }
+
+    if (!code || (await verifyMfaCode(user.id, String(code))) !== 'totp') {
+      return res.status(400).json({ error: 'Invalid authentication code' });
+    }
+
+    res.json({ success: true, recoveryCodes: await regenerateRecoveryCodes(user.id) });
+  } catch (error) {
+    console.error('MFA recovery codes error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Turn off my MFA, requires my password
+router.delete('/mfa', validateSession, async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const { password } = req.body;
+
+    if (!password || !(await verifyPassword(user.id, password))) {
+      return res.status(401).json({ error: 'Current password is incorrect' });
+    }
+
+    await disableMfa(user.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Disable MFA error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Reset another user's MFA, e.g. after a lost device
+router.delete('/users/:userId/mfa', validateSession, requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const user = getUser(req.params.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    await disableMfa(user.id);
+    console.warn(`🔐 MFA reset for ${user.username} by ${(req as any).user.username}`);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Reset MFA error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Change password
 router.post('/change-password', validateSession, async (req: Request, res: Response) => {
   try {
     const { oldPassword, newPassword } = req.body;
     const user = (req as any).user;
-    
+
     if (!oldPassword || !newPassword) {
       return res.status(400).json({ error: 'Old and new passwords are required' });
     }
-    
+
     // Verify old password
-    const storedHash = passwords[user.id];
-    const isValid = await bcrypt.compare(oldPassword, storedHash);
+    const isValid = await verifyPassword(user.id, oldPassword);
     if (!isValid) {
       return res.status(401).json({ error: 'Current password is incorrect' });
     }
-    
-    // Hash new password
-    const newPasswordHash = await bcrypt.hash(newPassword, 12);
-    passwords[user.id] = newPasswordHash;
-    
-    await saveData();
-    
+
+    // Hash and store new password
+    await setUserPassword(user.id, newPassword);
+
     res.json({ success: true });
   } catch (error) {
     console.error('Change password error:', error);
@@ -376,39 +509,35 @@ router.post('/change-password', validateSession, async (req: Request, res: Respo
 });
 
 // Delete user
-router.delete('/users/:userId', validateSession, async (req: Request, res: Response) => {
+router.delete('/users/:userId', validateSession, requireRole('admin'), async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
     const currentUser = (req as any).user;
-    
+
     if (currentUser.isDefault) {
       return res.status(403).json({ error: 'Complete initial setup first' });
     }
-    
+
     if (userId === currentUser.id) {
       return res.status(400).json({ error: 'Cannot delete yourself' });
     }
-    
-    if (users[userId]?.isDefault) {
+
+    const user = getUser(userId);
+
+    if (user?.isDefault) {
       return res.status(400).json({ error: 'Cannot delete default admin user' });
     }
-    
-    if (!users[userId]) {
+
+    if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
-    
-    delete users[userId];
-    delete passwords[userId];
-    
-    // Remove any active sessions for this user
-    Object.keys(sessions).forEach(token => {
-      if (sessions[token].userId === userId) {
-        delete sessions[token];
-      }
-    });
-    
-    await saveData();
-    
+
+    if (user.role === 'admin' && countAdmins() <= 1) {
+      return res.status(400).json({ error: 'At least one admin must remain' });
+    }
+
+    await removeUser(userId);
+
     res.json({ success: true });
   } catch (error) {
     console.error('Delete user error:', error);
@@ -416,7 +545,4 @@ router.delete('/users/:userId', validateSession, async (req: Request, res: Respo
   }
 });
 
-// Initialize data on startup
-loadData();
-
 export default router;
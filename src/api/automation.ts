@@ -1,15 +1,106 @@
 import { Router } from "express";
-import { startAutomation, stopAutomation } from "../services/automation.js";
+import {
+  startAutomation,
+  stopAutomation,
+  getAutomationStatus,
+  getFanCurves,
+  saveFanCurve,
+  deleteFanCurve,
+  validateFanCurve,
+  getFanZones,
+  saveFanZone,
+  deleteFanZone
+} from "../services/automation.js";
+import { requireRole } from "../middleware/auth.js";
 const router = Router();
 
-router.post("/start", (req, res) => {
-  startAutomation(req.body.thresholds);
-  res.json({ ok: true });
+// GET /automation/status — current input temperature, target speed and last action
+router.get("/status", (_req, res) => {
+  res.json(getAutomationStatus());
 });
 
-router.post("/stop", (_req, res) => {
-  stopAutomation();
-  res.json({ ok: true });
+// GET /automation/curves — all stored fan curves
+router.get("/curves", async (_req, res) => {
+  try {
+    res.json(await getFanCurves());
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
 });
 
-export default router;
\ No newline at end of file
+// PUT /automation/curves/:id — create or update a fan curve
+router.put("/curves/:id", requireRole("operator"), async (req, res) => {
+  try {
+    const curve = { ...req.body, id: req.params.id };
+    const validationError = validateFanCurve(curve);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    const saved = await saveFanCurve(curve);
+    res.json({ success: true, curve: saved });
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+});
+
+// DELETE /automation/curves/:id — remove a fan curve
+router.delete("/curves/:id", requireRole("operator"), async (req, res) => {
+  try {
+    await deleteFanCurve(req.params.id);
+    res.json({ success: true });
+  } catch (err) {
+    res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+// GET /automation/zones — fan zones with their curve and sensor assignment
+router.get("/zones", async (_req, res) => {
+  try {
+    res.json(await getFanZones());
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+});
+
+// PUT /automation/zones/:id — create or update a fan zone
+// { name, fans: number[], curveId, sensors?: string[] }
+router.put("/zones/:id", requireRole("operator"), async (req, res) => {
+  try {
+    const zone = { sensors: [], ...req.body, id: req.params.id };
+    const saved = await saveFanZone(zone);
+    res.json({ success: true, zone: saved });
+  } catch (err) {
+    res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+// DELETE /automation/zones/:id — remove a fan zone
+router.delete("/zones/:id", requireRole("operator"), async (req, res) => {
+  try {
+    await deleteFanZone(req.params.id);
+    res.json({ success: true });
+  } catch (err) {
+    res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+// POST /automation/start — start the curve engine, optionally with { curveId }
+router.post("/start", requireRole("operator"), async (req, res) => {
+  try {
+    const status = await startAutomation(req.body?.curveId);
+    res.json({ ok: true, status });
+  } catch (err) {
+    res.status(400).json({ error: (err as Error).message });
+  }
+});
+
+router.post("/stop", requireRole("operator"), async (_req, res) => {
+  try {
+    await stopAutomation();
+    res.json({ ok: true });
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+});
+
+export default router;
@@ -2,17 +2,27 @@ import { Router } from 'express';
 import { getILoConfig, saveILoConfig, testILoConnection, isILoConfigured, clearILoConfig } from '../services/config.js';
 import { getSystemInformation } from '../services/systemInfo.js';
 import { centralizedDataFetcher } from '../services/centralizedDataFetcher.js';
+import { requireRole } from '../middleware/auth.js';
 
 const router = Router();
 
-// Get current iLO configuration (without password for security)
-router.get('/config', async (req, res) => {
+// Reuse the stored password when the form leaves it blank, but only for the host it
+// belongs to so changing the host cannot send the saved password somewhere else
+async function resolvePassword(host: string, password?: string): Promise<string | undefined> {
+  if (password) return password;
+  const existing = await getILoConfig();
+  return existing && existing.host === host ? existing.password : undefined;
+}
+
+// Get current iLO configuration, the password itself is never returned
+router.get('/config', requireRole('admin'), async (req, res) => {
   try {
     const config = await getILoConfig();
     if (config) {
       res.json({
         host: config.host,
         username: config.username,
+        passwordSet: !!config.password,
         configured: true
       });
     } else {
@@ -24,10 +34,11 @@ router.get('/config', async (req, res) => {
   }
 });
 
-// Save iLO configuration
-router.post('/config', async (req, res) => {
+// Save iLO configuration, an omitted password keeps the stored one for the same host
+router.post('/config', requireRole('admin'), async (req, res) => {
   try {
-    const { host, username, password } = req.body;
+    const { host, username } = req.body;
+    const password = await resolvePassword(host, req.body.password);
     
     if (!host || !username || !password) {
       return res.status(400).json({ error: 'Host, username, and password are required' });
@@ -58,10 +69,11 @@ router.post('/config', async (req, res) => {
   }
 });
 
-// Test iLO connection
-router.post('/test', async (req, res) => {
+// Test iLO connection, falling back to the stored password when none is given
+router.post('/test', requireRole('admin'), async (req, res) => {
   try {
-    const { host, username, password } = req.body;
+    const { host, username } = req.body;
+    const password = await resolvePassword(host, req.body.password);
     
     if (!host || !username || !password) {
       return res.status(400).json({ error: 'Host, username, and password are required' });
@@ -93,7 +105,7 @@ router.get('/status', async (req, res) => {
 });
 
 // Reset iLO configuration (for testing purposes)
-router.delete('/config', async (req, res) => {
+router.delete('/config', requireRole('admin'), async (req, res) => {
   try {
     await clearILoConfig();
     res.json({ success: true, message: 'iLO configuration cleared successfully' });
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { getLogs, getRecentLogs, clearLogs } from "../services/logger.js";
+import { requireRole } from "../middleware/auth.js";
 
 const router = Router();
 
@@ -27,7 +28,7 @@ router.get("/logs/recent", (req, res) => {
 });
 
 // DELETE /api/debug/logs - Clear all logs
-router.delete("/logs", (_req, res) => {
+router.delete("/logs", requireRole("admin"), (_req, res) => {
   try {
     clearLogs();
     res.json({ message: 'Logs cleared successfully' });
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { EnergyTariff, getEnergyTariff, saveEnergyTariff, validateEnergyTariff } from '../services/energy.js';
+import { requireRole } from '../middleware/auth.js';
+
+const router = Router();
+
+// Keep only the known fields so stray keys never end up in the tariff file
+function toEnergyTariff(body: any): EnergyTariff {
+  return {
+    currency: typeof body?.currency === 'string' ? body.currency.trim().toUpperCase() : body?.currency,
+    baseRate: body?.baseRate,
+    timeOfUse: Array.isArray(body?.timeOfUse)
+      ? body.timeOfUse.map((period: any) => ({
+        name: typeof period?.name === 'string' ? period.name.trim() : period?.name,
+        days: period?.days,
+        startHour: period?.startHour,
+        endHour: period?.endHour,
+        rate: period?.rate
+      }))
+      : body?.timeOfUse
+  };
+}
+
+// GET /api/energy/tariff — electricity tariff used for cost estimates
+router.get('/tariff', async (_req, res) => {
+  try {
+    res.json(await getEnergyTariff());
+  } catch (error) {
+    console.error('Error getting energy tariff:', error);
+    res.status(500).json({ error: 'Failed to get energy tariff' });
+  }
+});
+
+// PUT /api/energy/tariff — replace the tariff
+router.put('/tariff', requireRole('admin'), async (req, res) => {
+  try {
+    const tariff = toEnergyTariff(req.body);
+    const validationError = validateEnergyTariff(tariff);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    await saveEnergyTariff(tariff);
+    res.json(tariff);
+  } catch (error) {
+    console.error('Error saving energy tariff:', error);
+    res.status(500).json({ error: 'Failed to save energy tariff' });
+  }
+});
+
+export default router;
@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { liveEvents, LiveEvent } from '../services/liveEvents.js';
+import { DEFAULT_SERVER_ID, getServer } from '../services/servers.js';
+import { getSession, hasRole } from '../services/auth.js';
+
+const router = Router();
+
+const HEARTBEAT_INTERVAL_MS = 25000; // Below the idle timeout of common reverse proxies
+
+// GET /api/events?serverId= — Server-Sent Events stream with one server's readings, plus the backend console for admins
+router.get('/', async (req, res) => {
+  const serverId = typeof req.query.serverId === 'string' && req.query.serverId
+    ? req.query.serverId
+    : DEFAULT_SERVER_ID;
+
+  try {
+    if (serverId !== DEFAULT_SERVER_ID && !(await getServer(serverId))) {
+      return res.status(404).json({ error: 'Server not found' });
+    }
+  } catch (error) {
+    console.error('Error loading server:', error);
+    return res.status(500).json({ error: 'Failed to load server' });
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no' // Stop nginx from buffering the stream
+  });
+  res.flushHeaders();
+
+  // No logging past this point: console output is itself streamed to every client
+  const write = (chunk: string) => {
+    if (!res.writableEnded) {
+      res.write(chunk);
+    }
+  };
+
+  write('retry: 5000\n\n');
+
+  // requireSession already validated the bearer token
+  const token = req.headers.authorization!.substring(7);
+  const heartbeat = setInterval(() => {
+    // A stream outlives the request that opened it, so end it once the session expires or is revoked
+    if (!getSession(token)) {
+      res.end();
+      return;
+    }
+    write(': keep-alive\n\n');
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const removeClient = liveEvents.addClient({
+    serverId,
+    receivesConsole: hasRole((req as any).user.role, 'admin'),
+    send: (event: LiveEvent) => write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`),
+    close: () => res.end()
+  });
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    removeClient();
+  });
+});
+
+export default router;
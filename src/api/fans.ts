@@ -10,8 +10,11 @@ import {
   getFanInfo,
   getFanPidInfo,
   getFanGroupInfo,
+  getFanGroups,
   invalidateThermalCache
 } from "../services/ilo.js";
+import { centralizedDataFetcher } from "../services/centralizedDataFetcher.js";
+import { requireRole } from "../middleware/auth.js";
 
 const router = Router();
 
@@ -26,7 +29,7 @@ router.get("/", async (_req, res) => {
 });
 
 // POST /fans/override — override a specific fan speed
-router.post("/override", async (req, res) => {
+router.post("/override", requireRole("operator"), async (req, res) => {
   try {
     const { fanId, speed } = req.body;
     if (!fanId || speed === undefined) {
@@ -40,13 +43,14 @@ router.post("/override", async (req, res) => {
 });
 
 // POST /fans/set-all — set all fans to the same speed
-router.post("/set-all", async (req, res) => {
+router.post("/set-all", requireRole("operator"), async (req, res) => {
   try {
     const { speed } = req.body;
     if (speed === undefined) {
       return res.status(400).json({ error: "speed is required" });
     }
     await setFanSpeed(speed);
+    centralizedDataFetcher.boost();
     res.json({ success: true, message: `All fans set to ${speed}%` });
   } catch (err) {
     res.status(500).json({ error: (err as Error).message });
@@ -54,7 +58,7 @@ router.post("/set-all", async (req, res) => {
 });
 
 // POST /fans/reset — reset all fan overrides
-router.post("/reset", async (_req, res) => {
+router.post("/reset", requireRole("operator"), async (_req, res) => {
   try {
     resetFanOverrides();
     res.json({ success: true, message: "All fan overrides reset" });
@@ -64,9 +68,10 @@ router.post("/reset", async (_req, res) => {
 });
 
 // POST /fans/unlock — unlock manual fan control via SSH
-router.post("/unlock", async (_req, res) => {
+router.post("/unlock", requireRole("operator"), async (_req, res) => {
   try {
     await unlockFanControl();
+    centralizedDataFetcher.boost();
     res.json({ success: true, message: "Fan control unlocked successfully" });
   } catch (err) {
     res.status(500).json({ success: false, error: (err as Error).message });
@@ -74,13 +79,14 @@ router.post("/unlock", async (_req, res) => {
 });
 
 // POST /fans/lock — lock specific fan at a speed
-router.post("/lock", async (req, res) => {
+router.post("/lock", requireRole("operator"), async (req, res) => {
   try {
     const { fanId, speed } = req.body;
     if (fanId === undefined || speed === undefined) {
       return res.status(400).json({ error: "fanId and speed are required" });
     }
     await lockFanAtSpeed(fanId, speed);
+    centralizedDataFetcher.boost();
     res.json({ success: true, message: `Fan ${fanId} locked at ${speed}%` });
   } catch (err) {
     res.status(500).json({ success: false, error: (err as Error).message });
@@ -88,13 +94,14 @@ router.post("/lock", async (req, res) => {
 });
 
 // POST /fans/pid-low-limit — set PID low limit
-router.post("/pid-low-limit", async (req, res) => {
+router.post("/pid-low-limit", requireRole("operator"), async (req, res) => {
   try {
     const { pidId, lowLimit } = req.body;
     if (pidId === undefined || lowLimit === undefined) {
       return res.status(400).json({ error: "pidId and lowLimit are required" });
     }
     await setPidLowLimit(pidId, lowLimit);
+    centralizedDataFetcher.boost();
     res.json({ success: true, message: `PID ${pidId} low limit set to ${lowLimit}%` });
   } catch (err) {
     res.status(500).json({ success: false, error: (err as Error).message });
@@ -131,6 +138,16 @@ router.get("/group-info", async (_req, res) => {
   }
 });
 
+// GET /fans/groups — fan groups parsed from `fan info g`
+router.get("/groups", async (_req, res) => {
+  try {
+    const groups = await getFanGroups();
+    res.json(groups);
+  } catch (err) {
+    res.status(500).json({ error: (err as Error).message });
+  }
+});
+
 // POST /fans/invalidate-cache — force refresh of thermal data cache
 router.post("/invalidate-cache", async (_req, res) => {
   try {
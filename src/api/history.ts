@@ -1,7 +1,22 @@
-import { Router } from 'express';
-import { historicalStorage, TIME_RANGES } from '../services/historicalStorage.js';
+import { Router, Request } from 'express';
+import {
+  historicalStorage,
+  TIME_RANGES,
+  DATABASE_VIEW_TABLES,
+  DATABASE_SORT_COLUMNS,
+  DatabaseViewTable,
+  DatabaseSortColumn
+} from '../services/historicalStorage.js';
+import { requireRole } from '../middleware/auth.js';
+import { DEFAULT_SERVER_ID } from '../services/servers.js';
+import { getEnergyReport, EnergyPeriod, ENERGY_PERIODS } from '../services/energy.js';
 
-const router = Router();
+// Also mounted at /api/servers/:serverId/history, the database viewer routes cover every server
+const router = Router({ mergeParams: true });
+
+function serverIdOf(req: Request): string {
+  return req.params.serverId || DEFAULT_SERVER_ID;
+}
 
 // Get time range options
 router.get('/time-ranges', (req, res) => {
@@ -14,7 +29,7 @@ router.get('/sensors', async (req, res) => {
     const timeRange = parseInt(req.query.timeRange as string) || 15; // Default to 15 minutes
     const sensorName = req.query.sensorName as string;
     
-    const readings = await historicalStorage.getSensorReadings(timeRange, sensorName);
+    const readings = await historicalStorage.getSensorReadings(timeRange, sensorName, serverIdOf(req));
     res.json(readings);
   } catch (error) {
     console.error('Error fetching sensor readings:', error);
@@ -28,7 +43,7 @@ router.get('/fans', async (req, res) => {
     const timeRange = parseInt(req.query.timeRange as string) || 15; // Default to 15 minutes
     const fanName = req.query.fanName as string;
     
-    const readings = await historicalStorage.getFanReadings(timeRange, fanName);
+    const readings = await historicalStorage.getFanReadings(timeRange, fanName, serverIdOf(req));
     res.json(readings);
   } catch (error) {
     console.error('Error fetching fan readings:', error);
@@ -36,13 +51,39 @@ router.get('/fans', async (req, res) => {
   }
 });
 
+// Get Smart Array drive temperatures for a time range
+router.get('/drives', async (req, res) => {
+  try {
+    const timeRange = parseInt(req.query.timeRange as string) || 15; // Default to 15 minutes
+    const driveName = req.query.driveName as string;
+    
+    const readings = await historicalStorage.getDriveReadings(timeRange, driveName, serverIdOf(req));
+    res.json(readings);
+  } catch (error) {
+    console.error('Error fetching drive readings:', error);
+    res.status(500).json({ error: 'Failed to fetch drive readings' });
+  }
+});
+
+// Get power readings for a time range
+router.get('/power', async (req, res) => {
+  try {
+    const timeRange = parseInt(req.query.timeRange as string) || 15; // Default to 15 minutes
+    const readings = await historicalStorage.getPowerReadings(timeRange, serverIdOf(req));
+    res.json(readings);
+  } catch (error) {
+    console.error('Error fetching power readings:', error);
+    res.status(500).json({ error: 'Failed to fetch power readings' });
+  }
+});
+
 // Get historical data by type
 router.get('/data/:type', async (req, res) => {
   try {
     const { type } = req.params;
     const timeRange = parseInt(req.query.timeRange as string) || 15; // Default to 15 minutes
     
-    const data = await historicalStorage.getHistoricalData(type, timeRange);
+    const data = await historicalStorage.getHistoricalData(type, timeRange, serverIdOf(req));
     res.json(data);
   } catch (error) {
     console.error(`Error fetching ${req.params.type} data:`, error);
@@ -53,7 +94,7 @@ router.get('/data/:type', async (req, res) => {
 // Get latest readings for dashboard
 router.get('/latest/sensors', async (req, res) => {
   try {
-    const readings = await historicalStorage.getLatestSensorReadings();
+    const readings = await historicalStorage.getLatestSensorReadings(serverIdOf(req));
     res.json(readings);
   } catch (error) {
     console.error('Error fetching latest sensor readings:', error);
@@ -63,7 +104,7 @@ router.get('/latest/sensors', async (req, res) => {
 
 router.get('/latest/fans', async (req, res) => {
   try {
-    const readings = await historicalStorage.getLatestFanReadings();
+    const readings = await historicalStorage.getLatestFanReadings(serverIdOf(req));
     res.json(readings);
   } catch (error) {
     console.error('Error fetching latest fan readings:', error);
@@ -74,7 +115,7 @@ router.get('/latest/fans', async (req, res) => {
 router.get('/latest/:type', async (req, res) => {
   try {
     const { type } = req.params;
-    const data = await historicalStorage.getLatestHistoricalData(type);
+    const data = await historicalStorage.getLatestHistoricalData(type, serverIdOf(req));
     res.json(data);
   } catch (error) {
     console.error(`Error fetching latest ${req.params.type} data:`, error);
@@ -88,7 +129,7 @@ router.get('/aggregated/sensors', async (req, res) => {
     const timeRange = parseInt(req.query.timeRange as string) || 15; // Default to 15 minutes
     const interval = parseInt(req.query.interval as string) || 1; // Default to 1 minute intervals
     
-    const data = await historicalStorage.getAggregatedSensorData(timeRange, interval);
+    const data = await historicalStorage.getAggregatedSensorData(timeRange, interval, serverIdOf(req));
     res.json(data);
   } catch (error) {
     console.error('Error fetching aggregated sensor data:', error);
@@ -100,7 +141,7 @@ router.get('/aggregated/sensors', async (req, res) => {
 router.get('/chart/sensors', async (req, res) => {
   try {
     const timeRange = parseInt(req.query.timeRange as string) || 15;
-    const readings = await historicalStorage.getSensorReadings(timeRange);
+    const readings = await historicalStorage.getSensorReadings(timeRange, undefined, serverIdOf(req));
     
     // Group readings by sensor
     const sensorGroups: { [key: string]: any[] } = {};
@@ -139,7 +180,8 @@ router.get('/chart/sensors', async (req, res) => {
 
     res.json({
       datasets,
-      timeRange
+      timeRange,
+      resolution: historicalStorage.resolutionFor(timeRange)
     });
   } catch (error) {
     console.error('Error fetching chart sensor data:', error);
@@ -150,7 +192,7 @@ router.get('/chart/sensors', async (req, res) => {
 router.get('/chart/fans', async (req, res) => {
   try {
     const timeRange = parseInt(req.query.timeRange as string) || 15;
-    const readings = await historicalStorage.getFanReadings(timeRange);
+    const readings = await historicalStorage.getFanReadings(timeRange, undefined, serverIdOf(req));
     
     // Group readings by fan
     const fanGroups: { [key: string]: any[] } = {};
@@ -187,7 +229,8 @@ router.get('/chart/fans', async (req, res) => {
 
     res.json({
       datasets,
-      timeRange
+      timeRange,
+      resolution: historicalStorage.resolutionFor(timeRange)
     });
   } catch (error) {
     console.error('Error fetching chart fan data:', error);
@@ -195,8 +238,83 @@ router.get('/chart/fans', async (req, res) => {
   }
 });
 
-// Database viewer endpoints for History Tab
-router.get('/database/stats', async (req, res) => {
+// Power chart, raw readings while they are kept and hourly averages beyond that
+router.get('/chart/power', async (req, res) => {
+  try {
+    const timeRange = parseInt(req.query.timeRange as string) || 15;
+    const serverId = serverIdOf(req);
+
+    let datasets: any[];
+    if (historicalStorage.resolutionFor(timeRange) === 'raw') {
+      const readings = await historicalStorage.getPowerReadings(timeRange, serverId);
+      datasets = [
+        {
+          label: 'Present Power',
+          data: readings.map(reading => ({ x: reading.timestamp, y: reading.present_power })),
+          borderColor: 'rgb(255, 159, 64)',
+          backgroundColor: 'rgba(255, 159, 64, 0.2)',
+          tension: 0.1
+        }
+      ];
+      if (readings.some(reading => reading.power_cap > 0)) {
+        datasets.push({
+          label: 'Power Cap',
+          data: readings.map(reading => ({ x: reading.timestamp, y: reading.power_cap > 0 ? reading.power_cap : null })),
+          borderColor: 'rgb(255, 99, 132)',
+          backgroundColor: 'rgba(255, 99, 132, 0.2)',
+          tension: 0
+        });
+      }
+    } else {
+      const hours = await historicalStorage.getHourlyEnergy(Date.now() - timeRange * 60 * 1000, serverId);
+      const withSamples = hours.filter(hour => hour.samples > 0);
+      datasets = [
+        {
+          label: 'Average Power',
+          data: withSamples.map(hour => ({ x: hour.hourStart, y: Math.round(hour.avgWatts) })),
+          borderColor: 'rgb(255, 159, 64)',
+          backgroundColor: 'rgba(255, 159, 64, 0.2)',
+          tension: 0.1
+        },
+        {
+          label: 'Peak Power',
+          data: withSamples.map(hour => ({ x: hour.hourStart, y: hour.maxWatts })),
+          borderColor: 'rgb(255, 99, 132)',
+          backgroundColor: 'rgba(255, 99, 132, 0.2)',
+          tension: 0.1
+        }
+      ];
+    }
+
+    res.json({
+      datasets,
+      timeRange
+    });
+  } catch (error) {
+    console.error('Error fetching chart power data:', error);
+    res.status(500).json({ error: 'Failed to fetch chart power data' });
+  }
+});
+
+// Energy used and its estimated cost per day, week or month
+router.get('/energy', async (req, res) => {
+  try {
+    const period = (req.query.period as EnergyPeriod) || 'day';
+    if (!ENERGY_PERIODS.includes(period)) {
+      return res.status(400).json({ error: 'period must be day, week or month' });
+    }
+    const defaultCount = { day: 14, week: 8, month: 12 }[period];
+    const count = Math.min(Math.max(parseInt(req.query.count as string) || defaultCount, 1), 400);
+
+    res.json(await getEnergyReport(period, count, serverIdOf(req)));
+  } catch (error) {
+    console.error('Error fetching energy report:', error);
+    res.status(500).json({ error: 'Failed to fetch energy report' });
+  }
+});
+
+// Database viewer endpoints for History Tab, the raw tables are for admins only
+router.get('/database/stats', requireRole('admin'), async (req, res) => {
   try {
     const stats = await historicalStorage.getDatabaseStats();
     res.json(stats);
@@ -206,13 +324,22 @@ router.get('/database/stats', async (req, res) => {
   }
 });
 
-router.get('/database/data', async (req, res) => {
+router.get('/database/data', requireRole('admin'), async (req, res) => {
   try {
-    const table = req.query.table as 'sensor_readings' | 'fan_readings' | 'historical_data' | 'all' || 'all';
+    const table = (req.query.table || 'all') as DatabaseViewTable;
     const page = parseInt(req.query.page as string) || 1;
     const pageSize = parseInt(req.query.pageSize as string) || 50;
-    const sortBy = req.query.sortBy as 'timestamp' | 'type' | 'name' || 'timestamp';
-    const sortOrder = req.query.sortOrder as 'ASC' | 'DESC' || 'DESC';
+    const sortBy = (req.query.sortBy || 'timestamp') as DatabaseSortColumn;
+    const sortOrder = (req.query.sortOrder || 'DESC') as 'ASC' | 'DESC';
+    if (!DATABASE_VIEW_TABLES.includes(table)) {
+      return res.status(400).json({ error: `table must be one of ${DATABASE_VIEW_TABLES.join(', ')}` });
+    }
+    if (!DATABASE_SORT_COLUMNS.includes(sortBy)) {
+      return res.status(400).json({ error: `sortBy must be one of ${DATABASE_SORT_COLUMNS.join(', ')}` });
+    }
+    if (sortOrder !== 'ASC' && sortOrder !== 'DESC') {
+      return res.status(400).json({ error: 'sortOrder must be ASC or DESC' });
+    }
     
     const result = await historicalStorage.getPaginatedData(table, page, pageSize, sortBy, sortOrder);
     res.json(result);
@@ -222,10 +349,16 @@ router.get('/database/data', async (req, res) => {
   }
 });
 
-router.get('/database/export', async (req, res) => {
+router.get('/database/export', requireRole('admin'), async (req, res) => {
   try {
-    const table = req.query.table as 'sensor_readings' | 'fan_readings' | 'historical_data' | 'all' || 'all';
-    const format = req.query.format as 'csv' | 'json' | 'txt' || 'csv';
+    const table = (req.query.table || 'all') as DatabaseViewTable;
+    const format = (req.query.format || 'csv') as 'csv' | 'json' | 'txt';
+    if (!DATABASE_VIEW_TABLES.includes(table)) {
+      return res.status(400).json({ error: `table must be one of ${DATABASE_VIEW_TABLES.join(', ')}` });
+    }
+    if (format !== 'csv' && format !== 'json' && format !== 'txt') {
+      return res.status(400).json({ error: 'format must be csv, json or txt' });
+    }
     const timeRange = req.query.timeRange ? parseInt(req.query.timeRange as string) : undefined;
     
     const data = await historicalStorage.exportData(table, format, timeRange);
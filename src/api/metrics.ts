@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { renderMetrics } from '../services/metrics.js';
+
+const router = Router();
+
+// GET /metrics — Prometheus text exposition of every server's readings and the fetcher health
+router.get('/', async (_req, res) => {
+  try {
+    const body = await renderMetrics();
+    res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.send(body);
+  } catch (error) {
+    console.error('Error rendering metrics:', error);
+    res.status(500).json({ error: 'Failed to render metrics' });
+  }
+});
+
+export default router;
@@ -35,6 +35,33 @@ router.get('/info', async (req, res) => {
   }
 });
 
+// Get power supply status and redundancy
+router.get('/supplies', async (req, res) => {
+  try {
+    const result = centralizedDataFetcher.getPowerSupplies();
+
+    if (result.error) {
+      console.error('Error getting power supply status:', result.error);
+      return res.status(500).json({ error: result.error });
+    }
+
+    if (!result.data) {
+      if (!centralizedDataFetcher.isRunning()) {
+        return res.status(500).json({ error: 'Power monitoring service is not running. Please check iLO configuration.' });
+      }
+      if (Date.now() - result.lastUpdated.getTime() < 30000) {
+        return res.status(202).json({ error: 'Power supply status still being fetched, please wait...' });
+      }
+      return res.status(500).json({ error: 'No power supply status available. Please check iLO connection.' });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Error getting power supply status:', error);
+    res.status(500).json({ error: 'Failed to get power supply status' });
+  }
+});
+
 // Refresh power information
 router.post('/refresh', async (req, res) => {
   try {
@@ -2,6 +2,7 @@ import { Router } from "express";
 import { getSensors, overrideSensor, resetSensorOverrides, getSensorHistory } from "../services/ilo.js";
 import { centralizedDataFetcher } from "../services/centralizedDataFetcher.js";
 import { runIloCommand } from "../services/sshClient.js";
+import { requireRole } from "../middleware/auth.js";
 
 const router = Router();
 
@@ -53,7 +54,7 @@ router.get("/history", (_req, res) => {
 
 // POST /sensors/override — override a sensor reading
 // { sensorId, value }
-router.post("/override", (req, res) => {
+router.post("/override", requireRole("operator"), (req, res) => {
   try {
     const { sensorId, value } = req.body;
     if (typeof sensorId !== "string" || typeof value !== "number") {
@@ -68,7 +69,7 @@ router.post("/override", (req, res) => {
 });
 
 // POST /sensors/reset — clear all overrides
-router.post("/reset", (_req, res) => {
+router.post("/reset", requireRole("operator"), (_req, res) => {
   try {
     resetSensorOverrides();
     res.json({ ok: true });
@@ -79,7 +80,7 @@ router.post("/reset", (_req, res) => {
 
 // POST /sensors/set-low-limit — set low limit for a sensor
 // { sensorId, lowLimit }
-router.post("/set-low-limit", async (req, res) => {
+router.post("/set-low-limit", requireRole("operator"), async (req, res) => {
   try {
     const { sensorId, lowLimit } = req.body;
     if (typeof sensorId !== "number" || typeof lowLimit !== "number") {
@@ -0,0 +1,462 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  ServerSummary,
+  listServers,
+  getServer,
+  addServer,
+  updateServer,
+  removeServer,
+  findServerByHost,
+  resolveServerPassword
+} from '../services/servers.js';
+import { getDataFetcher, removeDataFetcher } from '../services/centralizedDataFetcher.js';
+import { getSensors, getFans, setFanSpeed, unlockFanControl, invalidateThermalCache } from '../services/ilo.js';
+import { getThermalWatchdog } from '../services/thermalWatchdog.js';
+import { testILoConnection } from '../services/config.js';
+import { closeHostConnections } from '../services/sshClient.js';
+import { historicalStorage } from '../services/historicalStorage.js';
+import {
+  POWER_ACTION_LABELS,
+  isPowerAction,
+  requestPowerActionConfirmation,
+  consumePowerActionConfirmation,
+  executePowerAction,
+  getPowerActionLog
+} from '../services/powerControl.js';
+import { PowerSettingsUpdate, validatePowerSettings, applyPowerSettings } from '../services/power.js';
+import { requireRole } from '../middleware/auth.js';
+import historyRouter from './history.js';
+import systemLogRouter from './systemLog.js';
+
+const router = Router();
+
+type FleetStatus = 'ok' | 'warning' | 'critical' | 'unreachable' | 'stopped';
+
+// Resolve :serverId for the server-scoped routes, 404 for unknown ids
+async function loadServer(req: Request, res: Response, next: NextFunction) {
+  try {
+    const server = await getServer(req.params.serverId);
+    if (!server) {
+      return res.status(404).json({ error: 'Server not found' });
+    }
+    (req as any).server = server;
+    next();
+  } catch (error) {
+    console.error('Error loading server:', error);
+    res.status(500).json({ error: 'Failed to load server' });
+  }
+}
+
+function withStatus(server: ServerSummary) {
+  const fetcher = getDataFetcher(server.id);
+  return {
+    ...server,
+    fetcherRunning: fetcher.isRunning(),
+    lastUpdated: fetcher.getSystemInfo().lastUpdated
+  };
+}
+
+// Send one slice of a fetcher's cache the same way the single-server routes do
+function sendCached<T>(res: Response, serverId: string, result: { data: T; error?: string; lastUpdated: Date }, label: string) {
+  if (result.error) {
+    return res.status(500).json({ error: result.error });
+  }
+
+  if (!result.data) {
+    if (!getDataFetcher(serverId).isRunning()) {
+      return res.status(500).json({ error: `${label} service is not running for this server.` });
+    }
+    if (Date.now() - result.lastUpdated.getTime() < 30000) {
+      return res.status(202).json({ error: `${label} still being fetched, please wait...` });
+    }
+    return res.status(500).json({ error: `No ${label.toLowerCase()} available. Please check the iLO connection.` });
+  }
+
+  res.json(result.data);
+}
+
+// Summary card for the fleet overview, built from the fetcher cache and the 30 second thermal cache
+async function buildOverview(server: ServerSummary) {
+  const fetcher = getDataFetcher(server.id);
+  const [sensors, fans] = await Promise.all([getSensors(server.id), getFans(server.id)]);
+
+  const systemInfo = fetcher.getSystemInfo();
+  const powerInfo = fetcher.getPowerInfo();
+  const errors = [systemInfo.error, powerInfo.error].filter((error): error is string => !!error);
+
+  const hottest = sensors.reduce<typeof sensors[number] | null>(
+    (max, sensor) => (!max || sensor.reading > max.reading ? sensor : max),
+    null
+  );
+  const criticalSensors = sensors.filter(sensor => sensor.critical && sensor.reading >= sensor.critical).length;
+  const degradedSensors = sensors.filter(sensor => sensor.status !== 'OK').length;
+
+  let status: FleetStatus = 'ok';
+  if (!fetcher.isRunning()) {
+    status = 'stopped';
+  } else if (sensors.length === 0 && fans.length === 0) {
+    status = 'unreachable';
+  } else if (criticalSensors > 0) {
+    status = 'critical';
+  } else if (degradedSensors > 0 || errors.length > 0) {
+    status = 'warning';
+  }
+
+  return {
+    ...withStatus(server),
+    status,
+    errors,
+    systemInfo: systemInfo.data,
+    power: powerInfo.data
+      ? { presentPower: powerInfo.data.presentPower, averagePower: powerInfo.data.averagePower }
+      : null,
+    thermal: {
+      sensorCount: sensors.length,
+      criticalSensors,
+      degradedSensors,
+      hottest: hottest ? { name: hottest.name, reading: hottest.reading, critical: hottest.critical } : null
+    },
+    fans: {
+      count: fans.length,
+      averageSpeed: fans.length > 0 ? Math.round(fans.reduce((sum, fan) => sum + fan.speed, 0) / fans.length) : null
+    }
+  };
+}
+
+// GET /api/servers — registered servers and whether their fetchers are running
+router.get('/', async (_req, res) => {
+  try {
+    const servers = await listServers();
+    res.json(servers.map(withStatus));
+  } catch (error) {
+    console.error('Error listing servers:', error);
+    res.status(500).json({ error: 'Failed to list servers' });
+  }
+});
+
+// GET /api/servers/overview — health summary of every server for the fleet page
+router.get('/overview', async (_req, res) => {
+  try {
+    const servers = await listServers();
+    const overview = await Promise.all(servers.map(buildOverview));
+    res.json(overview);
+  } catch (error) {
+    console.error('Error building fleet overview:', error);
+    res.status(500).json({ error: 'Failed to build fleet overview' });
+  }
+});
+
+// POST /api/servers — register a server and start collecting its data
+// { name, host, username, password }
+router.post('/', requireRole('admin'), async (req, res) => {
+  try {
+    const { name, host, username, password } = req.body;
+    if (!name || !host || !username || !password) {
+      return res.status(400).json({ error: 'Name, host, username, and password are required' });
+    }
+
+    const existing = await findServerByHost(host);
+    if (existing) {
+      return res.status(409).json({ error: `${host} is already registered as "${existing.name}"` });
+    }
+
+    const server = await addServer({ name, host, username, password });
+    getDataFetcher(server.id).start();
+
+    res.status(201).json(withStatus(server));
+  } catch (error) {
+    console.error('Error adding server:', error);
+    res.status(500).json({ error: 'Failed to add server' });
+  }
+});
+
+// POST /api/servers/test — test credentials before registering a server
+router.post('/test', requireRole('admin'), async (req, res) => {
+  try {
+    const { host, username, password } = req.body;
+    if (!host || !username || !password) {
+      return res.status(400).json({ error: 'Host, username, and password are required' });
+    }
+
+    const isConnected = await testILoConnection({ host, username, password });
+    res.json({ success: isConnected, message: isConnected ? 'iLO connection successful' : 'iLO connection failed' });
+  } catch (error) {
+    console.error('Error testing iLO connection:', error);
+    res.status(500).json({ error: 'Failed to test iLO connection' });
+  }
+});
+
+// GET /api/servers/:serverId — one registered server
+router.get('/:serverId', loadServer, (req, res) => {
+  res.json(withStatus((req as any).server));
+});
+
+// PUT /api/servers/:serverId — edit a server, an omitted password keeps the stored one for the same host
+router.put('/:serverId', requireRole('admin'), loadServer, async (req, res) => {
+  try {
+    const current: ServerSummary = (req as any).server;
+    const name = req.body.name || current.name;
+    const host = req.body.host || current.host;
+    const username = req.body.username || current.username;
+    const password = await resolveServerPassword(current.id, host, req.body.password);
+
+    if (!password) {
+      return res.status(400).json({ error: 'A password is required when changing the host' });
+    }
+
+    const clash = await findServerByHost(host, current.id);
+    if (clash) {
+      return res.status(409).json({ error: `${host} is already registered as "${clash.name}"` });
+    }
+
+    const server = await updateServer(current.id, { name, host, username, password });
+    if (!server) {
+      return res.status(404).json({ error: 'Server not found' });
+    }
+
+    // Drop anything cached under the old details and restart collection
+    closeHostConnections(current.host);
+    invalidateThermalCache(current.id);
+    getDataFetcher(current.id).start();
+
+    res.json(withStatus(server));
+  } catch (error) {
+    console.error('Error updating server:', error);
+    res.status(500).json({ error: 'Failed to update server' });
+  }
+});
+
+// DELETE /api/servers/:serverId — unregister a server, ?purgeHistory=true also drops its history
+router.delete('/:serverId', requireRole('admin'), loadServer, async (req, res) => {
+  try {
+    const server: ServerSummary = (req as any).server;
+    if (server.isDefault) {
+      return res.status(400).json({ error: 'The primary server is managed in Settings and cannot be removed' });
+    }
+
+    await removeServer(server.id);
+    removeDataFetcher(server.id);
+    closeHostConnections(server.host);
+    invalidateThermalCache(server.id);
+
+    if (req.query.purgeHistory === 'true') {
+      await historicalStorage.deleteServerData(server.id);
+    }
+
+    res.json({ success: true, message: `Server ${server.name} removed` });
+  } catch (error) {
+    console.error('Error removing server:', error);
+    res.status(500).json({ error: 'Failed to remove server' });
+  }
+});
+
+// POST /api/servers/:serverId/test — test a registered server, optionally with changed details
+router.post('/:serverId/test', requireRole('admin'), loadServer, async (req, res) => {
+  try {
+    const server: ServerSummary = (req as any).server;
+    const host = req.body.host || server.host;
+    const username = req.body.username || server.username;
+    const password = await resolveServerPassword(server.id, host, req.body.password);
+
+    if (!password) {
+      return res.status(400).json({ error: 'A password is required when changing the host' });
+    }
+
+    const isConnected = await testILoConnection({ host, username, password });
+    res.json({ success: isConnected, message: isConnected ? 'iLO connection successful' : 'iLO connection failed' });
+  } catch (error) {
+    console.error('Error testing iLO connection:', error);
+    res.status(500).json({ error: 'Failed to test iLO connection' });
+  }
+});
+
+// GET /api/servers/:serverId/sensors — current temperature sensors
+router.get('/:serverId/sensors', loadServer, async (req, res) => {
+  try {
+    res.json(await getSensors(req.params.serverId));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// GET /api/servers/:serverId/fans — current fan speeds
+router.get('/:serverId/fans', loadServer, async (req, res) => {
+  try {
+    res.json(await getFans(req.params.serverId));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// POST /api/servers/:serverId/fans/set-all — lock every fan at one speed
+router.post('/:serverId/fans/set-all', requireRole('operator'), loadServer, async (req, res) => {
+  try {
+    const { speed } = req.body;
+    if (typeof speed !== 'number') {
+      return res.status(400).json({ error: 'speed is required' });
+    }
+    await setFanSpeed(speed, req.params.serverId);
+    getDataFetcher(req.params.serverId).boost();
+    res.json({ success: true, message: `All fans set to ${speed}%` });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// POST /api/servers/:serverId/fans/unlock — hand fan control back to iLO
+router.post('/:serverId/fans/unlock', requireRole('operator'), loadServer, async (req, res) => {
+  try {
+    await unlockFanControl(req.params.serverId);
+    invalidateThermalCache(req.params.serverId);
+    getDataFetcher(req.params.serverId).boost();
+    res.json({ success: true, message: 'Fan control unlocked successfully' });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// GET /api/servers/:serverId/watchdog — thermal watchdog state and recent events of this server
+router.get('/:serverId/watchdog', loadServer, (req, res) => {
+  res.json(getThermalWatchdog(req.params.serverId).getStatus());
+});
+
+// GET /api/servers/:serverId/system/info — cached system information
+router.get('/:serverId/system/info', loadServer, (req, res) => {
+  sendCached(res, req.params.serverId, getDataFetcher(req.params.serverId).getSystemInfo(), 'System information');
+});
+
+// GET /api/servers/:serverId/system/inventory — cached processors, DIMMs and PCI devices
+router.get('/:serverId/system/inventory', loadServer, (req, res) => {
+  sendCached(res, req.params.serverId, getDataFetcher(req.params.serverId).getInventory(), 'Hardware inventory');
+});
+
+// GET /api/servers/:serverId/system/storage — cached Smart Array controllers and drives
+router.get('/:serverId/system/storage', loadServer, (req, res) => {
+  sendCached(res, req.params.serverId, getDataFetcher(req.params.serverId).getStorage(), 'Storage status');
+});
+
+// GET /api/servers/:serverId/power/info — cached power readings
+router.get('/:serverId/power/info', loadServer, (req, res) => {
+  sendCached(res, req.params.serverId, getDataFetcher(req.params.serverId).getPowerInfo(), 'Power information');
+});
+
+// GET /api/servers/:serverId/power/supplies — cached power supply status and redundancy
+router.get('/:serverId/power/supplies', loadServer, (req, res) => {
+  sendCached(res, req.params.serverId, getDataFetcher(req.params.serverId).getPowerSupplies(), 'Power supply status');
+});
+
+// PUT /api/servers/:serverId/power/settings — regulator mode, power cap and power warning
+router.put('/:serverId/power/settings', requireRole('operator'), loadServer, async (req, res) => {
+  try {
+    const fetcher = getDataFetcher(req.params.serverId);
+    const limits = fetcher.getPowerInfo().data;
+    if (!limits) {
+      return res.status(503).json({ error: 'Power information is not available yet, cannot check the new settings' });
+    }
+
+    const { regulatorMode, powerCap, warning } = req.body ?? {};
+    const update: PowerSettingsUpdate = { regulatorMode, powerCap, warning };
+    const validationError = validatePowerSettings(update, limits);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    console.log(`⚡ Power settings of ${req.params.serverId} changed by ${(req as any).user?.username}:`, update);
+    await applyPowerSettings(update, req.params.serverId);
+
+    await fetcher.refresh();
+    res.json(fetcher.getPowerInfo().data ?? limits);
+  } catch (error) {
+    console.error('Error applying power settings:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// POST /api/servers/:serverId/power/confirm — first step of a power action, returns a one-time token
+router.post('/:serverId/power/confirm', requireRole('operator'), loadServer, (req, res) => {
+  const { action } = req.body;
+  if (!isPowerAction(action)) {
+    return res.status(400).json({ error: 'Unknown power action' });
+  }
+  const user = (req as any).user;
+  const confirmation = requestPowerActionConfirmation(user.id, req.params.serverId, action);
+  res.json({ ...confirmation, action, label: POWER_ACTION_LABELS[action], server: (req as any).server.name });
+});
+
+// POST /api/servers/:serverId/power/actions — run a power action with the token from /power/confirm
+router.post('/:serverId/power/actions', requireRole('operator'), loadServer, async (req, res) => {
+  try {
+    const { action, confirmationToken } = req.body;
+    if (!isPowerAction(action)) {
+      return res.status(400).json({ error: 'Unknown power action' });
+    }
+    const user = (req as any).user;
+    if (typeof confirmationToken !== 'string'
+      || !consumePowerActionConfirmation(confirmationToken, user.id, req.params.serverId, action)) {
+      return res.status(409).json({ error: 'Confirmation expired or invalid, please confirm the action again' });
+    }
+
+    const record = await executePowerAction(req.params.serverId, action, {
+      userId: user.id,
+      username: user.username,
+      ipAddress: req.ip
+    });
+    if (record.success !== false) {
+      // Pick up the new power state without waiting for the next cycle, also when the outcome is unknown
+      getDataFetcher(req.params.serverId).refresh().catch(error => {
+        console.error('Error refreshing after power action:', error);
+      });
+    }
+    if (!record.success) {
+      return res.status(record.success === null ? 504 : 502).json({ error: record.error, record });
+    }
+
+    res.json({ success: true, message: `${POWER_ACTION_LABELS[action]} sent`, record });
+  } catch (error) {
+    console.error('Error running power action:', error);
+    res.status(500).json({ error: 'Failed to run power action' });
+  }
+});
+
+// GET /api/servers/:serverId/power/actions — audit trail of power actions, newest first
+router.get('/:serverId/power/actions', loadServer, async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+    res.json(await getPowerActionLog(req.params.serverId, limit));
+  } catch (error) {
+    console.error('Error getting power action log:', error);
+    res.status(500).json({ error: 'Failed to get power action log' });
+  }
+});
+
+// GET /api/servers/:serverId/sensors/pids — cached PID algorithm data
+router.get('/:serverId/sensors/pids', loadServer, (req, res) => {
+  sendCached(res, req.params.serverId, getDataFetcher(req.params.serverId).getPidData(), 'PID data');
+});
+
+// GET /api/servers/:serverId/systemlog/recent — recent IML entries, empty while unavailable
+router.get('/:serverId/systemlog/recent', loadServer, (req, res) => {
+  const result = getDataFetcher(req.params.serverId).getSystemLogs();
+  res.json(Array.isArray(result.data) ? result.data : []);
+});
+
+// POST /api/servers/:serverId/refresh — run a fetch cycle now
+router.post('/:serverId/refresh', loadServer, async (req, res) => {
+  try {
+    const fetcher = getDataFetcher(req.params.serverId);
+    invalidateThermalCache(req.params.serverId);
+    await fetcher.refresh();
+    res.json({ success: true, lastUpdated: fetcher.getSystemInfo().lastUpdated });
+  } catch (error) {
+    console.error('Error refreshing server data:', error);
+    res.status(500).json({ error: 'Failed to refresh server data' });
+  }
+});
+
+// /api/servers/:serverId/history/* — the history routes scoped to one server
+router.use('/:serverId/history', loadServer, historyRouter);
+
+// /api/servers/:serverId/systemlog/* — the archived IML and IEL of one server
+router.use('/:serverId/systemlog', loadServer, systemLogRouter);
+
+export default router;
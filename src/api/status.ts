@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { centralizedDataFetcher } from '../services/centralizedDataFetcher.js';
 import { isILoConfigured } from '../services/config.js';
 import { getSSHConnectionStats } from '../services/sshClient.js';
+import { thermalWatchdog } from '../services/thermalWatchdog.js';
+import { FAN_CONTROL_ENABLED, DEFAULT_FAN_SPEED } from '../config/env.js';
 
 const router = Router();
 
@@ -15,16 +17,35 @@ router.get('/', async (_req, res) => {
     const systemLogsResult = centralizedDataFetcher.getSystemLogs();
     const powerInfoResult = centralizedDataFetcher.getPowerInfo();
     const systemInfoResult = centralizedDataFetcher.getSystemInfo();
+    const watchdogStatus = thermalWatchdog.getStatus();
     
     res.json({
       iloConfigured: configured,
       centralizedFetcherRunning: fetcherRunning,
       lastDataUpdate: systemLogsResult.lastUpdated,
+      polling: {
+        ...centralizedDataFetcher.getPollingStatus(),
+        stats: centralizedDataFetcher.getStats()
+      },
+      fanControl: {
+        enabled: FAN_CONTROL_ENABLED,
+        defaultSpeed: DEFAULT_FAN_SPEED
+      },
       sshConnections: {
         total: sshStats.total,
         connected: sshStats.connected,
         hosts: sshStats.hosts
       },
+      thermalWatchdog: {
+        enabled: watchdogStatus.enabled,
+        running: watchdogStatus.running,
+        tripped: watchdogStatus.tripped,
+        trippedSince: watchdogStatus.trippedSince,
+        lastCheck: watchdogStatus.lastCheck,
+        hottestMargin: watchdogStatus.hottestMargin,
+        lastEvent: watchdogStatus.recentEvents[0] || null,
+        error: watchdogStatus.lastError
+      },
       dataStatus: {
         systemLogs: {
           available: systemLogsResult.data.length > 0,
@@ -37,6 +37,60 @@ router.get("/info", async (_req, res) => {
   }
 });
 
+// Get the hardware inventory: processors, memory DIMMs and PCI devices
+router.get("/inventory", async (_req, res) => {
+  try {
+    const result = centralizedDataFetcher.getInventory();
+
+    if (result.error) {
+      console.error("Error fetching hardware inventory:", result.error);
+      return res.status(500).json({ error: result.error });
+    }
+
+    if (!result.data) {
+      if (!centralizedDataFetcher.isRunning()) {
+        return res.status(500).json({ error: 'Hardware inventory service is not running. Please check iLO configuration.' });
+      }
+      if (Date.now() - result.lastUpdated.getTime() < 30000) {
+        return res.status(202).json({ error: 'Hardware inventory still being fetched, please wait...' });
+      }
+      return res.status(500).json({ error: 'No hardware inventory available. Please check iLO connection.' });
+    }
+
+    res.json(result.data);
+  } catch (err) {
+    console.error("Error fetching hardware inventory:", err);
+    res.status(500).json({ error: (err as Error).message });
+  }
+});
+
+// Get Smart Array controller, logical and physical drive status
+router.get("/storage", async (_req, res) => {
+  try {
+    const result = centralizedDataFetcher.getStorage();
+
+    if (result.error) {
+      console.error("Error fetching storage status:", result.error);
+      return res.status(500).json({ error: result.error });
+    }
+
+    if (!result.data) {
+      if (!centralizedDataFetcher.isRunning()) {
+        return res.status(500).json({ error: 'Storage monitoring service is not running. Please check iLO configuration.' });
+      }
+      if (Date.now() - result.lastUpdated.getTime() < 30000) {
+        return res.status(202).json({ error: 'Storage status still being fetched, please wait...' });
+      }
+      return res.status(500).json({ error: 'No storage status available. Please check iLO connection.' });
+    }
+
+    res.json(result.data);
+  } catch (err) {
+    console.error("Error fetching storage status:", err);
+    res.status(500).json({ error: (err as Error).message });
+  }
+});
+
 // Force refresh system information
 router.post("/info/refresh", async (_req, res) => {
   try {
@@ -1,7 +1,21 @@
-import { Router } from 'express';
+import { Router, Request } from 'express';
 import { centralizedDataFetcher } from '../services/centralizedDataFetcher.js';
+import { historicalStorage, EventLogKind, LogRecordRef } from '../services/historicalStorage.js';
+import { DEFAULT_SERVER_ID } from '../services/servers.js';
+import { toLogRecordQuery, validateLogRecordQuery, logRecordsToCsv } from '../services/systemLog.js';
+import { requireRole } from '../middleware/auth.js';
 
-const router = Router();
+// Also mounted at /api/servers/:serverId/systemlog for the archived logs, /recent there is served by the servers router
+const router = Router({ mergeParams: true });
+
+function serverIdOf(req: Request): string {
+  return req.params.serverId || DEFAULT_SERVER_ID;
+}
+
+const LOG_NAMES: Record<EventLogKind, string> = {
+  iml: 'IML',
+  iel: 'iLO event log'
+};
 
 // Get recent system log entries
 router.get('/recent', async (req, res) => {
@@ -41,4 +55,82 @@ router.get('/recent', async (req, res) => {
   }
 });
 
+// GET /api/systemlog/:log?page=&pageSize=&severity=&from=&to=&search=&acknowledged= — archived IML or IEL, newest first
+router.get('/:log(iml|iel)', async (req, res) => {
+  const log = req.params.log as EventLogKind;
+  const query = toLogRecordQuery(req.query);
+  const validationError = validateLogRecordQuery(query);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+  const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+  const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string, 10) || 50, 1), 500);
+
+  try {
+    const { records, total } = await historicalStorage.getLogRecords(log, query, pageSize, (page - 1) * pageSize, serverIdOf(req));
+    res.json({ records, total, page, pageSize });
+  } catch (error) {
+    console.error(`Error getting ${LOG_NAMES[log]} records:`, error);
+    res.status(500).json({ error: `Failed to get ${LOG_NAMES[log]} records` });
+  }
+});
+
+// GET /api/systemlog/:log/export?format=csv|json — every record matching the same filters
+router.get('/:log(iml|iel)/export', async (req, res) => {
+  const log = req.params.log as EventLogKind;
+  const format = req.query.format || 'csv';
+  if (format !== 'csv' && format !== 'json') {
+    return res.status(400).json({ error: 'format must be csv or json' });
+  }
+  const query = toLogRecordQuery(req.query);
+  const validationError = validateLogRecordQuery(query);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  try {
+    const serverId = serverIdOf(req);
+    const { records } = await historicalStorage.getLogRecords(log, query, null, 0, serverId);
+    const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv' : 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="${log}-${serverId}-${timestamp}.${format}"`);
+    res.send(format === 'csv' ? logRecordsToCsv(records) : JSON.stringify(records, null, 2));
+  } catch (error) {
+    console.error(`Error exporting ${LOG_NAMES[log]} records:`, error);
+    res.status(500).json({ error: `Failed to export ${LOG_NAMES[log]} records` });
+  }
+});
+
+// POST /api/systemlog/:log/acknowledge — mark records, given by generation and number, as acknowledged (repaired) or clear the mark
+router.post('/:log(iml|iel)/acknowledge', requireRole('operator'), async (req, res) => {
+  const log = req.params.log as EventLogKind;
+  const { records, acknowledged = true } = req.body ?? {};
+  if (!Array.isArray(records) || records.length === 0 || records.length > 1000
+    || !records.every(record => Number.isInteger(record?.generation) && Number.isInteger(record?.number))) {
+    return res.status(400).json({ error: 'records must list between 1 and 1000 records by generation and number' });
+  }
+  if (typeof acknowledged !== 'boolean') {
+    return res.status(400).json({ error: 'acknowledged must be true or false' });
+  }
+
+  try {
+    const serverId = serverIdOf(req);
+    const username = (req as any).user?.username ?? 'unknown';
+    const updated = await historicalStorage.setLogRecordsAcknowledged(
+      log,
+      records.map((record: LogRecordRef) => ({ generation: record.generation, number: record.number })),
+      acknowledged ? username : null,
+      serverId
+    );
+    if (updated === 0) {
+      return res.status(404).json({ error: `No matching ${LOG_NAMES[log]} records` });
+    }
+    console.log(`📋 ${updated} ${LOG_NAMES[log]} record(s) of ${serverId} ${acknowledged ? 'acknowledged' : 'reopened'} by ${username}`);
+    res.json({ success: true, updated });
+  } catch (error) {
+    console.error(`Error acknowledging ${LOG_NAMES[log]} records:`, error);
+    res.status(500).json({ error: `Failed to update ${LOG_NAMES[log]} records` });
+  }
+});
+
 export default router;
@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { thermalWatchdog, getWatchdogConfig, updateWatchdogConfig, validateWatchdogConfig } from '../services/thermalWatchdog.js';
+import { requireRole } from '../middleware/auth.js';
+
+const router = Router();
+
+// Get thermal watchdog state and recent events of the default server
+router.get('/', (_req, res) => {
+  res.json(thermalWatchdog.getStatus());
+});
+
+// Get thermal watchdog configuration
+router.get('/config', (_req, res) => {
+  res.json(getWatchdogConfig());
+});
+
+// Save thermal watchdog configuration, shared by the watchdogs of every server
+router.post('/config', requireRole('admin'), async (req, res) => {
+  try {
+    const config = { ...getWatchdogConfig(), ...req.body };
+    const validationError = validateWatchdogConfig(config);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    await updateWatchdogConfig({
+      enabled: config.enabled,
+      marginCelsius: config.marginCelsius,
+      releaseHysteresis: config.releaseHysteresis,
+      action: config.action,
+      safeSpeed: config.safeSpeed,
+      intervalSeconds: config.intervalSeconds
+    });
+    res.json({ success: true, config: getWatchdogConfig() });
+  } catch (error) {
+    console.error('Error saving thermal watchdog config:', error);
+    res.status(500).json({ error: 'Failed to save thermal watchdog configuration' });
+  }
+});
+
+export default router;
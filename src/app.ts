@@ -16,6 +16,13 @@ import statusRouter from "./api/status.js";
 import debugRouter from "./api/debug.js";
 import authRouter from "./api/auth.js";
 import historyRouter from "./api/history.js";
+import watchdogRouter from "./api/watchdog.js";
+import serversRouter from "./api/servers.js";
+import eventsRouter from "./api/events.js";
+import metricsRouter from "./api/metrics.js";
+import alertsRouter from "./api/alerts.js";
+import energyRouter from "./api/energy.js";
+import { requireMetricsAccess, requireSession } from "./middleware/auth.js";
 
 // ES module equivalent of __dirname
 const __filename = fileURLToPath(import.meta.url);
@@ -36,6 +43,14 @@ app.get("/api", (_req, res) => {
   res.send("<h1>iLO4 Fan Controller API is running.</h1>");
 });
 
+// Unauthenticated health probe for container orchestration
+app.get("/api/health", (_req, res) => {
+  res.json({ status: "ok", uptime: process.uptime() });
+});
+
+// Every API router below requires a session, except the allowlist in middleware/auth.ts
+app.use(["/sensors", "/fans", "/redfish", "/automation", "/api"], requireSession);
+
 // Register API routes
 app.use("/sensors", sensorsRouter);
 app.use("/fans", fansRouter);
@@ -50,6 +65,14 @@ app.use("/api/status", statusRouter);
 app.use("/api/debug", debugRouter);
 app.use("/api/auth", authRouter);
 app.use("/api/history", historyRouter);
+app.use("/api/watchdog", watchdogRouter);
+app.use("/api/servers", serversRouter);
+app.use("/api/events", eventsRouter);
+app.use("/api/alerts", alertsRouter);
+app.use("/api/energy", energyRouter);
+
+// Prometheus scrape endpoint, outside /api so it sits at the conventional path
+app.use("/metrics", requireMetricsAccess, metricsRouter);
 
 // Serve static files from frontend build
 app.use(express.static(path.join(__dirname, "../frontend/build")));
@@ -1,4 +1,5 @@
 import dotenv from "dotenv";
+import path from "path";
 dotenv.config();
 
 const required = (name: string): string => {
@@ -11,8 +12,92 @@ const optional = (name: string): string | undefined => {
   return process.env[name];
 };
 
+// Whether a variable was given a value, blank ones (VAR= in .env, ${VAR:-} in compose) count as unset
+export const isEnvSet = (name: string): boolean => !!process.env[name]?.trim();
+
+// Invalid values stop the app at startup instead of silently falling back to a default
+const integer = (name: string, min: number, max: number): number | undefined => {
+  if (!isEnvSet(name)) return undefined;
+  const value = Number(process.env[name]);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`Invalid env var ${name}: expected a whole number from ${min} to ${max}, got "${process.env[name]}"`);
+  }
+  return value;
+};
+
+const boolean = (name: string): boolean | undefined => {
+  if (!isEnvSet(name)) return undefined;
+  const value = process.env[name]!.trim().toLowerCase();
+  if (['true', '1', 'yes'].includes(value)) return true;
+  if (['false', '0', 'no'].includes(value)) return false;
+  throw new Error(`Invalid env var ${name}: expected true or false, got "${process.env[name]}"`);
+};
+
+const oneOf = <T extends string>(name: string, values: readonly T[]): T | undefined => {
+  if (!isEnvSet(name)) return undefined;
+  const value = process.env[name]!.trim().toLowerCase() as T;
+  if (!values.includes(value)) {
+    throw new Error(`Invalid env var ${name}: expected one of ${values.join(', ')}, got "${process.env[name]}"`);
+  }
+  return value;
+};
+
+// Relative paths are resolved against the working directory, like the built-in defaults
+const filePath = (name: string, fallback: string): string => path.resolve(optional(name)?.trim() || fallback);
+
 // iLO configuration - now optional, can be configured via API
 export const ILO_HOST = optional("ILO_HOST");
 export const ILO_USERNAME = optional("ILO_USERNAME");
 export const ILO_PASSWORD = optional("ILO_PASSWORD");
-export const PORT = process.env.PORT || "3000";
\ No newline at end of file
+
+// Overrides the port saved in App Configuration, HTTPS_PORT is what docker-compose sets
+export const PORT_ENV_VAR = isEnvSet("HTTPS_PORT") ? "HTTPS_PORT" : "PORT";
+export const PORT = integer(PORT_ENV_VAR, 1, 65535);
+
+// Certificates are optional, the server falls back to HTTP when either file is missing
+export const SSL_CERT_PATH = filePath("SSL_CERT_PATH", path.join("ssl", "certificate.crt"));
+export const SSL_KEY_PATH = filePath("SSL_KEY_PATH", path.join("ssl", "private.key"));
+
+export const DB_PATH = filePath("DB_PATH", path.join("data", "historical.db"));
+
+// Overrides the raw sample retention saved in App Configuration
+export const DATA_RETENTION_HOURS = integer("DATA_RETENTION_HOURS", 1, 720);
+
+// How often the latest readings of every server are recorded to history, in milliseconds
+export const DATA_COLLECTION_INTERVAL = integer("DATA_COLLECTION_INTERVAL", 10_000, 60 * 60 * 1000) ?? 3 * 60 * 1000;
+
+// Polling cadence per class of data, in milliseconds. Intervals stretch while an iLO is slow or failing
+export const POLL_THERMAL_INTERVAL = integer("POLL_THERMAL_INTERVAL", 5_000, 60 * 60 * 1000) ?? 30 * 1000;
+export const POLL_POWER_INTERVAL = integer("POLL_POWER_INTERVAL", 5_000, 60 * 60 * 1000) ?? 60 * 1000;
+// Only the IML and IEL record lists are read on every poll, records are fetched when they changed
+export const POLL_LOG_INTERVAL = integer("POLL_LOG_INTERVAL", 10_000, 60 * 60 * 1000) ?? 60 * 1000;
+// System information and the hardware inventory (processors, DIMMs, PCI devices)
+export const POLL_SYSTEM_INFO_INTERVAL = integer("POLL_SYSTEM_INFO_INTERVAL", 60_000, 24 * 60 * 60 * 1000) ?? 30 * 60 * 1000;
+// Smart Array controllers and drives, takes a Redfish request per drive so it is read less often than sensors
+export const POLL_STORAGE_INTERVAL = integer("POLL_STORAGE_INTERVAL", 60_000, 24 * 60 * 60 * 1000) ?? 5 * 60 * 1000;
+// Used for a few minutes after fan settings change, so the effect shows up right away
+export const BOOST_THERMAL_INTERVAL_MS = 10 * 1000;
+export const BOOST_POWER_INTERVAL_MS = 15 * 1000;
+// Backoff never stretches an interval past this, unless it was configured longer
+export const POLL_MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+export const LOG_LEVELS = ["error", "warn", "info", "debug"] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+export const LOG_LEVEL: LogLevel = oneOf("LOG_LEVEL", LOG_LEVELS) ?? "info";
+// Appends to logs/smart-ilo4.log next to the in-memory console buffer
+export const LOG_TO_FILE = boolean("LOG_TO_FILE") ?? false;
+
+// With fan control disabled the app only monitors, every command that locks fan speeds is refused;
+// unlocking stays allowed since it hands the fans back to iLO, so the thermal watchdog's unlock action still works
+export const FAN_CONTROL_ENABLED = boolean("FAN_CONTROL_ENABLED") ?? true;
+// Starting point for manual fan control and the speed used when a request omits one
+export const DEFAULT_FAN_SPEED = integer("DEFAULT_FAN_SPEED", 10, 100) ?? 50;
+
+// bcrypt cost factor for new password hashes, existing hashes keep the cost they were created with
+export const BCRYPT_ROUNDS = integer("BCRYPT_ROUNDS", 10, 15) ?? 12;
+
+// Master secret for encrypting stored credentials, a keyfile in data/ is generated when unset
+export const CREDENTIALS_MASTER_KEY = optional("CREDENTIALS_MASTER_KEY");
+
+// Static bearer token for Prometheus scrapes of /metrics, which otherwise need a user session
+export const METRICS_TOKEN = optional("METRICS_TOKEN");
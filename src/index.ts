@@ -1,37 +1,34 @@
 import { Server } from 'http';
 import https from 'https';
 import fs from 'fs';
-import path from 'path';
 import app from './app.js';
-import { getCurrentPort } from './services/appConfig.js';
-import { centralizedDataFetcher } from './services/centralizedDataFetcher.js';
-import { isILoConfigured } from './services/config.js';
+import { getEffectiveAppConfig, getCurrentPort } from './services/appConfig.js';
+import { SSL_CERT_PATH, SSL_KEY_PATH } from './config/env.js';
+import { centralizedDataFetcher, startFleetDataFetchers } from './services/centralizedDataFetcher.js';
+import { isILoConfigured, migrateILoConfig } from './services/config.js';
 import { historicalStorage } from './services/historicalStorage.js';
+import { resumeAutomation } from './services/automation.js';
+import { startThermalWatchdog } from './services/thermalWatchdog.js';
+import { restoreSessions } from './services/auth.js';
+import { liveEvents } from './services/liveEvents.js';
+import { alertEngine } from './services/alerts.js';
+import { mqttBridge } from './services/mqtt.js';
 // Initialize log capture service
 import './services/logger.js';
 
 let server: Server | https.Server | null = null;
 let currentPort: number;
 
-// Use configured port, fallback to environment variable, then default
-const getPort = async () => {
-  const configuredPort = await getCurrentPort();
-  const envPort = process.env.PORT ? parseInt(process.env.PORT, 10) : null;
-  
-  // Priority: configured port > environment variable > default (handled by getCurrentPort)
-  return envPort || configuredPort;
-};
+// Priority: HTTPS_PORT or PORT environment variable > configured port > default (handled by getCurrentPort)
+const getPort = () => getCurrentPort();
 
 // Check for SSL certificates
 const getSSLOptions = () => {
   try {
-    const keyPath = path.join(process.cwd(), 'ssl', 'private.key');
-    const certPath = path.join(process.cwd(), 'ssl', 'certificate.crt');
-    
-    if (fs.existsSync(keyPath) && fs.existsSync(certPath)) {
+    if (fs.existsSync(SSL_KEY_PATH) && fs.existsSync(SSL_CERT_PATH)) {
       return {
-        key: fs.readFileSync(keyPath),
-        cert: fs.readFileSync(certPath)
+        key: fs.readFileSync(SSL_KEY_PATH),
+        cert: fs.readFileSync(SSL_CERT_PATH)
       };
     }
   } catch (error) {
@@ -66,7 +63,7 @@ const startServer = async (port?: number): Promise<Server | https.Server> => {
       const httpServer = app.listen(PORT, () => {
         console.log(`iLO4 Fan Controller API is running on HTTP port ${PORT}`);
         console.log(`Access the web interface at: http://localhost:${PORT}`);
-        console.log('⚠️  HTTP mode - for production, add SSL certificates to /ssl directory');
+        console.log(`⚠️  HTTP mode - for production, add SSL certificates at ${SSL_CERT_PATH} and ${SSL_KEY_PATH}`);
         resolve(httpServer);
       });
       
@@ -80,6 +77,9 @@ const startServer = async (port?: number): Promise<Server | https.Server> => {
 
 const stopServer = async (): Promise<void> => {
   if (server) {
+    // Open event streams would otherwise keep the server from closing
+    liveEvents.closeAll();
+    
     return new Promise((resolve) => {
       server!.close(() => {
         console.log('Server stopped gracefully');
@@ -107,13 +107,30 @@ export const getCurrentServerPort = (): number => currentPort;
 // Initial server start and data fetcher initialization
 const initializeServer = async () => {
   try {
-    server = await startServer();
+    // Encrypt any plaintext iLO password left by older versions before it is read
+    await migrateILoConfig();
     
-    // Initialize historical storage
+    // Initialize historical storage, retention applies from the first cleanup
     console.log('Initializing historical storage...');
+    historicalStorage.setRetention((await getEffectiveAppConfig()).retention);
     await historicalStorage.initialize();
     console.log('Historical storage initialized successfully');
     
+    // Sessions live in the same database, restore them before accepting requests
+    // so clients holding a token are not rejected right after a restart
+    await restoreSessions();
+    
+    // Alert rules and the alerts still firing are needed before the first fetch cycle
+    await alertEngine.start();
+    
+    server = await startServer();
+    
+    // The thermal watchdog runs independently of automation and manual fan locks
+    await startThermalWatchdog();
+    
+    // Connects in the background, readings are published as the fetchers collect them
+    await mqttBridge.start();
+    
     // Initialize centralized data fetcher if iLO is configured
     try {
       const configured = await isILoConfigured();
@@ -121,6 +138,9 @@ const initializeServer = async () => {
         console.log('iLO is configured, starting centralized data fetcher...');
         centralizedDataFetcher.start();
         console.log('Centralized data fetcher started on server startup');
+        
+        // Resume fan curve automation if it was running before the restart
+        await resumeAutomation();
       } else {
         console.log('iLO not yet configured, centralized data fetcher will start after setup completion');
       }
@@ -128,6 +148,9 @@ const initializeServer = async () => {
       console.error('Error checking iLO configuration status:', error);
     }
     
+    // Additional servers from the registry collect data regardless of the primary one
+    await startFleetDataFetchers();
+    
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { METRICS_TOKEN } from '../config/env.js';
+import { Role, getSession, getUser, hasRole, touchSession } from '../services/auth.js';
+
+interface RouteRule {
+  method: string;
+  path: string;
+}
+
+// Routes reachable without a session
+const PUBLIC_ROUTES: RouteRule[] = [
+  { method: 'POST', path: '/api/auth/login' },
+  { method: 'POST', path: '/api/auth/login/mfa' },
+  { method: 'GET', path: '/api/auth/status' },
+  { method: 'GET', path: '/api/health' }
+];
+
+function matches(rules: RouteRule[], req: Request): boolean {
+  const requestPath = req.originalUrl.split('?')[0].replace(/\/+$/, '') || '/';
+  return rules.some(rule => rule.method === req.method && rule.path === requestPath);
+}
+
+// Middleware to validate session
+export function validateSession(req: Request, res: Response, next: NextFunction) {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'No valid session token provided' });
+  }
+  
+  const token = authHeader.substring(7);
+  const session = getSession(token);
+  const user = session ? getUser(session.userId) : undefined;
+  
+  if (!session || !user) {
+    return res.status(401).json({ error: 'Session expired or invalid' });
+  }
+  
+  // Sliding expiry: every authenticated request pushes the deadline out
+  touchSession(session, user);
+  
+  // Add user info to request
+  (req as any).user = user;
+  (req as any).session = session;
+  next();
+}
+
+// Guard for every API router, letting the explicit allowlist through
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  if (matches(PUBLIC_ROUTES, req)) {
+    return next();
+  }
+  
+  validateSession(req, res, next);
+}
+
+// Guard for /metrics: scrapers send METRICS_TOKEN, browsers and scripts can use a session
+export function requireMetricsAccess(req: Request, res: Response, next: NextFunction) {
+  const authHeader = req.headers.authorization;
+  if (METRICS_TOKEN && authHeader?.startsWith('Bearer ')) {
+    const provided = Buffer.from(authHeader.substring(7));
+    const expected = Buffer.from(METRICS_TOKEN);
+    if (provided.length === expected.length && crypto.timingSafeEqual(provided, expected)) {
+      return next();
+    }
+  }
+  
+  validateSession(req, res, next);
+}
+
+// Route guard requiring at least the given role, applied after requireSession
+export function requireRole(role: Role) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).user;
+    if (!user) {
+      return res.status(401).json({ error: 'No valid session token provided' });
+    }
+    
+    if (!hasRole(user.role, role)) {
+      return res.status(403).json({ error: `This action requires the ${role} role` });
+    }
+    
+    next();
+  };
+}
@@ -0,0 +1,268 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import dgram from 'dgram';
+import fetch from 'node-fetch';
+import nodemailer from 'nodemailer';
+import { encryptSecret, decryptSecret, isEncryptedSecret } from './secrets.js';
+
+export type AlertChannelId = 'email' | 'webhook' | 'syslog';
+
+export const ALERT_CHANNEL_IDS: AlertChannelId[] = ['email', 'webhook', 'syslog'];
+
+// What every channel is handed when an alert fires or resolves
+export interface AlertNotification {
+  state: 'firing' | 'resolved';
+  ruleId: string;
+  ruleName: string;
+  severity: 'warning' | 'critical';
+  serverId: string;
+  serverName: string;
+  subject: string;
+  message: string;
+  value: number | null;
+  timestamp: string;
+}
+
+export interface EmailChannelConfig {
+  enabled: boolean;
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465), otherwise STARTTLS when offered
+  username: string;
+  password: string;
+  from: string;
+  to: string[];
+}
+
+export interface WebhookChannelConfig {
+  enabled: boolean;
+  url: string;
+}
+
+export interface SyslogChannelConfig {
+  enabled: boolean;
+  host: string;
+  port: number;
+  facility: number; // 16-23 for local0-local7
+}
+
+export interface AlertChannelsConfig {
+  email: EmailChannelConfig;
+  webhook: WebhookChannelConfig;
+  syslog: SyslogChannelConfig;
+}
+
+// Returned by the API, the SMTP password never leaves the server
+export type PublicAlertChannelsConfig = Omit<AlertChannelsConfig, 'email'> & {
+  email: Omit<EmailChannelConfig, 'password'> & { passwordSet: boolean };
+};
+
+interface StoredAlertChannelsConfig extends Omit<AlertChannelsConfig, 'email'> {
+  email: Omit<EmailChannelConfig, 'password'> & { passwordEncrypted?: string };
+  lastUpdated?: string;
+}
+
+interface AlertChannel<T> {
+  send(notification: AlertNotification, config: T): Promise<void>;
+}
+
+const CONFIG_FILE = path.join(process.cwd(), 'config', 'alert-channels.json');
+const DELIVERY_TIMEOUT_MS = 10000;
+
+const DEFAULT_CONFIG: AlertChannelsConfig = {
+  email: { enabled: false, host: '', port: 587, secure: false, username: '', password: '', from: '', to: [] },
+  webhook: { enabled: false, url: '' },
+  syslog: { enabled: false, host: '127.0.0.1', port: 514, facility: 16 }
+};
+
+// Ensure config directory exists
+async function ensureConfigDir() {
+  const configDir = path.dirname(CONFIG_FILE);
+  try {
+    await fs.access(configDir);
+  } catch {
+    await fs.mkdir(configDir, { recursive: true });
+  }
+}
+
+export async function getAlertChannelsConfig(): Promise<AlertChannelsConfig> {
+  try {
+    const stored: StoredAlertChannelsConfig = JSON.parse(await fs.readFile(CONFIG_FILE, 'utf-8'));
+    const { passwordEncrypted, ...email } = stored.email ?? {};
+    return {
+      email: {
+        ...DEFAULT_CONFIG.email,
+        ...email,
+        password: isEncryptedSecret(passwordEncrypted) ? await decryptSecret(passwordEncrypted) : ''
+      },
+      webhook: { ...DEFAULT_CONFIG.webhook, ...stored.webhook },
+      syslog: { ...DEFAULT_CONFIG.syslog, ...stored.syslog }
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Error reading alert channel configuration:', error);
+    }
+    return structuredClone(DEFAULT_CONFIG);
+  }
+}
+
+export async function saveAlertChannelsConfig(config: AlertChannelsConfig): Promise<void> {
+  await ensureConfigDir();
+  const { password, ...email } = config.email;
+  const stored: StoredAlertChannelsConfig = {
+    email: { ...email, passwordEncrypted: password ? await encryptSecret(password) : undefined },
+    webhook: config.webhook,
+    syslog: config.syslog,
+    lastUpdated: new Date().toISOString()
+  };
+  await fs.writeFile(CONFIG_FILE, JSON.stringify(stored, null, 2), 'utf-8');
+  await fs.chmod(CONFIG_FILE, 0o600).catch(() => {
+    // Not supported on every filesystem, the password is encrypted regardless
+  });
+  console.log('Alert channel configuration saved');
+}
+
+export function toPublicChannelsConfig(config: AlertChannelsConfig): PublicAlertChannelsConfig {
+  const { password, ...email } = config.email;
+  return { ...config, email: { ...email, passwordSet: !!password } };
+}
+
+// Validate channel settings submitted through the API, returns an error message or null
+export function validateAlertChannelsConfig(config: any): string | null {
+  const { email, webhook, syslog } = config ?? {};
+  if (!email || !webhook || !syslog) return 'email, webhook and syslog settings are required';
+
+  if (typeof email.enabled !== 'boolean') return 'email.enabled must be a boolean';
+  if (email.enabled) {
+    if (!email.host) return 'An SMTP host is required';
+    if (!Number.isInteger(email.port) || email.port < 1 || email.port > 65535) return 'SMTP port must be between 1 and 65535';
+    if (!email.from) return 'A sender address is required';
+    if (!Array.isArray(email.to) || email.to.length === 0) return 'At least one recipient is required';
+  }
+
+  if (typeof webhook.enabled !== 'boolean') return 'webhook.enabled must be a boolean';
+  if (webhook.enabled && !/^https?:\/\//.test(webhook.url ?? '')) return 'The webhook URL must start with http:// or https://';
+
+  if (typeof syslog.enabled !== 'boolean') return 'syslog.enabled must be a boolean';
+  if (syslog.enabled) {
+    if (!syslog.host) return 'A syslog host is required';
+    if (!Number.isInteger(syslog.port) || syslog.port < 1 || syslog.port > 65535) return 'Syslog port must be between 1 and 65535';
+    if (!Number.isInteger(syslog.facility) || syslog.facility < 0 || syslog.facility > 23) return 'Syslog facility must be between 0 and 23';
+  }
+
+  return null;
+}
+
+function formatTitle(notification: AlertNotification): string {
+  const state = notification.state === 'firing' ? notification.severity.toUpperCase() : 'RESOLVED';
+  return `[${state}] ${notification.ruleName} on ${notification.serverName}`;
+}
+
+const emailChannel: AlertChannel<EmailChannelConfig> = {
+  async send(notification, config) {
+    const transport = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.username ? { user: config.username, pass: config.password } : undefined,
+      connectionTimeout: DELIVERY_TIMEOUT_MS
+    });
+
+    await transport.sendMail({
+      from: config.from,
+      to: config.to.join(', '),
+      subject: formatTitle(notification),
+      text: [
+        notification.message,
+        '',
+        `Rule: ${notification.ruleName}`,
+        `Server: ${notification.serverName}`,
+        `Subject: ${notification.subject}`,
+        `State: ${notification.state}`,
+        `Severity: ${notification.severity}`,
+        notification.value !== null ? `Value: ${notification.value}` : null,
+        `Time: ${notification.timestamp}`
+      ].filter(line => line !== null).join('\n')
+    });
+  }
+};
+
+const webhookChannel: AlertChannel<WebhookChannelConfig> = {
+  async send(notification, config) {
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title: formatTitle(notification), ...notification }),
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with HTTP ${response.status}`);
+    }
+  }
+};
+
+// RFC 5424 over UDP, the transport every syslog daemon accepts by default
+const syslogChannel: AlertChannel<SyslogChannelConfig> = {
+  async send(notification, config) {
+    // crit (2) and warning (4) while firing, notice (5) once resolved
+    const level = notification.state === 'resolved' ? 5 : notification.severity === 'critical' ? 2 : 4;
+    const message = `<${config.facility * 8 + level}>1 ${notification.timestamp} ${os.hostname()} smart-ilo4 ${process.pid} ALERT - ${formatTitle(notification)}: ${notification.message}`;
+
+    const socket = dgram.createSocket(config.host.includes(':') ? 'udp6' : 'udp4');
+    try {
+      await new Promise<void>((resolve, reject) => {
+        socket.send(message, config.port, config.host, (err) => err ? reject(err) : resolve());
+      });
+    } finally {
+      socket.close();
+    }
+  }
+};
+
+async function sendToChannel(channel: AlertChannelId, notification: AlertNotification, config: AlertChannelsConfig) {
+  switch (channel) {
+    case 'email':
+      return emailChannel.send(notification, config.email);
+    case 'webhook':
+      return webhookChannel.send(notification, config.webhook);
+    case 'syslog':
+      return syslogChannel.send(notification, config.syslog);
+  }
+}
+
+// Deliver to each requested channel that is enabled, one failing channel does not stop the others
+export async function deliverAlert(
+  notification: AlertNotification,
+  channels: AlertChannelId[]
+): Promise<{ channel: AlertChannelId; success: boolean; error?: string }[]> {
+  const config = await getAlertChannelsConfig();
+  const enabled = channels.filter(channel => config[channel]?.enabled);
+
+  return Promise.all(enabled.map(async channel => {
+    try {
+      await sendToChannel(channel, notification, config);
+      return { channel, success: true };
+    } catch (error) {
+      console.error(`Failed to deliver alert via ${channel}:`, error);
+      return { channel, success: false, error: (error as Error).message };
+    }
+  }));
+}
+
+// Send a sample notification through one channel using the given settings
+export async function testAlertChannel(channel: AlertChannelId, config: AlertChannelsConfig): Promise<void> {
+  await sendToChannel(channel, {
+    state: 'firing',
+    ruleId: 'test',
+    ruleName: 'Test notification',
+    severity: 'warning',
+    serverId: 'test',
+    serverName: 'Smart-iLO4',
+    subject: 'test',
+    message: 'This is a test notification from Smart-iLO4.',
+    value: null,
+    timestamp: new Date().toISOString()
+  }, config);
+}
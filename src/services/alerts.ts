@@ -0,0 +1,432 @@
+import crypto from 'crypto';
+import { historicalStorage, StoredActiveAlert, StoredAlertRule } from './historicalStorage.js';
+import { ALERT_CHANNEL_IDS, AlertChannelId, AlertNotification, deliverAlert } from './alertChannels.js';
+import { getServer } from './servers.js';
+import type { Sensor, Fan } from './ilo.js';
+import type { PowerInformation } from './power.js';
+import type { PowerSupplyStatus } from './powerSupplies.js';
+import type { SystemLogRecord } from './systemLog.js';
+
+export type AlertRuleType = 'sensor_threshold' | 'fan_health' | 'power_above' | 'psu_health' | 'psu_redundancy' | 'critical_log' | 'ilo_unreachable';
+export type AlertSeverity = 'warning' | 'critical';
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = ['sensor_threshold', 'fan_health', 'power_above', 'psu_health', 'psu_redundancy', 'critical_log', 'ilo_unreachable'];
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  serverId: string | null; // null applies the rule to every server
+  severity: AlertSeverity;
+  // sensor_threshold: sensor?, threshold, durationMinutes
+  // fan_health: fan?
+  // power_above: watts, durationMinutes
+  // psu_health: supply?
+  // ilo_unreachable: durationMinutes
+  params: Record<string, any>;
+  channels: AlertChannelId[];
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'createdAt' | 'updatedAt'>;
+
+// What one fetch cycle collected for a server
+export interface AlertSnapshot {
+  sensors: Sensor[];
+  fans: Fan[];
+  powerInfo: PowerInformation | null;
+  powerSupplies: PowerSupplyStatus | null;
+  systemLogs: SystemLogRecord[];
+  errors: { systemLogs?: string; powerInfo?: string; systemInfo?: string };
+}
+
+// The state of one thing a rule watches, e.g. one sensor for a sensor_threshold rule
+interface Observation {
+  subject: string;
+  breached: boolean;
+  value: number | null;
+  message: string;
+}
+
+// Validate a rule submitted through the API, returns an error message or null
+export function validateAlertRule(rule: any): string | null {
+  if (typeof rule.name !== 'string' || !rule.name.trim()) return 'A rule name is required';
+  if (!ALERT_RULE_TYPES.includes(rule.type)) return `type must be one of ${ALERT_RULE_TYPES.join(', ')}`;
+  if (rule.serverId !== null && typeof rule.serverId !== 'string') return 'serverId must be a string or null';
+  if (rule.severity !== 'warning' && rule.severity !== 'critical') return "severity must be 'warning' or 'critical'";
+  if (typeof rule.enabled !== 'boolean') return 'enabled must be a boolean';
+  if (!Array.isArray(rule.channels) || rule.channels.some((channel: any) => !ALERT_CHANNEL_IDS.includes(channel))) {
+    return `channels must only contain ${ALERT_CHANNEL_IDS.join(', ')}`;
+  }
+
+  const params = rule.params ?? {};
+  if (typeof params !== 'object') return 'params must be an object';
+
+  const needsDuration = rule.type === 'sensor_threshold' || rule.type === 'power_above' || rule.type === 'ilo_unreachable';
+  if (needsDuration && (typeof params.durationMinutes !== 'number' || params.durationMinutes < 0 || params.durationMinutes > 1440)) {
+    return 'durationMinutes must be between 0 and 1440';
+  }
+  if (rule.type === 'sensor_threshold') {
+    if (typeof params.threshold !== 'number' || params.threshold < 0 || params.threshold > 150) return 'threshold must be between 0 and 150 °C';
+    if (params.sensor !== undefined && typeof params.sensor !== 'string') return 'sensor must be a string';
+  }
+  if (rule.type === 'fan_health' && params.fan !== undefined && typeof params.fan !== 'string') return 'fan must be a string';
+  if (rule.type === 'psu_health' && params.supply !== undefined && typeof params.supply !== 'string') return 'supply must be a string';
+  if (rule.type === 'power_above' && (typeof params.watts !== 'number' || params.watts <= 0 || params.watts > 10000)) {
+    return 'watts must be between 1 and 10000';
+  }
+
+  return null;
+}
+
+// Only the parameters the rule type uses are kept
+function normalizeParams(type: AlertRuleType, params: Record<string, any> = {}): Record<string, any> {
+  switch (type) {
+    case 'sensor_threshold':
+      return { sensor: params.sensor || undefined, threshold: params.threshold, durationMinutes: params.durationMinutes };
+    case 'fan_health':
+      return { fan: params.fan || undefined };
+    case 'power_above':
+      return { watts: params.watts, durationMinutes: params.durationMinutes };
+    case 'psu_health':
+      return { supply: params.supply || undefined };
+    case 'ilo_unreachable':
+      return { durationMinutes: params.durationMinutes };
+    case 'psu_redundancy':
+    case 'critical_log':
+      return {};
+  }
+}
+
+function observeSensors(rule: AlertRule, snapshot: AlertSnapshot): Observation[] {
+  const { sensor: sensorName, threshold } = rule.params;
+  return snapshot.sensors
+    .filter(sensor => !sensorName || sensor.name === sensorName)
+    .map(sensor => ({
+      subject: sensor.name,
+      breached: sensor.reading > threshold,
+      value: sensor.reading,
+      message: sensor.reading > threshold
+        ? `${sensor.name} is at ${sensor.reading}°C, above ${threshold}°C`
+        : `${sensor.name} is back to ${sensor.reading}°C`
+    }));
+}
+
+function observeFans(rule: AlertRule, snapshot: AlertSnapshot): Observation[] {
+  return snapshot.fans
+    .filter(fan => !rule.params.fan || fan.name === rule.params.fan)
+    .map(fan => {
+      const health = fan.health ?? fan.status;
+      return {
+        subject: fan.name,
+        breached: health !== 'OK',
+        value: fan.speed,
+        message: health !== 'OK' ? `${fan.name} reports health ${health}` : `${fan.name} is healthy again`
+      };
+    });
+}
+
+function observePower(rule: AlertRule, snapshot: AlertSnapshot): Observation[] {
+  if (!snapshot.powerInfo) return [];
+  const watts = snapshot.powerInfo.presentPower;
+  return [{
+    subject: 'power',
+    breached: watts > rule.params.watts,
+    value: watts,
+    message: watts > rule.params.watts
+      ? `Power draw is ${watts} W, above ${rule.params.watts} W`
+      : `Power draw is back to ${watts} W`
+  }];
+}
+
+// Empty bays are skipped, a supply that failed and then reads as absent keeps its alert firing
+function observePowerSupplies(rule: AlertRule, snapshot: AlertSnapshot): Observation[] {
+  if (!snapshot.powerSupplies) return [];
+  return snapshot.powerSupplies.supplies
+    .filter(supply => supply.present && (!rule.params.supply || supply.name === rule.params.supply))
+    .map(supply => ({
+      subject: supply.name,
+      breached: supply.health !== 'OK',
+      value: supply.outputWatts,
+      message: supply.health !== 'OK' ? `${supply.name} reports health ${supply.health}` : `${supply.name} is healthy again`
+    }));
+}
+
+function observeRedundancy(snapshot: AlertSnapshot): Observation[] {
+  if (!snapshot.powerSupplies || snapshot.powerSupplies.redundant === null) return [];
+  const { supplies, redundant } = snapshot.powerSupplies;
+  const healthy = supplies.filter(supply => supply.present && supply.health === 'OK').length;
+  return [{
+    subject: 'psu_redundancy',
+    breached: !redundant,
+    value: healthy,
+    message: redundant
+      ? 'Power supply redundancy restored'
+      : `Power supply redundancy lost, ${healthy} of ${supplies.length} supplies healthy`
+  }];
+}
+
+function observeReachability(snapshot: AlertSnapshot): Observation[] {
+  // Thermal reads fall back to their last cached values, so failing SSH reads count as well
+  const unreachable = (snapshot.sensors.length === 0 && snapshot.fans.length === 0)
+    || (!!snapshot.errors.systemInfo && !!snapshot.errors.powerInfo);
+  return [{
+    subject: 'ilo',
+    breached: unreachable,
+    value: null,
+    message: unreachable
+      ? `iLO is not responding: ${snapshot.errors.systemInfo ?? 'no thermal data'}`
+      : 'iLO is responding again'
+  }];
+}
+
+class AlertEngine {
+  private rules: AlertRule[] = [];
+  private active = new Map<string, StoredActiveAlert>();
+  // When each breached alert key was first seen, alerts fire once the rule's duration has passed
+  private pendingSince = new Map<string, number>();
+  // Log record numbers seen in the previous cycle per server, to spot new Critical records
+  private seenLogRecords = new Map<string, Set<number>>();
+  private started = false;
+
+  async start() {
+    this.rules = (await historicalStorage.getAlertRules()).map(rule => rule as AlertRule);
+    for (const alert of await historicalStorage.getActiveAlerts()) {
+      this.active.set(alert.alertKey, alert);
+    }
+    this.started = true;
+    console.log(`Alert engine started with ${this.rules.length} rule(s) and ${this.active.size} active alert(s)`);
+  }
+
+  getRules(): AlertRule[] {
+    return this.rules;
+  }
+
+  getActiveAlerts(): StoredActiveAlert[] {
+    return [...this.active.values()].sort((a, b) => b.firingSince - a.firingSince);
+  }
+
+  async createRule(input: AlertRuleInput): Promise<AlertRule> {
+    const now = Date.now();
+    const rule: AlertRule = {
+      ...input,
+      name: input.name.trim(),
+      params: normalizeParams(input.type, input.params),
+      id: crypto.randomBytes(8).toString('hex'),
+      createdAt: now,
+      updatedAt: now
+    };
+    await historicalStorage.saveAlertRule(rule as StoredAlertRule);
+    this.rules.push(rule);
+    return rule;
+  }
+
+  async updateRule(id: string, input: AlertRuleInput): Promise<AlertRule | null> {
+    const index = this.rules.findIndex(rule => rule.id === id);
+    if (index === -1) return null;
+
+    const rule: AlertRule = {
+      ...input,
+      name: input.name.trim(),
+      params: normalizeParams(input.type, input.params),
+      id,
+      createdAt: this.rules[index].createdAt,
+      updatedAt: Date.now()
+    };
+    await historicalStorage.saveAlertRule(rule as StoredAlertRule);
+    this.rules[index] = rule;
+
+    // The conditions may have changed, start over instead of resolving against the old ones
+    await this.dropRuleState(id);
+    return rule;
+  }
+
+  async deleteRule(id: string): Promise<boolean> {
+    if (!this.rules.some(rule => rule.id === id)) return false;
+
+    await historicalStorage.deleteAlertRule(id);
+    this.rules = this.rules.filter(rule => rule.id !== id);
+    await this.dropRuleState(id);
+    return true;
+  }
+
+  // Forget the alerts of a server that was removed from the registry
+  async forgetServer(serverId: string) {
+    this.seenLogRecords.delete(serverId);
+    for (const key of this.pendingSince.keys()) {
+      if (key.split(':')[1] === serverId) this.pendingSince.delete(key);
+    }
+    for (const alert of [...this.active.values()]) {
+      if (alert.serverId === serverId) {
+        this.active.delete(alert.alertKey);
+        await historicalStorage.deleteActiveAlert(alert.alertKey);
+      }
+    }
+  }
+
+  // Called by the data fetcher at the end of every cycle
+  async evaluate(serverId: string, snapshot: AlertSnapshot) {
+    if (!this.started) return;
+
+    const newCriticalRecords = this.takeNewCriticalRecords(serverId, snapshot);
+
+    for (const rule of this.rules) {
+      if (!rule.enabled || (rule.serverId !== null && rule.serverId !== serverId)) continue;
+
+      try {
+        if (rule.type === 'critical_log') {
+          // Log records are one-off events, every new one is reported and there is nothing to resolve
+          for (const record of newCriticalRecords) {
+            await this.record(rule, serverId, `record${record.number}`, 'firing',
+              `Critical iLO log record ${record.number} (${record.date} ${record.time}): ${record.description}`, null);
+          }
+          continue;
+        }
+
+        await this.applyObservations(rule, serverId, this.observe(rule, snapshot));
+      } catch (error) {
+        console.error(`Failed to evaluate alert rule ${rule.name}:`, error);
+      }
+    }
+  }
+
+  private observe(rule: AlertRule, snapshot: AlertSnapshot): Observation[] {
+    switch (rule.type) {
+      case 'sensor_threshold':
+        return observeSensors(rule, snapshot);
+      case 'fan_health':
+        return observeFans(rule, snapshot);
+      case 'power_above':
+        return observePower(rule, snapshot);
+      case 'psu_health':
+        return observePowerSupplies(rule, snapshot);
+      case 'psu_redundancy':
+        return observeRedundancy(snapshot);
+      case 'ilo_unreachable':
+        return observeReachability(snapshot);
+      default:
+        return [];
+    }
+  }
+
+  // Subjects without an observation this cycle (e.g. power was not read) keep their current state
+  private async applyObservations(rule: AlertRule, serverId: string, observations: Observation[]) {
+    const now = Date.now();
+    const durationMs = (rule.params.durationMinutes ?? 0) * 60 * 1000;
+
+    for (const observation of observations) {
+      const alertKey = `${rule.id}:${serverId}:${observation.subject}`;
+      const firing = this.active.get(alertKey);
+
+      if (!observation.breached) {
+        this.pendingSince.delete(alertKey);
+        if (firing) {
+          this.active.delete(alertKey);
+          await historicalStorage.deleteActiveAlert(alertKey);
+          await this.record(rule, serverId, observation.subject, 'resolved', observation.message, observation.value);
+        }
+        continue;
+      }
+
+      if (firing) continue;
+
+      const since = this.pendingSince.get(alertKey) ?? now;
+      this.pendingSince.set(alertKey, since);
+      if (now - since < durationMs) continue;
+
+      this.pendingSince.delete(alertKey);
+      const alert: StoredActiveAlert = {
+        alertKey,
+        ruleId: rule.id,
+        serverId,
+        subject: observation.subject,
+        severity: rule.severity,
+        message: observation.message,
+        value: observation.value,
+        firingSince: now
+      };
+      this.active.set(alertKey, alert);
+      await historicalStorage.saveActiveAlert(alert);
+      await this.record(rule, serverId, observation.subject, 'firing', observation.message, observation.value);
+    }
+  }
+
+  private takeNewCriticalRecords(serverId: string, snapshot: AlertSnapshot): SystemLogRecord[] {
+    if (snapshot.errors.systemLogs) return [];
+
+    const previous = this.seenLogRecords.get(serverId);
+    this.seenLogRecords.set(serverId, new Set(snapshot.systemLogs.map(record => record.number)));
+
+    // The first cycle after a start only learns what is already in the log
+    if (!previous) return [];
+    return snapshot.systemLogs.filter(record => record.severity === 'Critical' && !previous.has(record.number));
+  }
+
+  // Store the transition, then notify in the background so a slow mail server does not hold up the fetcher
+  private async record(
+    rule: AlertRule,
+    serverId: string,
+    subject: string,
+    state: 'firing' | 'resolved',
+    message: string,
+    value: number | null
+  ) {
+    const timestamp = Date.now();
+    const id = await historicalStorage.addAlertEvent({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      serverId,
+      alertKey: `${rule.id}:${serverId}:${subject}`,
+      subject,
+      state,
+      severity: rule.severity,
+      message,
+      value,
+      timestamp,
+      deliveries: []
+    });
+
+    const log = state === 'firing' ? console.warn : console.log;
+    log(`🔔 Alert ${state}: ${rule.name} - ${message}`);
+
+    if (rule.channels.length === 0) return;
+
+    const server = await getServer(serverId).catch(() => null);
+    const notification: AlertNotification = {
+      state,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      severity: rule.severity,
+      serverId,
+      serverName: server?.name ?? serverId,
+      subject,
+      message,
+      value,
+      timestamp: new Date(timestamp).toISOString()
+    };
+
+    deliverAlert(notification, rule.channels)
+      .then(deliveries => historicalStorage.updateAlertEventDeliveries(id, deliveries))
+      .catch(error => {
+        console.error('Failed to record alert deliveries:', error);
+      });
+  }
+
+  private async dropRuleState(ruleId: string) {
+    for (const key of this.pendingSince.keys()) {
+      if (key.startsWith(`${ruleId}:`)) this.pendingSince.delete(key);
+    }
+    for (const alert of [...this.active.values()]) {
+      if (alert.ruleId === ruleId) {
+        this.active.delete(alert.alertKey);
+        await historicalStorage.deleteActiveAlert(alert.alertKey);
+      }
+    }
+  }
+}
+
+// Create singleton instance
+export const alertEngine = new AlertEngine();
+export default alertEngine;
@@ -1,21 +1,64 @@
 import fs from 'fs/promises';
 import path from 'path';
+import { encryptSecret, decryptSecret, isEncryptedSecret } from './secrets.js';
+import { PORT, DATA_RETENTION_HOURS } from '../config/env.js';
 
-interface AppConfig {
+export interface MqttConfig {
+  enabled: boolean;
+  brokerUrl: string; // mqtt://host:1883 or mqtts://host:8883
+  username: string;
+  password: string;
+  baseTopic: string; // Readings are published below <baseTopic>/<serverId>/
+  discoveryPrefix: string; // Home Assistant listens on homeassistant/ by default
+  allowCommands: boolean; // Command topics bypass the web UI roles, so they are opt-in
+}
+
+// How long each resolution of sensor and fan history is kept
+export interface RetentionConfig {
+  rawHours: number; // Every sample as collected
+  fiveMinuteDays: number; // 5-minute min/avg/max rollups
+  hourlyDays: number; // Hourly min/avg/max rollups
+}
+
+export interface AppConfig {
   port: number;
   sessionTimeout: number;
+  mqtt: MqttConfig;
+  retention: RetentionConfig;
 }
 
-interface AppConfigFile extends AppConfig {
+// Returned by the API, the broker password never leaves the server
+export type PublicAppConfig = Omit<AppConfig, 'mqtt'> & {
+  mqtt: Omit<MqttConfig, 'password'> & { passwordSet: boolean };
+};
+
+export interface AppConfigFile extends Omit<AppConfig, 'mqtt'> {
+  mqtt?: Omit<MqttConfig, 'password'> & { passwordEncrypted?: string };
   lastUpdated?: string;
 }
 
 const CONFIG_FILE = path.join(process.cwd(), 'config', 'app-config.json');
 
+export const DEFAULT_RETENTION: RetentionConfig = {
+  rawHours: 72,
+  fiveMinuteDays: 30,
+  hourlyDays: 365
+};
+
 // Default configuration
 const DEFAULT_CONFIG: AppConfig = {
   port: 8443,
-  sessionTimeout: 30
+  sessionTimeout: 30,
+  mqtt: {
+    enabled: false,
+    brokerUrl: 'mqtt://localhost:1883',
+    username: '',
+    password: '',
+    baseTopic: 'smart-ilo4',
+    discoveryPrefix: 'homeassistant',
+    allowCommands: false
+  },
+  retention: DEFAULT_RETENTION
 };
 
 // Ensure config directory exists
@@ -28,42 +71,112 @@ async function ensureConfigDir() {
   }
 }
 
+// The saved file as is, null when nothing was saved yet
+export async function readAppConfigFile(): Promise<AppConfigFile | null> {
+  try {
+    return JSON.parse(await fs.readFile(CONFIG_FILE, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
 // Get current app configuration
 export async function getAppConfig(): Promise<AppConfig> {
+  await ensureConfigDir();
+  let config: AppConfigFile;
   try {
-    await ensureConfigDir();
-    const data = await fs.readFile(CONFIG_FILE, 'utf-8');
-    const config: AppConfigFile = JSON.parse(data);
-    
-    // Return only the required fields, use defaults if missing
-    return {
-      port: config.port || DEFAULT_CONFIG.port,
-      sessionTimeout: config.sessionTimeout || DEFAULT_CONFIG.sessionTimeout
-    };
+    config = JSON.parse(await fs.readFile(CONFIG_FILE, 'utf-8'));
   } catch (error) {
-    // If file doesn't exist or is corrupted, return defaults
-    console.log('App config file not found or corrupted, using defaults');
-    return DEFAULT_CONFIG;
+    // Only a missing file means defaults, anything else would drop every saved setting
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    console.log('App config file not found, using defaults');
+    return structuredClone(DEFAULT_CONFIG);
   }
+
+  const { passwordEncrypted, ...mqtt } = config.mqtt ?? {};
+  let password = '';
+  if (isEncryptedSecret(passwordEncrypted)) {
+    try {
+      password = await decryptSecret(passwordEncrypted);
+    } catch (error) {
+      console.error('Could not decrypt the stored MQTT broker password, was the master key changed?', error);
+      throw error;
+    }
+  }
+
+  // Return only the required fields, use defaults if missing
+  return {
+    port: config.port || DEFAULT_CONFIG.port,
+    sessionTimeout: config.sessionTimeout || DEFAULT_CONFIG.sessionTimeout,
+    mqtt: { ...DEFAULT_CONFIG.mqtt, ...mqtt, password },
+    retention: { ...DEFAULT_CONFIG.retention, ...config.retention }
+  };
+}
+
+// Saved configuration with environment overrides applied, this is what the running services use.
+// The settings UI edits the saved values, an env var set in the container still wins over them.
+export async function getEffectiveAppConfig(): Promise<AppConfig> {
+  const config = await getAppConfig();
+  return {
+    ...config,
+    port: PORT ?? config.port,
+    retention: { ...config.retention, rawHours: DATA_RETENTION_HOURS ?? config.retention.rawHours }
+  };
+}
+
+export function toPublicAppConfig(config: AppConfig): PublicAppConfig {
+  const { password, ...mqtt } = config.mqtt;
+  return { ...config, mqtt: { ...mqtt, passwordSet: !!password } };
+}
+
+// Validate MQTT settings submitted through the API, returns an error message or null
+export function validateMqttConfig(mqtt: any): string | null {
+  if (typeof mqtt.enabled !== 'boolean') return 'mqtt.enabled must be a boolean';
+  if (typeof mqtt.allowCommands !== 'boolean') return 'mqtt.allowCommands must be a boolean';
+  if (!/^(mqtts?|wss?):\/\/[^/\s]+/.test(mqtt.brokerUrl ?? '')) {
+    return 'The broker URL must look like mqtt://host:1883 or mqtts://host:8883';
+  }
+  // Wildcards and a leading or trailing slash would break the topic layout
+  const validTopic = (topic: any) => typeof topic === 'string' && /^[^#+\s/](?:[^#+\s]*[^#+\s/])?$/.test(topic);
+  if (!validTopic(mqtt.baseTopic)) return 'The base topic must not be empty or contain wildcards, spaces or a leading or trailing slash';
+  if (!validTopic(mqtt.discoveryPrefix)) return 'The discovery prefix must not be empty or contain wildcards, spaces or a leading or trailing slash';
+  return null;
+}
+
+// Validate retention settings submitted through the API, returns an error message or null
+export function validateRetentionConfig(retention: any): string | null {
+  const inRange = (value: any, min: number, max: number) => Number.isInteger(value) && value >= min && value <= max;
+  if (!inRange(retention.rawHours, 1, 720)) return 'Raw samples must be kept between 1 and 720 hours';
+  if (!inRange(retention.fiveMinuteDays, 1, 365)) return '5-minute rollups must be kept between 1 and 365 days';
+  if (!inRange(retention.hourlyDays, 1, 3650)) return 'Hourly rollups must be kept between 1 and 3650 days';
+  // A coarser tier that expires first would leave a hole in long charts
+  if (retention.fiveMinuteDays * 24 < retention.rawHours) return '5-minute rollups must be kept at least as long as raw samples';
+  if (retention.hourlyDays < retention.fiveMinuteDays) return 'Hourly rollups must be kept at least as long as 5-minute rollups';
+  return null;
 }
 
 // Save app configuration
 export async function saveAppConfig(config: AppConfig): Promise<void> {
   await ensureConfigDir();
   
+  const { password, ...mqtt } = config.mqtt;
   const configToSave: AppConfigFile = {
     ...config,
+    mqtt: { ...mqtt, passwordEncrypted: password ? await encryptSecret(password) : undefined },
     lastUpdated: new Date().toISOString()
   };
   
   await fs.writeFile(CONFIG_FILE, JSON.stringify(configToSave, null, 2), 'utf-8');
-  console.log('App configuration saved:', configToSave);
+  await fs.chmod(CONFIG_FILE, 0o600).catch(() => {
+    // Not supported on every filesystem, the broker password is encrypted regardless
+  });
+  console.log('App configuration saved:', { ...configToSave, mqtt: { ...mqtt, passwordSet: !!password } });
 }
 
-// Get the current port from config (used by server startup)
+// Get the current port from config, HTTPS_PORT or PORT override it (used by server startup)
 export async function getCurrentPort(): Promise<number> {
   try {
-    const config = await getAppConfig();
+    const config = await getEffectiveAppConfig();
     return config.port;
   } catch (error) {
     console.error('Error getting current port, using default:', error);
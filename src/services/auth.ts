@@ -0,0 +1,502 @@
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { historicalStorage, StoredSession } from './historicalStorage.js';
+import { base32Encode, generateTotpSecret, verifyTotp } from './totp.js';
+import { BCRYPT_ROUNDS } from '../config/env.js';
+
+export type Role = 'viewer' | 'operator' | 'admin';
+
+// Roles in ascending order of privilege
+export const ROLES: Role[] = ['viewer', 'operator', 'admin'];
+
+export interface User {
+  id: string;
+  username: string;
+  role: Role;
+  createdAt: string;
+  sessionTimeout: number;
+  isDefault?: boolean;
+}
+
+// Only a SHA-256 hash of the bearer token is kept, in memory and in SQLite
+export type Session = StoredSession;
+
+export interface MfaRecord {
+  enabled: boolean;
+  secret?: string;
+  pendingSecret?: string; // Generated at enrollment, promoted once a code verifies
+  recoveryCodes: string[]; // SHA-256 hashes, each code works once
+  lastUsedCounter: number; // Last accepted TOTP step, blocks replays
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface MfaChallenge {
+  userId: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// In-memory storage for demo (in production, use a database)
+let users: Record<string, User> = {};
+let passwords: Record<string, string> = {};
+let mfa: Record<string, MfaRecord> = {};
+
+// Pending second login steps keyed by challenge token hash
+let mfaChallenges: Record<string, MfaChallenge> = {};
+
+const MFA_CHALLENGE_TTL = 5 * 60 * 1000;
+const MFA_CHALLENGE_MAX_ATTEMPTS = 5;
+const RECOVERY_CODE_COUNT = 10;
+
+// Active sessions keyed by token hash, written through to the sessions table
+let sessions: Record<string, Session> = {};
+
+// Sliding expiry is only written back to SQLite once a minute per session
+const SESSION_TOUCH_INTERVAL = 60 * 1000;
+const sessionPersistedAt: Record<string, number> = {};
+
+// File paths for persistent storage
+const USERS_FILE = path.join(process.cwd(), 'data', 'users.json');
+const PASSWORDS_FILE = path.join(process.cwd(), 'data', 'passwords.json');
+const MFA_FILE = path.join(process.cwd(), 'data', 'mfa.json');
+const TEMP_PASSWORD_FILE = path.join(process.cwd(), 'data', 'temp_password.txt');
+
+// Ensure data directory exists
+async function ensureDataDirectory() {
+  try {
+    await fs.mkdir(path.dirname(USERS_FILE), { recursive: true });
+  } catch (error) {
+    // Directory already exists
+  }
+}
+
+// Load data from files
+async function loadData() {
+  try {
+    await ensureDataDirectory();
+
+    try {
+      const usersData = await fs.readFile(USERS_FILE, 'utf8');
+      users = JSON.parse(usersData);
+
+      // Accounts created before roles existed had full access, keep them as admins
+      Object.values(users).forEach(user => {
+        if (!ROLES.includes(user.role)) {
+          user.role = 'admin';
+        }
+      });
+    } catch (error) {
+      console.log('No existing users file, starting fresh');
+      users = {};
+    }
+
+    try {
+      const passwordsData = await fs.readFile(PASSWORDS_FILE, 'utf8');
+      passwords = JSON.parse(passwordsData);
+    } catch (error) {
+      console.log('No existing passwords file, starting fresh');
+      passwords = {};
+    }
+
+    try {
+      const mfaData = await fs.readFile(MFA_FILE, 'utf8');
+      mfa = JSON.parse(mfaData);
+    } catch (error) {
+      mfa = {};
+    }
+
+    // Create default admin if no users exist
+    if (Object.keys(users).length === 0) {
+      await createDefaultAdmin();
+    }
+  } catch (error) {
+    console.error('Error loading authentication data:', error);
+  }
+}
+
+// Save data to files
+async function saveData() {
+  try {
+    await ensureDataDirectory();
+    await fs.writeFile(USERS_FILE, JSON.stringify(users, null, 2));
+    await fs.writeFile(PASSWORDS_FILE, JSON.stringify(passwords, null, 2));
+    await fs.writeFile(MFA_FILE, JSON.stringify(mfa, null, 2));
+  } catch (error) {
+    console.error('Error saving authentication data:', error);
+  }
+}
+
+// Create default admin user
+async function createDefaultAdmin() {
+  const tempPassword = 'TempAdmin!' + Math.random().toString(36).substring(2, 8);
+  const passwordHash = await bcrypt.hash(tempPassword, BCRYPT_ROUNDS);
+
+  const defaultUser: User = {
+    id: 'admin',
+    username: 'admin',
+    role: 'admin',
+    createdAt: new Date().toISOString(),
+    sessionTimeout: 30,
+    isDefault: true
+  };
+
+  users['admin'] = defaultUser;
+  passwords['admin'] = passwordHash;
+
+  await saveData();
+
+  console.warn('🚨 SECURITY: Default admin created with temporary password:', tempPassword);
+  console.warn('🚨 This password MUST be changed during initial setup!');
+
+  // Store temp password in a file for initial setup
+  try {
+    await fs.writeFile(TEMP_PASSWORD_FILE, tempPassword);
+  } catch (error) {
+    console.error('Could not save temporary password file');
+  }
+}
+
+// Generate secure session token
+function generateSessionToken(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+function hashSessionToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Sessions keep working from memory if the database write fails
+function persistSessionChange(operation: () => Promise<void>) {
+  operation().catch(error => {
+    console.error('Failed to persist session change:', error);
+  });
+}
+
+function removeSessions(predicate: (session: Session) => boolean): number {
+  const removed: string[] = [];
+  Object.keys(sessions).forEach(tokenHash => {
+    if (predicate(sessions[tokenHash])) {
+      removed.push(sessions[tokenHash].id);
+      delete sessionPersistedAt[sessions[tokenHash].id];
+      delete sessions[tokenHash];
+    }
+  });
+  persistSessionChange(() => historicalStorage.deleteSessions(removed));
+  return removed.length;
+}
+
+// Clean up expired sessions
+function cleanupExpiredSessions() {
+  const now = Date.now();
+  Object.keys(sessions).forEach(tokenHash => {
+    if (sessions[tokenHash].expiresAt < now) {
+      delete sessionPersistedAt[sessions[tokenHash].id];
+      delete sessions[tokenHash];
+    }
+  });
+  persistSessionChange(() => historicalStorage.deleteExpiredSessions());
+
+  Object.keys(mfaChallenges).forEach(tokenHash => {
+    if (mfaChallenges[tokenHash].expiresAt < now) {
+      delete mfaChallenges[tokenHash];
+    }
+  });
+}
+
+// Clean up expired sessions every 5 minutes
+setInterval(cleanupExpiredSessions, 5 * 60 * 1000);
+
+// True when the role grants at least the privileges of the required role
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+// User accessors
+
+export function getUser(userId: string): User | undefined {
+  return users[userId];
+}
+
+export function findUserByUsername(username: string): User | undefined {
+  return Object.values(users).find(u => u.username === username);
+}
+
+export function listUsers(): User[] {
+  return Object.values(users);
+}
+
+export function countAdmins(): number {
+  return Object.values(users).filter(u => u.role === 'admin').length;
+}
+
+export function hasUsers(): boolean {
+  return Object.keys(users).length > 0;
+}
+
+export async function verifyPassword(userId: string, password: string): Promise<boolean> {
+  const storedHash = passwords[userId];
+  if (!storedHash) return false;
+  return bcrypt.compare(password, storedHash);
+}
+
+export async function setUserPassword(userId: string, password: string): Promise<void> {
+  passwords[userId] = await bcrypt.hash(password, BCRYPT_ROUNDS);
+  await saveData();
+}
+
+export async function addUser(user: User, password: string): Promise<void> {
+  users[user.id] = user;
+  passwords[user.id] = await bcrypt.hash(password, BCRYPT_ROUNDS);
+  await saveData();
+}
+
+export async function updateUser(userId: string, changes: Partial<User>): Promise<User> {
+  users[userId] = { ...users[userId], ...changes };
+  await saveData();
+  return users[userId];
+}
+
+export async function removeUser(userId: string): Promise<void> {
+  delete users[userId];
+  delete passwords[userId];
+  delete mfa[userId];
+
+  // Remove any active sessions for this user
+  removeSessions(session => session.userId === userId);
+
+  await saveData();
+}
+
+// Multi-factor authentication
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(code.toLowerCase().replace(/[^a-z0-9]/g, '')).digest('hex');
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.randomBytes(7)).toLowerCase().slice(0, 10);
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+export function isMfaEnabled(userId: string): boolean {
+  return mfa[userId]?.enabled === true;
+}
+
+export function getMfaStatus(userId: string): MfaStatus {
+  const record = mfa[userId];
+  return {
+    enabled: record?.enabled === true,
+    recoveryCodesRemaining: record?.enabled ? record.recoveryCodes.length : 0
+  };
+}
+
+// Start enrollment with a fresh secret, MFA stays off until confirmMfaEnrollment succeeds
+export async function beginMfaEnrollment(userId: string): Promise<string> {
+  const secret = generateTotpSecret();
+  mfa[userId] = {
+    ...(mfa[userId] ?? { enabled: false, recoveryCodes: [], lastUsedCounter: -1 }),
+    pendingSecret: secret
+  };
+  await saveData();
+  return secret;
+}
+
+// Returns the one-time recovery codes, or null if the code does not match the pending secret
+export async function confirmMfaEnrollment(userId: string, code: string): Promise<string[] | null> {
+  const record = mfa[userId];
+  if (!record?.pendingSecret) return null;
+
+  const counter = verifyTotp(record.pendingSecret, code);
+  if (counter === null) return null;
+
+  const recoveryCodes = generateRecoveryCodes();
+  mfa[userId] = {
+    enabled: true,
+    secret: record.pendingSecret,
+    recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+    lastUsedCounter: counter
+  };
+  await saveData();
+  return recoveryCodes;
+}
+
+// Accepts a current TOTP code or an unused recovery code, which is then spent
+export async function verifyMfaCode(userId: string, code: string): Promise<'totp' | 'recovery' | null> {
+  const record = mfa[userId];
+  if (!record?.enabled || !record.secret) return null;
+
+  const counter = verifyTotp(record.secret, code, record.lastUsedCounter);
+  if (counter !== null) {
+    record.lastUsedCounter = counter;
+    await saveData();
+    return 'totp';
+  }
+
+  const index = record.recoveryCodes.indexOf(hashRecoveryCode(code));
+  if (index !== -1) {
+    record.recoveryCodes.splice(index, 1);
+    await saveData();
+    return 'recovery';
+  }
+
+  return null;
+}
+
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes();
+  mfa[userId].recoveryCodes = recoveryCodes.map(hashRecoveryCode);
+  await saveData();
+  return recoveryCodes;
+}
+
+export async function disableMfa(userId: string): Promise<void> {
+  delete mfa[userId];
+  await saveData();
+}
+
+// Second login step: a short-lived token proving the password was already checked
+export function createMfaChallenge(userId: string): string {
+  const token = generateSessionToken();
+  mfaChallenges[hashSessionToken(token)] = {
+    userId,
+    expiresAt: Date.now() + MFA_CHALLENGE_TTL,
+    attempts: 0
+  };
+  return token;
+}
+
+export function getMfaChallengeUser(token: string): string | null {
+  const challenge = mfaChallenges[hashSessionToken(token)];
+  if (!challenge || challenge.expiresAt < Date.now()) return null;
+  return challenge.userId;
+}
+
+// Count a wrong code, the challenge is dropped after too many and the password must be re-entered
+export function failMfaChallenge(token: string): void {
+  const tokenHash = hashSessionToken(token);
+  const challenge = mfaChallenges[tokenHash];
+  if (challenge && ++challenge.attempts >= MFA_CHALLENGE_MAX_ATTEMPTS) {
+    delete mfaChallenges[tokenHash];
+  }
+}
+
+export function completeMfaChallenge(token: string): void {
+  delete mfaChallenges[hashSessionToken(token)];
+}
+
+// Temporary password of the default admin, null once initial setup is done
+export async function readTempPassword(): Promise<string | null> {
+  try {
+    const tempPassword = await fs.readFile(TEMP_PASSWORD_FILE, 'utf8');
+    return tempPassword.trim();
+  } catch (error) {
+    return null;
+  }
+}
+
+export async function clearTempPassword(): Promise<void> {
+  try {
+    await fs.unlink(TEMP_PASSWORD_FILE);
+  } catch (error) {
+    // File might not exist
+  }
+}
+
+// Session accessors
+
+// Load sessions that survived a restart, called once historical storage is initialized
+export async function restoreSessions(): Promise<void> {
+  try {
+    // Sessions of users that no longer exist are skipped, so the users must be loaded first
+    await dataLoaded;
+    const stored = await historicalStorage.getActiveSessions();
+    const restored = stored.filter(session => users[session.userId]);
+    restored.forEach(session => {
+      sessions[session.tokenHash] = session;
+    });
+    console.log(`Restored ${restored.length} active session(s)`);
+  } catch (error) {
+    console.error('Failed to restore sessions:', error);
+  }
+}
+
+// Returns the new bearer token, which is never stored
+export function createSession(user: User, metadata: SessionMetadata = {}): { token: string; session: Session } {
+  const token = generateSessionToken();
+  const now = Date.now();
+  const session: Session = {
+    id: crypto.randomBytes(8).toString('hex'),
+    tokenHash: hashSessionToken(token),
+    userId: user.id,
+    username: user.username,
+    createdAt: now,
+    lastSeen: now,
+    expiresAt: now + (user.sessionTimeout * 60 * 1000),
+    userAgent: metadata.userAgent,
+    ipAddress: metadata.ipAddress
+  };
+  sessions[session.tokenHash] = session;
+  sessionPersistedAt[session.id] = now;
+  persistSessionChange(() => historicalStorage.saveSession(session));
+  return { token, session };
+}
+
+// Returns the session for a token, dropping it if it has expired
+export function getSession(token: string): Session | null {
+  const tokenHash = hashSessionToken(token);
+  const session = sessions[tokenHash];
+
+  if (!session || session.expiresAt < Date.now()) {
+    if (session) {
+      removeSessions(s => s.id === session.id);
+    }
+    return null;
+  }
+
+  return session;
+}
+
+// Slide the expiry forward by the user's session timeout, forcing the write on explicit refreshes
+export function touchSession(session: Session, user: User, persistNow = false): Session {
+  const now = Date.now();
+  session.lastSeen = now;
+  session.expiresAt = now + (user.sessionTimeout * 60 * 1000);
+
+  if (persistNow || now - (sessionPersistedAt[session.id] ?? 0) >= SESSION_TOUCH_INTERVAL) {
+    sessionPersistedAt[session.id] = now;
+    persistSessionChange(() => historicalStorage.touchSession(session.id, session.lastSeen, session.expiresAt));
+  }
+  return session;
+}
+
+export function listUserSessions(userId: string): Session[] {
+  const now = Date.now();
+  return Object.values(sessions)
+    .filter(session => session.userId === userId && session.expiresAt >= now)
+    .sort((a, b) => b.lastSeen - a.lastSeen);
+}
+
+export function deleteSession(sessionId: string): void {
+  removeSessions(session => session.id === sessionId);
+}
+
+// Revoke every session of a user, optionally keeping one, returns how many were revoked
+export function deleteUserSessions(userId: string, exceptSessionId?: string): number {
+  return removeSessions(session => session.userId === userId && session.id !== exceptSessionId);
+}
+
+// Initialize data on startup
+const dataLoaded = loadData();
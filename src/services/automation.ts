@@ -1,36 +1,597 @@
 import cron from "node-cron";
-import { getSensors, setFanSpeed } from "./ilo.js";
+import fs from "fs/promises";
+import path from "path";
+import { getSensors, lockAllFans, lockFanAtSpeed, getFanGroups, FanGroup, assertFanControlEnabled } from "./ilo.js";
+import { thermalWatchdog } from "./thermalWatchdog.js";
+import { FAN_CONTROL_ENABLED } from "../config/env.js";
 
 type Sensor = {
   name: string;
   type: string;
   status: string;
   reading: number;
+  number?: number;
+};
+
+export interface FanCurvePoint {
+  temperature: number; // °C
+  speed: number; // fan speed in percent
+}
+
+export type SensorSource = "max" | "avg" | "weighted";
+
+export interface FanCurve {
+  id: string;
+  name: string;
+  points: FanCurvePoint[];
+  sensors: string[]; // Sensor names feeding the curve, empty means all sensors
+  source: SensorSource;
+  weights?: Record<string, number>; // Only used when source is "weighted"
+  hysteresis: number; // °C the input must drop before the speed is lowered
+  rampRate: number; // Maximum speed change in percent per tick
+}
+
+// A set of iLO fan groups driven by its own curve
+export interface FanZone {
+  id: string;
+  name: string;
+  fans: number[]; // Fan group ids from `fan info g`
+  curveId: string;
+  sensors: string[]; // Overrides the curve's sensors, empty falls back to the curve, then to the group sensors
+}
+
+interface AutomationConfig {
+  enabled: boolean;
+  activeCurveId: string; // Curve used for all fans when no zones are defined
+  curves: FanCurve[];
+  zones: FanZone[];
+}
+
+interface AutomationConfigFile extends AutomationConfig {
+  lastUpdated?: string;
+}
+
+export interface AutomationAction {
+  timestamp: string;
+  speed: number;
+  inputTemperature: number;
+  reason: string;
+}
+
+export interface ZoneStatus {
+  zoneId: string;
+  name: string;
+  curveId: string;
+  fans: number[];
+  sensors: string[];
+  inputTemperature: number | null;
+  targetSpeed: number | null;
+  appliedSpeed: number | null;
+  lastAction: AutomationAction | null;
+  lastError?: string;
+}
+
+// Top-level fields summarise the zones: the hottest input, highest speeds and latest action
+export interface AutomationStatus {
+  running: boolean;
+  curveId: string | null;
+  inputTemperature: number | null;
+  targetSpeed: number | null;
+  appliedSpeed: number | null;
+  lastAction: AutomationAction | null;
+  lastRun: string | null;
+  lastError?: string;
+  zones: ZoneStatus[];
+}
+
+interface ZoneRuntime {
+  zone: FanZone;
+  curve: FanCurve;
+  // Input temperature at the moment the applied speed was last raised, used for hysteresis
+  decisionTemperature: number | null;
+  status: ZoneStatus;
+}
+
+const CONFIG_FILE = path.join(process.cwd(), "config", "fan-curves.json");
+
+const DEFAULT_CURVE: FanCurve = {
+  id: "default",
+  name: "Default",
+  points: [
+    { temperature: 25, speed: 20 },
+    { temperature: 35, speed: 32 },
+    { temperature: 45, speed: 60 },
+    { temperature: 55, speed: 90 },
+    { temperature: 65, speed: 100 }
+  ],
+  sensors: [],
+  source: "max",
+  hysteresis: 3,
+  rampRate: 10
+};
+
+// Zone id used when no zones are defined and one curve drives every fan
+const ALL_FANS_ZONE = "all";
+
+const DEFAULT_CONFIG: AutomationConfig = {
+  enabled: false,
+  activeCurveId: DEFAULT_CURVE.id,
+  curves: [DEFAULT_CURVE],
+  zones: []
 };
 
 let task: cron.ScheduledTask | null = null;
+let running = false;
+let runtimes: ZoneRuntime[] = [];
+let lastRun: string | null = null;
+let lastError: string | undefined;
+
+// Ensure config directory exists
+async function ensureConfigDir() {
+  const configDir = path.dirname(CONFIG_FILE);
+  try {
+    await fs.access(configDir);
+  } catch {
+    await fs.mkdir(configDir, { recursive: true });
+  }
+}
+
+async function loadConfig(): Promise<AutomationConfig> {
+  try {
+    await ensureConfigDir();
+    const data = await fs.readFile(CONFIG_FILE, "utf-8");
+    const config: AutomationConfigFile = JSON.parse(data);
+    const curves = Array.isArray(config.curves) && config.curves.length > 0 ? config.curves : DEFAULT_CONFIG.curves;
+
+    return {
+      enabled: config.enabled === true,
+      activeCurveId: config.activeCurveId || curves[0].id,
+      curves,
+      zones: Array.isArray(config.zones) ? config.zones : []
+    };
+  } catch (error) {
+    // If file doesn't exist or is corrupted, return defaults
+    return { ...DEFAULT_CONFIG, curves: [...DEFAULT_CONFIG.curves], zones: [] };
+  }
+}
+
+async function saveConfig(config: AutomationConfig): Promise<void> {
+  await ensureConfigDir();
+
+  const configToSave: AutomationConfigFile = {
+    ...config,
+    lastUpdated: new Date().toISOString()
+  };
+
+  await fs.writeFile(CONFIG_FILE, JSON.stringify(configToSave, null, 2), "utf-8");
+}
+
+// Validate a curve submitted through the API, returns an error message or null
+export function validateFanCurve(curve: any): string | null {
+  if (!curve || typeof curve !== "object") return "curve is required";
+  if (typeof curve.id !== "string" || !curve.id.trim()) return "curve id is required";
+  if (typeof curve.name !== "string" || !curve.name.trim()) return "curve name is required";
+  if (!Array.isArray(curve.points) || curve.points.length < 2) return "curve needs at least two points";
+
+  for (const point of curve.points) {
+    if (typeof point?.temperature !== "number" || typeof point?.speed !== "number") {
+      return "curve points need numeric temperature and speed";
+    }
+    if (point.speed < 10 || point.speed > 100) return "curve speeds must be between 10 and 100%";
+  }
+
+  const temperatures = curve.points.map((p: FanCurvePoint) => p.temperature);
+  if (new Set(temperatures).size !== temperatures.length) return "curve point temperatures must be unique";
+
+  if (!Array.isArray(curve.sensors) || curve.sensors.some((s: any) => typeof s !== "string")) {
+    return "sensors must be an array of sensor names";
+  }
+  if (!["max", "avg", "weighted"].includes(curve.source)) return "source must be one of max, avg, weighted";
+  if (curve.source === "weighted" && (!curve.weights || typeof curve.weights !== "object")) {
+    return "weights are required for the weighted source";
+  }
+  if (typeof curve.hysteresis !== "number" || curve.hysteresis < 0 || curve.hysteresis > 20) {
+    return "hysteresis must be between 0 and 20 °C";
+  }
+  if (typeof curve.rampRate !== "number" || curve.rampRate < 1 || curve.rampRate > 100) {
+    return "rampRate must be between 1 and 100%";
+  }
+
+  return null;
+}
+
+// Validate a zone against the stored curves and the other zones, returns an error message or null
+function validateFanZone(zone: any, config: AutomationConfig): string | null {
+  if (!zone || typeof zone !== "object") return "zone is required";
+  if (typeof zone.id !== "string" || !zone.id.trim() || zone.id === ALL_FANS_ZONE) return "a valid zone id is required";
+  if (typeof zone.name !== "string" || !zone.name.trim()) return "zone name is required";
+  if (!Array.isArray(zone.fans) || zone.fans.length === 0 || zone.fans.some((f: any) => !Number.isInteger(f) || f < 0)) {
+    return "fans must be a non-empty array of fan group ids";
+  }
+  if (!config.curves.some(c => c.id === zone.curveId)) return `Fan curve ${zone.curveId} not found`;
+  if (!Array.isArray(zone.sensors) || zone.sensors.some((s: any) => typeof s !== "string")) {
+    return "sensors must be an array of sensor names";
+  }
+
+  const taken = config.zones.filter(z => z.id !== zone.id).flatMap(z => z.fans);
+  const overlap = zone.fans.filter((f: number) => taken.includes(f));
+  if (overlap.length > 0) return `Fan groups ${overlap.join(", ")} already belong to another zone`;
+
+  return null;
+}
+
+// Linear interpolation between the curve points, clamped to the first and last point
+export function interpolateCurve(points: FanCurvePoint[], temperature: number): number {
+  const sorted = [...points].sort((a, b) => a.temperature - b.temperature);
+
+  if (temperature <= sorted[0].temperature) return sorted[0].speed;
+  if (temperature >= sorted[sorted.length - 1].temperature) return sorted[sorted.length - 1].speed;
+
+  for (let i = 1; i < sorted.length; i++) {
+    const upper = sorted[i];
+    if (temperature <= upper.temperature) {
+      const lower = sorted[i - 1];
+      const ratio = (temperature - lower.temperature) / (upper.temperature - lower.temperature);
+      return lower.speed + ratio * (upper.speed - lower.speed);
+    }
+  }
+
+  return sorted[sorted.length - 1].speed;
+}
+
+// Reduce the selected sensors to a single input temperature, an empty selection uses every sensor
+export function computeInputTemperature(curve: FanCurve, sensors: Sensor[], sensorNames: string[] = curve.sensors): number | null {
+  const selected = sensors
+    .filter((s): s is Sensor => !!s && typeof s.reading === "number" && s.reading > 0)
+    .filter(s => sensorNames.length === 0 || sensorNames.includes(s.name));
+
+  if (selected.length === 0) return null;
+
+  switch (curve.source) {
+    case "max":
+      return Math.max(...selected.map(s => s.reading));
+    case "avg":
+      return selected.reduce((sum, s) => sum + s.reading, 0) / selected.length;
+    case "weighted": {
+      const weights = curve.weights || {};
+      let total = 0;
+      let weightSum = 0;
+      selected.forEach(s => {
+        const weight = weights[s.name] ?? 1;
+        total += s.reading * weight;
+        weightSum += weight;
+      });
+      return weightSum > 0 ? total / weightSum : null;
+    }
+  }
+}
+
+// Map the sensor numbers of the zone's fan groups to Redfish sensor names
+function resolveGroupSensors(fans: number[], groups: FanGroup[], sensors: Sensor[]): string[] {
+  const numbers = new Set(groups.filter(g => fans.includes(g.id)).flatMap(g => g.sensors));
+  return sensors
+    .filter(s => {
+      const sensorNumber = s.number ?? parseInt(s.name, 10);
+      return !isNaN(sensorNumber) && numbers.has(sensorNumber);
+    })
+    .map(s => s.name);
+}
+
+async function buildRuntimes(config: AutomationConfig, curveId?: string): Promise<ZoneRuntime[]> {
+  const findCurve = (id: string) => {
+    const curve = config.curves.find(c => c.id === id);
+    if (!curve) throw new Error(`Fan curve ${id} not found`);
+    return curve;
+  };
+
+  const createRuntime = (zone: FanZone, curve: FanCurve, sensors: string[]): ZoneRuntime => ({
+    zone,
+    curve,
+    decisionTemperature: null,
+    status: {
+      zoneId: zone.id,
+      name: zone.name,
+      curveId: curve.id,
+      fans: zone.fans,
+      sensors,
+      inputTemperature: null,
+      targetSpeed: null,
+      appliedSpeed: null,
+      lastAction: null
+    }
+  });
 
-export function startAutomation(thresholds = { low: 30, med: 40 }) {
-  stopAutomation();
-  task = cron.schedule("*/1 * * * *", async () => {
+  if (config.zones.length === 0) {
+    const curve = findCurve(curveId || config.activeCurveId);
+    const zone: FanZone = { id: ALL_FANS_ZONE, name: "All fans", fans: [], curveId: curve.id, sensors: [] };
+    return [createRuntime(zone, curve, curve.sensors)];
+  }
+
+  // Group membership is only needed for zones without an explicit sensor selection
+  let groups: FanGroup[] = [];
+  let sensors: Sensor[] = [];
+  const needsGroups = config.zones.some(z => z.sensors.length === 0 && findCurve(z.curveId).sensors.length === 0);
+  if (needsGroups) {
     try {
-      const sensors = (await getSensors()) as Sensor[];
-      const temps = sensors
-        .filter((s): s is Sensor => !!s && typeof s.reading === "number")
-        .map(s => s.reading);
-      const avgTemp = temps.reduce((a, b) => a + b, 0) / temps.length;
-      let speed = 32;
-      if (avgTemp > thresholds.low) speed = 60;
-      if (avgTemp > thresholds.med) speed = 90;
-      await setFanSpeed(speed);
-      console.log(`[Automation] Set fan speed to ${speed}% (avgTemp: ${avgTemp})`);
-    } catch (e) {
-      console.error("[Automation] Error:", e);
+      [groups, sensors] = await Promise.all([getFanGroups(), getSensors() as Promise<Sensor[]>]);
+    } catch (error) {
+      console.warn("[Automation] Could not read fan groups, zones without sensors will use all sensors:", error);
     }
+  }
+
+  return config.zones.map(zone => {
+    const curve = findCurve(zone.curveId);
+    const zoneSensors = zone.sensors.length > 0
+      ? zone.sensors
+      : curve.sensors.length > 0
+        ? curve.sensors
+        : resolveGroupSensors(zone.fans, groups, sensors);
+    return createRuntime(zone, curve, zoneSensors);
   });
 }
 
-export function stopAutomation() {
+async function applyZoneSpeed(runtime: ZoneRuntime, speed: number) {
+  if (runtime.zone.id === ALL_FANS_ZONE) {
+    await lockAllFans(speed);
+    return;
+  }
+  for (const fanId of runtime.zone.fans) {
+    await lockFanAtSpeed(fanId, speed);
+  }
+}
+
+async function runZone(runtime: ZoneRuntime, sensors: Sensor[]) {
+  const { curve, status } = runtime;
+
+  try {
+    const inputTemperature = computeInputTemperature(curve, sensors, status.sensors);
+
+    if (inputTemperature === null) {
+      status.lastError = "No readings available for the selected sensors";
+      console.warn(`[Automation] No readings available for zone ${status.name}, keeping current speed`);
+      return;
+    }
+
+    const targetSpeed = Math.round(interpolateCurve(curve.points, inputTemperature));
+    status.inputTemperature = Math.round(inputTemperature * 10) / 10;
+    status.targetSpeed = targetSpeed;
+    status.lastError = undefined;
+
+    const current = status.appliedSpeed;
+    let nextSpeed: number;
+    let reason: string;
+
+    if (current === null) {
+      nextSpeed = targetSpeed;
+      reason = "initial";
+    } else if (targetSpeed > current) {
+      nextSpeed = Math.min(targetSpeed, current + curve.rampRate);
+      reason = "rising";
+    } else if (targetSpeed < current) {
+      // Only slow down once the input has dropped below the last decision point by the hysteresis band
+      if (runtime.decisionTemperature !== null && inputTemperature > runtime.decisionTemperature - curve.hysteresis) {
+        return;
+      }
+      nextSpeed = Math.max(targetSpeed, current - curve.rampRate);
+      reason = "falling";
+    } else {
+      return;
+    }
+
+    if (nextSpeed === current) return;
+
+    await applyZoneSpeed(runtime, nextSpeed);
+    status.appliedSpeed = nextSpeed;
+    if (reason !== "falling") {
+      runtime.decisionTemperature = inputTemperature;
+    }
+    status.lastAction = {
+      timestamp: new Date().toISOString(),
+      speed: nextSpeed,
+      inputTemperature: status.inputTemperature,
+      reason
+    };
+    console.log(`[Automation] Zone ${status.name}: set fan speed to ${nextSpeed}% (input: ${status.inputTemperature}°C, target: ${targetSpeed}%, curve: ${curve.name})`);
+  } catch (e) {
+    status.lastError = (e as Error).message;
+    console.error(`[Automation] Error in zone ${status.name}:`, e);
+  }
+}
+
+async function runCurves() {
+  if (!running) return;
+
+  // The thermal watchdog owns the fans while tripped; re-apply every zone once it releases
+  if (thermalWatchdog.isTripped()) {
+    runtimes.forEach(r => {
+      r.status.appliedSpeed = null;
+      r.decisionTemperature = null;
+    });
+    console.warn("[Automation] Thermal watchdog is tripped, skipping fan curve tick");
+    return;
+  }
+
+  try {
+    const sensors = (await getSensors()) as Sensor[];
+    lastRun = new Date().toISOString();
+    lastError = undefined;
+
+    for (const runtime of runtimes) {
+      await runZone(runtime, sensors);
+    }
+  } catch (e) {
+    lastError = (e as Error).message;
+    console.error("[Automation] Error:", e);
+  }
+}
+
+export async function startAutomation(curveId?: string): Promise<AutomationStatus> {
+  assertFanControlEnabled();
+  const config = await loadConfig();
+  const newRuntimes = await buildRuntimes(config, curveId);
+
+  stopTask();
+  runtimes = newRuntimes;
+  running = true;
+  lastError = undefined;
+
+  task = cron.schedule("*/1 * * * *", runCurves);
+  runCurves();
+
+  const activeCurveId = config.zones.length === 0 ? runtimes[0].curve.id : config.activeCurveId;
+  await saveConfig({ ...config, enabled: true, activeCurveId });
+  console.log(`[Automation] Started with ${runtimes.length} zone(s): ${runtimes.map(r => `${r.zone.name} (${r.curve.name})`).join(", ")}`);
+  return getAutomationStatus();
+}
+
+export async function stopAutomation(): Promise<void> {
+  stopTask();
+  const config = await loadConfig();
+  await saveConfig({ ...config, enabled: false });
+  console.log("[Automation] Stopped");
+}
+
+function stopTask() {
   if (task) task.stop();
   task = null;
-}
\ No newline at end of file
+  running = false;
+}
+
+// Resume automation after a restart if it was running before
+export async function resumeAutomation(): Promise<void> {
+  const config = await loadConfig();
+  if (config.enabled && !FAN_CONTROL_ENABLED) {
+    console.warn("[Automation] Not resuming fan curve automation, fan control is disabled by FAN_CONTROL_ENABLED=false");
+  } else if (config.enabled) {
+    console.log("[Automation] Resuming fan curve automation");
+    await startAutomation();
+  }
+}
+
+// Rebuild the running zones after the curves or zones changed
+async function reloadIfRunning(): Promise<void> {
+  if (running) {
+    await startAutomation();
+  }
+}
+
+export function getAutomationStatus(): AutomationStatus {
+  const zones = runtimes.map(r => ({ ...r.status }));
+  const maxOf = (values: (number | null)[]) => {
+    const present = values.filter((v): v is number => v !== null);
+    return present.length > 0 ? Math.max(...present) : null;
+  };
+  const lastAction = zones
+    .map(z => z.lastAction)
+    .filter((a): a is AutomationAction => a !== null)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))[0] || null;
+
+  return {
+    running,
+    curveId: zones.length === 1 && zones[0].zoneId === ALL_FANS_ZONE ? zones[0].curveId : null,
+    inputTemperature: maxOf(zones.map(z => z.inputTemperature)),
+    targetSpeed: maxOf(zones.map(z => z.targetSpeed)),
+    appliedSpeed: maxOf(zones.map(z => z.appliedSpeed)),
+    lastAction,
+    lastRun,
+    lastError,
+    zones
+  };
+}
+
+export async function getFanCurves(): Promise<{ activeCurveId: string; curves: FanCurve[] }> {
+  const config = await loadConfig();
+  return { activeCurveId: config.activeCurveId, curves: config.curves };
+}
+
+export async function saveFanCurve(curve: FanCurve): Promise<FanCurve> {
+  const config = await loadConfig();
+  const stored: FanCurve = {
+    ...curve,
+    points: [...curve.points].sort((a, b) => a.temperature - b.temperature)
+  };
+  const index = config.curves.findIndex(c => c.id === stored.id);
+
+  if (index >= 0) {
+    config.curves[index] = stored;
+  } else {
+    config.curves.push(stored);
+  }
+
+  await saveConfig(config);
+
+  // Pick up edits to a running curve
+  if (runtimes.some(r => r.curve.id === stored.id)) {
+    await reloadIfRunning();
+  }
+
+  return stored;
+}
+
+export async function deleteFanCurve(curveId: string): Promise<void> {
+  const config = await loadConfig();
+
+  if (running && runtimes.some(r => r.curve.id === curveId)) {
+    throw new Error("Cannot delete the fan curve that is currently running");
+  }
+  if (config.zones.some(z => z.curveId === curveId)) {
+    throw new Error("Cannot delete a fan curve that is assigned to a zone");
+  }
+  if (!config.curves.some(c => c.id === curveId)) {
+    throw new Error(`Fan curve ${curveId} not found`);
+  }
+  if (config.curves.length === 1) {
+    throw new Error("At least one fan curve must remain");
+  }
+
+  config.curves = config.curves.filter(c => c.id !== curveId);
+  if (config.activeCurveId === curveId) {
+    config.activeCurveId = config.curves[0].id;
+  }
+
+  await saveConfig(config);
+}
+
+export async function getFanZones(): Promise<FanZone[]> {
+  const config = await loadConfig();
+  return config.zones;
+}
+
+export async function saveFanZone(zone: FanZone): Promise<FanZone> {
+  const config = await loadConfig();
+  const validationError = validateFanZone(zone, config);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const stored: FanZone = {
+    id: zone.id,
+    name: zone.name,
+    fans: [...zone.fans].sort((a, b) => a - b),
+    curveId: zone.curveId,
+    sensors: zone.sensors
+  };
+  const index = config.zones.findIndex(z => z.id === stored.id);
+
+  if (index >= 0) {
+    config.zones[index] = stored;
+  } else {
+    config.zones.push(stored);
+  }
+
+  await saveConfig(config);
+  await reloadIfRunning();
+  return stored;
+}
+
+export async function deleteFanZone(zoneId: string): Promise<void> {
+  const config = await loadConfig();
+
+  if (!config.zones.some(z => z.id === zoneId)) {
+    throw new Error(`Fan zone ${zoneId} not found`);
+  }
+
+  config.zones = config.zones.filter(z => z.id !== zoneId);
+  await saveConfig(config);
+  await reloadIfRunning();
+}
@@ -1,9 +1,29 @@
 import { runIloCommand } from "./sshClient.js";
-import { SystemLogRecord } from "./systemLog.js";
+import { SystemLogRecord, IloEventRecord, logRecordTimestamp } from "./systemLog.js";
 import { PowerInformation } from "./power.js";
 import { SystemInformation } from "./systemInfo.js";
-import { historicalStorage } from "./historicalStorage.js";
-import { getSensors, getFans } from "./ilo.js";
+import { HardwareInventory, collectHardwareInventory } from "./inventory.js";
+import { SmartStorageStatus, getSmartStorageStatus, driveTemperatures } from "./smartStorage.js";
+import { PowerSupplyStatus, getPowerSupplyStatus } from "./powerSupplies.js";
+import { historicalStorage, EventLogKind } from "./historicalStorage.js";
+import { getSensors, getFans, invalidateThermalCache, recordSensorHistory, Sensor, Fan } from "./ilo.js";
+import { DEFAULT_SERVER_ID, isServerConfigured, listServers } from "./servers.js";
+import { liveEvents } from "./liveEvents.js";
+import { alertEngine } from "./alerts.js";
+import { mqttBridge } from "./mqtt.js";
+import { getThermalWatchdog, removeThermalWatchdog } from "./thermalWatchdog.js";
+import { parsePowerState, PowerState } from "./powerControl.js";
+import {
+  DATA_COLLECTION_INTERVAL,
+  POLL_THERMAL_INTERVAL,
+  POLL_POWER_INTERVAL,
+  POLL_LOG_INTERVAL,
+  POLL_SYSTEM_INFO_INTERVAL,
+  POLL_STORAGE_INTERVAL,
+  BOOST_THERMAL_INTERVAL_MS,
+  BOOST_POWER_INTERVAL_MS,
+  POLL_MAX_BACKOFF_MS
+} from "../config/env.js";
 
 interface PidInfo {
   number: number;
@@ -13,129 +33,341 @@ interface PidInfo {
   output: number;
 }
 
+// Latest generation of a log archive and the record numbers already stored in it
+interface LogArchive {
+  generation: number;
+  numbers: Set<number>;
+}
+
 interface CachedData {
   systemLogs: SystemLogRecord[];
   powerInfo: PowerInformation | null;
+  powerSupplies: PowerSupplyStatus | null;
   systemInfo: SystemInformation | null;
+  inventory: HardwareInventory | null;
+  storage: SmartStorageStatus | null;
   pidData: PidInfo[];
   lastUpdated: Date;
   lastRecordNumbers: number[]; // Track record numbers for smart caching
+  lastEventRecordNumbers: number[]; // Same for the iLO Event Log
   cachedLogData: Map<number, SystemLogRecord>; // Cache individual log records
   errors: {
     systemLogs?: string;
     powerInfo?: string;
+    powerSupplies?: string;
     systemInfo?: string;
     pidData?: string;
+    eventLog?: string;
+    inventory?: string;
+    storage?: string;
   };
 }
 
+type DataSource = keyof CachedData['errors'];
+
+export interface FetcherStats {
+  cycles: number; // Completed scheduler runs, each runs every task that was due
+  failedCycles: number; // Runs aborted by an unexpected error
+  lastCycleDurationMs: number | null;
+  totalCycleDurationMs: number;
+  lastCompletedAt: Date | null; // End of the last completed run
+  errors: Record<DataSource, number>; // Failed fetches per data source
+}
+
+// Each class of data is polled on its own cadence, logs are checked often but only
+// fetched when the record list changed
+export type PollTaskName = 'thermal' | 'power' | 'powerSupplies' | 'systemLogs' | 'eventLog' | 'systemInfo' | 'inventory' | 'storage' | 'history';
+
+export interface PollTaskStatus {
+  name: PollTaskName;
+  intervalMs: number; // Configured interval
+  effectiveIntervalMs: number; // After boost and backoff
+  backoffLevel: number; // Interval is doubled per level after failed or slow runs
+  lastRunAt: Date | null;
+  lastSuccessAt: Date | null;
+  lastDurationMs: number | null;
+  lastError: string | null;
+  nextRunAt: Date | null;
+}
+
+export interface PollingStatus {
+  running: boolean;
+  boostedUntil: Date | null; // High-frequency mode while fans are being tuned
+  tasks: PollTaskStatus[];
+}
+
+interface PollTask {
+  name: PollTaskName;
+  intervalMs: number;
+  boostIntervalMs?: number;
+  run: () => Promise<string | null>; // Error message of a failed run, null on success
+  source?: DataSource; // Errors surfaced through getSystemLogs() etc.
+  nextRunAt: number;
+  backoffLevel: number;
+  lastRunAt: number | null;
+  lastSuccessAt: number | null;
+  lastDurationMs: number | null;
+  lastError: string | null;
+}
+
+// Pause between tasks of one run so a single iLO does not get every command at once
+const TASK_GAP_MS = 1000;
+// A run taking longer than this counts as the iLO struggling, like an error
+const SLOW_TASK_MS = 20_000;
+const MAX_BACKOFF_LEVEL = 4;
+const BOOST_DURATION_MS = 5 * 60 * 1000;
+// IML records kept in the cache for the dashboard and alerting, the full log is archived in SQLite
+const RECENT_LOG_RECORDS = 5;
+// Records archived per log poll on top of the recent ones, keeps a first read of a long IML from hogging the iLO
+const ARCHIVE_RECORDS_PER_POLL = 10;
+
 class CentralizedDataFetcher {
   private cache: CachedData = {
     systemLogs: [],
     powerInfo: null,
+    powerSupplies: null,
     systemInfo: null,
+    inventory: null,
+    storage: null,
     pidData: [],
     lastUpdated: new Date(0),
     lastRecordNumbers: [],
+    lastEventRecordNumbers: [],
     cachedLogData: new Map(),
     errors: {}
   };
   
-  private fetchInterval: NodeJS.Timeout | null = null;
+  private stats: FetcherStats = {
+    cycles: 0,
+    failedCycles: 0,
+    lastCycleDurationMs: null,
+    totalCycleDurationMs: 0,
+    lastCompletedAt: null,
+    errors: { systemLogs: 0, powerInfo: 0, powerSupplies: 0, systemInfo: 0, pidData: 0, eventLog: 0, inventory: 0, storage: 0 }
+  };
+  
+  private timer: NodeJS.Timeout | null = null;
   private isFetching = false;
   private isStarted = false;
-  private readonly FETCH_INTERVAL_MS = 3 * 60 * 1000; // 3 minutes
+  private boostedUntil = 0;
+  // Last thermal readings, recorded to history on the collection interval
+  private latestThermal: { sensors: Sensor[]; fans: Fan[] } = { sensors: [], fans: [] };
+  private readonly tasks: PollTask[];
+  private readonly logArchives = new Map<EventLogKind, LogArchive>();
 
-  constructor() {
-    console.log('CentralizedDataFetcher initialized');
+  constructor(readonly serverId: string = DEFAULT_SERVER_ID) {
+    const task = (name: PollTaskName, intervalMs: number, run: PollTask['run'], extra: Partial<PollTask> = {}): PollTask => ({
+      name, intervalMs, run, nextRunAt: 0, backoffLevel: 0, lastRunAt: null, lastSuccessAt: null, lastDurationMs: null, lastError: null, ...extra
+    });
+    // Ordered by priority, a run works through every due task in this order
+    this.tasks = [
+      task('thermal', POLL_THERMAL_INTERVAL, () => this.fetchThermalData(), { boostIntervalMs: BOOST_THERMAL_INTERVAL_MS }),
+      task('power', POLL_POWER_INTERVAL, () => this.runFetch('powerInfo', () => this.fetchPowerInfo()), { source: 'powerInfo', boostIntervalMs: BOOST_POWER_INTERVAL_MS }),
+      task('powerSupplies', POLL_POWER_INTERVAL, () => this.runFetch('powerSupplies', () => this.fetchPowerSupplies()), { source: 'powerSupplies' }),
+      task('systemLogs', POLL_LOG_INTERVAL, () => this.runFetch('systemLogs', () => this.fetchSystemLogs()), { source: 'systemLogs' }),
+      task('eventLog', POLL_LOG_INTERVAL, () => this.runFetch('eventLog', () => this.fetchEventLog()), { source: 'eventLog' }),
+      task('storage', POLL_STORAGE_INTERVAL, () => this.runFetch('storage', () => this.fetchStorage()), { source: 'storage' }),
+      task('systemInfo', POLL_SYSTEM_INFO_INTERVAL, () => this.runFetch('systemInfo', () => this.fetchSystemInfo()), { source: 'systemInfo' }),
+      task('inventory', POLL_SYSTEM_INFO_INTERVAL, () => this.runFetch('inventory', () => this.fetchInventory()), { source: 'inventory' }),
+      task('history', DATA_COLLECTION_INTERVAL, () => this.storeThermalDataToHistory())
+    ];
+    console.log(`CentralizedDataFetcher initialized for server ${serverId}`);
   }
 
   start() {
-    if (this.fetchInterval) {
-      clearInterval(this.fetchInterval);
-    }
-
     this.isStarted = true;
     console.log('CentralizedDataFetcher starting...');
-    
-    // Fetch immediately, then every 3 minutes
-    this.fetchAllData();
-    this.fetchInterval = setInterval(() => {
-      this.fetchAllData();
-    }, this.FETCH_INTERVAL_MS);
 
-    console.log('CentralizedDataFetcher started - fetching every 3 minutes');
+    // Everything is fetched right away, then each task follows its own interval
+    for (const task of this.tasks) {
+      task.nextRunAt = 0;
+    }
+    this.scheduleNextRun();
+
+    // Fans of any registered server can be locked, so each one needs its own watchdog; the
+    // default server's runs from startup, before the iLO is configured
+    if (this.serverId !== DEFAULT_SERVER_ID) {
+      getThermalWatchdog(this.serverId).start();
+    }
+
+    console.log(`CentralizedDataFetcher started - ${this.tasks.map(t => `${t.name} every ${Math.round(t.intervalMs / 1000)}s`).join(', ')}`);
   }
 
   stop() {
-    if (this.fetchInterval) {
-      clearInterval(this.fetchInterval);
-      this.fetchInterval = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
     }
     this.isStarted = false;
     console.log('CentralizedDataFetcher stopped');
   }
 
   isRunning(): boolean {
-    return this.isStarted && this.fetchInterval !== null;
+    return this.isStarted;
   }
 
-  private async fetchAllData() {
+  // Poll faster for a while, called whenever a user changes fan settings so the effect shows up quickly
+  boost(durationMs: number = BOOST_DURATION_MS) {
+    const wasBoosted = this.isBoosted();
+    this.boostedUntil = Math.max(this.boostedUntil, Date.now() + durationMs);
+    if (wasBoosted) return;
+
+    console.log(`Polling ${this.serverId} at high frequency for ${Math.round(durationMs / 60000)} minutes`);
+    const now = Date.now();
+    for (const task of this.tasks) {
+      if (task.boostIntervalMs && task.lastRunAt !== null) {
+        task.nextRunAt = Math.min(task.nextRunAt, task.lastRunAt + task.boostIntervalMs, now + task.boostIntervalMs);
+      }
+    }
+    if (this.isStarted) this.scheduleNextRun();
+  }
+
+  private isBoosted(): boolean {
+    return Date.now() < this.boostedUntil;
+  }
+
+  private effectiveInterval(task: PollTask): number {
+    const base = this.isBoosted() && task.boostIntervalMs ? Math.min(task.boostIntervalMs, task.intervalMs) : task.intervalMs;
+    if (task.backoffLevel === 0) return base;
+    return Math.min(base * 2 ** task.backoffLevel, Math.max(base, POLL_MAX_BACKOFF_MS));
+  }
+
+  private scheduleNextRun() {
+    if (this.timer) clearTimeout(this.timer);
+    if (!this.isStarted) {
+      this.timer = null;
+      return;
+    }
+
+    const nextDue = Math.min(...this.tasks.map(task => task.nextRunAt));
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      // A refresh in progress schedules the next run itself when it finishes
+      if (this.isFetching) return;
+      this.runDueTasks().finally(() => this.scheduleNextRun());
+    }, Math.max(0, nextDue - Date.now()));
+  }
+
+  private async runDueTasks() {
     if (this.isFetching) {
-      console.log('Already fetching data, skipping this cycle');
+      console.log('Already fetching data, skipping this run');
       return;
     }
 
     this.isFetching = true;
-    console.log('Starting centralized data fetch cycle...');
+    const runStartedAt = Date.now();
+    let ran = 0;
 
     try {
-      // Reset errors
-      this.cache.errors = {};
-
       // Check if iLO is configured before attempting to fetch
-      const { isILoConfigured } = await import('./config.js');
-      const configured = await isILoConfigured();
-      
+      const configured = await isServerConfigured(this.serverId);
       if (!configured) {
         console.log('iLO not configured, skipping data fetch');
-        this.isFetching = false;
+        const retryAt = Date.now() + POLL_THERMAL_INTERVAL;
+        this.tasks.forEach(task => task.nextRunAt = Math.max(task.nextRunAt, retryAt));
         return;
       }
 
-      console.log('iLO is configured, proceeding with data fetch...');
-
-      // Fetch all data in sequence to avoid overwhelming iLO
-      // Add delays between fetches to be even more gentle on the SSH connection
-      await this.fetchSystemInfo();
-      await new Promise(resolve => setTimeout(resolve, 1000)); // 1 second delay
-      
-      await this.fetchPowerInfo();
-      await new Promise(resolve => setTimeout(resolve, 1000)); // 1 second delay
-      
-      await this.fetchSystemLogs();
-      await new Promise(resolve => setTimeout(resolve, 1000)); // 1 second delay
-      
-      await this.fetchPidData();
-
-      // Store thermal data in historical storage
-      await this.storeThermalDataToHistory();
+      for (const task of this.tasks) {
+        if (task.nextRunAt > Date.now()) continue;
+        if (ran > 0) {
+          await new Promise(resolve => setTimeout(resolve, TASK_GAP_MS));
+        }
+        await this.runTask(task);
+        ran++;
+      }
 
-      this.cache.lastUpdated = new Date();
-      console.log('Centralized data fetch cycle completed successfully');
+      if (ran > 0) {
+        this.cache.lastUpdated = new Date();
+        this.recordCycle(runStartedAt);
+      }
     } catch (error) {
-      console.error('Error in centralized data fetch cycle:', error);
+      this.stats.failedCycles++;
+      console.error('Error in centralized data fetch run:', error);
     } finally {
       this.isFetching = false;
     }
   }
 
+  private async runTask(task: PollTask) {
+    const startedAt = Date.now();
+    let error: string | null;
+    try {
+      error = await task.run();
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Unknown error';
+    }
+    const finishedAt = Date.now();
+
+    task.lastRunAt = finishedAt;
+    task.lastDurationMs = finishedAt - startedAt;
+    task.lastError = error;
+    if (error === null) {
+      task.lastSuccessAt = finishedAt;
+    }
+
+    // Errors and slow answers both mean the iLO needs a break, a quick success resets the backoff
+    const struggling = error !== null || task.lastDurationMs > SLOW_TASK_MS;
+    const previousLevel = task.backoffLevel;
+    task.backoffLevel = struggling ? Math.min(task.backoffLevel + 1, MAX_BACKOFF_LEVEL) : 0;
+    if (task.backoffLevel > previousLevel) {
+      console.warn(`Backing off ${task.name} polling of ${this.serverId} to every ${Math.round(this.effectiveInterval(task) / 1000)}s: ${error ?? `took ${task.lastDurationMs}ms`}`);
+    }
+    task.nextRunAt = finishedAt + this.effectiveInterval(task);
+  }
+
+  // The fetch methods record their own errors, a task failed when one was left behind
+  private async runFetch(source: DataSource, fetch: () => Promise<void>): Promise<string | null> {
+    delete this.cache.errors[source];
+    await fetch();
+    if (this.cache.errors[source]) {
+      this.stats.errors[source]++;
+    }
+    return this.cache.errors[source] ?? null;
+  }
+
+  // Thermal readings and the fan PID state, followed by alerting and MQTT which work on the freshest readings
+  private async fetchThermalData(): Promise<string | null> {
+    // Readings are otherwise served from the API cache, the scheduler always wants new ones.
+    // Sensors and fans come from the same Thermal resource, both share a single request.
+    invalidateThermalCache(this.serverId);
+    const [sensors, fans] = await Promise.all([
+      getSensors(this.serverId),
+      getFans(this.serverId)
+    ]);
+    this.latestThermal = { sensors, fans };
+    if (this.serverId === DEFAULT_SERVER_ID) {
+      recordSensorHistory(sensors);
+    }
+
+    await this.runFetch('pidData', () => this.fetchPidData());
+
+    await alertEngine.evaluate(this.serverId, {
+      sensors,
+      fans,
+      powerInfo: this.cache.powerInfo,
+      powerSupplies: this.cache.powerSupplies,
+      systemLogs: this.cache.systemLogs,
+      errors: this.cache.errors
+    });
+
+    await mqttBridge.publishReadings(this.serverId, {
+      sensors,
+      fans,
+      powerInfo: this.cache.powerInfo,
+      systemInfo: this.cache.systemInfo
+    });
+
+    // getSensors and getFans fall back to empty lists when Redfish cannot be reached
+    return sensors.length === 0 && fans.length === 0 ? 'No thermal readings returned' : null;
+  }
+
   private async fetchSystemLogs() {
     try {
       console.log('Fetching system logs...');
       
       // Get the list of log records
-      const logListOutput = await runIloCommand("show system1/log1");
+      const logListOutput = await runIloCommand("show system1/log1", this.serverId);
       const recordNumbers = this.extractRecordNumbers(logListOutput);
       
       if (recordNumbers.length === 0) {
@@ -145,70 +377,76 @@ class CentralizedDataFetcher {
         return;
       }
       
-      // Get the last 5 records (increased from 3 for better data)
-      const recentRecords = recordNumbers.slice(-5);
-      
       // Smart caching: check if record numbers have changed
-      const recordsChanged = !this.arraysEqual(recentRecords, this.cache.lastRecordNumbers);
+      const recordsChanged = !this.arraysEqual(recordNumbers, this.cache.lastRecordNumbers);
       
       if (!recordsChanged) {
         console.log('Log record numbers unchanged, using cached data');
         return; // No need to fetch, data hasn't changed
       }
-      
-      console.log(`Log records changed from [${this.cache.lastRecordNumbers.join(', ')}] to [${recentRecords.join(', ')}]`);
-      
-      // Determine which records are new and need fetching
-      const cachedRecords = new Set(this.cache.lastRecordNumbers);
-      const newRecords = recentRecords.filter(num => !cachedRecords.has(num));
+
+      // The last records are shown on the dashboard and checked by alerting
+      const recentRecords = recordNumbers.slice(-RECENT_LOG_RECORDS);
+      const archive = await this.getLogArchive('iml');
+      const archived = archive?.numbers;
+
+      if (archive && this.logWasCleared(recordNumbers, archive.numbers)) {
+        console.log(`IML of ${this.serverId} was cleared, archiving records from ${recordNumbers[0]} as generation ${archive.generation + 1}`);
+        this.startNewGeneration(archive);
+        this.cache.cachedLogData.clear();
+      }
+
+      // Records the archive is missing, newest first, a long IML is backfilled over several polls
+      const backlog = archived ? recordNumbers.filter(num => !archived.has(num)).reverse() : [];
+      const archiveBatch = backlog.slice(0, ARCHIVE_RECORDS_PER_POLL);
+      const newRecords = [...new Set([...recentRecords.filter(num => !this.cache.cachedLogData.has(num)), ...archiveBatch])];
       
       console.log(`Found ${newRecords.length} new records to fetch: [${newRecords.join(', ')}]`);
       
       // Fetch only new records
-      const logRecords: SystemLogRecord[] = [];
+      const fetchedRecords: SystemLogRecord[] = [];
       
-      for (const recordNumber of recentRecords) {
+      for (const recordNumber of newRecords) {
         try {
-          let record: SystemLogRecord | null = null;
+          // Fetch new record from iLO
+          console.log(`Fetching new record ${recordNumber}...`);
+          const recordOutput = await runIloCommand(`show system1/log1/record${recordNumber}`, this.serverId);
+          const record = this.parseLogRecord(recordOutput, recordNumber);
           
-          if (newRecords.includes(recordNumber)) {
-            // Fetch new record from iLO
-            console.log(`Fetching new record ${recordNumber}...`);
-            const recordOutput = await runIloCommand(`show system1/log1/record${recordNumber}`);
-            record = this.parseLogRecord(recordOutput, recordNumber);
-            
-            if (record) {
+          if (record) {
+            fetchedRecords.push(record);
+            if (recentRecords.includes(recordNumber)) {
               // Cache the new record
               this.cache.cachedLogData.set(recordNumber, record);
             }
-            
-            // Small delay between records to avoid overwhelming iLO
-            await new Promise(resolve => setTimeout(resolve, 500));
           } else {
-            // Use cached record
-            record = this.cache.cachedLogData.get(recordNumber) || null;
-            if (record) {
-              console.log(`Using cached record ${recordNumber}`);
-            }
+            // Skipped until restart rather than blocking the backfill behind it
+            archived?.add(recordNumber);
           }
           
-          if (record) {
-            logRecords.push(record);
-          }
+          // Small delay between records to avoid overwhelming iLO
+          await new Promise(resolve => setTimeout(resolve, 500));
         } catch (error) {
           console.error(`Failed to fetch record ${recordNumber}:`, error);
           // Continue with other records
         }
       }
+
+      if (archive && fetchedRecords.length > 0) {
+        await this.archiveRecords('iml', fetchedRecords, archive);
+      }
       
-      // Clean up old cached records that are no longer in the recent 5
+      // Clean up old cached records that are no longer in the recent ones
       const recentRecordsSet = new Set(recentRecords);
       for (const [cachedRecordNum] of this.cache.cachedLogData) {
         if (!recentRecordsSet.has(cachedRecordNum)) {
           this.cache.cachedLogData.delete(cachedRecordNum);
-          console.log(`Removed old cached record ${cachedRecordNum}`);
         }
       }
+
+      const logRecords = recentRecords
+        .map(num => this.cache.cachedLogData.get(num))
+        .filter((record): record is SystemLogRecord => !!record);
       
       // Sort by date/time (most recent first)
       const sortedRecords = logRecords.sort((a, b) => {
@@ -222,8 +460,10 @@ class CentralizedDataFetcher {
       });
       
       this.cache.systemLogs = sortedRecords;
-      this.cache.lastRecordNumbers = recentRecords; // Update the tracked record numbers
-      console.log(`Successfully processed ${sortedRecords.length} system log records (${newRecords.length} newly fetched, ${sortedRecords.length - newRecords.length} from cache)`);
+      liveEvents.publish('systemLogs', sortedRecords, this.serverId);
+      // While a backlog remains the list counts as changed, so the next poll carries on with it
+      this.cache.lastRecordNumbers = backlog.length > archiveBatch.length ? [] : recordNumbers;
+      console.log(`Successfully processed ${sortedRecords.length} system log records (${newRecords.length} newly fetched, ${Math.max(backlog.length - archiveBatch.length, 0)} left to archive)`);
       
     } catch (error) {
       console.error('Error fetching system logs:', error);
@@ -233,6 +473,101 @@ class CentralizedDataFetcher {
     }
   }
 
+  // The iLO Event Log is only archived, the records it is missing are read newest first like the IML backlog
+  private async fetchEventLog() {
+    try {
+      const archive = await this.getLogArchive('iel');
+      if (!archive) return;
+      const archived = archive.numbers;
+
+      console.log('Fetching iLO event log...');
+      const recordNumbers = this.extractRecordNumbers(await runIloCommand("show /map1/log1", this.serverId));
+      if (recordNumbers.length === 0 || this.arraysEqual(recordNumbers, this.cache.lastEventRecordNumbers)) {
+        console.log('iLO event log unchanged');
+        return;
+      }
+
+      if (this.logWasCleared(recordNumbers, archived)) {
+        console.log(`iLO event log of ${this.serverId} was cleared, archiving records from ${recordNumbers[0]} as generation ${archive.generation + 1}`);
+        this.startNewGeneration(archive);
+      }
+
+      const backlog = recordNumbers.filter(num => !archived.has(num)).reverse();
+      const batch = backlog.slice(0, ARCHIVE_RECORDS_PER_POLL);
+      const records: IloEventRecord[] = [];
+
+      for (const recordNumber of batch) {
+        try {
+          const recordOutput = await runIloCommand(`show /map1/log1/record${recordNumber}`, this.serverId);
+          const record = this.parseLogRecord(recordOutput, recordNumber);
+          if (record) {
+            records.push(record);
+          } else {
+            // Skipped until restart rather than blocking the backfill behind it
+            archived.add(recordNumber);
+          }
+
+          // Small delay between records to avoid overwhelming iLO
+          await new Promise(resolve => setTimeout(resolve, 500));
+        } catch (error) {
+          console.error(`Failed to fetch iLO event record ${recordNumber}:`, error);
+        }
+      }
+
+      if (records.length > 0) {
+        await this.archiveRecords('iel', records, archive);
+      }
+      this.cache.lastEventRecordNumbers = backlog.length > batch.length ? [] : recordNumbers;
+      console.log(`Archived ${records.length} iLO event log records, ${backlog.length - batch.length} left to archive`);
+    } catch (error) {
+      console.error('Error fetching iLO event log:', error);
+      this.cache.errors.eventLog = error instanceof Error ? error.message : 'Unknown error';
+      this.cache.lastEventRecordNumbers = [];
+    }
+  }
+
+  // Numbers only grow, a list ending below what was archived means the log was cleared and renumbered
+  private logWasCleared(recordNumbers: number[], archived: Set<number>): boolean {
+    return Math.max(...recordNumbers) < Math.max(-1, ...archived);
+  }
+
+  // Generation and record numbers already in a log archive, loaded once and kept up to date as records are archived.
+  // Null while historical storage is unavailable, only the recent IML records are fetched then
+  private async getLogArchive(log: EventLogKind): Promise<LogArchive | null> {
+    let archive = this.logArchives.get(log);
+    if (!archive) {
+      try {
+        const { generation, numbers } = await historicalStorage.getLogArchiveState(log, this.serverId);
+        archive = { generation, numbers: new Set(numbers) };
+        this.logArchives.set(log, archive);
+      } catch (error) {
+        console.error(`Error loading archived ${log.toUpperCase()} record numbers:`, error);
+        return null;
+      }
+    }
+    return archive;
+  }
+
+  // The renumbered records go into a new generation, the archived ones are kept as they are
+  private startNewGeneration(archive: LogArchive) {
+    archive.generation++;
+    archive.numbers.clear();
+  }
+
+  private async archiveRecords(log: EventLogKind, records: (SystemLogRecord | IloEventRecord)[], archive: LogArchive) {
+    try {
+      const firstSeen = Date.now();
+      await historicalStorage.storeLogRecords(log, archive.generation, records.map(record => ({
+        ...record,
+        timestamp: logRecordTimestamp(record.date, record.time),
+        firstSeen
+      })), this.serverId);
+      records.forEach(record => archive.numbers.add(record.number));
+    } catch (error) {
+      console.error(`Error archiving ${log.toUpperCase()} records:`, error);
+    }
+  }
+
   private async fetchPowerInfo() {
     try {
       console.log('Fetching power information...');
@@ -243,10 +578,14 @@ class CentralizedDataFetcher {
       
       while (retries <= maxRetries) {
         try {
-          const powerOutput = await runIloCommand("show /system1/oemhp_power1");
+          const powerOutput = await runIloCommand("show /system1/oemhp_power1", this.serverId);
           const powerInfo = this.parsePowerInfo(powerOutput);
+          if (powerInfo) {
+            powerInfo.powerState = await this.fetchPowerState();
+          }
           
           this.cache.powerInfo = powerInfo;
+          liveEvents.publish('power', powerInfo, this.serverId);
           console.log('Successfully fetched power information');
           return;
         } catch (error: any) {
@@ -272,20 +611,31 @@ class CentralizedDataFetcher {
     }
   }
 
+  // A failed state read leaves the power readings usable
+  private async fetchPowerState(): Promise<PowerState> {
+    try {
+      return parsePowerState(await runIloCommand("power", this.serverId));
+    } catch (error) {
+      console.warn('Error fetching power state:', error);
+      return 'Unknown';
+    }
+  }
+
   private async fetchSystemInfo() {
     try {
       console.log('Fetching system information...');
       
       // Fetch all required information (same as original systemInfo service)
       const [system1Output, firmware1Output, systemFirmware1Output] = await Promise.all([
-        runIloCommand("show system1"),
-        runIloCommand("show /map1/firmware1"),
-        runIloCommand("show system1/firmware1")
+        runIloCommand("show system1", this.serverId),
+        runIloCommand("show /map1/firmware1", this.serverId),
+        runIloCommand("show system1/firmware1", this.serverId)
       ]);
       
       const systemInfo = this.parseSystemInfo(system1Output, firmware1Output, systemFirmware1Output);
       
       this.cache.systemInfo = systemInfo;
+      liveEvents.publish('systemInfo', systemInfo, this.serverId);
       console.log('Successfully fetched system information');
       
     } catch (error) {
@@ -295,14 +645,57 @@ class CentralizedDataFetcher {
     }
   }
 
+  private async fetchPowerSupplies() {
+    try {
+      console.log('Fetching power supply status...');
+      const powerSupplies = await getPowerSupplyStatus(this.serverId);
+      this.cache.powerSupplies = powerSupplies;
+      const present = powerSupplies.supplies.filter(supply => supply.present).length;
+      console.log(`Successfully fetched ${present} of ${powerSupplies.supplies.length} power supplies`);
+    } catch (error) {
+      console.error('Error fetching power supply status:', error);
+      this.cache.errors.powerSupplies = error instanceof Error ? error.message : 'Unknown error';
+      this.cache.powerSupplies = null;
+    }
+  }
+
+  private async fetchStorage() {
+    try {
+      console.log('Fetching Smart Array storage status...');
+      const storage = await getSmartStorageStatus(this.serverId);
+      this.cache.storage = storage;
+      const drives = storage.controllers.reduce((total, controller) => total + controller.physicalDrives.length, 0);
+      console.log(`Successfully fetched ${storage.controllers.length} storage controllers with ${drives} physical drives`);
+    } catch (error) {
+      console.error('Error fetching storage status:', error);
+      this.cache.errors.storage = error instanceof Error ? error.message : 'Unknown error';
+      this.cache.storage = null;
+    }
+  }
+
+  // Hardware rarely changes, the inventory shares the slow system info cadence
+  private async fetchInventory() {
+    try {
+      console.log('Fetching hardware inventory...');
+      const inventory = await collectHardwareInventory(this.serverId);
+      this.cache.inventory = inventory;
+      console.log(`Successfully fetched hardware inventory over ${inventory.source}: ${inventory.processors.length} processors, ${inventory.memory.length} DIMM slots, ${inventory.pciDevices.length} PCI devices`);
+    } catch (error) {
+      console.error('Error fetching hardware inventory:', error);
+      this.cache.errors.inventory = error instanceof Error ? error.message : 'Unknown error';
+      this.cache.inventory = null;
+    }
+  }
+
   private async fetchPidData() {
     try {
       console.log('Fetching PID data...');
       
-      const pidOutput = await runIloCommand("fan info a");
+      const pidOutput = await runIloCommand("fan info a", this.serverId);
       const pidData = this.parsePidInfo(pidOutput);
       
       this.cache.pidData = pidData;
+      liveEvents.publish('pids', pidData, this.serverId);
       console.log(`Successfully fetched ${pidData.length} PID entries`);
       
     } catch (error) {
@@ -312,43 +705,80 @@ class CentralizedDataFetcher {
     }
   }
 
-  // Store thermal data to historical storage
-  private async storeThermalDataToHistory() {
+  // Store the latest readings of every task to historical storage
+  private async storeThermalDataToHistory(): Promise<string | null> {
     try {
       console.log('Storing thermal data to historical storage...');
-      
-      // Fetch current thermal data
-      const [sensors, fans] = await Promise.all([
-        getSensors(),
-        getFans()
-      ]);
 
       // Store thermal data
-      await historicalStorage.storeThermalData(sensors, fans);
+      const { sensors, fans } = this.latestThermal;
+      await historicalStorage.storeThermalData(sensors, fans, this.serverId);
 
       // Store other data types
       if (this.cache.powerInfo) {
-        await historicalStorage.storeHistoricalData('power', this.cache.powerInfo);
+        await historicalStorage.storeHistoricalData('power', this.cache.powerInfo, this.serverId);
+        await historicalStorage.storePowerReading(this.cache.powerInfo, this.serverId);
+      }
+
+      if (this.cache.powerSupplies) {
+        await historicalStorage.storeHistoricalData('power_supplies', this.cache.powerSupplies, this.serverId);
+      }
+
+      if (this.cache.storage) {
+        await historicalStorage.storeDriveReadings(driveTemperatures(this.cache.storage), this.serverId);
       }
 
       if (this.cache.systemInfo) {
-        await historicalStorage.storeHistoricalData('system_info', this.cache.systemInfo);
+        await historicalStorage.storeHistoricalData('system_info', this.cache.systemInfo, this.serverId);
       }
 
       if (this.cache.systemLogs.length > 0) {
-        await historicalStorage.storeHistoricalData('system_log', this.cache.systemLogs);
+        await historicalStorage.storeHistoricalData('system_log', this.cache.systemLogs, this.serverId);
       }
 
       if (this.cache.pidData.length > 0) {
-        await historicalStorage.storeHistoricalData('pid', this.cache.pidData);
+        await historicalStorage.storeHistoricalData('pid', this.cache.pidData, this.serverId);
       }
 
       console.log('Thermal data stored to historical storage successfully');
+      return null;
     } catch (error) {
       console.error('Error storing thermal data to historical storage:', error);
+      return error instanceof Error ? error.message : 'Unknown error';
     }
   }
 
+  private recordCycle(startedAt: number) {
+    const duration = Date.now() - startedAt;
+    this.stats.cycles++;
+    this.stats.lastCycleDurationMs = duration;
+    this.stats.totalCycleDurationMs += duration;
+    this.stats.lastCompletedAt = new Date();
+  }
+
+  getStats(): FetcherStats {
+    return { ...this.stats, errors: { ...this.stats.errors } };
+  }
+
+  getPollingStatus(): PollingStatus {
+    const toDate = (time: number | null) => time === null ? null : new Date(time);
+    return {
+      running: this.isStarted,
+      boostedUntil: this.isBoosted() ? new Date(this.boostedUntil) : null,
+      tasks: this.tasks.map(task => ({
+        name: task.name,
+        intervalMs: task.intervalMs,
+        effectiveIntervalMs: this.effectiveInterval(task),
+        backoffLevel: task.backoffLevel,
+        lastRunAt: toDate(task.lastRunAt),
+        lastSuccessAt: toDate(task.lastSuccessAt),
+        lastDurationMs: task.lastDurationMs,
+        lastError: task.lastError,
+        nextRunAt: this.isStarted ? toDate(task.nextRunAt) : null
+      }))
+    };
+  }
+
   // Public methods to get cached data
   getSystemLogs(): { data: SystemLogRecord[]; error?: string; lastUpdated: Date } {
     return {
@@ -366,6 +796,14 @@ class CentralizedDataFetcher {
     };
   }
 
+  getPowerSupplies(): { data: PowerSupplyStatus | null; error?: string; lastUpdated: Date } {
+    return {
+      data: this.cache.powerSupplies,
+      error: this.cache.errors.powerSupplies,
+      lastUpdated: this.cache.lastUpdated
+    };
+  }
+
   getSystemInfo(): { data: SystemInformation | null; error?: string; lastUpdated: Date } {
     return {
       data: this.cache.systemInfo,
@@ -374,6 +812,22 @@ class CentralizedDataFetcher {
     };
   }
 
+  getInventory(): { data: HardwareInventory | null; error?: string; lastUpdated: Date } {
+    return {
+      data: this.cache.inventory,
+      error: this.cache.errors.inventory,
+      lastUpdated: this.cache.lastUpdated
+    };
+  }
+
+  getStorage(): { data: SmartStorageStatus | null; error?: string; lastUpdated: Date } {
+    return {
+      data: this.cache.storage,
+      error: this.cache.errors.storage,
+      lastUpdated: this.cache.lastUpdated
+    };
+  }
+
   getPidData(): { data: PidInfo[]; error?: string; lastUpdated: Date } {
     return {
       data: this.cache.pidData,
@@ -384,7 +838,7 @@ class CentralizedDataFetcher {
 
   // Force a refresh
   async refresh(): Promise<void> {
-    // If already fetching, just wait for the current cycle to finish
+    // If already fetching, just wait for the current run to finish
     if (this.isFetching) {
       console.log('Data fetch already in progress, waiting for completion...');
       // Wait for current fetch to complete by checking the flag periodically
@@ -393,8 +847,14 @@ class CentralizedDataFetcher {
       }
       return;
     }
-    
-    await this.fetchAllData();
+
+    // Everything is due now, the schedule carries on from this run
+    const now = Date.now();
+    for (const task of this.tasks) {
+      task.nextRunAt = now;
+    }
+    await this.runDueTasks();
+    if (this.isStarted) this.scheduleNextRun();
   }
 
   // Helper methods (copied from existing services)
@@ -511,7 +971,8 @@ class CentralizedDataFetcher {
         warningThreshold: parseNumericProperty(output, 'warning_threshold'),
         warningDuration: parseNumericProperty(output, 'warning_duration'),
         powerMicroVersion: parseProperty(output, 'oemhp_power_micro_ver'),
-        autoPowerRestore: parseProperty(output, 'oemhp_auto_pwr')
+        autoPowerRestore: parseProperty(output, 'oemhp_auto_pwr'),
+        powerState: 'Unknown'
       };
 
       return powerInfo;
@@ -639,6 +1100,63 @@ class CentralizedDataFetcher {
   }
 }
 
-// Export singleton instance
-export const centralizedDataFetcher = new CentralizedDataFetcher();
+// Export singleton instance for the default server
+export const centralizedDataFetcher = new CentralizedDataFetcher(DEFAULT_SERVER_ID);
 export default centralizedDataFetcher;
+
+// One fetcher per registered server, each with its own cache and schedule
+const fetchers = new Map<string, CentralizedDataFetcher>([[DEFAULT_SERVER_ID, centralizedDataFetcher]]);
+
+// Delay between starting fetchers so a large fleet does not open every SSH session at once
+const FLEET_START_STAGGER_MS = 5000;
+
+export function getDataFetcher(serverId: string): CentralizedDataFetcher {
+  let fetcher = fetchers.get(serverId);
+  if (!fetcher) {
+    fetcher = new CentralizedDataFetcher(serverId);
+    fetchers.set(serverId, fetcher);
+  }
+  return fetcher;
+}
+
+export function removeDataFetcher(serverId: string): void {
+  const fetcher = fetchers.get(serverId);
+  if (!fetcher) return;
+
+  fetcher.stop();
+  if (serverId !== DEFAULT_SERVER_ID) {
+    fetchers.delete(serverId);
+    liveEvents.forgetServer(serverId);
+    alertEngine.forgetServer(serverId).catch(error => {
+      console.error('Failed to clear alerts of removed server:', error);
+    });
+    mqttBridge.forgetServer(serverId);
+    removeThermalWatchdog(serverId);
+  }
+}
+
+// Start fetchers for every registered server besides the default one, which
+// is started on its own once the setup wizard has configured it
+export async function startFleetDataFetchers(): Promise<void> {
+  const servers = (await listServers()).filter(server => !server.isDefault);
+
+  servers.forEach((server, index) => {
+    const fetcher = getDataFetcher(server.id);
+    setTimeout(() => {
+      // Skip servers removed while waiting for their turn
+      if (fetchers.get(server.id) === fetcher) {
+        fetcher.start();
+      }
+    }, (index + 1) * FLEET_START_STAGGER_MS);
+  });
+
+  if (servers.length > 0) {
+    console.log(`Starting data fetchers for ${servers.length} additional server(s)`);
+  }
+}
+
+export function stopAllDataFetchers(): void {
+  for (const fetcher of fetchers.values()) {
+    fetcher.stop();
+  }
+}
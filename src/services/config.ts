@@ -1,13 +1,23 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { ILO_HOST, ILO_USERNAME, ILO_PASSWORD } from '../config/env.js';
+import { encryptSecret, decryptSecret, isEncryptedSecret } from './secrets.js';
 
-interface ILoConfig {
+export interface ILoConfig {
   host: string;
   username: string;
   password: string;
 }
 
+// On-disk format, the password is only ever written encrypted. Plaintext
+// `password` is accepted from configs written by older versions until migrated.
+interface StoredILoConfig {
+  host: string;
+  username: string;
+  passwordEncrypted?: string;
+  password?: string;
+}
+
 const CONFIG_FILE = path.join(process.cwd(), 'config', 'ilo-config.json');
 
 // Ensure config directory exists
@@ -20,14 +30,46 @@ async function ensureConfigDir() {
   }
 }
 
+async function readStoredConfig(): Promise<StoredILoConfig> {
+  await ensureConfigDir();
+  const data = await fs.readFile(CONFIG_FILE, 'utf-8');
+  return JSON.parse(data);
+}
+
+async function writeStoredConfig(config: ILoConfig): Promise<void> {
+  await ensureConfigDir();
+  const stored: StoredILoConfig = {
+    host: config.host,
+    username: config.username,
+    passwordEncrypted: await encryptSecret(config.password)
+  };
+  await fs.writeFile(CONFIG_FILE, JSON.stringify(stored, null, 2), 'utf-8');
+  await fs.chmod(CONFIG_FILE, 0o600).catch(() => {
+    // Not supported on every filesystem, the password is encrypted regardless
+  });
+}
+
 // Get current iLO configuration
 export async function getILoConfig(): Promise<ILoConfig | null> {
   try {
     // First try to read from file
-    await ensureConfigDir();
-    const data = await fs.readFile(CONFIG_FILE, 'utf-8');
-    return JSON.parse(data);
+    const stored = await readStoredConfig();
+    let password = stored.password ?? '';
+
+    if (isEncryptedSecret(stored.passwordEncrypted)) {
+      try {
+        password = await decryptSecret(stored.passwordEncrypted);
+      } catch (error) {
+        console.error('Could not decrypt the stored iLO password, was the master key changed?', error);
+        throw error;
+      }
+    }
+
+    return { host: stored.host, username: stored.username, password };
   } catch (error) {
+    // Only a missing file falls back, an unreadable one must not silently switch to other credentials
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+
     // If file doesn't exist, try environment variables
     if (ILO_HOST && ILO_USERNAME && ILO_PASSWORD) {
       return {
@@ -41,10 +83,35 @@ export async function getILoConfig(): Promise<ILoConfig | null> {
   }
 }
 
+// Where the active iLO connection comes from, a saved configuration takes precedence over the ILO_* env vars
+export async function getILoConfigSource(): Promise<'file' | 'env' | null> {
+  try {
+    await readStoredConfig();
+    return 'file';
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') return 'file';
+    return ILO_HOST && ILO_USERNAME && ILO_PASSWORD ? 'env' : null;
+  }
+}
+
 // Save iLO configuration
 export async function saveILoConfig(config: ILoConfig): Promise<void> {
-  await ensureConfigDir();
-  await fs.writeFile(CONFIG_FILE, JSON.stringify(config, null, 2), 'utf-8');
+  await writeStoredConfig(config);
+}
+
+// Re-write configs from older versions that stored the password in plaintext
+export async function migrateILoConfig(): Promise<void> {
+  let stored: StoredILoConfig;
+  try {
+    stored = await readStoredConfig();
+  } catch {
+    return; // Nothing stored yet
+  }
+
+  if (typeof stored.password === 'string' && !stored.passwordEncrypted) {
+    await writeStoredConfig({ host: stored.host, username: stored.username, password: stored.password });
+    console.log('🔒 Migrated stored iLO password to encrypted storage');
+  }
 }
 
 // Test iLO connection
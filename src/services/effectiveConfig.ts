@@ -0,0 +1,109 @@
+import {
+  isEnvSet,
+  PORT,
+  PORT_ENV_VAR,
+  SSL_CERT_PATH,
+  SSL_KEY_PATH,
+  DB_PATH,
+  DATA_RETENTION_HOURS,
+  DATA_COLLECTION_INTERVAL,
+  POLL_THERMAL_INTERVAL,
+  POLL_POWER_INTERVAL,
+  POLL_LOG_INTERVAL,
+  POLL_SYSTEM_INFO_INTERVAL,
+  POLL_STORAGE_INTERVAL,
+  LOG_LEVEL,
+  LOG_TO_FILE,
+  FAN_CONTROL_ENABLED,
+  DEFAULT_FAN_SPEED,
+  BCRYPT_ROUNDS,
+  CREDENTIALS_MASTER_KEY,
+  METRICS_TOKEN
+} from '../config/env.js';
+import { getAppConfig, readAppConfigFile } from './appConfig.js';
+import { getILoConfig, getILoConfigSource } from './config.js';
+
+// Precedence is env var > saved configuration file > built-in default, except for the
+// iLO connection where a configuration saved in the UI replaces the ILO_* bootstrap vars
+export type ConfigSource = 'default' | 'file' | 'env';
+
+export interface EffectiveSetting {
+  key: string;
+  value: string | number | boolean | null;
+  source: ConfigSource;
+  envVar?: string;
+  secret?: boolean; // Value is replaced by REDACTED when set
+}
+
+const REDACTED = '********';
+
+// Settings that can only come from the environment
+function fromEnv(key: string, envVar: string, value: string | number | boolean | undefined): EffectiveSetting {
+  return { key, value: value ?? null, source: isEnvSet(envVar) ? 'env' : 'default', envVar };
+}
+
+function secret(key: string, envVar: string, value: string | undefined): EffectiveSetting {
+  return { key, value: value ? REDACTED : null, source: isEnvSet(envVar) ? 'env' : 'default', envVar, secret: true };
+}
+
+// Settings saved in config/app-config.json that an env var may override
+function fromFile(key: string, value: string | number | boolean, saved: unknown, envVar?: string, envValue?: unknown): EffectiveSetting {
+  if (envVar && envValue !== undefined) {
+    return { key, value: envValue as EffectiveSetting['value'], source: 'env', envVar };
+  }
+  return { key, value, source: saved !== undefined ? 'file' : 'default', ...(envVar ? { envVar } : {}) };
+}
+
+// Every setting the running app uses, where it came from, secrets redacted
+export async function getEffectiveConfig(): Promise<EffectiveSetting[]> {
+  const [config, file, ilo, iloSource] = await Promise.all([
+    getAppConfig(),
+    readAppConfigFile(),
+    // An undecryptable stored password is reported as unset rather than failing the whole report
+    getILoConfig().catch(() => null),
+    getILoConfigSource()
+  ]);
+  const iloSetting = (key: string, envVar: string, value: string | undefined, isSecret = false): EffectiveSetting => ({
+    key,
+    value: value ? (isSecret ? REDACTED : value) : null,
+    source: iloSource ?? 'default',
+    envVar,
+    ...(isSecret ? { secret: true } : {})
+  });
+
+  return [
+    fromFile('server.port', config.port, file?.port, PORT_ENV_VAR, PORT),
+    fromEnv('server.sslCertPath', 'SSL_CERT_PATH', SSL_CERT_PATH),
+    fromEnv('server.sslKeyPath', 'SSL_KEY_PATH', SSL_KEY_PATH),
+    fromFile('session.timeoutMinutes', config.sessionTimeout, file?.sessionTimeout),
+
+    fromEnv('storage.dbPath', 'DB_PATH', DB_PATH),
+    fromFile('storage.retention.rawHours', config.retention.rawHours, file?.retention?.rawHours, 'DATA_RETENTION_HOURS', DATA_RETENTION_HOURS),
+    fromFile('storage.retention.fiveMinuteDays', config.retention.fiveMinuteDays, file?.retention?.fiveMinuteDays),
+    fromFile('storage.retention.hourlyDays', config.retention.hourlyDays, file?.retention?.hourlyDays),
+    fromEnv('collection.intervalMs', 'DATA_COLLECTION_INTERVAL', DATA_COLLECTION_INTERVAL),
+    fromEnv('polling.thermalIntervalMs', 'POLL_THERMAL_INTERVAL', POLL_THERMAL_INTERVAL),
+    fromEnv('polling.powerIntervalMs', 'POLL_POWER_INTERVAL', POLL_POWER_INTERVAL),
+    fromEnv('polling.logIntervalMs', 'POLL_LOG_INTERVAL', POLL_LOG_INTERVAL),
+    fromEnv('polling.systemInfoIntervalMs', 'POLL_SYSTEM_INFO_INTERVAL', POLL_SYSTEM_INFO_INTERVAL),
+    fromEnv('polling.storageIntervalMs', 'POLL_STORAGE_INTERVAL', POLL_STORAGE_INTERVAL),
+
+    fromEnv('logging.level', 'LOG_LEVEL', LOG_LEVEL),
+    fromEnv('logging.toFile', 'LOG_TO_FILE', LOG_TO_FILE),
+
+    fromEnv('fanControl.enabled', 'FAN_CONTROL_ENABLED', FAN_CONTROL_ENABLED),
+    fromEnv('fanControl.defaultSpeed', 'DEFAULT_FAN_SPEED', DEFAULT_FAN_SPEED),
+
+    fromEnv('security.bcryptRounds', 'BCRYPT_ROUNDS', BCRYPT_ROUNDS),
+    secret('security.credentialsMasterKey', 'CREDENTIALS_MASTER_KEY', CREDENTIALS_MASTER_KEY),
+    secret('security.metricsToken', 'METRICS_TOKEN', METRICS_TOKEN),
+
+    iloSetting('ilo.host', 'ILO_HOST', ilo?.host),
+    iloSetting('ilo.username', 'ILO_USERNAME', ilo?.username),
+    iloSetting('ilo.password', 'ILO_PASSWORD', ilo?.password, true),
+
+    fromFile('mqtt.enabled', config.mqtt.enabled, file?.mqtt?.enabled),
+    fromFile('mqtt.brokerUrl', config.mqtt.brokerUrl, file?.mqtt?.brokerUrl),
+    { key: 'mqtt.password', value: config.mqtt.password ? REDACTED : null, source: file?.mqtt?.passwordEncrypted ? 'file' : 'default', secret: true }
+  ];
+}
@@ -0,0 +1,207 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { historicalStorage, HourlyEnergy } from './historicalStorage.js';
+import { DEFAULT_SERVER_ID } from './servers.js';
+
+// A rate applied to whole hours on the given weekdays (0 = Sunday), endHour may wrap past midnight
+export interface TimeOfUseRate {
+  name: string;
+  days: number[];
+  startHour: number; // 0-23, inclusive
+  endHour: number; // 1-24, exclusive
+  rate: number; // Per kWh
+}
+
+// Hours no time-of-use rate matches are charged the base rate
+export interface EnergyTariff {
+  currency: string;
+  baseRate: number; // Per kWh
+  timeOfUse: TimeOfUseRate[];
+}
+
+export type EnergyPeriod = 'day' | 'week' | 'month';
+
+export const ENERGY_PERIODS: EnergyPeriod[] = ['day', 'week', 'month'];
+
+export interface EnergyBucket {
+  start: number;
+  end: number;
+  energyKwh: number;
+  cost: number;
+  coverage: number; // Share of the elapsed bucket backed by readings, 0-1
+  avgWatts: number;
+  peakWatts: number;
+}
+
+export interface EnergyReport {
+  period: EnergyPeriod;
+  currency: string;
+  buckets: EnergyBucket[];
+  totals: { energyKwh: number; cost: number };
+  byRate: { name: string; rate: number; energyKwh: number; cost: number }[];
+}
+
+const CONFIG_FILE = path.join(process.cwd(), 'config', 'energy-tariff.json');
+const BASE_RATE_NAME = 'Base rate';
+const HOUR_MS = 60 * 60 * 1000;
+
+const DEFAULT_TARIFF: EnergyTariff = {
+  currency: 'EUR',
+  baseRate: 0.25,
+  timeOfUse: []
+};
+
+// Ensure config directory exists
+async function ensureConfigDir() {
+  const configDir = path.dirname(CONFIG_FILE);
+  try {
+    await fs.access(configDir);
+  } catch {
+    await fs.mkdir(configDir, { recursive: true });
+  }
+}
+
+export async function getEnergyTariff(): Promise<EnergyTariff> {
+  try {
+    const stored = JSON.parse(await fs.readFile(CONFIG_FILE, 'utf-8'));
+    return {
+      currency: stored.currency ?? DEFAULT_TARIFF.currency,
+      baseRate: stored.baseRate ?? DEFAULT_TARIFF.baseRate,
+      timeOfUse: Array.isArray(stored.timeOfUse) ? stored.timeOfUse : []
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Error reading energy tariff:', error);
+    }
+    return structuredClone(DEFAULT_TARIFF);
+  }
+}
+
+export async function saveEnergyTariff(tariff: EnergyTariff): Promise<void> {
+  await ensureConfigDir();
+  await fs.writeFile(CONFIG_FILE, JSON.stringify({ ...tariff, lastUpdated: new Date().toISOString() }, null, 2), 'utf-8');
+  console.log('Energy tariff saved:', tariff);
+}
+
+export function validateEnergyTariff(tariff: any): string | null {
+  if (!tariff || typeof tariff !== 'object') return 'A tariff is required';
+  if (typeof tariff.currency !== 'string' || !/^[A-Z]{3}$/.test(tariff.currency)) {
+    return 'currency must be a three letter code such as EUR or USD';
+  }
+  const validRate = (rate: any) => typeof rate === 'number' && Number.isFinite(rate) && rate >= 0 && rate <= 100;
+  if (!validRate(tariff.baseRate)) return 'baseRate must be a price per kWh between 0 and 100';
+  if (!Array.isArray(tariff.timeOfUse)) return 'timeOfUse must be a list of rates';
+  if (tariff.timeOfUse.length > 24) return 'At most 24 time-of-use rates are supported';
+
+  for (const period of tariff.timeOfUse) {
+    const name = typeof period?.name === 'string' ? period.name.trim() : '';
+    if (!name || name.length > 40) return 'Every time-of-use rate needs a name of up to 40 characters';
+    if (!validRate(period.rate)) return `${name}: the rate must be a price per kWh between 0 and 100`;
+    if (!Number.isInteger(period.startHour) || period.startHour < 0 || period.startHour > 23) {
+      return `${name}: startHour must be a whole hour from 0 to 23`;
+    }
+    if (!Number.isInteger(period.endHour) || period.endHour < 1 || period.endHour > 24) {
+      return `${name}: endHour must be a whole hour from 1 to 24`;
+    }
+    if (period.startHour === period.endHour) return `${name}: startHour and endHour must differ`;
+    if (!Array.isArray(period.days) || period.days.length === 0
+      || !period.days.every((day: any) => Number.isInteger(day) && day >= 0 && day <= 6)) {
+      return `${name}: days must list weekdays from 0 (Sunday) to 6 (Saturday)`;
+    }
+  }
+  return null;
+}
+
+// Periods are matched in the server's local time zone (TZ), the first matching one wins
+function rateFor(hourStart: number, tariff: EnergyTariff): { name: string; rate: number } {
+  const date = new Date(hourStart);
+  const hour = date.getHours();
+  const period = tariff.timeOfUse.find(p => p.days.includes(date.getDay()) && (p.startHour < p.endHour
+    ? hour >= p.startHour && hour < p.endHour
+    : hour >= p.startHour || hour < p.endHour));
+  return period ? { name: period.name, rate: period.rate } : { name: BASE_RATE_NAME, rate: tariff.baseRate };
+}
+
+// Start of the period containing time, weeks start on Monday
+function periodStart(time: number, period: EnergyPeriod): Date {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  if (period === 'week') {
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  } else if (period === 'month') {
+    date.setDate(1);
+  }
+  return date;
+}
+
+function addPeriods(date: Date, period: EnergyPeriod, count: number): Date {
+  const next = new Date(date);
+  if (period === 'month') {
+    next.setMonth(next.getMonth() + count);
+  } else {
+    next.setDate(next.getDate() + count * (period === 'week' ? 7 : 1));
+  }
+  return next;
+}
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Energy and cost for the last count periods, the current (partial) one included
+export async function getEnergyReport(period: EnergyPeriod, count: number, serverId: string = DEFAULT_SERVER_ID): Promise<EnergyReport> {
+  const now = Date.now();
+  const tariff = await getEnergyTariff();
+  const current = periodStart(now, period);
+  const starts = Array.from({ length: count }, (_, index) => addPeriods(current, period, index - count + 1));
+  const hours = await historicalStorage.getHourlyEnergy(starts[0].getTime(), serverId);
+
+  const byRate = new Map<string, { name: string; rate: number; energyKwh: number; cost: number }>();
+  const buckets = starts.map(startDate => {
+    const start = startDate.getTime();
+    const end = addPeriods(startDate, period, 1).getTime();
+    const inBucket = hours.filter((hour: HourlyEnergy) => hour.hourStart >= start && hour.hourStart < end);
+
+    let energyKwh = 0;
+    let cost = 0;
+    let coveredMs = 0;
+    let wattsSum = 0;
+    let samples = 0;
+    let peakWatts = 0;
+    for (const hour of inBucket) {
+      const kwh = hour.energyWh / 1000;
+      const { name, rate } = rateFor(hour.hourStart, tariff);
+      const rateTotals = byRate.get(name) ?? { name, rate, energyKwh: 0, cost: 0 };
+      rateTotals.energyKwh += kwh;
+      rateTotals.cost += kwh * rate;
+      byRate.set(name, rateTotals);
+
+      energyKwh += kwh;
+      cost += kwh * rate;
+      coveredMs += hour.coveredMs;
+      wattsSum += hour.avgWatts * hour.samples;
+      samples += hour.samples;
+      peakWatts = Math.max(peakWatts, hour.maxWatts);
+    }
+
+    const elapsedMs = Math.max(Math.min(end, now) - start, HOUR_MS);
+    return {
+      start,
+      end,
+      energyKwh: round(energyKwh, 3),
+      cost: round(cost, 2),
+      coverage: round(Math.min(coveredMs / elapsedMs, 1), 3),
+      avgWatts: samples > 0 ? round(wattsSum / samples, 1) : 0,
+      peakWatts
+    };
+  });
+
+  return {
+    period,
+    currency: tariff.currency,
+    buckets,
+    totals: {
+      energyKwh: round(buckets.reduce((sum, bucket) => sum + bucket.energyKwh, 0), 3),
+      cost: round(buckets.reduce((sum, bucket) => sum + bucket.cost, 0), 2)
+    },
+    byRate: [...byRate.values()].map(rate => ({ ...rate, energyKwh: round(rate.energyKwh, 3), cost: round(rate.cost, 2) }))
+  };
+}
@@ -1,18 +1,23 @@
 import sqlite3 from 'sqlite3';
 import path from 'path';
 import fs from 'fs/promises';
+import { DEFAULT_SERVER_ID } from './servers.js';
+import { DEFAULT_RETENTION, RetentionConfig } from './appConfig.js';
+import { DB_PATH, DATA_COLLECTION_INTERVAL, POLL_MAX_BACKOFF_MS } from '../config/env.js';
 
 // Database interfaces
 export interface HistoricalDataPoint {
   id?: number;
+  server_id?: string;
   timestamp: number;
-  type: 'thermal' | 'power' | 'system_info' | 'system_log' | 'pid';
+  type: 'thermal' | 'power' | 'power_supplies' | 'system_info' | 'system_log' | 'pid' | 'watchdog' | 'auth' | 'power_action';
   data: any;
   created_at?: string;
 }
 
 export interface SensorReading {
   id?: number;
+  server_id?: string;
   timestamp: number;
   sensor_name: string;
   reading: number;
@@ -21,19 +26,150 @@ export interface SensorReading {
   context?: string;
   critical?: number;
   fatal?: number;
+  // Set on rows read from a rollup tier, reading is then the bucket average and status the worst one seen
+  min_reading?: number;
+  max_reading?: number;
+  samples?: number;
   created_at?: string;
 }
 
 export interface FanReading {
   id?: number;
+  server_id?: string;
   timestamp: number;
   fan_name: string;
   speed: number;
   status: string;
   health?: string;
+  // Set on rows read from a rollup tier, speed is then the bucket average and health the worst one seen
+  min_speed?: number;
+  max_speed?: number;
+  samples?: number;
   created_at?: string;
 }
 
+// Smart Array physical drive temperatures, drive_name combines the controller and bay
+export interface DriveReading {
+  id?: number;
+  server_id?: string;
+  timestamp: number;
+  drive_name: string;
+  temperature: number;
+  health: string;
+  // Set on rows read from a rollup tier, temperature is then the bucket average and health the worst one seen
+  min_temperature?: number;
+  max_temperature?: number;
+  samples?: number;
+  created_at?: string;
+}
+
+export interface PowerReading {
+  id?: number;
+  server_id?: string;
+  timestamp: number;
+  present_power: number;
+  average_power: number;
+  power_cap: number;
+  created_at?: string;
+}
+
+// One hour of power for a server, energy is integrated between consecutive readings
+export interface HourlyEnergy {
+  hourStart: number;
+  energyWh: number;
+  coveredMs: number; // Part of the hour backed by readings, less than an hour after gaps
+  minWatts: number;
+  maxWatts: number;
+  avgWatts: number;
+  samples: number;
+}
+
+export interface StoredSession {
+  id: string;
+  tokenHash: string;
+  userId: string;
+  username: string;
+  createdAt: number;
+  lastSeen: number;
+  expiresAt: number;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface StoredAlertRule {
+  id: string;
+  name: string;
+  type: string;
+  serverId: string | null; // null applies the rule to every server
+  severity: string;
+  params: Record<string, any>;
+  channels: string[];
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface StoredAlertEvent {
+  id?: number;
+  ruleId: string;
+  ruleName: string;
+  serverId: string;
+  alertKey: string; // Rule, server and subject, identifies one alert across cycles
+  subject: string;
+  state: 'firing' | 'resolved';
+  severity: string;
+  message: string;
+  value: number | null;
+  timestamp: number;
+  deliveries: { channel: string; success: boolean; error?: string }[];
+}
+
+// An alert that fired and has not resolved yet
+export interface StoredActiveAlert {
+  alertKey: string;
+  ruleId: string;
+  serverId: string;
+  subject: string;
+  severity: string;
+  message: string;
+  value: number | null;
+  firingSince: number;
+}
+
+// The Integrated Management Log (server hardware) and the iLO Event Log (the iLO itself) are archived alike
+export type EventLogKind = 'iml' | 'iel';
+
+export const EVENT_LOG_KINDS: EventLogKind[] = ['iml', 'iel'];
+
+// A log entry as ingested from the iLO, numbers are unique per server, log and generation
+export interface StoredLogRecord {
+  serverId: string;
+  generation: number; // Bumped each time the log is cleared on the iLO, which renumbers it from 1
+  number: number;
+  severity: string;
+  date: string; // As reported by the iLO, MM/DD/YYYY
+  time: string; // HH:MM
+  timestamp: number | null; // Parsed date and time, null when the iLO has no valid clock for the entry
+  description: string;
+  firstSeen: number;
+  acknowledgedAt: number | null;
+  acknowledgedBy: string | null;
+}
+
+// Identifies one archived record, numbers repeat across generations
+export interface LogRecordRef {
+  generation: number;
+  number: number;
+}
+
+export interface LogRecordQuery {
+  severities?: string[];
+  from?: number;
+  to?: number;
+  search?: string; // Case-insensitive substring of the description
+  acknowledged?: boolean;
+}
+
 export interface TimeRange {
   minutes: number;
   label: string;
@@ -48,13 +184,89 @@ export const TIME_RANGES: TimeRange[] = [
   { minutes: 1440, label: '1 day' }
 ];
 
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const FIVE_MINUTES_MS = 5 * 60 * 1000;
+// Buckets are only rolled up once this long has passed since they closed, so slow fetch cycles still land in them
+const ROLLUP_LAG_MS = 60 * 1000;
+const ENERGY_RETENTION_DAYS = 400;
+// Audit trail entries in historical_data, kept for a full quarter instead of the raw sample retention
+const AUDIT_TYPES = "'power_action', 'auth', 'watchdog'";
+const AUDIT_RETENTION_DAYS = 90;
+// Readings further apart than this are a gap (iLO unreachable, app stopped), no energy is assumed across it.
+// Twice the longest interval the history task can run at once backed off, so slow collection still counts
+const MAX_ENERGY_INTERVAL_MS = 2 * Math.max(DATA_COLLECTION_INTERVAL, POLL_MAX_BACKOFF_MS);
+
+// Tables and columns the database viewer may read, anything else (like the sessions table) stays private
+export const DATABASE_VIEW_TABLES = ['sensor_readings', 'fan_readings', 'historical_data', 'all'] as const;
+export type DatabaseViewTable = typeof DATABASE_VIEW_TABLES[number];
+export const DATABASE_SORT_COLUMNS = ['timestamp', 'type', 'name'] as const;
+export type DatabaseSortColumn = typeof DATABASE_SORT_COLUMNS[number];
+
+// Sensor and fan history is kept at three resolutions, each coarser one for longer
+export type ReadingResolution = 'raw' | '5m' | '1h';
+
+const RESOLUTIONS: ReadingResolution[] = ['raw', '5m', '1h'];
+const BUCKET_MS: Record<Exclude<ReadingResolution, 'raw'>, number> = { '5m': FIVE_MINUTES_MS, '1h': HOUR_MS };
+
+// Health of a bucket is the worst one seen in it
+const worstStatus = (column: string) => `CASE MAX(CASE ${column} WHEN 'Critical' THEN 2 WHEN 'Warning' THEN 1 ELSE 0 END)
+  WHEN 2 THEN 'Critical' WHEN 1 THEN 'Warning' ELSE 'OK' END`;
+
+// Each rollup reads the next finer table, hourly averages are weighted by the samples behind them
+const ROLLUPS: { table: string; bucketMs: number; select: string }[] = [
+  {
+    table: 'sensor_readings_5m',
+    bucketMs: FIVE_MINUTES_MS,
+    select: `SELECT server_id, (timestamp / ?) * ? AS bucket, sensor_name, MIN(reading), AVG(reading), MAX(reading), COUNT(*),
+      ${worstStatus('status')}, MAX(type), MAX(context), MAX(critical), MAX(fatal)
+      FROM sensor_readings WHERE timestamp >= ? AND timestamp < ? GROUP BY server_id, bucket, sensor_name`
+  },
+  {
+    table: 'sensor_readings_1h',
+    bucketMs: HOUR_MS,
+    select: `SELECT server_id, (bucket_start / ?) * ? AS bucket, sensor_name, MIN(min_reading), SUM(avg_reading * samples) / SUM(samples),
+      MAX(max_reading), SUM(samples), ${worstStatus('worst_status')}, MAX(type), MAX(context), MAX(critical), MAX(fatal)
+      FROM sensor_readings_5m WHERE bucket_start >= ? AND bucket_start < ? GROUP BY server_id, bucket, sensor_name`
+  },
+  {
+    table: 'fan_readings_5m',
+    bucketMs: FIVE_MINUTES_MS,
+    select: `SELECT server_id, (timestamp / ?) * ? AS bucket, fan_name, MIN(speed), AVG(speed), MAX(speed), COUNT(*),
+      MAX(status), ${worstStatus('health')}
+      FROM fan_readings WHERE timestamp >= ? AND timestamp < ? GROUP BY server_id, bucket, fan_name`
+  },
+  {
+    table: 'fan_readings_1h',
+    bucketMs: HOUR_MS,
+    select: `SELECT server_id, (bucket_start / ?) * ? AS bucket, fan_name, MIN(min_speed), SUM(avg_speed * samples) / SUM(samples),
+      MAX(max_speed), SUM(samples), MAX(status), ${worstStatus('worst_health')}
+      FROM fan_readings_5m WHERE bucket_start >= ? AND bucket_start < ? GROUP BY server_id, bucket, fan_name`
+  },
+  {
+    table: 'drive_readings_5m',
+    bucketMs: FIVE_MINUTES_MS,
+    select: `SELECT server_id, (timestamp / ?) * ? AS bucket, drive_name, MIN(temperature), AVG(temperature), MAX(temperature), COUNT(*),
+      ${worstStatus('health')}
+      FROM drive_readings WHERE timestamp >= ? AND timestamp < ? GROUP BY server_id, bucket, drive_name`
+  },
+  {
+    table: 'drive_readings_1h',
+    bucketMs: HOUR_MS,
+    select: `SELECT server_id, (bucket_start / ?) * ? AS bucket, drive_name, MIN(min_temperature), SUM(avg_temperature * samples) / SUM(samples),
+      MAX(max_temperature), SUM(samples), ${worstStatus('worst_health')}
+      FROM drive_readings_5m WHERE bucket_start >= ? AND bucket_start < ? GROUP BY server_id, bucket, drive_name`
+  }
+];
+
 class HistoricalStorage {
   private db: sqlite3.Database | null = null;
   private dbPath: string;
   private isInitialized = false;
+  private retention: RetentionConfig = { ...DEFAULT_RETENTION };
 
   constructor() {
-    this.dbPath = path.join(process.cwd(), 'data', 'historical.db');
+    this.dbPath = DB_PATH;
   }
 
   async initialize(): Promise<void> {
@@ -69,6 +281,7 @@ class HistoricalStorage {
       this.db = new sqlite3.Database(this.dbPath);
       
       await this.createTables();
+      await this.migrateServerColumns();
       await this.setupCleanupSchedule();
       
       this.isInitialized = true;
@@ -116,6 +329,7 @@ class HistoricalStorage {
         // General historical data table
         `CREATE TABLE IF NOT EXISTS historical_data (
           id INTEGER PRIMARY KEY AUTOINCREMENT,
+          server_id TEXT NOT NULL DEFAULT 'default',
           timestamp INTEGER NOT NULL,
           type TEXT NOT NULL,
           data TEXT NOT NULL,
@@ -125,6 +339,7 @@ class HistoricalStorage {
         // Sensor readings table (optimized for time-series queries)
         `CREATE TABLE IF NOT EXISTS sensor_readings (
           id INTEGER PRIMARY KEY AUTOINCREMENT,
+          server_id TEXT NOT NULL DEFAULT 'default',
           timestamp INTEGER NOT NULL,
           sensor_name TEXT NOT NULL,
           reading REAL NOT NULL,
@@ -139,6 +354,7 @@ class HistoricalStorage {
         // Fan readings table
         `CREATE TABLE IF NOT EXISTS fan_readings (
           id INTEGER PRIMARY KEY AUTOINCREMENT,
+          server_id TEXT NOT NULL DEFAULT 'default',
           timestamp INTEGER NOT NULL,
           fan_name TEXT NOT NULL,
           speed INTEGER NOT NULL,
@@ -147,10 +363,162 @@ class HistoricalStorage {
           created_at DATETIME DEFAULT CURRENT_TIMESTAMP
         )`,
         
+        // Smart Array drive temperatures, rolled up like sensor readings
+        `CREATE TABLE IF NOT EXISTS drive_readings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          server_id TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          drive_name TEXT NOT NULL,
+          temperature REAL NOT NULL,
+          health TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )`,
+        
+        // Power readings and the hourly energy rollup kept long after the readings expire
+        `CREATE TABLE IF NOT EXISTS power_readings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          server_id TEXT NOT NULL DEFAULT 'default',
+          timestamp INTEGER NOT NULL,
+          present_power REAL NOT NULL,
+          average_power REAL NOT NULL,
+          power_cap REAL NOT NULL DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )`,
+        
+        // 5-minute and hourly rollups of sensor and fan readings, kept after the raw samples expire
+        ...(['5m', '1h'].map(tier => `CREATE TABLE IF NOT EXISTS sensor_readings_${tier} (
+          server_id TEXT NOT NULL,
+          bucket_start INTEGER NOT NULL,
+          sensor_name TEXT NOT NULL,
+          min_reading REAL NOT NULL,
+          avg_reading REAL NOT NULL,
+          max_reading REAL NOT NULL,
+          samples INTEGER NOT NULL,
+          worst_status TEXT NOT NULL,
+          type TEXT NOT NULL,
+          context TEXT,
+          critical REAL,
+          fatal REAL,
+          PRIMARY KEY (server_id, bucket_start, sensor_name)
+        )`)),
+        
+        ...(['5m', '1h'].map(tier => `CREATE TABLE IF NOT EXISTS fan_readings_${tier} (
+          server_id TEXT NOT NULL,
+          bucket_start INTEGER NOT NULL,
+          fan_name TEXT NOT NULL,
+          min_speed REAL NOT NULL,
+          avg_speed REAL NOT NULL,
+          max_speed REAL NOT NULL,
+          samples INTEGER NOT NULL,
+          status TEXT NOT NULL,
+          worst_health TEXT NOT NULL,
+          PRIMARY KEY (server_id, bucket_start, fan_name)
+        )`)),
+        
+        ...(['5m', '1h'].map(tier => `CREATE TABLE IF NOT EXISTS drive_readings_${tier} (
+          server_id TEXT NOT NULL,
+          bucket_start INTEGER NOT NULL,
+          drive_name TEXT NOT NULL,
+          min_temperature REAL NOT NULL,
+          avg_temperature REAL NOT NULL,
+          max_temperature REAL NOT NULL,
+          samples INTEGER NOT NULL,
+          worst_health TEXT NOT NULL,
+          PRIMARY KEY (server_id, bucket_start, drive_name)
+        )`)),
+        
+        `CREATE TABLE IF NOT EXISTS power_energy_hourly (
+          server_id TEXT NOT NULL,
+          hour_start INTEGER NOT NULL,
+          energy_wh REAL NOT NULL DEFAULT 0,
+          covered_ms INTEGER NOT NULL DEFAULT 0,
+          min_watts REAL,
+          max_watts REAL,
+          watts_sum REAL NOT NULL DEFAULT 0,
+          samples INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (server_id, hour_start)
+        )`,
+        
+        // Login sessions, keyed by a hash of the bearer token
+        `CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          token_hash TEXT NOT NULL UNIQUE,
+          user_id TEXT NOT NULL,
+          username TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          last_seen INTEGER NOT NULL,
+          expires_at INTEGER NOT NULL,
+          user_agent TEXT,
+          ip_address TEXT
+        )`,
+        
+        // User-defined alert rules, their transitions and the alerts currently firing
+        `CREATE TABLE IF NOT EXISTS alert_rules (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          server_id TEXT,
+          severity TEXT NOT NULL,
+          params TEXT NOT NULL,
+          channels TEXT NOT NULL,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        )`,
+        
+        `CREATE TABLE IF NOT EXISTS alert_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          rule_id TEXT NOT NULL,
+          rule_name TEXT NOT NULL,
+          server_id TEXT NOT NULL,
+          alert_key TEXT NOT NULL,
+          subject TEXT NOT NULL,
+          state TEXT NOT NULL,
+          severity TEXT NOT NULL,
+          message TEXT NOT NULL,
+          value REAL,
+          timestamp INTEGER NOT NULL,
+          deliveries TEXT NOT NULL DEFAULT '[]'
+        )`,
+        
+        `CREATE TABLE IF NOT EXISTS active_alerts (
+          alert_key TEXT PRIMARY KEY,
+          rule_id TEXT NOT NULL,
+          server_id TEXT NOT NULL,
+          subject TEXT NOT NULL,
+          severity TEXT NOT NULL,
+          message TEXT NOT NULL,
+          value REAL,
+          firing_since INTEGER NOT NULL
+        )`,
+        
+        // The full IML and IEL of every server, kept until the server is removed. Clearing a log
+        // on the iLO starts a new generation so the renumbered records do not replace the old ones
+        ...EVENT_LOG_KINDS.map(log => `CREATE TABLE IF NOT EXISTS ${log}_records (
+          server_id TEXT NOT NULL,
+          generation INTEGER NOT NULL DEFAULT 0,
+          record_number INTEGER NOT NULL,
+          severity TEXT NOT NULL,
+          date TEXT NOT NULL,
+          time TEXT NOT NULL,
+          timestamp INTEGER,
+          description TEXT NOT NULL,
+          first_seen INTEGER NOT NULL,
+          acknowledged_at INTEGER,
+          acknowledged_by TEXT,
+          PRIMARY KEY (server_id, generation, record_number)
+        )`),
+        
         // Create indexes
         `CREATE INDEX IF NOT EXISTS idx_historical_data_timestamp_type ON historical_data(timestamp, type)`,
         `CREATE INDEX IF NOT EXISTS idx_sensor_readings_timestamp_name ON sensor_readings(timestamp, sensor_name)`,
-        `CREATE INDEX IF NOT EXISTS idx_fan_readings_timestamp_name ON fan_readings(timestamp, fan_name)`
+        `CREATE INDEX IF NOT EXISTS idx_fan_readings_timestamp_name ON fan_readings(timestamp, fan_name)`,
+        `CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id)`,
+        `CREATE INDEX IF NOT EXISTS idx_alert_events_timestamp ON alert_events(timestamp)`,
+        `CREATE INDEX IF NOT EXISTS idx_power_readings_server_timestamp ON power_readings(server_id, timestamp)`,
+        `CREATE INDEX IF NOT EXISTS idx_drive_readings_server_timestamp ON drive_readings(server_id, timestamp)`,
+        ...EVENT_LOG_KINDS.map(log => `CREATE INDEX IF NOT EXISTS idx_${log}_records_server_timestamp ON ${log}_records(server_id, timestamp)`),
+        ...ROLLUPS.map(rollup => `CREATE INDEX IF NOT EXISTS idx_${rollup.table}_bucket ON ${rollup.table}(bucket_start)`)
       ];
 
       const executeStatements = async () => {
@@ -182,9 +550,39 @@ class HistoricalStorage {
     });
   }
 
+  // Databases created before multi-server support have no server_id column, their
+  // rows all belong to the default server
+  private async migrateServerColumns(): Promise<void> {
+    const tables = ['historical_data', 'sensor_readings', 'fan_readings'];
+
+    const run = (sql: string) => new Promise<void>((resolve, reject) => {
+      this.db!.run(sql, (err) => err ? reject(err) : resolve());
+    });
+
+    for (const table of tables) {
+      const columns = await new Promise<any[]>((resolve, reject) => {
+        this.db!.all(`PRAGMA table_info(${table})`, (err, rows: any[]) => err ? reject(err) : resolve(rows));
+      });
+
+      if (!columns.some(column => column.name === 'server_id')) {
+        await run(`ALTER TABLE ${table} ADD COLUMN server_id TEXT NOT NULL DEFAULT '${DEFAULT_SERVER_ID}'`);
+        console.log(`Added server_id column to ${table}`);
+      }
+    }
+
+    await run('CREATE INDEX IF NOT EXISTS idx_historical_data_server_type_timestamp ON historical_data(server_id, type, timestamp)');
+    await run('CREATE INDEX IF NOT EXISTS idx_sensor_readings_server_timestamp ON sensor_readings(server_id, timestamp)');
+    await run('CREATE INDEX IF NOT EXISTS idx_fan_readings_server_timestamp ON fan_readings(server_id, timestamp)');
+  }
+
   private setupCleanupSchedule(): Promise<void> {
     return new Promise((resolve) => {
-      // Clean up data older than 72 hours every hour
+      // Roll readings up as 5-minute buckets close so the coarser tiers stay current
+      setInterval(() => {
+        this.rollupReadings().catch(error => console.error('Error rolling up readings:', error));
+      }, FIVE_MINUTES_MS);
+
+      // Clean up data past its retention every hour
       setInterval(() => {
         this.cleanupOldData().catch(console.error);
       }, 60 * 60 * 1000); // 1 hour
@@ -195,26 +593,85 @@ class HistoricalStorage {
     });
   }
 
-  private cleanupOldData(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('Database not initialized'));
-        return;
-      }
+  getRetention(): RetentionConfig {
+    return { ...this.retention };
+  }
+
+  // Applied at startup and whenever the app configuration is saved
+  setRetention(retention: RetentionConfig): void {
+    this.retention = { ...retention };
+    if (this.isInitialized) {
+      this.cleanupOldData().catch(console.error);
+    }
+  }
+
+  // Summarise every closed bucket not rolled up yet, the newest rolled bucket is redone
+  // so samples from servers polled a little later are not lost
+  async rollupReadings(): Promise<void> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
 
-      const seventyTwoHoursAgo = Date.now() - (72 * 60 * 60 * 1000);
+    const closedBefore = Date.now() - ROLLUP_LAG_MS;
+    for (const rollup of ROLLUPS) {
+      const last = await new Promise<any>((resolve, reject) => {
+        this.db!.get(`SELECT MAX(bucket_start) as last FROM ${rollup.table}`, (err, row) => err ? reject(err) : resolve(row));
+      });
+      const from = last?.last ?? 0;
+      // Hourly buckets are built from 5-minute ones, which only exist for closed buckets
+      const until = Math.floor(closedBefore / rollup.bucketMs) * rollup.bucketMs;
+      if (until <= from) continue;
+
+      await new Promise<void>((resolve, reject) => {
+        this.db!.run(
+          `INSERT OR REPLACE INTO ${rollup.table} ${rollup.select}`,
+          [rollup.bucketMs, rollup.bucketMs, from, until],
+          (err) => err ? reject(err) : resolve()
+        );
+      });
+    }
+  }
+
+  private async cleanupOldData(): Promise<void> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    // Raw samples are always summarised before they can expire
+    await this.rollupReadings().catch(error => console.error('Error rolling up readings:', error));
+
+    return new Promise((resolve) => {
+      const rawCutoff = Date.now() - this.retention.rawHours * HOUR_MS;
+      const fiveMinuteCutoff = Date.now() - this.retention.fiveMinuteDays * DAY_MS;
+      const hourlyCutoff = Date.now() - this.retention.hourlyDays * DAY_MS;
+      // Alert history is kept longer than readings so past incidents can be reviewed
+      const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000);
+      const auditCutoff = Date.now() - AUDIT_RETENTION_DAYS * DAY_MS;
+      // Hourly energy is small, keep over a year so month-on-month totals stay comparable
+      const energyCutoff = Date.now() - Math.max(ENERGY_RETENTION_DAYS, this.retention.hourlyDays) * DAY_MS;
       
-      const cleanupQueries = [
-        'DELETE FROM historical_data WHERE timestamp < ?',
-        'DELETE FROM sensor_readings WHERE timestamp < ?',
-        'DELETE FROM fan_readings WHERE timestamp < ?'
+      const cleanupQueries: [string, number][] = [
+        [`DELETE FROM historical_data WHERE timestamp < ? AND type NOT IN (${AUDIT_TYPES})`, rawCutoff],
+        [`DELETE FROM historical_data WHERE timestamp < ? AND type IN (${AUDIT_TYPES})`, auditCutoff],
+        ['DELETE FROM sensor_readings WHERE timestamp < ?', rawCutoff],
+        ['DELETE FROM fan_readings WHERE timestamp < ?', rawCutoff],
+        ['DELETE FROM drive_readings WHERE timestamp < ?', rawCutoff],
+        ['DELETE FROM sensor_readings_5m WHERE bucket_start < ?', fiveMinuteCutoff],
+        ['DELETE FROM fan_readings_5m WHERE bucket_start < ?', fiveMinuteCutoff],
+        ['DELETE FROM drive_readings_5m WHERE bucket_start < ?', fiveMinuteCutoff],
+        ['DELETE FROM sensor_readings_1h WHERE bucket_start < ?', hourlyCutoff],
+        ['DELETE FROM fan_readings_1h WHERE bucket_start < ?', hourlyCutoff],
+        ['DELETE FROM drive_readings_1h WHERE bucket_start < ?', hourlyCutoff],
+        ['DELETE FROM power_readings WHERE timestamp < ?', rawCutoff],
+        ['DELETE FROM power_energy_hourly WHERE hour_start < ?', energyCutoff],
+        ['DELETE FROM alert_events WHERE timestamp < ?', thirtyDaysAgo]
       ];
 
       let completed = 0;
       const total = cleanupQueries.length;
 
-      cleanupQueries.forEach((sql) => {
-        this.db!.run(sql, [seventyTwoHoursAgo], (err) => {
+      cleanupQueries.forEach(([sql, cutoff]) => {
+        this.db!.run(sql, [cutoff], (err) => {
           if (err) {
             console.error('Error cleaning up old data:', err);
           }
@@ -230,7 +687,7 @@ class HistoricalStorage {
   }
 
   // Store thermal data (sensors and fans)
-  async storeThermalData(sensors: any[], fans: any[]): Promise<void> {
+  async storeThermalData(sensors: any[], fans: any[], serverId: string = DEFAULT_SERVER_ID): Promise<void> {
     if (!this.isInitialized || !this.db) {
       throw new Error('Historical storage not initialized');
     }
@@ -241,8 +698,8 @@ class HistoricalStorage {
       const sensorInserts = sensors.map(sensor => 
         new Promise<void>((res, rej) => {
           this.db!.run(
-            'INSERT INTO sensor_readings (timestamp, sensor_name, reading, status, type, context, critical, fatal) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-            [timestamp, sensor.name, sensor.reading, sensor.status, sensor.type, sensor.context, sensor.critical, sensor.fatal],
+            'INSERT INTO sensor_readings (server_id, timestamp, sensor_name, reading, status, type, context, critical, fatal) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+            [serverId, timestamp, sensor.name, sensor.reading, sensor.status, sensor.type, sensor.context, sensor.critical, sensor.fatal],
             (err) => err ? rej(err) : res()
           );
         })
@@ -251,8 +708,8 @@ class HistoricalStorage {
       const fanInserts = fans.map(fan => 
         new Promise<void>((res, rej) => {
           this.db!.run(
-            'INSERT INTO fan_readings (timestamp, fan_name, speed, status, health) VALUES (?, ?, ?, ?, ?)',
-            [timestamp, fan.name, fan.speed, fan.status, fan.health],
+            'INSERT INTO fan_readings (server_id, timestamp, fan_name, speed, status, health) VALUES (?, ?, ?, ?, ?, ?)',
+            [serverId, timestamp, fan.name, fan.speed, fan.status, fan.health],
             (err) => err ? rej(err) : res()
           );
         })
@@ -260,15 +717,31 @@ class HistoricalStorage {
 
       Promise.all([...sensorInserts, ...fanInserts])
         .then(() => {
-          console.log(`Stored thermal data: ${sensors.length} sensors, ${fans.length} fans`);
+          console.log(`Stored thermal data for ${serverId}: ${sensors.length} sensors, ${fans.length} fans`);
           resolve();
         })
         .catch(reject);
     });
   }
 
+  // Store Smart Array drive temperatures
+  async storeDriveReadings(drives: { name: string; temperature: number; health: string }[], serverId: string = DEFAULT_SERVER_ID): Promise<void> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    const timestamp = Date.now();
+    await Promise.all(drives.map(drive => new Promise<void>((resolve, reject) => {
+      this.db!.run(
+        'INSERT INTO drive_readings (server_id, timestamp, drive_name, temperature, health) VALUES (?, ?, ?, ?, ?)',
+        [serverId, timestamp, drive.name, drive.temperature, drive.health],
+        (err) => err ? reject(err) : resolve()
+      );
+    })));
+  }
+
   // Store general historical data
-  async storeHistoricalData(type: string, data: any): Promise<void> {
+  async storeHistoricalData(type: string, data: any, serverId: string = DEFAULT_SERVER_ID): Promise<void> {
     if (!this.isInitialized || !this.db) {
       throw new Error('Historical storage not initialized');
     }
@@ -277,8 +750,8 @@ class HistoricalStorage {
     
     return new Promise((resolve, reject) => {
       this.db!.run(
-        'INSERT INTO historical_data (timestamp, type, data) VALUES (?, ?, ?)',
-        [timestamp, type, JSON.stringify(data)],
+        'INSERT INTO historical_data (server_id, timestamp, type, data) VALUES (?, ?, ?, ?)',
+        [serverId, timestamp, type, JSON.stringify(data)],
         (err) => {
           if (err) {
             reject(err);
@@ -291,66 +764,180 @@ class HistoricalStorage {
     });
   }
 
-  // Get sensor readings for a time range
-  async getSensorReadings(timeRangeMinutes: number, sensorName?: string): Promise<SensorReading[]> {
+  // Store a power reading and add the energy since the previous one to the hourly rollup
+  async storePowerReading(power: { presentPower: number; averagePower: number; powerCap: number }, serverId: string = DEFAULT_SERVER_ID): Promise<void> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    const timestamp = Date.now();
+    const run = (sql: string, params: any[]) => new Promise<void>((resolve, reject) => {
+      this.db!.run(sql, params, (err) => err ? reject(err) : resolve());
+    });
+
+    const previous = await new Promise<PowerReading | undefined>((resolve, reject) => {
+      this.db!.get(
+        'SELECT * FROM power_readings WHERE server_id = ? ORDER BY timestamp DESC LIMIT 1',
+        [serverId],
+        (err, row: any) => err ? reject(err) : resolve(row)
+      );
+    });
+
+    await run(
+      'INSERT INTO power_readings (server_id, timestamp, present_power, average_power, power_cap) VALUES (?, ?, ?, ?, ?)',
+      [serverId, timestamp, power.presentPower, power.averagePower, power.powerCap]
+    );
+
+    const upsertHour = (hourStart: number, energyWh: number, coveredMs: number, watts: number | null) => run(
+      `INSERT INTO power_energy_hourly (server_id, hour_start, energy_wh, covered_ms, min_watts, max_watts, watts_sum, samples)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(server_id, hour_start) DO UPDATE SET
+         energy_wh = energy_wh + excluded.energy_wh,
+         covered_ms = covered_ms + excluded.covered_ms,
+         min_watts = CASE WHEN excluded.min_watts IS NULL THEN min_watts ELSE MIN(COALESCE(min_watts, excluded.min_watts), excluded.min_watts) END,
+         max_watts = CASE WHEN excluded.max_watts IS NULL THEN max_watts ELSE MAX(COALESCE(max_watts, excluded.max_watts), excluded.max_watts) END,
+         watts_sum = watts_sum + excluded.watts_sum,
+         samples = samples + excluded.samples`,
+      [serverId, hourStart, energyWh, coveredMs, watts, watts, watts ?? 0, watts === null ? 0 : 1]
+    );
+
+    // Trapezoidal integration, split at hour boundaries so time-of-use rates land in the right hour
+    if (previous && timestamp - previous.timestamp <= MAX_ENERGY_INTERVAL_MS) {
+      const startWatts = previous.present_power;
+      const wattsPerMs = (power.presentPower - startWatts) / (timestamp - previous.timestamp);
+      let from = previous.timestamp;
+      while (from < timestamp) {
+        const hourStart = Math.floor(from / HOUR_MS) * HOUR_MS;
+        const to = Math.min(timestamp, hourStart + HOUR_MS);
+        const fromWatts = startWatts + wattsPerMs * (from - previous.timestamp);
+        const toWatts = startWatts + wattsPerMs * (to - previous.timestamp);
+        await upsertHour(hourStart, ((fromWatts + toWatts) / 2) * (to - from) / HOUR_MS, to - from, null);
+        from = to;
+      }
+    }
+
+    await upsertHour(Math.floor(timestamp / HOUR_MS) * HOUR_MS, 0, 0, power.presentPower);
+  }
+
+  async getPowerReadings(timeRangeMinutes: number, serverId: string = DEFAULT_SERVER_ID): Promise<PowerReading[]> {
     if (!this.isInitialized || !this.db) {
       throw new Error('Historical storage not initialized');
     }
 
     const startTime = Date.now() - (timeRangeMinutes * 60 * 1000);
-    
+
     return new Promise((resolve, reject) => {
-      let sql = 'SELECT * FROM sensor_readings WHERE timestamp >= ?';
-      const params: any[] = [startTime];
-      
-      if (sensorName) {
-        sql += ' AND sensor_name = ?';
-        params.push(sensorName);
-      }
-      
-      sql += ' ORDER BY timestamp ASC';
-      
-      this.db!.all(sql, params, (err, rows: any[]) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(rows as SensorReading[]);
-        }
-      });
+      this.db!.all(
+        'SELECT * FROM power_readings WHERE server_id = ? AND timestamp >= ? ORDER BY timestamp ASC',
+        [serverId, startTime],
+        (err, rows: any[]) => err ? reject(err) : resolve(rows as PowerReading[])
+      );
     });
   }
 
-  // Get fan readings for a time range
-  async getFanReadings(timeRangeMinutes: number, fanName?: string): Promise<FanReading[]> {
+  // Hourly energy from startTime (inclusive, rounded down to the hour) up to now
+  async getHourlyEnergy(startTime: number, serverId: string = DEFAULT_SERVER_ID): Promise<HourlyEnergy[]> {
     if (!this.isInitialized || !this.db) {
       throw new Error('Historical storage not initialized');
     }
 
-    const startTime = Date.now() - (timeRangeMinutes * 60 * 1000);
-    
     return new Promise((resolve, reject) => {
-      let sql = 'SELECT * FROM fan_readings WHERE timestamp >= ?';
-      const params: any[] = [startTime];
-      
-      if (fanName) {
-        sql += ' AND fan_name = ?';
-        params.push(fanName);
-      }
-      
-      sql += ' ORDER BY timestamp ASC';
-      
-      this.db!.all(sql, params, (err, rows: any[]) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(rows as FanReading[]);
+      this.db!.all(
+        'SELECT * FROM power_energy_hourly WHERE server_id = ? AND hour_start >= ? ORDER BY hour_start ASC',
+        [serverId, Math.floor(startTime / HOUR_MS) * HOUR_MS],
+        (err, rows: any[]) => {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(rows.map(row => ({
+              hourStart: row.hour_start,
+              energyWh: row.energy_wh,
+              coveredMs: row.covered_ms,
+              minWatts: row.min_watts ?? 0,
+              maxWatts: row.max_watts ?? 0,
+              avgWatts: row.samples > 0 ? row.watts_sum / row.samples : 0,
+              samples: row.samples
+            })));
+          }
         }
-      });
+      );
     });
   }
 
+  // Finest resolution still kept for the whole range
+  resolutionFor(timeRangeMinutes: number): ReadingResolution {
+    if (timeRangeMinutes <= this.retention.rawHours * 60) return 'raw';
+    if (timeRangeMinutes <= this.retention.fiveMinuteDays * 24 * 60) return '5m';
+    return '1h';
+  }
+
+  // Rows of one kind of reading at the resolution the range needs. Rollups lag behind
+  // the samples, so the newest part of the range is filled in from the finer tiers.
+  private async getTieredReadings(kind: 'sensor' | 'fan' | 'drive', timeRangeMinutes: number, name: string | undefined, serverId: string): Promise<any[]> {
+    const nameColumn = `${kind}_name`;
+    const columns = {
+      sensor: 'server_id, bucket_start AS timestamp, sensor_name, avg_reading AS reading, worst_status AS status, type, context, critical, fatal, min_reading, max_reading, samples',
+      fan: 'server_id, bucket_start AS timestamp, fan_name, avg_speed AS speed, status, worst_health AS health, min_speed, max_speed, samples',
+      drive: 'server_id, bucket_start AS timestamp, drive_name, avg_temperature AS temperature, worst_health AS health, min_temperature, max_temperature, samples'
+    }[kind];
+    const query = (sql: string, params: any[]) => new Promise<any[]>((resolve, reject) => {
+      this.db!.all(sql, params, (err, rows: any[]) => err ? reject(err) : resolve(rows));
+    });
+
+    let from = Date.now() - (timeRangeMinutes * 60 * 1000);
+    const rows: any[] = [];
+    for (let index = RESOLUTIONS.indexOf(this.resolutionFor(timeRangeMinutes)); index >= 0; index--) {
+      const resolution = RESOLUTIONS[index];
+      const table = resolution === 'raw' ? `${kind}_readings` : `${kind}_readings_${resolution}`;
+      const timeColumn = resolution === 'raw' ? 'timestamp' : 'bucket_start';
+
+      let sql = `SELECT ${resolution === 'raw' ? '*' : columns} FROM ${table} WHERE server_id = ? AND ${timeColumn} >= ?`;
+      const params: any[] = [serverId, from];
+      if (name) {
+        sql += ` AND ${nameColumn} = ?`;
+        params.push(name);
+      }
+      rows.push(...await query(`${sql} ORDER BY ${timeColumn} ASC`, params));
+
+      if (resolution !== 'raw') {
+        const [last] = await query(`SELECT MAX(bucket_start) as last FROM ${table} WHERE server_id = ?`, [serverId]);
+        if (last?.last != null) {
+          from = Math.max(from, last.last + BUCKET_MS[resolution]);
+        }
+      }
+    }
+    return rows;
+  }
+
+  // Get sensor readings for a time range
+  async getSensorReadings(timeRangeMinutes: number, sensorName?: string, serverId: string = DEFAULT_SERVER_ID): Promise<SensorReading[]> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    return this.getTieredReadings('sensor', timeRangeMinutes, sensorName, serverId);
+  }
+
+  // Get fan readings for a time range
+  async getFanReadings(timeRangeMinutes: number, fanName?: string, serverId: string = DEFAULT_SERVER_ID): Promise<FanReading[]> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    return this.getTieredReadings('fan', timeRangeMinutes, fanName, serverId);
+  }
+
+  // Get drive temperatures for a time range
+  async getDriveReadings(timeRangeMinutes: number, driveName?: string, serverId: string = DEFAULT_SERVER_ID): Promise<DriveReading[]> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    return this.getTieredReadings('drive', timeRangeMinutes, driveName, serverId);
+  }
+
   // Get historical data for a time range and type
-  async getHistoricalData(type: string, timeRangeMinutes: number): Promise<HistoricalDataPoint[]> {
+  async getHistoricalData(type: string, timeRangeMinutes: number, serverId: string = DEFAULT_SERVER_ID): Promise<HistoricalDataPoint[]> {
     if (!this.isInitialized || !this.db) {
       throw new Error('Historical storage not initialized');
     }
@@ -359,8 +946,8 @@ class HistoricalStorage {
     
     return new Promise((resolve, reject) => {
       this.db!.all(
-        'SELECT * FROM historical_data WHERE type = ? AND timestamp >= ? ORDER BY timestamp ASC',
-        [type, startTime],
+        'SELECT * FROM historical_data WHERE server_id = ? AND type = ? AND timestamp >= ? ORDER BY timestamp ASC',
+        [serverId, type, startTime],
         (err, rows: any[]) => {
           if (err) {
             reject(err);
@@ -377,7 +964,7 @@ class HistoricalStorage {
   }
 
   // Get latest readings for dashboard
-  async getLatestSensorReadings(): Promise<SensorReading[]> {
+  async getLatestSensorReadings(serverId: string = DEFAULT_SERVER_ID): Promise<SensorReading[]> {
     if (!this.isInitialized || !this.db) {
       throw new Error('Historical storage not initialized');
     }
@@ -388,9 +975,12 @@ class HistoricalStorage {
          INNER JOIN (
            SELECT sensor_name, MAX(timestamp) as max_timestamp
            FROM sensor_readings
+           WHERE server_id = ?
            GROUP BY sensor_name
          ) sr2 ON sr1.sensor_name = sr2.sensor_name AND sr1.timestamp = sr2.max_timestamp
+         WHERE sr1.server_id = ?
          ORDER BY sr1.sensor_name`,
+        [serverId, serverId],
         (err, rows: any[]) => {
           if (err) {
             reject(err);
@@ -403,7 +993,7 @@ class HistoricalStorage {
   }
 
   // Get latest fan readings for dashboard
-  async getLatestFanReadings(): Promise<FanReading[]> {
+  async getLatestFanReadings(serverId: string = DEFAULT_SERVER_ID): Promise<FanReading[]> {
     if (!this.isInitialized || !this.db) {
       throw new Error('Historical storage not initialized');
     }
@@ -414,9 +1004,12 @@ class HistoricalStorage {
          INNER JOIN (
            SELECT fan_name, MAX(timestamp) as max_timestamp
            FROM fan_readings
+           WHERE server_id = ?
            GROUP BY fan_name
          ) fr2 ON fr1.fan_name = fr2.fan_name AND fr1.timestamp = fr2.max_timestamp
+         WHERE fr1.server_id = ?
          ORDER BY fr1.fan_name`,
+        [serverId, serverId],
         (err, rows: any[]) => {
           if (err) {
             reject(err);
@@ -429,15 +1022,15 @@ class HistoricalStorage {
   }
 
   // Get latest historical data by type
-  async getLatestHistoricalData(type: string): Promise<HistoricalDataPoint | null> {
+  async getLatestHistoricalData(type: string, serverId: string = DEFAULT_SERVER_ID): Promise<HistoricalDataPoint | null> {
     if (!this.isInitialized || !this.db) {
       throw new Error('Historical storage not initialized');
     }
 
     return new Promise((resolve, reject) => {
       this.db!.get(
-        'SELECT * FROM historical_data WHERE type = ? ORDER BY timestamp DESC LIMIT 1',
-        [type],
+        'SELECT * FROM historical_data WHERE server_id = ? AND type = ? ORDER BY timestamp DESC LIMIT 1',
+        [serverId, type],
         (err, row: any) => {
           if (err) {
             reject(err);
@@ -455,37 +1048,508 @@ class HistoricalStorage {
   }
 
   // Get aggregated sensor data for charts (averaging readings over time intervals)
-  async getAggregatedSensorData(timeRangeMinutes: number, intervalMinutes: number = 1): Promise<any[]> {
+  async getAggregatedSensorData(timeRangeMinutes: number, intervalMinutes: number = 1, serverId: string = DEFAULT_SERVER_ID): Promise<any[]> {
     if (!this.isInitialized || !this.db) {
       throw new Error('Historical storage not initialized');
     }
 
-    const startTime = Date.now() - (timeRangeMinutes * 60 * 1000);
     const intervalMs = intervalMinutes * 60 * 1000;
-    
+    const readings = await this.getSensorReadings(timeRangeMinutes, undefined, serverId);
+
+    // Rollup rows stand for several samples, weight their averages accordingly
+    const intervals = new Map<string, { sensor_name: string; interval_start: number; sum: number; min_reading: number; max_reading: number; sample_count: number }>();
+    for (const reading of readings) {
+      const intervalStart = Math.floor(reading.timestamp / intervalMs) * intervalMs;
+      const key = `${intervalStart}:${reading.sensor_name}`;
+      const samples = reading.samples ?? 1;
+      const current = intervals.get(key);
+      if (current) {
+        current.sum += reading.reading * samples;
+        current.min_reading = Math.min(current.min_reading, reading.min_reading ?? reading.reading);
+        current.max_reading = Math.max(current.max_reading, reading.max_reading ?? reading.reading);
+        current.sample_count += samples;
+      } else {
+        intervals.set(key, {
+          sensor_name: reading.sensor_name,
+          interval_start: intervalStart,
+          sum: reading.reading * samples,
+          min_reading: reading.min_reading ?? reading.reading,
+          max_reading: reading.max_reading ?? reading.reading,
+          sample_count: samples
+        });
+      }
+    }
+
+    return [...intervals.values()]
+      .map(({ sum, ...interval }) => ({ ...interval, avg_reading: sum / interval.sample_count }))
+      .sort((a, b) => a.sensor_name.localeCompare(b.sensor_name) || a.interval_start - b.interval_start);
+  }
+
+  // Drop everything recorded for a server that was removed from the registry
+  async deleteServerData(serverId: string): Promise<void> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    const tables = ['historical_data', 'sensor_readings', 'fan_readings', 'drive_readings', 'power_readings', 'power_energy_hourly', ...EVENT_LOG_KINDS.map(log => `${log}_records`), ...ROLLUPS.map(rollup => rollup.table)];
+    await Promise.all(tables.map(table =>
+      new Promise<void>((resolve, reject) => {
+        this.db!.run(`DELETE FROM ${table} WHERE server_id = ?`, [serverId], (err) => err ? reject(err) : resolve());
+      })
+    ));
+    console.log(`Deleted historical data for server ${serverId}`);
+  }
+
+  // Session persistence
+
+  async saveSession(session: StoredSession): Promise<void> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `INSERT OR REPLACE INTO sessions (id, token_hash, user_id, username, created_at, last_seen, expires_at, user_agent, ip_address)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          session.id,
+          session.tokenHash,
+          session.userId,
+          session.username,
+          session.createdAt,
+          session.lastSeen,
+          session.expiresAt,
+          session.userAgent ?? null,
+          session.ipAddress ?? null
+        ],
+        (err) => err ? reject(err) : resolve()
+      );
+    });
+  }
+
+  // Get every session that has not expired yet
+  async getActiveSessions(): Promise<StoredSession[]> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(
+        'SELECT * FROM sessions WHERE expires_at > ?',
+        [Date.now()],
+        (err, rows: any[]) => {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(rows.map(row => ({
+              id: row.id,
+              tokenHash: row.token_hash,
+              userId: row.user_id,
+              username: row.username,
+              createdAt: row.created_at,
+              lastSeen: row.last_seen,
+              expiresAt: row.expires_at,
+              userAgent: row.user_agent ?? undefined,
+              ipAddress: row.ip_address ?? undefined
+            })));
+          }
+        }
+      );
+    });
+  }
+
+  async touchSession(id: string, lastSeen: number, expiresAt: number): Promise<void> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        'UPDATE sessions SET last_seen = ?, expires_at = ? WHERE id = ?',
+        [lastSeen, expiresAt, id],
+        (err) => err ? reject(err) : resolve()
+      );
+    });
+  }
+
+  async deleteSessions(ids: string[]): Promise<void> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+    if (ids.length === 0) return;
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `DELETE FROM sessions WHERE id IN (${ids.map(() => '?').join(', ')})`,
+        ids,
+        (err) => err ? reject(err) : resolve()
+      );
+    });
+  }
+
+  async deleteExpiredSessions(): Promise<void> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        'DELETE FROM sessions WHERE expires_at < ?',
+        [Date.now()],
+        (err) => err ? reject(err) : resolve()
+      );
+    });
+  }
+
+  // Alert persistence
+
+  async getAlertRules(): Promise<StoredAlertRule[]> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.db!.all('SELECT * FROM alert_rules ORDER BY created_at', (err, rows: any[]) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows.map(row => ({
+            id: row.id,
+            name: row.name,
+            type: row.type,
+            serverId: row.server_id ?? null,
+            severity: row.severity,
+            params: JSON.parse(row.params),
+            channels: JSON.parse(row.channels),
+            enabled: !!row.enabled,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at
+          })));
+        }
+      });
+    });
+  }
+
+  async saveAlertRule(rule: StoredAlertRule): Promise<void> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `INSERT OR REPLACE INTO alert_rules (id, name, type, server_id, severity, params, channels, enabled, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          rule.id,
+          rule.name,
+          rule.type,
+          rule.serverId,
+          rule.severity,
+          JSON.stringify(rule.params),
+          JSON.stringify(rule.channels),
+          rule.enabled ? 1 : 0,
+          rule.createdAt,
+          rule.updatedAt
+        ],
+        (err) => err ? reject(err) : resolve()
+      );
+    });
+  }
+
+  // Delete a rule along with its active alerts, its history is kept
+  async deleteAlertRule(id: string): Promise<void> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    await Promise.all(['DELETE FROM alert_rules WHERE id = ?', 'DELETE FROM active_alerts WHERE rule_id = ?'].map(sql =>
+      new Promise<void>((resolve, reject) => {
+        this.db!.run(sql, [id], (err) => err ? reject(err) : resolve());
+      })
+    ));
+  }
+
+  async addAlertEvent(event: StoredAlertEvent): Promise<number> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `INSERT INTO alert_events (rule_id, rule_name, server_id, alert_key, subject, state, severity, message, value, timestamp, deliveries)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          event.ruleId,
+          event.ruleName,
+          event.serverId,
+          event.alertKey,
+          event.subject,
+          event.state,
+          event.severity,
+          event.message,
+          event.value,
+          event.timestamp,
+          JSON.stringify(event.deliveries)
+        ],
+        function (err) {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(this.lastID);
+          }
+        }
+      );
+    });
+  }
+
+  async updateAlertEventDeliveries(id: number, deliveries: StoredAlertEvent['deliveries']): Promise<void> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        'UPDATE alert_events SET deliveries = ? WHERE id = ?',
+        [JSON.stringify(deliveries), id],
+        (err) => err ? reject(err) : resolve()
+      );
+    });
+  }
+
+  // Most recent alert transitions first
+  async getAlertEvents(limit: number = 100, offset: number = 0): Promise<{ events: StoredAlertEvent[]; total: number }> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    const total = await new Promise<number>((resolve, reject) => {
+      this.db!.get('SELECT COUNT(*) as count FROM alert_events', (err, row: any) => err ? reject(err) : resolve(row.count));
+    });
+
+    const events = await new Promise<StoredAlertEvent[]>((resolve, reject) => {
+      this.db!.all(
+        'SELECT * FROM alert_events ORDER BY timestamp DESC, id DESC LIMIT ? OFFSET ?',
+        [limit, offset],
+        (err, rows: any[]) => {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(rows.map(row => ({
+              id: row.id,
+              ruleId: row.rule_id,
+              ruleName: row.rule_name,
+              serverId: row.server_id,
+              alertKey: row.alert_key,
+              subject: row.subject,
+              state: row.state,
+              severity: row.severity,
+              message: row.message,
+              value: row.value,
+              timestamp: row.timestamp,
+              deliveries: JSON.parse(row.deliveries)
+            })));
+          }
+        }
+      );
+    });
+
+    return { events, total };
+  }
+
+  async getActiveAlerts(): Promise<StoredActiveAlert[]> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.db!.all('SELECT * FROM active_alerts ORDER BY firing_since DESC', (err, rows: any[]) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows.map(row => ({
+            alertKey: row.alert_key,
+            ruleId: row.rule_id,
+            serverId: row.server_id,
+            subject: row.subject,
+            severity: row.severity,
+            message: row.message,
+            value: row.value,
+            firingSince: row.firing_since
+          })));
+        }
+      });
+    });
+  }
+
+  async saveActiveAlert(alert: StoredActiveAlert): Promise<void> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `INSERT OR REPLACE INTO active_alerts (alert_key, rule_id, server_id, subject, severity, message, value, firing_since)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [alert.alertKey, alert.ruleId, alert.serverId, alert.subject, alert.severity, alert.message, alert.value, alert.firingSince],
+        (err) => err ? reject(err) : resolve()
+      );
+    });
+  }
+
+  async deleteActiveAlert(alertKey: string): Promise<void> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.db!.run('DELETE FROM active_alerts WHERE alert_key = ?', [alertKey], (err) => err ? reject(err) : resolve());
+    });
+  }
+
+  // IML and IEL archive
+
+  // The latest generation of a log archive and the record numbers already archived in it
+  async getLogArchiveState(log: EventLogKind, serverId: string = DEFAULT_SERVER_ID): Promise<{ generation: number; numbers: number[] }> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
     return new Promise((resolve, reject) => {
       this.db!.all(
-        `SELECT 
-           sensor_name,
-           ((timestamp / ?) * ?) as interval_start,
-           AVG(reading) as avg_reading,
-           MIN(reading) as min_reading,
-           MAX(reading) as max_reading,
-           COUNT(*) as sample_count
-         FROM sensor_readings 
-         WHERE timestamp >= ?
-         GROUP BY sensor_name, interval_start
-         ORDER BY sensor_name, interval_start`,
-        [intervalMs, intervalMs, startTime],
+        `SELECT generation, record_number FROM ${log}_records
+         WHERE server_id = ? AND generation = (SELECT COALESCE(MAX(generation), 0) FROM ${log}_records WHERE server_id = ?)`,
+        [serverId, serverId],
+        (err, rows: any[]) => err ? reject(err) : resolve({
+          generation: rows[0]?.generation ?? 0,
+          numbers: rows.map(row => row.record_number)
+        })
+      );
+    });
+  }
+
+  // A record that changed under the same number (a clear that went unnoticed) loses its acknowledgement
+  async storeLogRecords(log: EventLogKind, generation: number, records: Omit<StoredLogRecord, 'serverId' | 'generation' | 'acknowledgedAt' | 'acknowledgedBy'>[], serverId: string = DEFAULT_SERVER_ID): Promise<void> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    const statement = `INSERT INTO ${log}_records (server_id, generation, record_number, severity, date, time, timestamp, description, first_seen)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (server_id, generation, record_number) DO UPDATE SET
+        acknowledged_at = CASE WHEN date = excluded.date AND time = excluded.time AND description = excluded.description THEN acknowledged_at ELSE NULL END,
+        acknowledged_by = CASE WHEN date = excluded.date AND time = excluded.time AND description = excluded.description THEN acknowledged_by ELSE NULL END,
+        first_seen = CASE WHEN date = excluded.date AND time = excluded.time AND description = excluded.description THEN first_seen ELSE excluded.first_seen END,
+        severity = excluded.severity,
+        date = excluded.date,
+        time = excluded.time,
+        timestamp = excluded.timestamp,
+        description = excluded.description`;
+
+    for (const record of records) {
+      await new Promise<void>((resolve, reject) => {
+        this.db!.run(
+          statement,
+          [serverId, generation, record.number, record.severity, record.date, record.time, record.timestamp, record.description, record.firstSeen],
+          (err) => err ? reject(err) : resolve()
+        );
+      });
+    }
+  }
+
+  private logRecordFilter(query: LogRecordQuery, serverId: string): { where: string; params: any[] } {
+    const conditions = ['server_id = ?'];
+    const params: any[] = [serverId];
+    if (query.severities && query.severities.length > 0) {
+      conditions.push(`severity IN (${query.severities.map(() => '?').join(', ')})`);
+      params.push(...query.severities);
+    }
+    if (query.from !== undefined) {
+      conditions.push('timestamp >= ?');
+      params.push(query.from);
+    }
+    if (query.to !== undefined) {
+      conditions.push('timestamp <= ?');
+      params.push(query.to);
+    }
+    if (query.search) {
+      conditions.push("description LIKE ? ESCAPE '\\'");
+      params.push(`%${query.search.replace(/[\\%_]/g, match => `\\${match}`)}%`);
+    }
+    if (query.acknowledged !== undefined) {
+      conditions.push(query.acknowledged ? 'acknowledged_at IS NOT NULL' : 'acknowledged_at IS NULL');
+    }
+    return { where: conditions.join(' AND '), params };
+  }
+
+  // Newest records first, record numbers only grow within a generation so they order entries even without a valid date
+  async getLogRecords(log: EventLogKind, query: LogRecordQuery, limit: number | null, offset: number = 0, serverId: string = DEFAULT_SERVER_ID): Promise<{ records: StoredLogRecord[]; total: number }> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    const { where, params } = this.logRecordFilter(query, serverId);
+
+    const total = await new Promise<number>((resolve, reject) => {
+      this.db!.get(`SELECT COUNT(*) as count FROM ${log}_records WHERE ${where}`, params, (err, row: any) => err ? reject(err) : resolve(row.count));
+    });
+
+    const records = await new Promise<StoredLogRecord[]>((resolve, reject) => {
+      this.db!.all(
+        `SELECT * FROM ${log}_records WHERE ${where} ORDER BY generation DESC, record_number DESC${limit === null ? '' : ' LIMIT ? OFFSET ?'}`,
+        limit === null ? params : [...params, limit, offset],
         (err, rows: any[]) => {
           if (err) {
             reject(err);
           } else {
-            resolve(rows);
+            resolve(rows.map(row => ({
+              serverId: row.server_id,
+              generation: row.generation,
+              number: row.record_number,
+              severity: row.severity,
+              date: row.date,
+              time: row.time,
+              timestamp: row.timestamp,
+              description: row.description,
+              firstSeen: row.first_seen,
+              acknowledgedAt: row.acknowledged_at,
+              acknowledgedBy: row.acknowledged_by
+            })));
           }
         }
       );
     });
+
+    return { records, total };
+  }
+
+  // Marks the records as acknowledged (repaired) by a user, a null user clears the mark. Returns how many of the records exist
+  async setLogRecordsAcknowledged(log: EventLogKind, records: LogRecordRef[], acknowledgedBy: string | null, serverId: string = DEFAULT_SERVER_ID): Promise<number> {
+    if (!this.isInitialized || !this.db) {
+      throw new Error('Historical storage not initialized');
+    }
+
+    const byGeneration = new Map<number, number[]>();
+    records.forEach(record => byGeneration.set(record.generation, [...(byGeneration.get(record.generation) ?? []), record.number]));
+
+    const acknowledgedAt = acknowledgedBy ? Date.now() : null;
+    let updated = 0;
+    for (const [generation, numbers] of byGeneration) {
+      updated += await new Promise<number>((resolve, reject) => {
+        this.db!.run(
+          `UPDATE ${log}_records SET acknowledged_at = ?, acknowledged_by = ?
+           WHERE server_id = ? AND generation = ? AND record_number IN (${numbers.map(() => '?').join(', ')})`,
+          [acknowledgedAt, acknowledgedBy, serverId, generation, ...numbers],
+          function (err) {
+            if (err) {
+              reject(err);
+            } else {
+              resolve(this.changes);
+            }
+          }
+        );
+      });
+    }
+    return updated;
   }
 
   async close(): Promise<void> {
@@ -631,10 +1695,10 @@ class HistoricalStorage {
   }
 
   async getPaginatedData(
-    table: 'sensor_readings' | 'fan_readings' | 'historical_data' | 'all',
+    table: DatabaseViewTable,
     page: number = 1,
     pageSize: number = 50,
-    sortBy: 'timestamp' | 'type' | 'name' = 'timestamp',
+    sortBy: DatabaseSortColumn = 'timestamp',
     sortOrder: 'ASC' | 'DESC' = 'DESC'
   ): Promise<{
     data: any[];
@@ -727,7 +1791,7 @@ class HistoricalStorage {
   }
 
   async exportData(
-    table: 'sensor_readings' | 'fan_readings' | 'historical_data' | 'all',
+    table: DatabaseViewTable,
     format: 'csv' | 'json' | 'txt',
     timeRangeMinutes?: number
   ): Promise<string> {
@@ -1,24 +1,37 @@
 // This file holds the logic for sensors, fans, overrides, and history collection.
 import { getThermalData } from "./redfish.js";
 import { runIloCommand } from "./sshClient.js";
+import { DEFAULT_SERVER_ID } from "./servers.js";
+import { liveEvents } from "./liveEvents.js";
+import { FAN_CONTROL_ENABLED, POLL_THERMAL_INTERVAL } from "../config/env.js";
 
-type Sensor = {
+export type Sensor = {
   name: string;
   type: string;
   status: string;
   reading: number;
+  number?: number;
   context?: string;
   critical?: number;
   fatal?: number;
 };
 
-type Fan = {
+export type Fan = {
   name: string;
   speed: number;
   status: string;
   health?: string;
 };
 
+// One grouping line from `fan info g`: the fan it drives and the sensors competing for it
+export type FanGroup = {
+  id: number; // Fan index used by `fan p <id> lock`
+  algorithm: string; // Arbitration between sensors, e.g. FASTEST
+  output: number; // Current group output as reported by iLO
+  sensors: number[]; // Sensor numbers (the NN- prefix of the Redfish sensor name)
+  drivingSensor: number | null; // Sensor currently winning the arbitration (marked with *)
+};
+
 let sensorOverrides: Record<string, number> = {};
 let fanOverrides: Record<string, number> = {};
 // History data structure: store individual sensor readings over time
@@ -29,32 +42,56 @@ type SensorHistoryPoint = {
 };
 
 let history: SensorHistoryPoint[] = [];
-let lastThermalData: any = null;
 
-// Cache thermal data for 30 seconds to avoid too many API calls
-let lastFetchTime = 0;
-const CACHE_DURATION = 30000; // 30 seconds
+// Cache thermal data per server until the next thermal poll is due to avoid too many API calls
+const thermalCache = new Map<string, { data: any; fetchedAt: number }>();
+const CACHE_DURATION = POLL_THERMAL_INTERVAL;
+
+// Thermal requests in flight per server, concurrent readers share one Redfish request and one publish
+const thermalRequests = new Map<string, Promise<any>>();
 
 // Function to invalidate cache (force refresh on next request)
-export function invalidateThermalCache() {
-  lastFetchTime = 0;
-  lastThermalData = null;
+export function invalidateThermalCache(serverId: string = DEFAULT_SERVER_ID) {
+  thermalCache.delete(serverId);
+  thermalRequests.delete(serverId);
+}
+
+function requestThermalData(serverId: string): Promise<any> {
+  const pending = thermalRequests.get(serverId);
+  if (pending) return pending;
+
+  const request: Promise<any> = getThermalData(serverId)
+    .then(async data => {
+      // A request started before an invalidation must not refill the cache with older readings
+      if (thermalRequests.get(serverId) === request) {
+        thermalCache.set(serverId, { data, fetchedAt: Date.now() });
+      }
+      await publishThermalData(data, serverId);
+      return data;
+    })
+    .finally(() => {
+      if (thermalRequests.get(serverId) === request) {
+        thermalRequests.delete(serverId);
+      }
+    });
+  thermalRequests.set(serverId, request);
+  return request;
 }
 
-async function getCachedThermalData() {
+async function getCachedThermalData(serverId: string) {
   const now = Date.now();
-  if (!lastThermalData || (now - lastFetchTime) > CACHE_DURATION) {
+  const cached = thermalCache.get(serverId);
+  if (!cached || (now - cached.fetchedAt) > CACHE_DURATION) {
     try {
-      lastThermalData = await getThermalData();
-      lastFetchTime = now;
+      return await requestThermalData(serverId);
     } catch (error) {
       console.error('Failed to fetch thermal data, using cached data if available:', error);
-      if (!lastThermalData) {
+      if (!cached) {
         throw error;
       }
     }
   }
-  return lastThermalData;
+  return cached!.data;
 }
 
 async function parseSensorsFromThermal(thermalData: any): Promise<Sensor[]> {
@@ -69,6 +106,7 @@ async function parseSensorsFromThermal(thermalData: any): Promise<Sensor[]> {
           type: 'temperature',
           status: temp.Status.Health || 'Unknown',
           reading: temp.ReadingCelsius,
+          number: temp.Number,
           context: temp.PhysicalContext,
           critical: temp.UpperThresholdCritical,
           fatal: temp.UpperThresholdFatal
@@ -100,163 +138,252 @@ async function parseFansFromThermal(thermalData: any): Promise<Fan[]> {
   return fans;
 }
 
-// Update history every minute with individual sensor readings
-setInterval(async () => {
-  try {
-    const sensors = await getSensors();
-    const now = new Date();
-    const timestamp = now.getTime();
-    const time = now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-    
-    // Store individual sensor readings
-    const sensorReadings: { [sensorName: string]: number } = {};
-    sensors.forEach(sensor => {
-      sensorReadings[sensor.name] = sensor.reading;
-    });
-    
-    history.push({ 
-      time, 
-      timestamp,
-      sensors: sensorReadings 
-    });
-    
-    // Keep only last 60 entries (1 hour of data)
-    if (history.length > 60) {
-      history = history.slice(-60);
-    }
-  } catch (error) {
-    console.error('Failed to update history:', error);
+const HISTORY_INTERVAL_MS = 60 * 1000;
+
+// Keeps one point per minute of the last hour, fed by the default server's thermal polling
+export function recordSensorHistory(sensors: Sensor[]) {
+  const now = new Date();
+  const timestamp = now.getTime();
+  const last = history[history.length - 1];
+  if (sensors.length === 0 || (last && timestamp - last.timestamp < HISTORY_INTERVAL_MS)) return;
+
+  const time = now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  // Store individual sensor readings
+  const sensorReadings: { [sensorName: string]: number } = {};
+  sensors.forEach(sensor => {
+    sensorReadings[sensor.name] = sensor.reading;
+  });
+
+  history.push({
+    time,
+    timestamp,
+    sensors: sensorReadings
+  });
+
+  // Keep only last 60 entries (1 hour of data)
+  if (history.length > 60) {
+    history = history.slice(-60);
   }
-}, 60000);
+}
 
-export async function getSensors(): Promise<Sensor[]> {
+// Overrides are a testing aid for the default server and are not applied to other servers
+function applySensorOverrides(sensors: Sensor[], serverId: string): Sensor[] {
+  if (serverId !== DEFAULT_SERVER_ID) return sensors;
+  return sensors.map(s => ({
+    ...s,
+    reading: sensorOverrides[s.name] ?? s.reading
+  }));
+}
+
+function applyFanOverrides(fans: Fan[], serverId: string): Fan[] {
+  if (serverId !== DEFAULT_SERVER_ID) return fans;
+  return fans.map(f => ({
+    ...f,
+    speed: fanOverrides[f.name] ?? f.speed
+  }));
+}
+
+// Push freshly fetched readings to live dashboard clients
+async function publishThermalData(thermalData: any, serverId: string) {
+  liveEvents.publish('sensors', applySensorOverrides(await parseSensorsFromThermal(thermalData), serverId), serverId);
+  liveEvents.publish('fans', applyFanOverrides(await parseFansFromThermal(thermalData), serverId), serverId);
+}
+
+export async function getSensors(serverId: string = DEFAULT_SERVER_ID): Promise<Sensor[]> {
   try {
-    const thermalData = await getCachedThermalData();
-    const sensors = await parseSensorsFromThermal(thermalData);
-    
-    // Apply overrides
-    return sensors.map(s => ({
-      ...s,
-      reading: sensorOverrides[s.name] ?? s.reading
-    }));
+    const thermalData = await getCachedThermalData(serverId);
+    return applySensorOverrides(await parseSensorsFromThermal(thermalData), serverId);
   } catch (error) {
     console.error('Failed to get sensors:', error);
     return [];
   }
 }
 
-export async function getFans(): Promise<Fan[]> {
+export async function getFans(serverId: string = DEFAULT_SERVER_ID): Promise<Fan[]> {
   try {
-    const thermalData = await getCachedThermalData();
-    const fans = await parseFansFromThermal(thermalData);
-    
-    // Apply overrides
-    return fans.map(f => ({
-      ...f,
-      speed: fanOverrides[f.name] ?? f.speed
-    }));
+    const thermalData = await getCachedThermalData(serverId);
+    return applyFanOverrides(await parseFansFromThermal(thermalData), serverId);
   } catch (error) {
     console.error('Failed to get fans:', error);
     return [];
   }
 }
 
+// Overrides change what clients see without a new fetch, so push the cached readings again
+function republishOverrides() {
+  const cached = thermalCache.get(DEFAULT_SERVER_ID);
+  if (cached) {
+    publishThermalData(cached.data, DEFAULT_SERVER_ID).catch(error => {
+      console.error('Failed to publish overridden readings:', error);
+    });
+  }
+}
+
 export function overrideSensor(sensorId: string, value: number) {
   sensorOverrides[sensorId] = value;
+  republishOverrides();
 }
 
 export function overrideFan(fanId: string, speed: number) {
   fanOverrides[fanId] = speed;
+  republishOverrides();
 }
 
 export function resetSensorOverrides() {
   sensorOverrides = {};
+  republishOverrides();
 }
 
 export function resetFanOverrides() {
   fanOverrides = {};
+  republishOverrides();
 }
 
 export function getSensorHistory() {
   return history;
 }
 
-export async function setFanSpeed(speed: number) {
+// FAN_CONTROL_ENABLED=false turns the app into a monitor, every fan command below refuses to run
+// except unlocking, which only hands the fans back to iLO and is always safe
+export function assertFanControlEnabled(): void {
+  if (!FAN_CONTROL_ENABLED) {
+    throw new Error("Fan control is disabled by FAN_CONTROL_ENABLED=false");
+  }
+}
+
+// Unlock and lock every fan at one speed, throws when the iLO refuses or cannot be reached
+export async function lockAllFans(speed: number, serverId: string = DEFAULT_SERVER_ID): Promise<void> {
+  assertFanControlEnabled();
+  // Use SSH commands to set all fans via global unlock and lock
+  await unlockFanControl(serverId);
+
+  // Get current fans and lock each one at the specified speed
+  const fans = await getFans(serverId);
+  if (fans.length === 0) {
+    throw new Error("No fans reported by the iLO");
+  }
+  for (let i = 0; i < fans.length; i++) {
+    await lockFanAtSpeed(i, speed, serverId);
+  }
+
+  // Invalidate cache to force fresh data on next request
+  invalidateThermalCache(serverId);
+}
+
+// Like lockAllFans, but falls back to display overrides on the default server when the iLO fails
+export async function setFanSpeed(speed: number, serverId: string = DEFAULT_SERVER_ID) {
+  assertFanControlEnabled();
   try {
-    // Use SSH commands to set all fans via global unlock and lock
-    await unlockFanControl();
-    
-    // Get current fans and lock each one at the specified speed
-    const fans = await getFans();
-    for (let i = 0; i < fans.length; i++) {
-      await lockFanAtSpeed(i, speed);
-    }
-    
-    // Invalidate cache to force fresh data on next request
-    invalidateThermalCache();
+    await lockAllFans(speed, serverId);
   } catch (error) {
     console.error(`Failed to set all fans to ${speed}%:`, error);
+    if (serverId !== DEFAULT_SERVER_ID) throw error;
     // Fallback to override system
     const fans = await getFans();
     fans.forEach(fan => {
       fanOverrides[fan.name] = speed;
     });
+    republishOverrides();
   }
 }
 
 // SSH-based fan control functions for iLO4
-export async function unlockFanControl(): Promise<void> {
+export async function unlockFanControl(serverId: string = DEFAULT_SERVER_ID): Promise<void> {
   try {
-    await runIloCommand("fan p global unlock");
+    await runIloCommand("fan p global unlock", serverId);
   } catch (error) {
     throw new Error(`Failed to unlock fan control: ${(error as Error).message}`);
   }
 }
 
-export async function lockFanAtSpeed(fanId: number, speedPercent: number): Promise<void> {
+export async function lockFanAtSpeed(fanId: number, speedPercent: number, serverId: string = DEFAULT_SERVER_ID): Promise<void> {
+  assertFanControlEnabled();
   try {
     // Convert percentage (10-100%) to PWM value (25-255)
     // Formula: PWM = ((speedPercent / 100) * 255) but with minimum of 25
     const pwmValue = Math.max(25, Math.round((speedPercent / 100) * 255));
-    await runIloCommand(`fan p ${fanId} lock ${pwmValue}`);
+    await runIloCommand(`fan p ${fanId} lock ${pwmValue}`, serverId);
     
     // Invalidate cache to force fresh data on next request
-    invalidateThermalCache();
+    invalidateThermalCache(serverId);
   } catch (error) {
     throw new Error(`Failed to lock fan ${fanId} at ${speedPercent}%: ${(error as Error).message}`);
   }
 }
 
-export async function setPidLowLimit(pidId: number, lowLimitPercent: number): Promise<void> {
+export async function setPidLowLimit(pidId: number, lowLimitPercent: number, serverId: string = DEFAULT_SERVER_ID): Promise<void> {
+  assertFanControlEnabled();
   try {
     // iLO expects the value multiplied by 100
     const iloValue = lowLimitPercent * 100;
-    await runIloCommand(`fan pid ${pidId} lo ${iloValue}`);
+    await runIloCommand(`fan pid ${pidId} lo ${iloValue}`, serverId);
   } catch (error) {
     throw new Error(`Failed to set PID ${pidId} low limit to ${lowLimitPercent}%: ${(error as Error).message}`);
   }
 }
 
-export async function getFanInfo(): Promise<string> {
+export async function getFanInfo(serverId: string = DEFAULT_SERVER_ID): Promise<string> {
   try {
-    return await runIloCommand("fan info");
+    return await runIloCommand("fan info", serverId);
   } catch (error) {
     throw new Error(`Failed to get fan info: ${(error as Error).message}`);
   }
 }
 
-export async function getFanPidInfo(): Promise<string> {
+export async function getFanPidInfo(serverId: string = DEFAULT_SERVER_ID): Promise<string> {
   try {
-    return await runIloCommand("fan info a");
+    return await runIloCommand("fan info a", serverId);
   } catch (error) {
     throw new Error(`Failed to get PID info: ${(error as Error).message}`);
   }
 }
 
-export async function getFanGroupInfo(): Promise<string> {
+export async function getFanGroupInfo(serverId: string = DEFAULT_SERVER_ID): Promise<string> {
   try {
-    return await runIloCommand("fan info g");
+    return await runIloCommand("fan info g", serverId);
   } catch (error) {
     throw new Error(`Failed to get fan group info: ${(error as Error).message}`);
   }
 }
+
+
+// Parse `fan info g` output, e.g. "0: FASTEST Output:  63  [02*07 08 09 ...]"
+export function parseFanGroups(output: string): FanGroup[] {
+  const groups: FanGroup[] = [];
+  const groupPattern = /^\s*(\d+)\s*:\s*([A-Za-z_]+)\s+Output:\s*(\d+)\s*\[([^\]]*)\]?/;
+
+  for (const line of output.split('\n')) {
+    const match = line.match(groupPattern);
+    if (!match) continue;
+
+    const sensors: number[] = [];
+    let drivingSensor: number | null = null;
+
+    // Sensor numbers are space separated, the driving sensor is prefixed with '*'
+    const tokens = match[4].match(/\*?\d+/g) || [];
+    for (const token of tokens) {
+      const sensorNumber = parseInt(token.replace('*', ''), 10);
+      if (isNaN(sensorNumber)) continue;
+      sensors.push(sensorNumber);
+      if (token.startsWith('*')) {
+        drivingSensor = sensorNumber;
+      }
+    }
+
+    groups.push({
+      id: parseInt(match[1], 10),
+      algorithm: match[2],
+      output: parseInt(match[3], 10),
+      sensors,
+      drivingSensor
+    });
+  }
+
+  return groups;
+}
+
+export async function getFanGroups(serverId: string = DEFAULT_SERVER_ID): Promise<FanGroup[]> {
+  const output = await getFanGroupInfo(serverId);
+  return parseFanGroups(output);
+}
\ No newline at end of file
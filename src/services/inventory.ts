@@ -0,0 +1,143 @@
+import { runIloCommand } from "./sshClient.js";
+import { getRedfishCollection, textValue, numberValue, redfishHealth } from "./redfish.js";
+import { DEFAULT_SERVER_ID } from "./servers.js";
+
+export interface ProcessorInventory {
+  socket: string;
+  model: string;
+  cores: number | null;
+  threads: number | null;
+  speedMHz: number | null;
+  health: string;
+}
+
+export interface MemoryDimm {
+  slot: string;
+  populated: boolean;
+  sizeMB: number | null;
+  speedMHz: number | null;
+  type: string | null;
+  manufacturer: string | null;
+  partNumber: string | null;
+  health: string;
+}
+
+export interface PciDevice {
+  name: string;
+  location: string;
+  deviceType: string | null;
+  vendorId: string | null;
+  deviceId: string | null;
+}
+
+export interface HardwareInventory {
+  processors: ProcessorInventory[];
+  memory: MemoryDimm[]; // Every slot over Redfish, only populated slots over CLP
+  pciDevices: PciDevice[]; // Not available over CLP
+  source: 'redfish' | 'clp';
+  collectedAt: string;
+}
+
+const SYSTEM_PATH = '/redfish/v1/Systems/1';
+
+// iLO 4 reports DIMMs through the HP schema (SizeMB, DIMMStatus...), later firmware through the DMTF one
+function toMemoryDimm(member: any, index: number): MemoryDimm {
+  const dimmStatus = textValue(member.DIMMStatus);
+  const sizeMB = numberValue(member.SizeMB) ?? (member.CapacityMiB !== undefined ? numberValue(member.CapacityMiB) : null);
+  const populated = dimmStatus
+    ? dimmStatus !== 'NotPresent' && dimmStatus !== 'Unknown'
+    : member.Status?.State !== 'Absent' && !!sizeMB;
+
+  return {
+    slot: textValue(member.SocketLocator) ?? textValue(member.DeviceLocator) ?? textValue(member.Name) ?? `DIMM ${index + 1}`,
+    populated,
+    sizeMB: populated ? sizeMB : null,
+    speedMHz: populated ? numberValue(member.MaximumFrequencyMHz) ?? numberValue(member.OperatingSpeedMhz) : null,
+    type: populated ? textValue(member.DIMMType) ?? textValue(member.MemoryDeviceType) : null,
+    manufacturer: populated ? textValue(member.Manufacturer) : null,
+    partNumber: populated ? textValue(member.PartNumber) : null,
+    health: dimmStatus ?? redfishHealth(member.Status)
+  };
+}
+
+async function getRedfishInventory(serverId: string): Promise<HardwareInventory> {
+  const processors = await getRedfishCollection(`${SYSTEM_PATH}/Processors/`, serverId);
+  const memory = await getRedfishCollection(`${SYSTEM_PATH}/Memory/`, serverId);
+  const pciDevices = await getRedfishCollection(`${SYSTEM_PATH}/PCIDevices/`, serverId);
+
+  return {
+    processors: processors.map((member: any, index) => ({
+      socket: textValue(member.Socket) ?? `Proc ${index + 1}`,
+      model: textValue(member.Model) ?? textValue(member.Name) ?? 'Unknown',
+      cores: numberValue(member.TotalCores),
+      threads: numberValue(member.TotalThreads),
+      speedMHz: numberValue(member.Oem?.Hp?.RatedSpeedMHz) ?? numberValue(member.MaxSpeedMHz),
+      health: redfishHealth(member.Status)
+    })),
+    memory: memory.map(toMemoryDimm),
+    pciDevices: pciDevices.map((member: any) => ({
+      name: textValue(member.Name) ?? textValue(member.StructuredName) ?? 'Unknown',
+      location: textValue(member.DeviceLocation) ?? textValue(member.UEFIDevicePath) ?? '',
+      deviceType: textValue(member.DeviceType),
+      vendorId: textValue(member.VendorID),
+      deviceId: textValue(member.DeviceID)
+    })),
+    source: 'redfish',
+    collectedAt: new Date().toISOString()
+  };
+}
+
+const clpProperty = (output: string, key: string): string | null => {
+  const match = output.match(new RegExp(`^\\s*${key}=(.*)$`, 'm'));
+  return match ? textValue(match[1]) : null;
+};
+
+// Targets of a CLP object, e.g. cpu1 and cpu2 for prefix "cpu" under "show system1"
+function clpTargets(output: string, prefix: string): string[] {
+  return Array.from(output.matchAll(new RegExp(`^\\s*(${prefix}\\d+)\\s*$`, 'gm')), match => match[1]);
+}
+
+// Fallback for iLO firmware without the Redfish inventory, the CLP only lists populated DIMMs
+async function getClpInventory(serverId: string): Promise<HardwareInventory> {
+  const systemOutput = await runIloCommand("show system1", serverId);
+
+  const processors: ProcessorInventory[] = [];
+  for (const target of clpTargets(systemOutput, 'cpu')) {
+    const output = await runIloCommand(`show system1/${target}`, serverId);
+    processors.push({
+      socket: target.replace('cpu', 'Proc '),
+      model: clpProperty(output, 'name') ?? 'Unknown',
+      cores: numberValue(clpProperty(output, 'number_cores')),
+      threads: numberValue(clpProperty(output, 'threads')),
+      speedMHz: numberValue(clpProperty(output, 'speed')),
+      health: clpProperty(output, 'status') ?? 'Unknown'
+    });
+  }
+
+  const memory: MemoryDimm[] = [];
+  for (const target of clpTargets(systemOutput, 'memory')) {
+    const output = await runIloCommand(`show system1/${target}`, serverId);
+    memory.push({
+      slot: clpProperty(output, 'location') ?? target,
+      populated: true,
+      sizeMB: numberValue(clpProperty(output, 'size')),
+      speedMHz: numberValue(clpProperty(output, 'speed')),
+      type: null,
+      manufacturer: null,
+      partNumber: null,
+      health: 'OK'
+    });
+  }
+
+  return { processors, memory, pciDevices: [], source: 'clp', collectedAt: new Date().toISOString() };
+}
+
+// Processors, DIMMs and PCI devices, read over Redfish with the CLP as fallback
+export async function collectHardwareInventory(serverId: string = DEFAULT_SERVER_ID): Promise<HardwareInventory> {
+  try {
+    return await getRedfishInventory(serverId);
+  } catch (error) {
+    console.warn(`Redfish inventory of ${serverId} unavailable, falling back to CLP: ${error instanceof Error ? error.message : error}`);
+    return getClpInventory(serverId);
+  }
+}
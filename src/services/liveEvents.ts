@@ -0,0 +1,95 @@
+// Push channel for the dashboard: services publish here, /api/events streams it to browsers
+
+export type LiveEventType = 'sensors' | 'fans' | 'power' | 'pids' | 'systemInfo' | 'systemLogs' | 'console';
+
+export interface LiveEvent {
+  type: LiveEventType;
+  serverId: string | null; // null for events that are not tied to one iLO, like backend console output
+  data: unknown;
+  timestamp: string;
+}
+
+export interface LiveEventClient {
+  serverId: string;
+  receivesConsole: boolean; // Backend console output is for admins only
+  send: (event: LiveEvent) => void;
+  close: () => void;
+}
+
+class LiveEventHub {
+  private clients = new Set<LiveEventClient>();
+  // Last payload per server and type, replayed to new clients and used to skip unchanged data
+  private latest = new Map<string, { event: LiveEvent; json: string }>();
+
+  addClient(client: LiveEventClient): () => void {
+    this.clients.add(client);
+
+    for (const { event } of this.latest.values()) {
+      if (event.serverId === client.serverId) {
+        client.send(event);
+      }
+    }
+
+    return () => {
+      this.clients.delete(client);
+    };
+  }
+
+  clientCount(serverId?: string): number {
+    if (serverId === undefined) return this.clients.size;
+    let count = 0;
+    for (const client of this.clients) {
+      if (client.serverId === serverId) count++;
+    }
+    return count;
+  }
+
+  // Publish the current value of one server's data, dropped when it has not changed since the last publish
+  publish(type: Exclude<LiveEventType, 'console'>, data: unknown, serverId: string): void {
+    const key = `${serverId}:${type}`;
+    const json = JSON.stringify(data);
+    if (this.latest.get(key)?.json === json) return;
+
+    const event: LiveEvent = { type, serverId, data, timestamp: new Date().toISOString() };
+    this.latest.set(key, { event, json });
+
+    for (const client of this.clients) {
+      if (client.serverId === serverId) {
+        client.send(event);
+      }
+    }
+  }
+
+  // Backend console lines go to admin clients and are not retained, the log buffer already holds them.
+  // Must not log itself, the logger calls this for every console line.
+  publishConsole(entry: unknown): void {
+    if (this.clients.size === 0) return;
+
+    const event: LiveEvent = { type: 'console', serverId: null, data: entry, timestamp: new Date().toISOString() };
+    for (const client of this.clients) {
+      if (client.receivesConsole) {
+        client.send(event);
+      }
+    }
+  }
+
+  forgetServer(serverId: string): void {
+    for (const key of this.latest.keys()) {
+      if (key.startsWith(`${serverId}:`)) {
+        this.latest.delete(key);
+      }
+    }
+  }
+
+  // End every open stream so the HTTP server can close
+  closeAll(): void {
+    for (const client of [...this.clients]) {
+      client.close();
+    }
+    this.clients.clear();
+  }
+}
+
+// Create singleton instance
+export const liveEvents = new LiveEventHub();
+export default liveEvents;
@@ -1,17 +1,30 @@
 // Backend log capture service
+import fs from 'fs';
+import path from 'path';
+import { liveEvents } from './liveEvents.js';
+import { LOG_LEVEL, LOG_TO_FILE, LogLevel } from '../config/env.js';
+
 interface LogEntry {
   timestamp: string;
   level: 'info' | 'warn' | 'error';
   message: string;
 }
 
+const LEVEL_ORDER: Record<LogLevel, number> = { error: 0, warn: 1, info: 2, debug: 3 };
+const LOG_FILE = path.join(process.cwd(), 'logs', 'smart-ilo4.log');
+
+// Messages below LOG_LEVEL are dropped entirely, not printed, captured or written
+const isLogged = (level: LogLevel) => LEVEL_ORDER[level] <= LEVEL_ORDER[LOG_LEVEL];
+
 class LogCapture {
   private logs: LogEntry[] = [];
   private readonly MAX_LOGS = 200; // Keep last 200 log entries
+  private logFile: fs.WriteStream | null = null;
   private originalConsole: {
     log: typeof console.log;
     warn: typeof console.warn;
     error: typeof console.error;
+    debug: typeof console.debug;
   };
 
   constructor() {
@@ -19,22 +32,42 @@ class LogCapture {
     this.originalConsole = {
       log: console.log.bind(console),
       warn: console.warn.bind(console),
-      error: console.error.bind(console)
+      error: console.error.bind(console),
+      debug: console.debug.bind(console)
     };
 
+    if (LOG_TO_FILE) {
+      this.openLogFile();
+    }
+
     // Override console methods to capture logs
     this.interceptConsoleLogs();
   }
 
+  private openLogFile() {
+    try {
+      fs.mkdirSync(path.dirname(LOG_FILE), { recursive: true });
+      this.logFile = fs.createWriteStream(LOG_FILE, { flags: 'a' });
+      this.logFile.on('error', (error) => {
+        this.originalConsole.error('Writing the log file failed, file logging stopped:', error);
+        this.logFile = null;
+      });
+    } catch (error) {
+      this.originalConsole.error(`Could not open log file ${LOG_FILE}:`, error);
+    }
+  }
+
   private interceptConsoleLogs() {
     // Override console.log
     console.log = (...args: any[]) => {
+      if (!isLogged('info')) return;
       this.addLog('info', this.formatMessage(args));
       this.originalConsole.log(...args);
     };
 
     // Override console.warn
     console.warn = (...args: any[]) => {
+      if (!isLogged('warn')) return;
       this.addLog('warn', this.formatMessage(args));
       this.originalConsole.warn(...args);
     };
@@ -44,6 +77,13 @@ class LogCapture {
       this.addLog('error', this.formatMessage(args));
       this.originalConsole.error(...args);
     };
+
+    // Debug output only reaches the terminal and log file, it would flood the live console
+    console.debug = (...args: any[]) => {
+      if (!isLogged('debug')) return;
+      this.logFile?.write(`${new Date().toISOString()} DEBUG ${this.formatMessage(args)}\n`);
+      this.originalConsole.debug(...args);
+    };
   }
 
   private formatMessage(args: any[]): string {
@@ -67,6 +107,8 @@ class LogCapture {
     };
 
     this.logs.push(logEntry);
+    liveEvents.publishConsole(logEntry);
+    this.logFile?.write(`${logEntry.timestamp} ${level.toUpperCase()} ${message}\n`);
 
     // Keep only the most recent logs
     if (this.logs.length > this.MAX_LOGS) {
@@ -90,6 +132,7 @@ class LogCapture {
     console.log = this.originalConsole.log;
     console.warn = this.originalConsole.warn;
     console.error = this.originalConsole.error;
+    console.debug = this.originalConsole.debug;
   }
 }
 
@@ -0,0 +1,182 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { historicalStorage } from './historicalStorage.js';
+
+interface AttemptRecord {
+  failures: number;
+  lastFailure: number;
+  blockedUntil: number; // Backoff deadline, no attempts accepted before this
+  lockedUntil?: number; // Account lockout, usernames only
+}
+
+export interface ThrottleDecision {
+  allowed: boolean;
+  retryAfterSeconds: number;
+  locked: boolean;
+}
+
+export interface AccountLockout {
+  username: string;
+  failures: number;
+  lockedUntil: number;
+}
+
+export type AuthAuditEvent =
+  | 'login-failed'
+  | 'login-throttled'
+  | 'account-locked'
+  | 'account-unlocked';
+
+const STATE_FILE = path.join(process.cwd(), 'data', 'login-throttle.json');
+
+// Failures allowed before backoff kicks in
+const FREE_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+// Consecutive failures on one username that lock the account
+const LOCKOUT_THRESHOLD = 10;
+const LOCKOUT_DURATION_MS = 30 * 60 * 1000;
+
+// Failure counts are forgotten after this long without a new failure
+const FAILURE_WINDOW_MS = 60 * 60 * 1000;
+
+function userKey(username: string): string {
+  return `user:${username.toLowerCase()}`;
+}
+
+function ipKey(ipAddress: string): string {
+  return `ip:${ipAddress}`;
+}
+
+// Exponential backoff: 1s, 2s, 4s ... once the free attempts are used up
+function backoffFor(failures: number): number {
+  if (failures < FREE_ATTEMPTS) return 0;
+  return Math.min(BASE_BACKOFF_MS * Math.pow(2, failures - FREE_ATTEMPTS), MAX_BACKOFF_MS);
+}
+
+class LoginThrottle {
+  private records: Record<string, AttemptRecord> = {};
+  private loaded: Promise<void>;
+
+  constructor() {
+    this.loaded = this.load();
+  }
+
+  // Whether a login for this username from this address may be attempted now
+  async check(username: string, ipAddress: string): Promise<ThrottleDecision> {
+    await this.loaded;
+    const now = Date.now();
+    const account = this.current(userKey(username), now);
+    const client = this.current(ipKey(ipAddress), now);
+
+    if (account?.lockedUntil && account.lockedUntil > now) {
+      return { allowed: false, retryAfterSeconds: Math.ceil((account.lockedUntil - now) / 1000), locked: true };
+    }
+
+    const blockedUntil = Math.max(account?.blockedUntil ?? 0, client?.blockedUntil ?? 0);
+    if (blockedUntil > now) {
+      this.audit('login-throttled', username, ipAddress);
+      return { allowed: false, retryAfterSeconds: Math.ceil((blockedUntil - now) / 1000), locked: false };
+    }
+
+    return { allowed: true, retryAfterSeconds: 0, locked: false };
+  }
+
+  async recordFailure(username: string, ipAddress: string, reason: string): Promise<void> {
+    await this.loaded;
+    const now = Date.now();
+
+    const account = this.bump(userKey(username), now);
+    this.bump(ipKey(ipAddress), now);
+    this.audit('login-failed', username, ipAddress, reason);
+
+    if (account.failures >= LOCKOUT_THRESHOLD && !(account.lockedUntil && account.lockedUntil > now)) {
+      account.lockedUntil = now + LOCKOUT_DURATION_MS;
+      this.audit('account-locked', username, ipAddress, `${account.failures} consecutive failed attempts`);
+    }
+
+    await this.save();
+  }
+
+  // Only the account is cleared, the client record ages out on its own so that logging into a
+  // known account between guesses does not reset the backoff on other usernames
+  async recordSuccess(username: string): Promise<void> {
+    await this.loaded;
+    delete this.records[userKey(username)];
+    await this.save();
+  }
+
+  // Clear lockout and backoff for an account, returns false if it was not throttled
+  async unlock(username: string, unlockedBy: string): Promise<boolean> {
+    await this.loaded;
+    const key = userKey(username);
+    if (!this.records[key]) return false;
+
+    delete this.records[key];
+    await this.save();
+    this.audit('account-unlocked', username, undefined, `Unlocked by ${unlockedBy}`);
+    return true;
+  }
+
+  async getLockout(username: string): Promise<AccountLockout | null> {
+    await this.loaded;
+    const now = Date.now();
+    const record = this.current(userKey(username), now);
+    if (!record?.lockedUntil || record.lockedUntil <= now) return null;
+    return { username, failures: record.failures, lockedUntil: record.lockedUntil };
+  }
+
+  // Returns the record unless its failures have aged out
+  private current(key: string, now: number): AttemptRecord | undefined {
+    const record = this.records[key];
+    if (!record) return undefined;
+
+    const lockActive = record.lockedUntil !== undefined && record.lockedUntil > now;
+    if (!lockActive && now - record.lastFailure > FAILURE_WINDOW_MS) {
+      delete this.records[key];
+      return undefined;
+    }
+    return record;
+  }
+
+  private bump(key: string, now: number): AttemptRecord {
+    const record = this.current(key, now) ?? { failures: 0, lastFailure: now, blockedUntil: 0 };
+    record.failures++;
+    record.lastFailure = now;
+    record.blockedUntil = now + backoffFor(record.failures);
+    this.records[key] = record;
+    return record;
+  }
+
+  private audit(event: AuthAuditEvent, username: string, ipAddress?: string, reason?: string) {
+    const entry = { event, username, ipAddress, reason, timestamp: new Date().toISOString() };
+    console.warn(`🔐 Auth ${event}: ${username}${ipAddress ? ` from ${ipAddress}` : ''}${reason ? ` (${reason})` : ''}`);
+
+    historicalStorage.storeHistoricalData('auth', entry).catch(error => {
+      console.error('Failed to store auth audit record:', error);
+    });
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const data = await fs.readFile(STATE_FILE, 'utf8');
+      this.records = JSON.parse(data);
+    } catch {
+      this.records = {};
+    }
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(STATE_FILE), { recursive: true });
+      await fs.writeFile(STATE_FILE, JSON.stringify(this.records, null, 2));
+    } catch (error) {
+      console.error('Error saving login throttle state:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const loginThrottle = new LoginThrottle();
+export default loginThrottle;
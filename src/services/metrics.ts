@@ -0,0 +1,149 @@
+// Prometheus text exposition of the readings every fetcher already collects
+import { getDataFetcher } from './centralizedDataFetcher.js';
+import { getSensors, getFans } from './ilo.js';
+import { listServers } from './servers.js';
+import { getSSHConnectionStats } from './sshClient.js';
+
+type Labels = Record<string, string | number>;
+
+interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'gauge' | 'counter';
+  samples: Sample[];
+}
+
+function escapeLabelValue(value: string | number): string {
+  return String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatSample(name: string, { labels, value }: Sample): string {
+  const labelText = Object.entries(labels)
+    .map(([key, labelValue]) => `${key}="${escapeLabelValue(labelValue)}"`)
+    .join(',');
+  return `${name}${labelText ? `{${labelText}}` : ''} ${Number.isFinite(value) ? value : 'NaN'}`;
+}
+
+// Families are declared up front so HELP and TYPE are emitted once, even with many servers
+class MetricsBuilder {
+  private families = new Map<string, MetricFamily>();
+
+  declare(name: string, type: MetricFamily['type'], help: string): void {
+    this.families.set(name, { name, help, type, samples: [] });
+  }
+
+  add(name: string, labels: Labels, value: number | null | undefined): void {
+    if (value === null || value === undefined) return;
+    this.families.get(name)!.samples.push({ labels, value });
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    for (const family of this.families.values()) {
+      if (family.samples.length === 0) continue;
+      lines.push(`# HELP ${family.name} ${family.help}`);
+      lines.push(`# TYPE ${family.name} ${family.type}`);
+      family.samples.forEach(sample => lines.push(formatSample(family.name, sample)));
+    }
+    return lines.join('\n') + '\n';
+  }
+}
+
+function declareMetrics(metrics: MetricsBuilder) {
+  metrics.declare('ilo_up', 'gauge', 'Whether the last thermal read from the iLO returned data');
+  metrics.declare('ilo_temperature_celsius', 'gauge', 'Temperature sensor reading');
+  metrics.declare('ilo_temperature_critical_celsius', 'gauge', 'Critical threshold of the temperature sensor');
+  metrics.declare('ilo_temperature_fatal_celsius', 'gauge', 'Fatal threshold of the temperature sensor');
+  metrics.declare('ilo_temperature_healthy', 'gauge', 'Whether iLO reports the temperature sensor as OK');
+  metrics.declare('ilo_fan_speed_percent', 'gauge', 'Fan speed');
+  metrics.declare('ilo_fan_healthy', 'gauge', 'Whether iLO reports the fan as OK');
+  metrics.declare('ilo_power_present_watts', 'gauge', 'Present power draw');
+  metrics.declare('ilo_power_average_watts', 'gauge', 'Average power draw');
+  metrics.declare('ilo_power_max_watts', 'gauge', 'Maximum power draw');
+  metrics.declare('ilo_power_min_watts', 'gauge', 'Minimum power draw');
+  metrics.declare('ilo_power_cap_watts', 'gauge', 'Configured power cap, 0 when uncapped');
+  metrics.declare('ilo_pid_active', 'gauge', 'Whether the fan PID loop is active');
+  metrics.declare('ilo_pid_setpoint', 'gauge', 'Fan PID loop setpoint');
+  metrics.declare('ilo_pid_reading', 'gauge', 'Fan PID loop current reading');
+  metrics.declare('ilo_pid_output', 'gauge', 'Fan PID loop output');
+  metrics.declare('smartilo_fetcher_running', 'gauge', 'Whether the data fetcher for the server is running');
+  metrics.declare('smartilo_fetch_cycles_total', 'counter', 'Completed data fetch cycles');
+  metrics.declare('smartilo_fetch_failed_cycles_total', 'counter', 'Data fetch cycles aborted by an error');
+  metrics.declare('smartilo_fetch_cycle_duration_seconds', 'gauge', 'Duration of the last completed data fetch cycle');
+  metrics.declare('smartilo_fetch_cycle_duration_seconds_total', 'counter', 'Total time spent in completed data fetch cycles');
+  metrics.declare('smartilo_fetch_last_completed_timestamp_seconds', 'gauge', 'Unix time the last data fetch cycle completed');
+  metrics.declare('smartilo_fetch_errors_total', 'counter', 'Failed fetches per data source');
+  metrics.declare('smartilo_ssh_connections', 'gauge', 'SSH connections in the pool');
+  metrics.declare('smartilo_ssh_connections_connected', 'gauge', 'SSH connections in the pool that are connected');
+}
+
+async function collectServer(metrics: MetricsBuilder, serverId: string) {
+  const server = { server: serverId };
+  const fetcher = getDataFetcher(serverId);
+  const [sensors, fans] = await Promise.all([getSensors(serverId), getFans(serverId)]);
+
+  metrics.add('ilo_up', server, sensors.length > 0 || fans.length > 0 ? 1 : 0);
+
+  for (const sensor of sensors) {
+    const labels = { ...server, sensor: sensor.name, context: sensor.context ?? '' };
+    metrics.add('ilo_temperature_celsius', labels, sensor.reading);
+    metrics.add('ilo_temperature_critical_celsius', labels, sensor.critical);
+    metrics.add('ilo_temperature_fatal_celsius', labels, sensor.fatal);
+    metrics.add('ilo_temperature_healthy', labels, sensor.status === 'OK' ? 1 : 0);
+  }
+
+  for (const fan of fans) {
+    const labels = { ...server, fan: fan.name };
+    metrics.add('ilo_fan_speed_percent', labels, fan.speed);
+    metrics.add('ilo_fan_healthy', labels, (fan.health ?? fan.status) === 'OK' ? 1 : 0);
+  }
+
+  const power = fetcher.getPowerInfo().data;
+  if (power) {
+    metrics.add('ilo_power_present_watts', server, power.presentPower);
+    metrics.add('ilo_power_average_watts', server, power.averagePower);
+    metrics.add('ilo_power_max_watts', server, power.maxPower);
+    metrics.add('ilo_power_min_watts', server, power.minPower);
+    metrics.add('ilo_power_cap_watts', server, power.powerCap);
+  }
+
+  for (const pid of fetcher.getPidData().data) {
+    const labels = { ...server, pid: pid.number };
+    metrics.add('ilo_pid_active', labels, pid.isActive ? 1 : 0);
+    metrics.add('ilo_pid_setpoint', labels, pid.setPoint);
+    metrics.add('ilo_pid_reading', labels, pid.currentReading);
+    metrics.add('ilo_pid_output', labels, pid.output);
+  }
+
+  const stats = fetcher.getStats();
+  metrics.add('smartilo_fetcher_running', server, fetcher.isRunning() ? 1 : 0);
+  metrics.add('smartilo_fetch_cycles_total', server, stats.cycles);
+  metrics.add('smartilo_fetch_failed_cycles_total', server, stats.failedCycles);
+  metrics.add('smartilo_fetch_cycle_duration_seconds', server,
+    stats.lastCycleDurationMs === null ? null : stats.lastCycleDurationMs / 1000);
+  metrics.add('smartilo_fetch_cycle_duration_seconds_total', server, stats.totalCycleDurationMs / 1000);
+  metrics.add('smartilo_fetch_last_completed_timestamp_seconds', server,
+    stats.lastCompletedAt ? Math.floor(stats.lastCompletedAt.getTime() / 1000) : null);
+  for (const [source, count] of Object.entries(stats.errors)) {
+    metrics.add('smartilo_fetch_errors_total', { ...server, source }, count);
+  }
+}
+
+export async function renderMetrics(): Promise<string> {
+  const metrics = new MetricsBuilder();
+  declareMetrics(metrics);
+
+  const servers = await listServers();
+  await Promise.all(servers.map(server => collectServer(metrics, server.id)));
+
+  const ssh = getSSHConnectionStats();
+  metrics.add('smartilo_ssh_connections', {}, ssh.total);
+  metrics.add('smartilo_ssh_connections_connected', {}, ssh.connected);
+
+  return metrics.render();
+}
@@ -0,0 +1,404 @@
+// Publishes readings to an MQTT broker with Home Assistant discovery, and optionally takes fan commands from it
+import { connect, MqttClient } from 'mqtt';
+import { getAppConfig, MqttConfig } from './appConfig.js';
+import { setFanSpeed, lockFanAtSpeed, unlockFanControl, invalidateThermalCache } from './ilo.js';
+import type { Sensor, Fan } from './ilo.js';
+import { startAutomation, stopAutomation, getAutomationStatus } from './automation.js';
+import { getThermalWatchdog } from './thermalWatchdog.js';
+import { DEFAULT_SERVER_ID, getServer } from './servers.js';
+import type { PowerInformation } from './power.js';
+import type { SystemInformation } from './systemInfo.js';
+
+// What one fetch cycle collected for a server
+export interface MqttSnapshot {
+  sensors: Sensor[];
+  fans: Fan[];
+  powerInfo: PowerInformation | null;
+  systemInfo: SystemInformation | null;
+}
+
+export interface MqttStatus {
+  enabled: boolean;
+  connected: boolean;
+  brokerUrl: string;
+  allowCommands: boolean;
+  lastError?: string;
+}
+
+const CONNECT_TIMEOUT_MS = 10000;
+const RECONNECT_PERIOD_MS = 15000;
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+// Worst status reported by any sensor or fan
+function overallHealth(snapshot: MqttSnapshot): 'OK' | 'Degraded' | 'Critical' {
+  const statuses = [
+    ...snapshot.sensors.map(sensor => sensor.status),
+    ...snapshot.fans.map(fan => fan.health ?? fan.status)
+  ];
+  if (statuses.includes('Critical')) return 'Critical';
+  return statuses.every(status => status === 'OK') ? 'OK' : 'Degraded';
+}
+
+function clientOptions(config: MqttConfig) {
+  return {
+    username: config.username || undefined,
+    // MQTT 3.1.1 does not allow a password without a username
+    password: config.username && config.password ? config.password : undefined,
+    clientId: `smart-ilo4-${Math.random().toString(16).slice(2, 10)}`,
+    connectTimeout: CONNECT_TIMEOUT_MS
+  };
+}
+
+// Connect once with the given settings and disconnect again, used by the settings dialog
+export async function testMqttConnection(config: MqttConfig): Promise<void> {
+  const client = connect(config.brokerUrl, { ...clientOptions(config), reconnectPeriod: 0 });
+  try {
+    await new Promise<void>((resolve, reject) => {
+      client.once('connect', () => resolve());
+      client.once('error', reject);
+      client.once('close', () => reject(new Error('Connection closed by the broker')));
+    });
+  } finally {
+    client.end(true);
+  }
+}
+
+class MqttBridge {
+  private client: MqttClient | null = null;
+  private config: MqttConfig | null = null;
+  private connected = false;
+  private lastError?: string;
+  // Latest readings per server, republished when the broker or Home Assistant reconnects
+  private latest = new Map<string, MqttSnapshot>();
+  // Discovery config topics announced per server, so removed sensors can be withdrawn
+  private announced = new Map<string, Set<string>>();
+
+  async start() {
+    const { mqtt } = await getAppConfig();
+    this.config = mqtt;
+    if (!mqtt.enabled) {
+      console.log('MQTT publishing is disabled');
+      return;
+    }
+
+    const client = connect(mqtt.brokerUrl, {
+      ...clientOptions(mqtt),
+      reconnectPeriod: RECONNECT_PERIOD_MS,
+      will: { topic: this.topic('status'), payload: Buffer.from('offline'), retain: true, qos: 1 }
+    });
+    this.client = client;
+
+    client.on('connect', () => {
+      this.connected = true;
+      this.lastError = undefined;
+      console.log(`📡 Connected to MQTT broker ${mqtt.brokerUrl}`);
+
+      client.publish(this.topic('status'), 'online', { retain: true, qos: 1 });
+      const subscriptions = [`${mqtt.discoveryPrefix}/status`];
+      if (mqtt.allowCommands) {
+        subscriptions.push(this.topic('+/fans/set'), this.topic('+/fans/lock'), this.topic('+/fans/unlock'), this.topic('automation/set'));
+      }
+      client.subscribe(subscriptions, { qos: 1 });
+
+      this.announced.clear();
+      this.republishAll();
+    });
+
+    client.on('close', () => {
+      this.connected = false;
+    });
+
+    client.on('error', (error) => {
+      this.lastError = error.message;
+      console.error('MQTT connection error:', error.message);
+    });
+
+    client.on('message', (topic, payload) => {
+      this.handleMessage(topic, payload.toString().trim()).catch(error => {
+        console.error(`Failed to handle MQTT command on ${topic}:`, error);
+      });
+    });
+  }
+
+  async stop() {
+    const client = this.client;
+    this.client = null;
+    this.connected = false;
+    if (!client) return;
+
+    if (client.connected) {
+      await client.publishAsync(this.topic('status'), 'offline', { retain: true, qos: 1 }).catch(() => {});
+    }
+    await client.endAsync().catch(() => {});
+  }
+
+  // Reconnect with the saved settings after they changed
+  async restart() {
+    await this.stop();
+    await this.start();
+  }
+
+  getStatus(): MqttStatus {
+    return {
+      enabled: this.config?.enabled ?? false,
+      connected: this.connected,
+      brokerUrl: this.config?.brokerUrl ?? '',
+      allowCommands: this.config?.allowCommands ?? false,
+      lastError: this.lastError
+    };
+  }
+
+  // Called by the data fetcher at the end of every cycle
+  async publishReadings(serverId: string, snapshot: MqttSnapshot) {
+    this.latest.set(serverId, snapshot);
+    if (!this.client || !this.connected) return;
+
+    await this.announce(serverId, snapshot);
+
+    const base = `${serverId}/`;
+    for (const sensor of snapshot.sensors) {
+      this.publish(`${base}temperature/${slugify(sensor.name)}`, String(sensor.reading));
+    }
+    for (const fan of snapshot.fans) {
+      this.publish(`${base}fan/${slugify(fan.name)}`, String(fan.speed));
+    }
+    if (snapshot.powerInfo) {
+      this.publish(`${base}power`, String(snapshot.powerInfo.presentPower));
+    }
+    this.publish(`${base}health`, overallHealth(snapshot));
+
+    if (serverId === DEFAULT_SERVER_ID) {
+      this.publish('automation', getAutomationStatus().running ? 'ON' : 'OFF');
+    }
+  }
+
+  // Withdraw the discovery entries of a server that was removed from the registry
+  forgetServer(serverId: string) {
+    this.latest.delete(serverId);
+    for (const topic of this.announced.get(serverId) ?? []) {
+      this.client?.publish(topic, '', { retain: true });
+    }
+    this.announced.delete(serverId);
+  }
+
+  private topic(suffix: string): string {
+    return `${this.config!.baseTopic}/${suffix}`;
+  }
+
+  private publish(suffix: string, payload: string) {
+    this.client?.publish(this.topic(suffix), payload, { retain: true });
+  }
+
+  private republishAll() {
+    for (const [serverId, snapshot] of this.latest) {
+      this.publishReadings(serverId, snapshot).catch(error => {
+        console.error('Failed to republish readings over MQTT:', error);
+      });
+    }
+  }
+
+  // Publish Home Assistant discovery configs for every entity of a server
+  private async announce(serverId: string, snapshot: MqttSnapshot) {
+    const config = this.config!;
+    const server = await getServer(serverId).catch(() => null);
+    const nodeId = `smartilo4_${slugify(serverId)}`;
+    const device = {
+      identifiers: [nodeId],
+      name: server?.name ?? `iLO ${serverId}`,
+      manufacturer: 'HPE',
+      model: snapshot.systemInfo?.model,
+      sw_version: snapshot.systemInfo?.iloFirmware
+    };
+    const common = {
+      availability_topic: this.topic('status'),
+      device
+    };
+
+    const entities: { component: string; objectId: string; config: Record<string, unknown> }[] = [];
+    for (const sensor of snapshot.sensors) {
+      const slug = slugify(sensor.name);
+      entities.push({ component: 'sensor', objectId: `temperature_${slug}`, config: {
+        name: sensor.name,
+        state_topic: this.topic(`${serverId}/temperature/${slug}`),
+        device_class: 'temperature',
+        state_class: 'measurement',
+        unit_of_measurement: '°C'
+      } });
+    }
+    for (const fan of snapshot.fans) {
+      const slug = slugify(fan.name);
+      entities.push({ component: 'sensor', objectId: `fan_${slug}`, config: {
+        name: fan.name,
+        state_topic: this.topic(`${serverId}/fan/${slug}`),
+        state_class: 'measurement',
+        unit_of_measurement: '%',
+        icon: 'mdi:fan'
+      } });
+    }
+    if (snapshot.powerInfo) {
+      entities.push({ component: 'sensor', objectId: 'power', config: {
+        name: 'Power',
+        state_topic: this.topic(`${serverId}/power`),
+        device_class: 'power',
+        state_class: 'measurement',
+        unit_of_measurement: 'W'
+      } });
+    }
+    entities.push({ component: 'sensor', objectId: 'health', config: {
+      name: 'Health',
+      state_topic: this.topic(`${serverId}/health`),
+      icon: 'mdi:heart-pulse'
+    } });
+
+    if (config.allowCommands) {
+      entities.push({ component: 'number', objectId: 'fan_speed', config: {
+        name: 'Fan speed',
+        command_topic: this.topic(`${serverId}/fans/set`),
+        min: 10,
+        max: 100,
+        step: 1,
+        mode: 'slider',
+        unit_of_measurement: '%',
+        icon: 'mdi:fan'
+      } });
+      entities.push({ component: 'button', objectId: 'unlock_fans', config: {
+        name: 'Return fans to iLO control',
+        command_topic: this.topic(`${serverId}/fans/unlock`),
+        icon: 'mdi:fan-auto'
+      } });
+      if (serverId === DEFAULT_SERVER_ID) {
+        entities.push({ component: 'switch', objectId: 'automation', config: {
+          name: 'Fan curve automation',
+          state_topic: this.topic('automation'),
+          command_topic: this.topic('automation/set'),
+          icon: 'mdi:chart-bell-curve'
+        } });
+      }
+    }
+
+    const discoveryTopic = (component: string, objectId: string) =>
+      `${config.discoveryPrefix}/${component}/${nodeId}/${objectId}/config`;
+    const topics = new Set<string>();
+    const previous = this.announced.get(serverId);
+    for (const entity of entities) {
+      const topic = discoveryTopic(entity.component, entity.objectId);
+      topics.add(topic);
+      // Discovery configs are retained, so only new entities need announcing
+      if (!previous?.has(topic)) {
+        this.client!.publish(topic, JSON.stringify({
+          ...entity.config,
+          unique_id: `${nodeId}_${entity.objectId}`,
+          object_id: `${nodeId}_${entity.objectId}`,
+          ...common
+        }), { retain: true });
+      }
+    }
+
+    if (!previous && !config.allowCommands) {
+      // Commands may have been allowed before, clear their retained entities from the broker
+      for (const [component, objectId] of [['number', 'fan_speed'], ['button', 'unlock_fans'], ['switch', 'automation']]) {
+        this.client!.publish(discoveryTopic(component, objectId), '', { retain: true });
+      }
+    }
+
+    // Withdraw sensors and fans that disappeared, but not those missing only because a read failed
+    for (const topic of previous ?? []) {
+      if (topics.has(topic)) continue;
+      const sensorTopic = `${config.discoveryPrefix}/sensor/${nodeId}/`;
+      const failedRead = (topic.startsWith(`${sensorTopic}temperature_`) && snapshot.sensors.length === 0)
+        || (topic.startsWith(`${sensorTopic}fan_`) && snapshot.fans.length === 0)
+        || (topic === discoveryTopic('sensor', 'power') && !snapshot.powerInfo);
+      if (failedRead) {
+        topics.add(topic);
+      } else {
+        this.client!.publish(topic, '', { retain: true });
+      }
+    }
+    this.announced.set(serverId, topics);
+  }
+
+  private async handleMessage(topic: string, payload: string) {
+    const config = this.config!;
+
+    // Home Assistant lost its retained discovery state after a restart
+    if (topic === `${config.discoveryPrefix}/status`) {
+      if (payload === 'online') {
+        this.announced.clear();
+        this.republishAll();
+      }
+      return;
+    }
+
+    if (!config.allowCommands || !topic.startsWith(`${config.baseTopic}/`)) return;
+    const command = topic.slice(config.baseTopic.length + 1);
+
+    if (command === 'automation/set') {
+      if (payload === 'ON' || payload === 'start') {
+        console.log('📡 MQTT command: start fan curve automation');
+        await startAutomation();
+      } else if (payload === 'OFF' || payload === 'stop') {
+        console.log('📡 MQTT command: stop fan curve automation');
+        await stopAutomation();
+      } else {
+        console.warn(`Ignoring MQTT automation command with payload "${payload}"`);
+        return;
+      }
+      this.publish('automation', getAutomationStatus().running ? 'ON' : 'OFF');
+      return;
+    }
+
+    const match = command.match(/^([^/]+)\/fans\/(set|lock|unlock)$/);
+    if (!match) return;
+    const [, serverId, action] = match;
+
+    if (!(await getServer(serverId))) {
+      console.warn(`Ignoring MQTT fan command for unknown server ${serverId}`);
+      return;
+    }
+    // The watchdog owns the fans while tripped, same as for the fan curve automation
+    if (getThermalWatchdog(serverId).isTripped()) {
+      console.warn(`Ignoring MQTT fan command on ${topic}, the thermal watchdog is tripped`);
+      return;
+    }
+
+    if (action === 'unlock') {
+      console.log(`📡 MQTT command: unlock fan control on ${serverId}`);
+      await unlockFanControl(serverId);
+      invalidateThermalCache(serverId);
+      return;
+    }
+
+    if (action === 'set') {
+      const speed = Number(payload);
+      if (!Number.isFinite(speed) || speed < 10 || speed > 100) {
+        console.warn(`Ignoring MQTT fan speed "${payload}", expected 10-100`);
+        return;
+      }
+      console.log(`📡 MQTT command: set all fans on ${serverId} to ${speed}%`);
+      await setFanSpeed(speed, serverId);
+      return;
+    }
+
+    // lock expects {"fan": <index>, "speed": <percent>}
+    let fan: number, speed: number;
+    try {
+      ({ fan, speed } = JSON.parse(payload));
+    } catch {
+      console.warn(`Ignoring MQTT fan lock "${payload}", expected {"fan": 0, "speed": 50}`);
+      return;
+    }
+    if (!Number.isInteger(fan) || fan < 0 || typeof speed !== 'number' || speed < 10 || speed > 100) {
+      console.warn(`Ignoring MQTT fan lock "${payload}", expected a fan index and a speed of 10-100`);
+      return;
+    }
+    console.log(`📡 MQTT command: lock fan ${fan} on ${serverId} at ${speed}%`);
+    await lockFanAtSpeed(fan, speed, serverId);
+  }
+}
+
+// Create singleton instance
+export const mqttBridge = new MqttBridge();
+export default mqttBridge;
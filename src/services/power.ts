@@ -1,4 +1,6 @@
 import { centralizedDataFetcher } from "./centralizedDataFetcher.js";
+import { PowerState } from "./powerControl.js";
+import { runIloCommand, getClpError } from "./sshClient.js";
 
 export interface PowerInformation {
   powerRegulation: string;
@@ -15,6 +17,7 @@ export interface PowerInformation {
   warningDuration: number;
   powerMicroVersion: string;
   autoPowerRestore: string;
+  powerState: PowerState;
 }
 
 // Convenience functions for getting power info from centralized fetcher
@@ -51,3 +54,96 @@ export async function refreshPowerInformation(): Promise<PowerInformation> {
   await centralizedDataFetcher.refresh();
   return getPowerInformation();
 }
+
+// Power Regulator for ProLiant modes, with the oemhp_powerreg values the CLP uses for them
+export type PowerRegulatorMode = 'dynamic' | 'static-low' | 'static-high' | 'os';
+export type PowerWarningType = 'disabled' | 'peak' | 'average';
+
+const REGULATOR_VALUES: Record<PowerRegulatorMode, string> = {
+  dynamic: 'dynamic',
+  'static-low': 'min',
+  'static-high': 'max',
+  os: 'os'
+};
+
+const WARNING_TYPES: PowerWarningType[] = ['disabled', 'peak', 'average'];
+
+export interface PowerWarningSettings {
+  type: PowerWarningType;
+  threshold: number; // Watts
+  duration: number; // Minutes above the threshold before iLO warns
+}
+
+// Every field is optional, only the ones present are sent to iLO
+export interface PowerSettingsUpdate {
+  regulatorMode?: PowerRegulatorMode;
+  powerCap?: number; // Watts, 0 removes the cap
+  warning?: PowerWarningSettings;
+}
+
+// Checked against the limits iLO reported so an out of range value never reaches the CLP
+export function validatePowerSettings(update: any, limits: PowerInformation): string | null {
+  if (!update || typeof update !== 'object') return 'Power settings are required';
+  if (update.regulatorMode === undefined && update.powerCap === undefined && update.warning === undefined) {
+    return 'Nothing to change, send regulatorMode, powerCap or warning';
+  }
+
+  if (update.regulatorMode !== undefined && !Object.keys(REGULATOR_VALUES).includes(update.regulatorMode)) {
+    return 'regulatorMode must be one of dynamic, static-low, static-high or os';
+  }
+
+  const { serverMinPower, serverMaxPower } = limits;
+  const inRange = (watts: number) => watts >= serverMinPower && watts <= serverMaxPower;
+  const hasLimits = serverMaxPower > 0 && serverMinPower <= serverMaxPower;
+
+  if (update.powerCap !== undefined) {
+    if (!Number.isInteger(update.powerCap) || update.powerCap < 0) return 'powerCap must be a whole number of watts';
+    if (update.powerCap > 0) {
+      if (!hasLimits) return 'iLO has not reported the server power range yet, cannot set a power cap';
+      if (!inRange(update.powerCap)) return `The power cap must be between ${serverMinPower}W and ${serverMaxPower}W`;
+    }
+  }
+
+  if (update.warning !== undefined) {
+    const { type, threshold, duration } = update.warning ?? {};
+    if (!WARNING_TYPES.includes(type)) return 'warning.type must be one of disabled, peak or average';
+    if (type !== 'disabled') {
+      if (!Number.isInteger(threshold)) return 'warning.threshold must be a whole number of watts';
+      if (!hasLimits) return 'iLO has not reported the server power range yet, cannot set a power warning';
+      if (!inRange(threshold)) return `The warning threshold must be between ${serverMinPower}W and ${serverMaxPower}W`;
+      // iLO only accepts durations in 5 minute steps
+      if (!Number.isInteger(duration) || duration < 5 || duration > 240 || duration % 5 !== 0) {
+        return 'warning.duration must be a multiple of 5 minutes between 5 and 240';
+      }
+    }
+  }
+
+  return null;
+}
+
+async function setPowerProperties(properties: string, serverId: string): Promise<void> {
+  const command = `set /system1/oemhp_power1 ${properties}`;
+  const clpError = getClpError(await runIloCommand(command, serverId));
+  if (clpError) {
+    throw new Error(`iLO refused ${properties}: ${clpError}`);
+  }
+}
+
+// Apply a validated update, one CLP command per setting so a refused one names itself
+export async function applyPowerSettings(update: PowerSettingsUpdate, serverId: string): Promise<void> {
+  if (update.regulatorMode !== undefined) {
+    await setPowerProperties(`oemhp_powerreg=${REGULATOR_VALUES[update.regulatorMode]}`, serverId);
+  }
+  if (update.powerCap !== undefined) {
+    await setPowerProperties(`oemhp_pwrcap=${update.powerCap}`, serverId);
+  }
+  if (update.warning !== undefined) {
+    const { type, threshold, duration } = update.warning;
+    await setPowerProperties(
+      type === 'disabled'
+        ? 'warning_type=disabled'
+        : `warning_type=${type} warning_threshold=${threshold} warning_duration=${duration}`,
+      serverId
+    );
+  }
+}
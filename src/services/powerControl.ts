@@ -0,0 +1,152 @@
+import crypto from 'crypto';
+import { runIloCommand, runIloCommandOnce, getClpError, CommandOutcomeUnknownError } from './sshClient.js';
+import { historicalStorage } from './historicalStorage.js';
+
+export type PowerAction = 'on' | 'shutdown' | 'force-off' | 'reset';
+export type PowerState = 'On' | 'Off' | 'Unknown';
+
+export const POWER_ACTIONS: PowerAction[] = ['on', 'shutdown', 'force-off', 'reset'];
+
+// SMASH CLP verbs on /system1: a plain "power off" presses the power button so the OS
+// shuts down gracefully, "hard" holds it down, "reset" is a cold reset without shutdown
+const POWER_COMMANDS: Record<PowerAction, string> = {
+  on: 'power on',
+  shutdown: 'power off',
+  'force-off': 'power off hard',
+  reset: 'power reset'
+};
+
+export const POWER_ACTION_LABELS: Record<PowerAction, string> = {
+  on: 'Power on',
+  shutdown: 'Graceful shutdown',
+  'force-off': 'Force power off',
+  reset: 'Cold reset'
+};
+
+export interface PowerActionActor {
+  userId: string;
+  username: string;
+  ipAddress?: string;
+}
+
+export interface PowerActionRecord {
+  action: PowerAction;
+  username: string;
+  ipAddress?: string;
+  previousState: PowerState;
+  // null when the iLO never answered, the action may or may not have been carried out
+  success: boolean | null;
+  error?: string;
+  timestamp: string;
+}
+
+interface PendingConfirmation {
+  userId: string;
+  serverId: string;
+  action: PowerAction;
+  expiresAt: number;
+}
+
+// Issued confirmation tokens keyed by token hash, each one allows a single action
+let pendingConfirmations: Record<string, PendingConfirmation> = {};
+
+const CONFIRMATION_TTL = 60 * 1000;
+const AUDIT_RETENTION_MINUTES = 90 * 24 * 60;
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function cleanupExpiredConfirmations() {
+  const now = Date.now();
+  Object.keys(pendingConfirmations).forEach(tokenHash => {
+    if (pendingConfirmations[tokenHash].expiresAt < now) {
+      delete pendingConfirmations[tokenHash];
+    }
+  });
+}
+
+setInterval(cleanupExpiredConfirmations, 5 * 60 * 1000);
+
+export function isPowerAction(value: unknown): value is PowerAction {
+  return typeof value === 'string' && (POWER_ACTIONS as string[]).includes(value);
+}
+
+// Output of the "power" verb: "power: server power is currently: On"
+export function parsePowerState(output: string): PowerState {
+  const match = output.match(/currently:\s*(On|Off)\b/i);
+  if (!match) return 'Unknown';
+  return match[1].toLowerCase() === 'on' ? 'On' : 'Off';
+}
+
+export async function getPowerState(serverId: string): Promise<PowerState> {
+  return parsePowerState(await runIloCommand('power', serverId));
+}
+
+// First step of a power action: a short-lived token the same user has to send back
+export function requestPowerActionConfirmation(userId: string, serverId: string, action: PowerAction): { confirmationToken: string; expiresAt: number } {
+  const confirmationToken = crypto.randomBytes(32).toString('hex');
+  const expiresAt = Date.now() + CONFIRMATION_TTL;
+  pendingConfirmations[hashToken(confirmationToken)] = { userId, serverId, action, expiresAt };
+  return { confirmationToken, expiresAt };
+}
+
+// Tokens are single use, a mismatched attempt also burns the token
+export function consumePowerActionConfirmation(token: string, userId: string, serverId: string, action: PowerAction): boolean {
+  const tokenHash = hashToken(token);
+  const pending = pendingConfirmations[tokenHash];
+  delete pendingConfirmations[tokenHash];
+
+  return !!pending
+    && pending.expiresAt >= Date.now()
+    && pending.userId === userId
+    && pending.serverId === serverId
+    && pending.action === action;
+}
+
+// Runs a confirmed action once and audits the outcome, failures are reported in the record
+export async function executePowerAction(serverId: string, action: PowerAction, actor: PowerActionActor): Promise<PowerActionRecord> {
+  let previousState: PowerState = 'Unknown';
+  try {
+    previousState = await getPowerState(serverId);
+  } catch (error) {
+    console.warn(`Could not read power state of ${serverId} before ${action}:`, error);
+  }
+
+  const record: PowerActionRecord = {
+    action,
+    username: actor.username,
+    ipAddress: actor.ipAddress,
+    previousState,
+    success: true,
+    timestamp: new Date().toISOString()
+  };
+
+  try {
+    const clpError = getClpError(await runIloCommandOnce(POWER_COMMANDS[action], serverId));
+    if (clpError) {
+      throw new Error(`iLO refused ${POWER_COMMANDS[action]}: ${clpError}`);
+    }
+  } catch (error) {
+    record.success = error instanceof CommandOutcomeUnknownError ? null : false;
+    record.error = error instanceof Error ? error.message : String(error);
+  }
+
+  audit(serverId, record);
+  return record;
+}
+
+function audit(serverId: string, record: PowerActionRecord) {
+  const outcome = record.success ? 'done' : `${record.success === null ? 'outcome unknown' : 'failed'} (${record.error})`;
+  console.warn(`⚡ Power ${record.action} on ${serverId} by ${record.username}${record.ipAddress ? ` from ${record.ipAddress}` : ''}: ${outcome}`);
+
+  historicalStorage.storeHistoricalData('power_action', record, serverId).catch(error => {
+    console.error('Failed to store power action audit record:', error);
+  });
+}
+
+// Newest first
+export async function getPowerActionLog(serverId: string, limit: number = 50): Promise<PowerActionRecord[]> {
+  const rows = await historicalStorage.getHistoricalData('power_action', AUDIT_RETENTION_MINUTES, serverId);
+  return rows.map(row => row.data as PowerActionRecord).reverse().slice(0, limit);
+}
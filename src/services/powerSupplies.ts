@@ -0,0 +1,66 @@
+import { getRedfishResource, textValue, numberValue, redfishHealth } from "./redfish.js";
+import { DEFAULT_SERVER_ID } from "./servers.js";
+
+export interface PowerSupply {
+  name: string;
+  bay: number | null;
+  present: boolean;
+  model: string | null;
+  serialNumber: string | null;
+  firmwareVersion: string | null;
+  capacityWatts: number | null;
+  inputVoltage: number | null;
+  outputWatts: number | null; // Last output reading
+  health: string;
+}
+
+export interface PowerSupplyStatus {
+  supplies: PowerSupply[];
+  redundant: boolean | null; // null with a single supply bay, where redundancy does not apply
+  redundancyMode: string | null; // e.g. Failover, only when the iLO reports a redundancy set
+  collectedAt: string;
+}
+
+const POWER_PATH = '/redfish/v1/Chassis/1/Power/';
+
+function toPowerSupply(member: any, index: number): PowerSupply {
+  const present = member.Status?.State !== 'Absent';
+  const bay = numberValue(member.Oem?.Hp?.BayNumber ?? member.Oem?.Hpe?.BayNumber) ?? index + 1;
+
+  return {
+    name: textValue(member.Name) ?? `Power Supply ${bay}`,
+    bay,
+    present,
+    model: present ? textValue(member.Model) : null,
+    serialNumber: present ? textValue(member.SerialNumber) : null,
+    firmwareVersion: present ? textValue(member.FirmwareVersion) : null,
+    capacityWatts: present ? numberValue(member.PowerCapacityWatts) : null,
+    inputVoltage: present ? numberValue(member.LineInputVoltage) : null,
+    outputWatts: present ? numberValue(member.LastPowerOutputWatts) : null,
+    health: redfishHealth(member.Status)
+  };
+}
+
+// Newer firmware reports a Redfish redundancy set, iLO 4 does not, so with two or more bays
+// the supplies count as redundant while at least two of them are healthy
+function redundancyOf(data: any, supplies: PowerSupply[]): Pick<PowerSupplyStatus, 'redundant' | 'redundancyMode'> {
+  const sets: any[] = Array.isArray(data.Redundancy) ? data.Redundancy : [];
+  if (sets.length > 0) {
+    return {
+      redundant: sets.every(set => (set.Status?.Health ?? 'OK') === 'OK' && set.Status?.State !== 'Disabled'),
+      redundancyMode: textValue(sets[0].Mode)
+    };
+  }
+
+  if (supplies.length < 2) return { redundant: null, redundancyMode: null };
+  const healthy = supplies.filter(supply => supply.present && supply.health === 'OK').length;
+  return { redundant: healthy >= 2, redundancyMode: null };
+}
+
+// Every power supply bay with its readings and health, plus whether the supplies are still redundant
+export async function getPowerSupplyStatus(serverId: string = DEFAULT_SERVER_ID): Promise<PowerSupplyStatus> {
+  const data = await getRedfishResource(POWER_PATH, serverId);
+  const supplies = (Array.isArray(data.PowerSupplies) ? data.PowerSupplies : []).map(toPowerSupply);
+
+  return { supplies, ...redundancyOf(data, supplies), collectedAt: new Date().toISOString() };
+}
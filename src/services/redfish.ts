@@ -1,10 +1,13 @@
 import fetch from "node-fetch";
 import base64 from "base-64";
-import { getILoConfig } from "./config.js";
+import { DEFAULT_SERVER_ID, getServerConfig } from "./servers.js";
 import https from "https";
 
 const agent = new https.Agent({ rejectUnauthorized: false });
 
+// An unreachable iLO must not stall callers that poll several servers
+const REQUEST_TIMEOUT_MS = 15000;
+
 interface RedfishFan {
   CurrentReading: number;
   FanName: string;
@@ -35,14 +38,37 @@ interface RedfishThermalResponse {
   Temperatures: RedfishTemperature[];
 }
 
-export async function getThermalData(): Promise<RedfishThermalResponse> {
-  const config = await getILoConfig();
+// Trimmed string of a Redfish (or CLP) property, null when missing or blank
+export const textValue = (value: unknown): string | null => {
+  if (value === undefined || value === null) return null;
+  const trimmed = String(value).trim();
+  return trimmed === '' ? null : trimmed;
+};
+
+// Number of a property given as a number or as text with a unit, e.g. "2400 MHz"
+export const numberValue = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const match = textValue(value)?.match(/(-?\d+(?:\.\d+)?)/);
+  return match ? parseFloat(match[1]) : null;
+};
+
+// Redfish health, or the state when a component is absent or disabled
+export function redfishHealth(status: any): string {
+  if (status?.State && status.State !== 'Enabled') return status.State;
+  return status?.Health ?? 'Unknown';
+}
+
+// GET a Redfish resource by path, e.g. /redfish/v1/Systems/1/
+export async function getRedfishResource<T = any>(resourcePath: string, serverId: string = DEFAULT_SERVER_ID): Promise<T> {
+  const config = await getServerConfig(serverId);
   
   if (!config) {
-    throw new Error("iLO not configured. Please set up iLO connection in Settings.");
+    throw new Error(serverId === DEFAULT_SERVER_ID
+      ? "iLO not configured. Please set up iLO connection in Settings."
+      : `Server ${serverId} is not registered.`);
   }
 
-  const url = `https://${config.host}/redfish/v1/chassis/1/Thermal/`;
+  const url = `https://${config.host}${resourcePath}`;
   const headers = {
     'Authorization': `Basic ${base64.encode(`${config.username}:${config.password}`)}`,
     'Accept': 'application/json',
@@ -53,17 +79,31 @@ export async function getThermalData(): Promise<RedfishThermalResponse> {
     const response = await fetch(url, {
       method: 'GET',
       headers,
-      agent
+      agent,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
     });
 
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
 
-    const data = await response.json() as RedfishThermalResponse;
-    return data;
+    return await response.json() as T;
   } catch (error) {
-    console.error('Failed to fetch thermal data from iLO:', error);
+    console.error(`Failed to fetch ${resourcePath} from iLO ${config.host}:`, error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Every member of a Redfish collection, read one at a time to go easy on the iLO
+export async function getRedfishCollection<T = any>(collectionPath: string, serverId: string = DEFAULT_SERVER_ID): Promise<T[]> {
+  const collection = await getRedfishResource<{ Members?: { '@odata.id': string }[] }>(collectionPath, serverId);
+  const members: T[] = [];
+  for (const member of collection.Members ?? []) {
+    members.push(await getRedfishResource<T>(member['@odata.id'], serverId));
+  }
+  return members;
+}
+
+export async function getThermalData(serverId: string = DEFAULT_SERVER_ID): Promise<RedfishThermalResponse> {
+  return getRedfishResource<RedfishThermalResponse>('/redfish/v1/chassis/1/Thermal/', serverId);
+}
@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { CREDENTIALS_MASTER_KEY } from '../config/env.js';
+
+// AES-256-GCM encryption for credentials stored on disk. The key is derived from
+// CREDENTIALS_MASTER_KEY, or from a keyfile generated on first use.
+const KEY_FILE = path.join(process.cwd(), 'data', 'master.key');
+const KEY_SALT = 'smart-ilo4-credentials';
+const PAYLOAD_VERSION = 'v1';
+
+let derivedKey: Promise<Buffer> | null = null;
+
+async function loadMasterSecret(): Promise<string> {
+  if (CREDENTIALS_MASTER_KEY) {
+    return CREDENTIALS_MASTER_KEY;
+  }
+
+  try {
+    return (await fs.readFile(KEY_FILE, 'utf8')).trim();
+  } catch {
+    const secret = crypto.randomBytes(32).toString('hex');
+    await fs.mkdir(path.dirname(KEY_FILE), { recursive: true });
+    await fs.writeFile(KEY_FILE, secret, { mode: 0o600 });
+    console.log('Generated new credentials master key in data/master.key');
+    return secret;
+  }
+}
+
+// scrypt is deliberately slow, derive once per process
+function getKey(): Promise<Buffer> {
+  if (!derivedKey) {
+    derivedKey = loadMasterSecret().then(secret => crypto.scryptSync(secret, KEY_SALT, 32));
+    derivedKey.catch(() => {
+      derivedKey = null;
+    });
+  }
+  return derivedKey;
+}
+
+export function isEncryptedSecret(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(`${PAYLOAD_VERSION}:`);
+}
+
+// Returns "v1:<iv>:<auth tag>:<ciphertext>", all base64
+export async function encryptSecret(plaintext: string): Promise<string> {
+  const key = await getKey();
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [PAYLOAD_VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+// Throws if the payload was produced with a different master key or has been tampered with
+export async function decryptSecret(payload: string): Promise<string> {
+  const [version, iv, tag, ciphertext] = payload.split(':');
+  if (version !== PAYLOAD_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognized encrypted secret format');
+  }
+
+  const key = await getKey();
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final()
+  ]).toString('utf8');
+}
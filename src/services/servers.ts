@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { ILoConfig, getILoConfig, saveILoConfig } from './config.js';
+import { encryptSecret, decryptSecret } from './secrets.js';
+
+// The server configured through the setup wizard and Settings (config/ilo-config.json).
+// Every single-server code path keeps talking to it.
+export const DEFAULT_SERVER_ID = 'default';
+const DEFAULT_SERVER_NAME = 'Primary';
+
+// Public view of a registered server, credentials are never included
+export interface ServerSummary {
+  id: string;
+  name: string;
+  host: string;
+  username: string;
+  isDefault: boolean;
+  passwordSet: boolean;
+}
+
+export interface ServerInput {
+  name: string;
+  host: string;
+  username: string;
+  password: string;
+}
+
+interface StoredServer {
+  id: string;
+  name: string;
+  host: string;
+  username: string;
+  passwordEncrypted: string;
+  createdAt: string;
+}
+
+interface ServerRegistryFile {
+  defaultServerName?: string;
+  servers: StoredServer[];
+}
+
+const REGISTRY_FILE = path.join(process.cwd(), 'config', 'servers.json');
+
+// Ensure config directory exists
+async function ensureConfigDir() {
+  const configDir = path.dirname(REGISTRY_FILE);
+  try {
+    await fs.access(configDir);
+  } catch {
+    await fs.mkdir(configDir, { recursive: true });
+  }
+}
+
+async function loadRegistry(): Promise<ServerRegistryFile> {
+  try {
+    await ensureConfigDir();
+    const data = await fs.readFile(REGISTRY_FILE, 'utf-8');
+    const registry = JSON.parse(data) as ServerRegistryFile;
+    return { ...registry, servers: registry.servers || [] };
+  } catch {
+    return { servers: [] };
+  }
+}
+
+async function saveRegistry(registry: ServerRegistryFile): Promise<void> {
+  await ensureConfigDir();
+  await fs.writeFile(REGISTRY_FILE, JSON.stringify(registry, null, 2), 'utf-8');
+  await fs.chmod(REGISTRY_FILE, 0o600).catch(() => {
+    // Not supported on every filesystem, the passwords are encrypted regardless
+  });
+}
+
+function toSummary(server: StoredServer): ServerSummary {
+  return {
+    id: server.id,
+    name: server.name,
+    host: server.host,
+    username: server.username,
+    isDefault: false,
+    passwordSet: !!server.passwordEncrypted
+  };
+}
+
+async function getDefaultServer(registry: ServerRegistryFile): Promise<ServerSummary | null> {
+  const config = await getILoConfig();
+  if (!config) return null;
+
+  return {
+    id: DEFAULT_SERVER_ID,
+    name: registry.defaultServerName || DEFAULT_SERVER_NAME,
+    host: config.host,
+    username: config.username,
+    isDefault: true,
+    passwordSet: !!config.password
+  };
+}
+
+export function sameHost(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+// All registered servers, the default one first when it is configured
+export async function listServers(): Promise<ServerSummary[]> {
+  const registry = await loadRegistry();
+  const defaultServer = await getDefaultServer(registry);
+  const servers = registry.servers.map(toSummary);
+  return defaultServer ? [defaultServer, ...servers] : servers;
+}
+
+// Another server already registered for this host, if any
+export async function findServerByHost(host: string, exceptId?: string): Promise<ServerSummary | undefined> {
+  const servers = await listServers();
+  return servers.find(server => server.id !== exceptId && sameHost(server.host, host));
+}
+
+export async function getServer(serverId: string): Promise<ServerSummary | null> {
+  const registry = await loadRegistry();
+  if (serverId === DEFAULT_SERVER_ID) {
+    return getDefaultServer(registry);
+  }
+  const server = registry.servers.find(s => s.id === serverId);
+  return server ? toSummary(server) : null;
+}
+
+// Decrypted connection details used by the SSH and Redfish clients
+export async function getServerConfig(serverId: string = DEFAULT_SERVER_ID): Promise<ILoConfig | null> {
+  if (serverId === DEFAULT_SERVER_ID) {
+    return getILoConfig();
+  }
+
+  const registry = await loadRegistry();
+  const server = registry.servers.find(s => s.id === serverId);
+  if (!server) return null;
+
+  try {
+    const password = await decryptSecret(server.passwordEncrypted);
+    return { host: server.host, username: server.username, password };
+  } catch (error) {
+    console.error(`Could not decrypt the stored password for server ${server.name}, was the master key changed?`, error);
+    throw error;
+  }
+}
+
+export async function isServerConfigured(serverId: string = DEFAULT_SERVER_ID): Promise<boolean> {
+  const config = await getServerConfig(serverId);
+  return config !== null && !!config.host && !!config.username && !!config.password;
+}
+
+export async function addServer(input: ServerInput): Promise<ServerSummary> {
+  const registry = await loadRegistry();
+  const server: StoredServer = {
+    id: crypto.randomBytes(8).toString('hex'),
+    name: input.name.trim(),
+    host: input.host.trim(),
+    username: input.username,
+    passwordEncrypted: await encryptSecret(input.password),
+    createdAt: new Date().toISOString()
+  };
+
+  registry.servers.push(server);
+  await saveRegistry(registry);
+  console.log(`🖥️ Registered server ${server.name} (${server.host})`);
+  return toSummary(server);
+}
+
+// Replaces a server's details, use resolveServerPassword to keep the stored password
+export async function updateServer(serverId: string, input: ServerInput): Promise<ServerSummary | null> {
+  const registry = await loadRegistry();
+  const details = { host: input.host.trim(), username: input.username, password: input.password };
+
+  if (serverId === DEFAULT_SERVER_ID) {
+    await saveILoConfig(details);
+    registry.defaultServerName = input.name.trim();
+    await saveRegistry(registry);
+    return getDefaultServer(registry);
+  }
+
+  const server = registry.servers.find(s => s.id === serverId);
+  if (!server) return null;
+
+  server.name = input.name.trim();
+  server.host = details.host;
+  server.username = details.username;
+  server.passwordEncrypted = await encryptSecret(details.password);
+
+  await saveRegistry(registry);
+  return toSummary(server);
+}
+
+// Reuse the stored password when none is given, but only for the host it belongs to
+// so changing the host cannot send the saved password somewhere else
+export async function resolveServerPassword(serverId: string, host: string, password?: string): Promise<string | undefined> {
+  if (password) return password;
+  const existing = await getServerConfig(serverId);
+  return existing && sameHost(existing.host, host) ? existing.password : undefined;
+}
+
+// The default server is managed through the iLO settings and cannot be removed here
+export async function removeServer(serverId: string): Promise<boolean> {
+  if (serverId === DEFAULT_SERVER_ID) {
+    throw new Error('The primary server cannot be removed');
+  }
+
+  const registry = await loadRegistry();
+  const index = registry.servers.findIndex(s => s.id === serverId);
+  if (index === -1) return false;
+
+  const [removed] = registry.servers.splice(index, 1);
+  await saveRegistry(registry);
+  console.log(`🖥️ Removed server ${removed.name} (${removed.host})`);
+  return true;
+}
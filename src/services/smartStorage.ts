@@ -0,0 +1,135 @@
+import { getRedfishResource, getRedfishCollection, textValue, numberValue, redfishHealth } from "./redfish.js";
+import { DEFAULT_SERVER_ID } from "./servers.js";
+
+export interface LogicalDrive {
+  number: number | null;
+  name: string;
+  raidLevel: string | null;
+  capacityMiB: number | null;
+  health: string;
+  statusReasons: string[];
+}
+
+export interface PhysicalDrive {
+  name: string; // Controller and bay, unique per server and used as the key of the temperature history
+  location: string;
+  model: string | null;
+  serialNumber: string | null;
+  mediaType: string | null;
+  interfaceType: string | null;
+  capacityMiB: number | null;
+  temperatureCelsius: number | null;
+  maxTemperatureCelsius: number | null; // Highest temperature the drive has recorded
+  ssdEndurancePercent: number | null; // Share of the rated SSD endurance used up
+  failurePredicted: boolean;
+  health: string;
+  statusReasons: string[];
+}
+
+export interface StorageController {
+  location: string;
+  model: string;
+  serialNumber: string | null;
+  firmwareVersion: string | null;
+  health: string;
+  cacheSizeMiB: number | null;
+  cacheStatus: string | null;
+  batteryStatus: string | null; // Backup power source that protects the write cache
+  logicalDrives: LogicalDrive[];
+  physicalDrives: PhysicalDrive[];
+}
+
+export interface SmartStorageStatus {
+  controllers: StorageController[];
+  collectedAt: string;
+}
+
+const ARRAY_CONTROLLERS_PATH = '/redfish/v1/Systems/1/SmartStorage/ArrayControllers/';
+
+// Status reasons other than the "None" placeholder
+function reasons(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String).filter(reason => reason !== 'None') : [];
+}
+
+// Links are { "@odata.id": ... } on current firmware, { href: ... } on early iLO 4 releases
+function linkOf(link: any): string | null {
+  return textValue(link?.['@odata.id']) ?? textValue(link?.href);
+}
+
+function toLogicalDrive(member: any): LogicalDrive {
+  return {
+    number: numberValue(member.LogicalDriveNumber),
+    name: textValue(member.LogicalDriveName) ?? textValue(member.Name) ?? `Logical drive ${member.LogicalDriveNumber ?? ''}`.trim(),
+    raidLevel: textValue(member.Raid),
+    capacityMiB: numberValue(member.CapacityMiB),
+    health: redfishHealth(member.Status),
+    statusReasons: reasons(member.LogicalDriveStatusReasons)
+  };
+}
+
+function toPhysicalDrive(member: any, controllerLocation: string, index: number): PhysicalDrive {
+  const location = textValue(member.Location) ?? `Drive ${index + 1}`;
+  const statusReasons = reasons(member.DiskDriveStatusReasons);
+
+  return {
+    name: `${controllerLocation} ${location}`,
+    location,
+    model: textValue(member.Model),
+    serialNumber: textValue(member.SerialNumber),
+    mediaType: textValue(member.MediaType),
+    interfaceType: textValue(member.InterfaceType),
+    capacityMiB: numberValue(member.CapacityMiB),
+    temperatureCelsius: numberValue(member.CurrentTemperatureCelsius),
+    maxTemperatureCelsius: numberValue(member.MaximumTemperatureCelsius),
+    ssdEndurancePercent: numberValue(member.SSDEnduranceUtilizationPercentage),
+    failurePredicted: member.FailurePredicted === true || statusReasons.some(reason => /predict/i.test(reason)),
+    health: redfishHealth(member.Status),
+    statusReasons
+  };
+}
+
+// Drives behind a controller link, an absent link means the controller has none of that kind
+async function getLinkedMembers(link: any, serverId: string): Promise<any[]> {
+  const path = linkOf(link);
+  return path ? getRedfishCollection(path, serverId) : [];
+}
+
+async function getController(member: any, serverId: string): Promise<StorageController> {
+  const location = textValue(member.Location) ?? textValue(member.Id) ?? 'Controller';
+  const cacheModule = member.CacheModuleStatus;
+  const logicalDrives = await getLinkedMembers(member.Links?.LogicalDrives, serverId);
+  const physicalDrives = await getLinkedMembers(member.Links?.PhysicalDrives, serverId);
+
+  return {
+    location,
+    model: textValue(member.Model) ?? 'Smart Array',
+    serialNumber: textValue(member.SerialNumber),
+    firmwareVersion: textValue(member.FirmwareVersion?.Current?.VersionString),
+    health: redfishHealth(member.Status),
+    cacheSizeMiB: numberValue(member.CacheMemorySizeMiB),
+    cacheStatus: typeof cacheModule === 'object' ? textValue(cacheModule?.Health) : textValue(cacheModule),
+    batteryStatus: textValue(member.BackupPowerSourceStatus),
+    logicalDrives: logicalDrives.map(toLogicalDrive),
+    physicalDrives: physicalDrives.map((drive, index) => toPhysicalDrive(drive, location, index))
+  };
+}
+
+// Smart Array controllers with their logical and physical drives, read one resource at a time
+export async function getSmartStorageStatus(serverId: string = DEFAULT_SERVER_ID): Promise<SmartStorageStatus> {
+  const collection = await getRedfishResource<{ Members?: any[] }>(ARRAY_CONTROLLERS_PATH, serverId);
+  const controllers: StorageController[] = [];
+  for (const member of collection.Members ?? []) {
+    const path = linkOf(member);
+    if (!path) continue;
+    controllers.push(await getController(await getRedfishResource(path, serverId), serverId));
+  }
+
+  return { controllers, collectedAt: new Date().toISOString() };
+}
+
+// Physical drives reporting a temperature, as recorded to history
+export function driveTemperatures(status: SmartStorageStatus): { name: string; temperature: number; health: string }[] {
+  return status.controllers.flatMap(controller => controller.physicalDrives)
+    .filter(drive => drive.temperatureCelsius !== null)
+    .map(drive => ({ name: drive.name, temperature: drive.temperatureCelsius!, health: drive.health }));
+}
@@ -1,5 +1,8 @@
 import { NodeSSH } from "node-ssh";
-import { getILoConfig } from "./config.js";
+import { DEFAULT_SERVER_ID, getServerConfig } from "./servers.js";
+
+// A command that was sent but never answered, it may or may not have run on the iLO
+export class CommandOutcomeUnknownError extends Error {}
 
 interface SSHConnection {
   ssh: NodeSSH;
@@ -84,28 +87,32 @@ class SSHConnectionPool {
     return ssh;
   }
 
-  async executeCommand(command: string): Promise<string> {
-    const config = await getILoConfig();
+  async executeCommand(command: string, serverId: string, maxRetries: number = 2): Promise<string> {
+    const config = await getServerConfig(serverId);
     
     if (!config) {
-      throw new Error("iLO not configured. Please set up iLO connection in Settings.");
+      throw new Error(serverId === DEFAULT_SERVER_ID
+        ? "iLO not configured. Please set up iLO connection in Settings."
+        : `Server ${serverId} is not registered.`);
     }
 
     let retries = 0;
-    const maxRetries = 2;
 
     while (retries <= maxRetries) {
+      let sent = false;
       try {
         const ssh = await this.getConnection(config);
         
         console.log(`Executing SSH command on ${config.host}: ${command}`);
         
+        sent = true;
         const { stdout, stderr } = await ssh.execCommand(command, {
           execOptions: { timeout: this.COMMAND_TIMEOUT }
         });
         
         if (stderr) {
           console.warn(`SSH command stderr on ${config.host}:`, stderr);
+          sent = false;
           throw new Error(stderr);
         }
         
@@ -125,6 +132,11 @@ class SSHConnectionPool {
         console.error(`SSH command failed on ${config.host} (attempt ${retries}/${maxRetries + 1}):`, error.message);
         
         if (retries > maxRetries) {
+          if (maxRetries === 0) {
+            throw sent
+              ? new CommandOutcomeUnknownError(`No answer from ${config.host} after sending the command: ${error.message}`)
+              : new Error(`SSH command failed: ${error.message}`);
+          }
           throw new Error(`SSH command failed after ${maxRetries + 1} attempts: ${error.message}`);
         }
         
@@ -137,6 +149,19 @@ class SSHConnectionPool {
     throw new Error('Maximum retries exceeded');
   }
 
+  // Drop pooled connections to a host, e.g. after its server entry was changed or removed
+  closeHostConnections(host: string): void {
+    for (const [key, connection] of this.connections.entries()) {
+      if (connection.host !== host) continue;
+      try {
+        connection.ssh.dispose();
+      } catch (error) {
+        console.warn(`Error disposing SSH connection to ${connection.host}:`, error);
+      }
+      this.connections.delete(key);
+    }
+  }
+
   private cleanupIdleConnections(): void {
     const now = Date.now();
     const keysToRemove: string[] = [];
@@ -198,9 +223,22 @@ class SSHConnectionPool {
 // Create singleton SSH connection pool
 const sshPool = new SSHConnectionPool();
 
-// Export the main function that uses the pool
-export async function runIloCommand(command: string): Promise<string> {
-  return sshPool.executeCommand(command);
+// Export the main function that uses the pool, commands go to the default server unless told otherwise
+export async function runIloCommand(command: string, serverId: string = DEFAULT_SERVER_ID): Promise<string> {
+  return sshPool.executeCommand(command, serverId);
+}
+
+// Single attempt for commands that must not run twice, a retry could repeat one that already went through
+export async function runIloCommandOnce(command: string, serverId: string = DEFAULT_SERVER_ID): Promise<string> {
+  return sshPool.executeCommand(command, serverId, 0);
+}
+
+// SMASH CLP verbs report a refused command in their status block rather than failing the session
+export function getClpError(output: string): string | null {
+  const status = output.match(/status_tag=(.+)/);
+  if (!status || status[1].trim() === 'COMMAND COMPLETED') return null;
+  const detail = output.match(/error_tag=(.+)/);
+  return (detail?.[1] ?? status[1]).trim();
 }
 
 // Export pool management functions
@@ -208,6 +246,10 @@ export async function closeSSHConnections(): Promise<void> {
   return sshPool.closeAllConnections();
 }
 
+export function closeHostConnections(host: string): void {
+  sshPool.closeHostConnections(host);
+}
+
 export function getSSHConnectionStats(): { total: number; connected: number; hosts: string[] } {
   return sshPool.getConnectionStats();
 }
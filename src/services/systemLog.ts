@@ -1,4 +1,5 @@
 import { centralizedDataFetcher } from "./centralizedDataFetcher.js";
+import { LogRecordQuery, StoredLogRecord } from "./historicalStorage.js";
 
 export interface SystemLogRecord {
   number: number;
@@ -8,6 +9,70 @@ export interface SystemLogRecord {
   description: string;
 }
 
+// An entry of the iLO Event Log (/map1/log1): logins, iLO resets, license changes, firmware flashes
+export interface IloEventRecord {
+  number: number;
+  severity: 'Caution' | 'Critical' | 'Informational' | 'OK';
+  date: string;
+  time: string;
+  description: string;
+}
+
+export const LOG_SEVERITIES: SystemLogRecord['severity'][] = ['Critical', 'Caution', 'Informational', 'OK'];
+
+// The iLO reports MM/DD/YYYY and HH:MM in its own clock, entries logged before the clock was set have no usable date
+export function logRecordTimestamp(date: string, time: string): number | null {
+  const timestamp = new Date(`${date} ${time}`).getTime();
+  return Number.isNaN(timestamp) ? null : timestamp;
+}
+
+// Filters from the query string of the log browser and its export
+export function toLogRecordQuery(query: any): LogRecordQuery {
+  const list = (value: any) => typeof value === 'string' && value ? value.split(',') : undefined;
+  const time = (value: any) => typeof value === 'string' && value ? (/^\d+$/.test(value) ? Number(value) : Date.parse(value)) : undefined;
+  return {
+    severities: list(query.severity),
+    from: time(query.from),
+    to: time(query.to),
+    search: typeof query.search === 'string' ? query.search.trim() || undefined : undefined,
+    acknowledged: query.acknowledged === 'true' ? true : query.acknowledged === 'false' ? false : undefined
+  };
+}
+
+export function validateLogRecordQuery(query: LogRecordQuery): string | null {
+  if (query.severities?.some(severity => !LOG_SEVERITIES.includes(severity as SystemLogRecord['severity']))) {
+    return `severity must be a comma separated list of ${LOG_SEVERITIES.join(', ')}`;
+  }
+  if (query.from !== undefined && Number.isNaN(query.from)) return 'from must be a date or a timestamp in milliseconds';
+  if (query.to !== undefined && Number.isNaN(query.to)) return 'to must be a date or a timestamp in milliseconds';
+  if (query.from !== undefined && query.to !== undefined && query.from > query.to) return 'from must not be after to';
+  if (query.search && query.search.length > 200) return 'search must be at most 200 characters';
+  return null;
+}
+
+const csvField = (value: string | number | null) => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function logRecordsToCsv(records: StoredLogRecord[]): string {
+  const headers = ['generation', 'number', 'severity', 'date', 'time', 'description', 'acknowledgedAt', 'acknowledgedBy'];
+  return [
+    headers.join(','),
+    ...records.map(record => [
+      record.generation,
+      record.number,
+      record.severity,
+      record.date,
+      record.time,
+      record.description,
+      record.acknowledgedAt === null ? null : new Date(record.acknowledgedAt).toISOString(),
+      record.acknowledgedBy
+    ].map(csvField).join(','))
+  ].join('\n');
+}
+
 export async function getRecentSystemLogs(): Promise<SystemLogRecord[]> {
   try {
     const result = centralizedDataFetcher.getSystemLogs();
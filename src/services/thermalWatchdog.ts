@@ -0,0 +1,335 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getSensors, lockAllFans, unlockFanControl } from './ilo.js';
+import { isILoConfigured } from './config.js';
+import { historicalStorage } from './historicalStorage.js';
+import { DEFAULT_SERVER_ID } from './servers.js';
+
+export interface WatchdogConfig {
+  enabled: boolean;
+  marginCelsius: number; // Trip when a reading comes within this many °C of its critical threshold
+  releaseHysteresis: number; // °C below the trip point every sensor must fall before releasing
+  action: 'unlock' | 'high-speed'; // Hand fans back to iLO or lock them at safeSpeed
+  safeSpeed: number;
+  intervalSeconds: number;
+}
+
+export interface WatchdogEvent {
+  timestamp: string;
+  type: 'tripped' | 'released' | 'action-failed';
+  sensor?: string;
+  reading?: number;
+  threshold?: number;
+  level?: 'critical' | 'fatal';
+  action?: WatchdogConfig['action'];
+  message: string;
+}
+
+export interface WatchdogStatus {
+  serverId: string;
+  enabled: boolean;
+  running: boolean;
+  tripped: boolean;
+  trippedSince: string | null;
+  lastCheck: string | null;
+  hottestMargin: { sensor: string; reading: number; threshold: number; margin: number } | null;
+  config: WatchdogConfig;
+  recentEvents: WatchdogEvent[];
+  lastError?: string;
+}
+
+type Sensor = {
+  name: string;
+  reading: number;
+  critical?: number;
+  fatal?: number;
+};
+
+interface WatchdogConfigFile extends WatchdogConfig {
+  lastUpdated?: string;
+}
+
+const CONFIG_FILE = path.join(process.cwd(), 'config', 'watchdog-config.json');
+const MAX_EVENTS = 50;
+
+const DEFAULT_CONFIG: WatchdogConfig = {
+  enabled: true,
+  marginCelsius: 5,
+  releaseHysteresis: 3,
+  action: 'unlock',
+  safeSpeed: 100,
+  intervalSeconds: 30
+};
+
+// Ensure config directory exists
+async function ensureConfigDir() {
+  const configDir = path.dirname(CONFIG_FILE);
+  try {
+    await fs.access(configDir);
+  } catch {
+    await fs.mkdir(configDir, { recursive: true });
+  }
+}
+
+// Validate a watchdog configuration submitted through the API, returns an error message or null
+export function validateWatchdogConfig(config: any): string | null {
+  if (typeof config.enabled !== 'boolean') return 'enabled must be a boolean';
+  if (typeof config.marginCelsius !== 'number' || config.marginCelsius < 0 || config.marginCelsius > 30) {
+    return 'marginCelsius must be between 0 and 30';
+  }
+  if (typeof config.releaseHysteresis !== 'number' || config.releaseHysteresis < 0 || config.releaseHysteresis > 20) {
+    return 'releaseHysteresis must be between 0 and 20';
+  }
+  if (config.action !== 'unlock' && config.action !== 'high-speed') return "action must be 'unlock' or 'high-speed'";
+  if (typeof config.safeSpeed !== 'number' || config.safeSpeed < 50 || config.safeSpeed > 100) {
+    return 'safeSpeed must be between 50 and 100';
+  }
+  if (typeof config.intervalSeconds !== 'number' || config.intervalSeconds < 10 || config.intervalSeconds > 300) {
+    return 'intervalSeconds must be between 10 and 300';
+  }
+  return null;
+}
+
+// Shared by the watchdogs of every server, loaded once on startup
+let watchdogConfig: WatchdogConfig = { ...DEFAULT_CONFIG };
+
+async function loadConfig(): Promise<WatchdogConfig> {
+  try {
+    await ensureConfigDir();
+    const data = await fs.readFile(CONFIG_FILE, 'utf-8');
+    const config: WatchdogConfigFile = JSON.parse(data);
+    const merged = { ...DEFAULT_CONFIG, ...config };
+    delete (merged as WatchdogConfigFile).lastUpdated;
+    return validateWatchdogConfig(merged) ? { ...DEFAULT_CONFIG } : merged;
+  } catch {
+    return { ...DEFAULT_CONFIG };
+  }
+}
+
+class ThermalWatchdog {
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isChecking = false;
+  private tripped = false;
+  private trippedSince: string | null = null;
+  private lastCheck: string | null = null;
+  private lastError?: string;
+  private hottestMargin: WatchdogStatus['hottestMargin'] = null;
+  private events: WatchdogEvent[] = [];
+
+  constructor(private readonly serverId: string) {}
+
+  private get config(): WatchdogConfig {
+    return watchdogConfig;
+  }
+
+  // Does nothing when already running, so it can be called whenever the server's fetcher starts
+  start() {
+    if (!this.checkInterval) {
+      this.schedule();
+    }
+  }
+
+  stop() {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  isTripped(): boolean {
+    return this.tripped;
+  }
+
+  getStatus(): WatchdogStatus {
+    return {
+      serverId: this.serverId,
+      enabled: this.config.enabled,
+      running: this.checkInterval !== null,
+      tripped: this.tripped,
+      trippedSince: this.trippedSince,
+      lastCheck: this.lastCheck,
+      hottestMargin: this.hottestMargin,
+      config: { ...this.config },
+      recentEvents: [...this.events].reverse(),
+      lastError: this.lastError
+    };
+  }
+
+  // Called when the shared configuration changes
+  reconfigure() {
+    if (!this.config.enabled && this.tripped) {
+      this.release('Watchdog disabled while tripped');
+    }
+    this.schedule();
+  }
+
+  private schedule() {
+    this.stop();
+    if (!this.config.enabled) {
+      console.log(`Thermal watchdog of ${this.serverId} is disabled`);
+      return;
+    }
+
+    this.checkInterval = setInterval(() => {
+      this.check();
+    }, this.config.intervalSeconds * 1000);
+    console.log(`Thermal watchdog of ${this.serverId} started - checking every ${this.config.intervalSeconds} seconds`);
+  }
+
+  private async check() {
+    if (this.isChecking) return;
+    this.isChecking = true;
+
+    try {
+      // Registered servers are configured when added, only the default one goes through setup
+      if (this.serverId === DEFAULT_SERVER_ID && !(await isILoConfigured())) return;
+
+      const sensors = (await getSensors(this.serverId)) as Sensor[];
+      this.lastCheck = new Date().toISOString();
+      this.lastError = undefined;
+
+      let worst: { sensor: Sensor; threshold: number; level: 'critical' | 'fatal'; margin: number } | null = null;
+
+      for (const sensor of sensors) {
+        if (typeof sensor.reading !== 'number' || sensor.reading <= 0) continue;
+
+        // Compare against whichever of the critical and fatal thresholds is closer
+        const candidates: Array<{ threshold: number; level: 'critical' | 'fatal' }> = [];
+        if (sensor.critical) candidates.push({ threshold: sensor.critical, level: 'critical' });
+        if (sensor.fatal) candidates.push({ threshold: sensor.fatal, level: 'fatal' });
+
+        for (const candidate of candidates) {
+          const margin = candidate.threshold - sensor.reading;
+          if (!worst || margin < worst.margin) {
+            worst = { sensor, threshold: candidate.threshold, level: candidate.level, margin };
+          }
+        }
+      }
+
+      this.hottestMargin = worst
+        ? { sensor: worst.sensor.name, reading: worst.sensor.reading, threshold: worst.threshold, margin: worst.margin }
+        : null;
+
+      if (!worst) {
+        // getSensors returns nothing when the iLO cannot be read, which says nothing about the temperatures
+        this.lastError = 'No temperature readings available';
+        if (this.tripped) {
+          await this.applySafeAction();
+        }
+      } else if (worst.margin <= this.config.marginCelsius) {
+        if (!this.tripped) {
+          this.tripped = true;
+          this.trippedSince = new Date().toISOString();
+          this.recordEvent({
+            timestamp: this.trippedSince,
+            type: 'tripped',
+            sensor: worst.sensor.name,
+            reading: worst.sensor.reading,
+            threshold: worst.threshold,
+            level: worst.level,
+            action: this.config.action,
+            message: `${worst.sensor.name} at ${worst.sensor.reading}°C is within ${this.config.marginCelsius}°C of its ${worst.level} threshold (${worst.threshold}°C)`
+          });
+        }
+        // Re-apply on every check so a manual lock set while tripped is overridden again
+        await this.applySafeAction();
+      } else if (this.tripped && worst.margin > this.config.marginCelsius + this.config.releaseHysteresis) {
+        this.release('All sensors are back below the watchdog margin');
+      }
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Thermal watchdog check of ${this.serverId} failed:`, error);
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private async applySafeAction() {
+    try {
+      if (this.config.action === 'unlock') {
+        await unlockFanControl(this.serverId);
+      } else {
+        await lockAllFans(this.config.safeSpeed, this.serverId);
+      }
+    } catch (error) {
+      this.recordEvent({
+        timestamp: new Date().toISOString(),
+        type: 'action-failed',
+        action: this.config.action,
+        message: `Failed to apply safe fan action: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+  }
+
+  private release(message: string) {
+    this.tripped = false;
+    this.trippedSince = null;
+    this.recordEvent({
+      timestamp: new Date().toISOString(),
+      type: 'released',
+      message
+    });
+  }
+
+  private recordEvent(event: WatchdogEvent) {
+    this.events.push(event);
+    if (this.events.length > MAX_EVENTS) {
+      this.events = this.events.slice(-MAX_EVENTS);
+    }
+
+    const log = event.type === 'released' ? console.log : console.warn;
+    log(`🌡️ Thermal watchdog of ${this.serverId} ${event.type}: ${event.message}`);
+
+    historicalStorage.storeHistoricalData('watchdog', event, this.serverId).catch(error => {
+      console.error('Failed to store thermal watchdog event:', error);
+    });
+  }
+}
+
+// Export singleton instance for the default server
+export const thermalWatchdog = new ThermalWatchdog(DEFAULT_SERVER_ID);
+export default thermalWatchdog;
+
+// One watchdog per registered server, every server that can have its fans locked is covered
+const watchdogs = new Map<string, ThermalWatchdog>([[DEFAULT_SERVER_ID, thermalWatchdog]]);
+
+export function getThermalWatchdog(serverId: string): ThermalWatchdog {
+  let watchdog = watchdogs.get(serverId);
+  if (!watchdog) {
+    watchdog = new ThermalWatchdog(serverId);
+    watchdogs.set(serverId, watchdog);
+  }
+  return watchdog;
+}
+
+export function removeThermalWatchdog(serverId: string): void {
+  const watchdog = watchdogs.get(serverId);
+  if (!watchdog || serverId === DEFAULT_SERVER_ID) return;
+
+  watchdog.stop();
+  watchdogs.delete(serverId);
+}
+
+// Load the configuration and start the default server's watchdog, the others start with their fetchers
+export async function startThermalWatchdog(): Promise<void> {
+  watchdogConfig = await loadConfig();
+  thermalWatchdog.start();
+}
+
+export function getWatchdogConfig(): WatchdogConfig {
+  return { ...watchdogConfig };
+}
+
+export async function updateWatchdogConfig(config: WatchdogConfig): Promise<void> {
+  await ensureConfigDir();
+  const configToSave: WatchdogConfigFile = {
+    ...config,
+    lastUpdated: new Date().toISOString()
+  };
+  await fs.writeFile(CONFIG_FILE, JSON.stringify(configToSave, null, 2), 'utf-8');
+
+  watchdogConfig = { ...config };
+  for (const watchdog of watchdogs.values()) {
+    watchdog.reconfigure();
+  }
+}